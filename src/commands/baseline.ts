@@ -0,0 +1,126 @@
+/**
+ * baseline command - Record known problems so CI only fails on new ones
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import {
+  BASELINE_FILE, compareWithBaseline, createBaseline, createConfiguredAnalyzer, loadBaseline, pruneBaseline, saveBaseline,
+  type BaselineEntry, type Problem, type RuleId,
+} from '../core/index.js';
+import { createGraphAnalyzer } from '../graph/index.js';
+import { runDiagnosis } from './diagnose.js';
+
+interface BaselineOptions {
+  json?: boolean;
+}
+
+export async function baselineCommand(action: string, options: BaselineOptions = {}): Promise<void> {
+  if (action !== 'create' && action !== 'prune') {
+    console.error(chalk.red(`Unknown baseline action "${action}" (expected create or prune)`));
+    process.exit(1);
+  }
+
+  const spinner = ora('Analyzing codebase...').start();
+
+  try {
+    const rootDir = process.cwd();
+    const existing = action === 'prune' ? loadBaseline(rootDir) : undefined;
+    if (action === 'prune' && !existing) {
+      spinner.fail(`No baseline found at ${BASELINE_FILE}`);
+      console.error(chalk.gray('Run `consuela baseline create` first.'));
+      process.exit(1);
+    }
+
+    const analyzer = createConfiguredAnalyzer();
+    const [analysis, graph] = await Promise.all([
+      analyzer.analyze(),
+      createGraphAnalyzer().buildGraph(),
+    ]);
+    const { problems } = runDiagnosis(analyzer, analysis, graph);
+
+    spinner.succeed('Analysis complete');
+
+    if (existing) {
+      const { fixedEntries } = compareWithBaseline(problems, existing);
+      const pruned = pruneBaseline(existing, fixedEntries);
+      saveBaseline(rootDir, pruned);
+
+      if (options.json) {
+        console.log(JSON.stringify({ file: BASELINE_FILE, removed: fixedEntries, remaining: pruned.entries.length }, null, 2));
+        return;
+      }
+
+      console.log(chalk.cyan('\n📋 Baseline pruned\n'));
+      console.log(`  Removed ${chalk.green(fixedEntries.length)} fixed entr${fixedEntries.length === 1 ? 'y' : 'ies'}, ${pruned.entries.length} remaining`);
+      printEntries(fixedEntries);
+      console.log('');
+      return;
+    }
+
+    const baseline = createBaseline(problems);
+    saveBaseline(rootDir, baseline);
+
+    if (options.json) {
+      console.log(JSON.stringify({ file: BASELINE_FILE, entries: baseline.entries.length }, null, 2));
+      return;
+    }
+
+    const byCategory = new Map<string, number>();
+    for (const entry of baseline.entries) {
+      byCategory.set(entry.category, (byCategory.get(entry.category) || 0) + 1);
+    }
+
+    console.log(chalk.cyan('\n📋 Baseline created\n'));
+    console.log(`  ${chalk.white(BASELINE_FILE)}: ${baseline.entries.length} known problem(s)`);
+    for (const [category, count] of byCategory) {
+      console.log(chalk.gray(`    ${category}: ${count}`));
+    }
+    console.log(chalk.gray('\n  Commit this file. `--fail` runs now fail only on problems it does not list.'));
+    console.log(chalk.gray('  If .consuela/ is git-ignored, ignore .consuela/* instead and add !.consuela/baseline.json\n'));
+  } catch (error) {
+    spinner.fail('Baseline failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Number of problems that should fail a `--fail` run: all of them without a
+ * baseline, only new ones with it. Prints a summary unless `quiet`.
+ */
+export function countFailingProblems(problems: Problem[], rules: RuleId[], quiet?: boolean): number {
+  const baseline = loadBaseline(process.cwd());
+  if (!baseline) return problems.length;
+
+  const { newProblems, knownProblems, fixedEntries } = compareWithBaseline(problems, baseline, rules);
+  if (quiet) return newProblems.length;
+
+  console.log(chalk.cyan('📋 Baseline\n'));
+  console.log(`  ${knownProblems.length} known problem(s) ignored, ${newProblems.length > 0 ? chalk.red(`${newProblems.length} new`) : chalk.green('0 new')}`);
+  for (const problem of newProblems.slice(0, 10)) {
+    const fileLabel = problem.file ? chalk.gray(`${problem.file}: `) : '';
+    console.log(`    ${chalk.red('+')} ${fileLabel}${problem.message}`);
+  }
+  if (newProblems.length > 10) {
+    console.log(chalk.gray(`    ... and ${newProblems.length - 10} more`));
+  }
+
+  if (fixedEntries.length > 0) {
+    console.log(chalk.green(`\n  ✓ ${fixedEntries.length} baseline entr${fixedEntries.length === 1 ? 'y is' : 'ies are'} fixed - run \`consuela baseline prune\` to remove them`));
+    printEntries(fixedEntries);
+  }
+  console.log('');
+
+  return newProblems.length;
+}
+
+function printEntries(entries: BaselineEntry[]): void {
+  for (const entry of entries.slice(0, 10)) {
+    const fileLabel = entry.file ? chalk.gray(`${entry.file}: `) : '';
+    console.log(`    ${chalk.green('-')} ${fileLabel}${entry.symbol ?? entry.message} ${chalk.gray(`(${entry.category})`)}`);
+  }
+  if (entries.length > 10) {
+    console.log(chalk.gray(`    ... and ${entries.length - 10} more`));
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * check command - Enforce the architecture rules from .consuelarc
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import {
+  createConfiguredAnalyzer, loadProjectConfig, parseReportFormat, problemFromRuleViolation, renderReport,
+  type RuleViolation,
+} from '../core/index.js';
+import { countFailingProblems } from './baseline.js';
+
+interface CheckOptions {
+  json?: boolean;
+  format?: string;
+  fail?: boolean;
+}
+
+export async function checkCommand(options: CheckOptions): Promise<void> {
+  const spinner = ora('Analyzing codebase...').start();
+
+  try {
+    const format = parseReportFormat(options.format, options.json);
+    const rules = loadProjectConfig(process.cwd()).rules || [];
+    const analyzer = createConfiguredAnalyzer();
+    const analysis = await analyzer.analyze();
+    const violations = analyzer.findRuleViolations(analysis);
+
+    spinner.succeed('Analysis complete');
+
+    const problems = violations.map(problemFromRuleViolation);
+    const quiet = format !== 'text';
+
+    if (format === 'sarif' || format === 'codeclimate') {
+      console.log(renderReport(format, problems));
+    } else if (format === 'json') {
+      console.log(JSON.stringify({ rules: rules.length, count: violations.length, violations }, null, 2));
+    } else {
+      printViolations(violations, rules.length);
+    }
+
+    if (options.fail && countFailingProblems(problems, ['architecture-violation'], quiet) > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spinner.fail('Analysis failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function printViolations(violations: RuleViolation[], ruleCount: number): void {
+  console.log(chalk.cyan('\n🏛️  Architecture Rules\n'));
+  console.log(chalk.gray('─'.repeat(50)));
+
+  if (ruleCount === 0) {
+    console.log(chalk.yellow('\n  No rules configured.'));
+    console.log(chalk.gray('  Add a "rules" section to .consuelarc, for example:'));
+    console.log(chalk.gray('    "rules": [{ "from": "src/domain/**", "to": "src/infra/**" }]\n'));
+    return;
+  }
+
+  if (violations.length === 0) {
+    console.log(chalk.green(`\n  ✓ All imports follow the ${ruleCount} rule(s)\n`));
+    return;
+  }
+
+  const byRule = new Map<string, RuleViolation[]>();
+  for (const violation of violations) {
+    byRule.set(violation.rule, [...(byRule.get(violation.rule) || []), violation]);
+  }
+
+  console.log(chalk.red(`\n  ${violations.length} forbidden import(s):\n`));
+  for (const [rule, ruleViolations] of byRule) {
+    console.log(`  ${chalk.red('✗')} ${chalk.white(rule)} ${chalk.gray(`(${ruleViolations.length})`)}`);
+    if (ruleViolations[0].message) {
+      console.log(chalk.gray(`    ${ruleViolations[0].message}`));
+    }
+    for (const violation of ruleViolations.slice(0, 10)) {
+      console.log(`    ${chalk.gray(`${violation.file}:${violation.line}`)} → ${violation.target} ${chalk.gray(`('${violation.source}')`)}`);
+    }
+    if (ruleViolations.length > 10) {
+      console.log(chalk.gray(`    ... and ${ruleViolations.length - 10} more`));
+    }
+    console.log('');
+  }
+
+  console.log(chalk.gray('  Silence a single import with a consuela-ignore architecture comment.\n'));
+}
@@ -1,41 +1,89 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { createConfiguredAnalyzer } from '../core/index.js';
+import {
+  analyzeCycles, createConfiguredAnalyzer, findPackageOf, isCycleSuppressed, parseReportFormat, problemFromCycle, renderReport,
+  type CycleAnalysis, type WorkspacePackage,
+} from '../core/index.js';
+import { applyCycleBreaks, planCycleBreaks, type CycleFixPlan } from '../refactor/operations/break-cycles.js';
+import { countFailingProblems } from './baseline.js';
+import { printDiffPreview } from './cleanup.js';
 
 interface CircularOptions {
   json?: boolean;
+  format?: string;
   fail?: boolean;
+  /** Ignore type-only imports, which are erased at runtime */
+  runtimeOnly?: boolean;
+  /** Break the cycles instead of listing them */
+  fix?: boolean;
+  dryRun?: boolean;
+  /** Verify the build after fixing (default: true) */
+  verify?: boolean;
 }
 
 export async function circularCommand(options: CircularOptions): Promise<void> {
+  if (options.fix) {
+    await fixCircular(options);
+    return;
+  }
+
   const spinner = ora('Analyzing codebase...').start();
 
   try {
+    const format = parseReportFormat(options.format, options.json);
     const analyzer = createConfiguredAnalyzer();
     const analysis = await analyzer.analyze();
 
     spinner.succeed('Analysis complete');
 
-    const cycles = analysis.circularDependencies;
+    // Cycles come from the components of the graph itself, so type-only imports cannot hide runtime ones
+    const graph = options.runtimeOnly ? analysis.runtimeGraph : analysis.importGraph;
+    const cycleAnalysis = analyzeCycles(graph, analysis.runtimeGraph);
+    // Tangles through suppressed imports stay hidden
+    const cycles = cycleAnalysis.cycles.filter(cycle => !isCycleSuppressed(analysis.suppressions, cycle, analysis.files));
+    const reported = new Set(cycles.flat());
+    cycleAnalysis.components = cycleAnalysis.components.filter(c => c.files.some(file => reported.has(file)));
+    cycleAnalysis.edgeRanking = cycleAnalysis.components
+      .flatMap(c => c.edges)
+      .sort((a, b) => b.cycles - a.cycles || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+    const inWorkspace = analysis.packages.length > 0;
+    const problems = cycles.map(cycle => problemFromCycle(cycle, analysis));
 
-    if (options.json) {
+    if (format === 'sarif' || format === 'codeclimate') {
+      console.log(renderReport(format, problems));
+      if (options.fail && countFailingProblems(problems, ['circular-dependency'], true) > 0) {
+        process.exit(1);
+      }
+      return;
+    }
+
+    if (format === 'json') {
       console.log(JSON.stringify({
         count: cycles.length,
-        cycles: cycles.map(cycle => ({
-          files: cycle,
-          chain: cycle.join(' → ') + ' → ' + cycle[0],
-        })),
+        cycles: cycles.map(cycle => {
+          const packages = getCyclePackages(cycle, analysis.packages);
+          return {
+            files: cycle,
+            chain: cycle.join(' → ') + ' → ' + cycle[0],
+            ...(inWorkspace && { packages, crossPackage: packages.length > 1 }),
+          };
+        }),
+        components: cycleAnalysis.components,
+        edgeRanking: cycleAnalysis.edgeRanking.slice(0, 20),
       }, null, 2));
 
-      if (options.fail && cycles.length > 0) {
+      if (options.fail && countFailingProblems(problems, ['circular-dependency'], true) > 0) {
         process.exit(1);
       }
       return;
     }
 
-    printCircular(cycles);
+    printCircular(cycles, cycleAnalysis);
+    if (inWorkspace && cycles.length > 0) {
+      printPackageCycles(cycles, analysis.packages);
+    }
 
-    if (options.fail && cycles.length > 0) {
+    if (options.fail && countFailingProblems(problems, ['circular-dependency']) > 0) {
       process.exit(1);
     }
   } catch (error) {
@@ -45,7 +93,88 @@ export async function circularCommand(options: CircularOptions): Promise<void> {
   }
 }
 
-function printCircular(cycles: string[][]): void {
+async function fixCircular(options: CircularOptions): Promise<void> {
+  const spinner = ora('Planning cycle fixes...').start();
+
+  try {
+    const plan = await planCycleBreaks();
+    spinner.succeed('Plan complete');
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        components: plan.components,
+        breaks: plan.breaks,
+        cyclesBefore: plan.cyclesBefore,
+        cyclesAfter: plan.cyclesAfter,
+        files: [...plan.changes.keys()].sort(),
+        ...(options.dryRun && { dryRun: true }),
+      }, null, 2));
+    } else {
+      printFixPlan(plan, options.dryRun);
+    }
+
+    if (options.dryRun || plan.changes.size === 0) return;
+
+    const verifySpinner = options.verify === false || options.json ? null : ora('Verifying build...').start();
+    const result = applyCycleBreaks(plan, { verify: options.verify });
+
+    if (!result.success) {
+      verifySpinner?.fail('Build failed after fix');
+      console.error(chalk.red(`Error: ${result.error}`));
+      process.exit(1);
+    }
+    verifySpinner?.succeed('Build verified');
+    if (!options.json) {
+      console.log(chalk.green(`\n  ✓ Modified ${result.filesModified.length} file(s)\n`));
+    }
+  } catch (error) {
+    spinner.fail('Cycle fix failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function printFixPlan(plan: CycleFixPlan, dryRun?: boolean): void {
+  console.log(chalk.cyan('\n🔄 Breaking Circular Dependencies\n'));
+  console.log(chalk.gray('─'.repeat(50)));
+
+  if (plan.components.length === 0) {
+    console.log(chalk.green('\n  ✓ No circular dependencies found!\n'));
+    return;
+  }
+
+  console.log(chalk.white(`\n  ${plan.components.length} tangle(s), ${plan.breaks.length} import(s) to cut:\n`));
+  for (const members of plan.components) {
+    const inComponent = new Set(members);
+    console.log(`    ${chalk.yellow('↻')} ${members.join(', ')}`);
+    for (const cut of plan.breaks.filter(b => inComponent.has(b.from) && inComponent.has(b.to))) {
+      const edge = `${cut.from} → ${cut.to} ${chalk.gray(`(${cut.symbols.join(', ') || 'side effects'})`)}`;
+      if (cut.remedy) {
+        const detail = cut.newFile ? ` into ${cut.newFile}` : '';
+        console.log(`      ${chalk.green('✓')} ${edge}: ${chalk.cyan(cut.remedy)}${detail}`);
+      } else {
+        console.log(`      ${chalk.red('✗')} ${edge}: ${chalk.gray(cut.reason)}`);
+      }
+    }
+  }
+
+  if (dryRun && plan.changes.size > 0) {
+    console.log(chalk.white('\n  Changes:\n'));
+    for (const [file, change] of plan.changes) {
+      printDiffPreview(file, change.original ?? '', change.content);
+    }
+  }
+
+  const after = plan.cyclesAfter === 0 ? chalk.green(plan.cyclesAfter) : chalk.yellow(plan.cyclesAfter);
+  console.log(`\n  Runtime import cycles: ${chalk.yellow(plan.cyclesBefore)} → ${after}`);
+  if (dryRun) {
+    console.log(chalk.gray('  Dry run - no files written. Run without --dry-run to apply.\n'));
+  } else {
+    console.log('');
+  }
+}
+
+function printCircular(cycles: string[][], cycleAnalysis: CycleAnalysis): void {
   console.log(chalk.cyan('\n🔄 Circular Dependencies\n'));
   console.log(chalk.gray('─'.repeat(50)));
 
@@ -116,10 +245,14 @@ function printCircular(cycles: string[][]): void {
     console.log('');
   }
 
+  printComponents(cycleAnalysis);
+
   // Summary
+  const typeOnly = cycleAnalysis.components.filter(c => c.typeOnly).length;
   console.log(chalk.gray('─'.repeat(50)));
   console.log(chalk.white('\n  Summary:'));
   console.log(`    Total cycles:     ${chalk.yellow(cycles.length)}`);
+  console.log(`    Tangles:          ${cycleAnalysis.components.length}${typeOnly > 0 ? chalk.gray(` (${typeOnly} type-only)`) : ''}`);
   console.log(`    Direct (2-file):  ${small.length}`);
   console.log(`    Medium (3-5):     ${medium.length}`);
   console.log(`    Large (6+):       ${large.length}`);
@@ -130,3 +263,72 @@ function printCircular(cycles: string[][]): void {
   console.log(chalk.gray('    3. Consider lazy imports for runtime-only dependencies'));
   console.log(chalk.gray('    4. Use `consuela impact <file>` to understand dependencies\n'));
 }
+
+/** Strongly connected components and the imports most cycles share */
+function printComponents(cycleAnalysis: CycleAnalysis): void {
+  const { components, edgeRanking } = cycleAnalysis;
+  if (components.length === 0) return;
+
+  console.log(chalk.white('  Tangles (files that all reach each other):'));
+  for (const component of components.slice(0, 10)) {
+    const cycleCount = `${component.cycleCount}${component.truncated ? '+' : ''} cycle${component.cycleCount === 1 ? '' : 's'}`;
+    const tag = component.typeOnly ? chalk.gray(' [type-only]') : '';
+    console.log(
+      `    ${chalk.yellow('↻')} ${component.size} files, ${component.edges.length} imports ` +
+      `(${component.runtimeEdges.length} at runtime), ${cycleCount}${tag}`
+    );
+    const files = component.files.slice(0, 6).join(', ');
+    console.log(chalk.gray(`      ${files}${component.size > 6 ? `, ... (${component.size - 6} more)` : ''}`));
+  }
+  if (components.length > 10) {
+    console.log(chalk.gray(`    ... and ${components.length - 10} more`));
+  }
+  console.log('');
+
+  const shared = edgeRanking.filter(edge => edge.cycles > 1).slice(0, 5);
+  if (shared.length > 0) {
+    console.log(chalk.white('  Imports in the most cycles (cutting these helps most):'));
+    for (const edge of shared) {
+      const tag = edge.typeOnly ? chalk.gray(' [type-only]') : '';
+      console.log(`    ${chalk.red('!')} ${edge.from} → ${edge.to} ${chalk.gray(`(in ${edge.cycles} cycles)`)}${tag}`);
+    }
+    console.log('');
+  }
+}
+
+/** Workspace packages a cycle passes through */
+function getCyclePackages(cycle: string[], packages: WorkspacePackage[]): string[] {
+  return Array.from(new Set(cycle.map(file => findPackageOf(packages, file)?.name ?? '(root)')));
+}
+
+function printPackageCycles(cycles: string[][], packages: WorkspacePackage[]): void {
+  const byPackage = new Map<string, number>();
+  const crossPackage: Array<{ cycle: string[]; packages: string[] }> = [];
+
+  for (const cycle of cycles) {
+    const names = getCyclePackages(cycle, packages);
+    if (names.length > 1) {
+      crossPackage.push({ cycle, packages: names });
+    } else {
+      byPackage.set(names[0], (byPackage.get(names[0]) || 0) + 1);
+    }
+  }
+
+  console.log(chalk.cyan('📦 Packages\n'));
+  for (const [name, count] of byPackage) {
+    console.log(`    ${chalk.white(name)} ${chalk.gray(`${count} internal cycle(s)`)}`);
+  }
+
+  if (crossPackage.length > 0) {
+    console.log(chalk.red(`\n  Cross-package cycles (${crossPackage.length}):`));
+    for (const { cycle, packages: names } of crossPackage.slice(0, 10)) {
+      console.log(`    ${chalk.red('↻')} ${chalk.yellow(names.join(' ↔ '))}`);
+      console.log(chalk.gray(`      ${cycle.join(' → ')} → ${cycle[0]}`));
+    }
+    if (crossPackage.length > 10) {
+      console.log(chalk.gray(`    ... and ${crossPackage.length - 10} more`));
+    }
+    console.log(chalk.gray('\n    Packages that depend on each other cannot be built or published independently.'));
+  }
+  console.log('');
+}
@@ -4,6 +4,8 @@
  * Usage:
  *   consuela cleanup --unused      # Remove unused exports
  *   consuela cleanup --duplicates  # Consolidate duplicate functions
+ *   consuela cleanup --members     # Remove unused class, enum and interface members
+ *   consuela cleanup --files       # Delete files unreachable from any entry point
  *   consuela cleanup --all         # Everything
  *   consuela cleanup --dry-run     # Show what would be removed
  */
@@ -24,18 +26,23 @@ export async function cleanupCommand(options: CleanupCommandOptions): Promise<vo
   const cleanupOptions: CleanupOptions = {
     removeUnused: options.unused || options.all,
     removeDuplicates: options.duplicates || options.all,
+    removeMembers: options.members || options.all,
+    removeDeadFiles: options.files || options.all,
     removeEmptyFiles: options.unused || options.all,
+    verify: options.verify,
     dryRun: true, // Always start with dry run to show preview
     rootDir: process.cwd(),
   };
 
   // Validate options
-  if (!cleanupOptions.removeUnused && !cleanupOptions.removeDuplicates) {
+  if (!cleanupOptions.removeUnused && !cleanupOptions.removeDuplicates && !cleanupOptions.removeMembers && !cleanupOptions.removeDeadFiles) {
     console.log(chalk.yellow('\nNo cleanup action specified.'));
-    console.log(chalk.gray('Use --unused, --duplicates, or --all to specify what to clean.\n'));
+    console.log(chalk.gray('Use --unused, --duplicates, --members, --files, or --all to specify what to clean.\n'));
     console.log(chalk.gray('Examples:'));
     console.log(chalk.gray('  consuela cleanup --unused      # Remove unused exports'));
     console.log(chalk.gray('  consuela cleanup --duplicates  # Consolidate duplicates'));
+    console.log(chalk.gray('  consuela cleanup --members     # Remove unused class/enum/interface members'));
+    console.log(chalk.gray('  consuela cleanup --files       # Delete files unreachable from any entry point'));
     console.log(chalk.gray('  consuela cleanup --all         # Everything'));
     console.log('');
     process.exit(1);
@@ -52,7 +59,9 @@ export async function cleanupCommand(options: CleanupCommandOptions): Promise<vo
     // Check if there's anything to do
     if (
       result.removedExports.length === 0 &&
+      result.removedMembers.length === 0 &&
       result.removedFiles.length === 0 &&
+      result.deadClusters.length === 0 &&
       result.consolidatedDuplicates.length === 0
     ) {
       if (options.json) {
@@ -60,7 +69,9 @@ export async function cleanupCommand(options: CleanupCommandOptions): Promise<vo
           success: true,
           message: 'No dead code found',
           removedExports: [],
+          removedMembers: [],
           removedFiles: [],
+          deadClusters: [],
           consolidatedDuplicates: [],
         }, null, 2));
       } else {
@@ -74,7 +85,9 @@ export async function cleanupCommand(options: CleanupCommandOptions): Promise<vo
       console.log(JSON.stringify({
         dryRun: true,
         removedExports: result.removedExports,
+        removedMembers: result.removedMembers,
         removedFiles: result.removedFiles,
+        deadClusters: result.deadClusters,
         consolidatedDuplicates: result.consolidatedDuplicates,
         errors: result.errors,
       }, null, 2));
@@ -99,7 +112,7 @@ export async function cleanupCommand(options: CleanupCommandOptions): Promise<vo
         {
           type: 'confirm',
           name: 'confirm',
-          message: chalk.yellow(`Remove ${result.removedExports.length} export(s) and ${result.removedFiles.length} file(s)?`),
+          message: chalk.yellow(`Remove ${result.removedExports.length} export(s), ${result.removedMembers.length} member(s) and ${result.removedFiles.length + countDeadFiles(result)} file(s)?`),
           default: false,
         },
       ]);
@@ -167,6 +180,24 @@ function printPreview(result: CleanupResult): void {
     console.log('');
   }
 
+  // Members to remove
+  if (result.removedMembers.length > 0) {
+    console.log(chalk.red(`  Unused members to remove (${result.removedMembers.length}):\n`));
+
+    const byFile = new Map<string, typeof result.removedMembers>();
+    for (const member of result.removedMembers) {
+      byFile.set(member.file, [...(byFile.get(member.file) || []), member]);
+    }
+
+    for (const [file, members] of byFile) {
+      console.log(`    ${chalk.white(file)}`);
+      for (const member of members) {
+        console.log(`      ${chalk.red('-')} ${chalk.gray(`[${member.kind}]`)} ${member.name} ${chalk.gray(`(line ${member.line})`)}`);
+      }
+    }
+    console.log('');
+  }
+
   // Empty files to delete
   if (result.removedFiles.length > 0) {
     console.log(chalk.red(`  Empty files to delete (${result.removedFiles.length}):\n`));
@@ -176,6 +207,18 @@ function printPreview(result: CleanupResult): void {
     console.log('');
   }
 
+  // Unreachable files, deleted a cluster at a time
+  if (result.deadClusters.length > 0) {
+    console.log(chalk.red(`  Unreachable files to delete (${countDeadFiles(result)} in ${result.deadClusters.length} cluster(s)):\n`));
+    for (const cluster of result.deadClusters) {
+      for (const file of cluster.files) {
+        const root = cluster.roots.includes(file) ? chalk.gray(' (nothing imports it)') : '';
+        console.log(`    ${chalk.red('-')} ${file}${root}`);
+      }
+      console.log('');
+    }
+  }
+
   // Duplicates to consolidate
   if (result.consolidatedDuplicates.length > 0) {
     console.log(chalk.yellow(`  Duplicate functions to consolidate (${result.consolidatedDuplicates.length}):\n`));
@@ -195,18 +238,7 @@ function printPreview(result: CleanupResult): void {
     console.log(chalk.gray('─'.repeat(50)));
 
     for (const [, change] of result.fileChanges) {
-      const diff = generateDiffPreview(change);
-      const lines = diff.split('\n');
-      for (const line of lines) {
-        if (line.startsWith('-') && !line.startsWith('---')) {
-          console.log(chalk.red(`  ${line}`));
-        } else if (line.startsWith('+') && !line.startsWith('+++')) {
-          console.log(chalk.green(`  ${line}`));
-        } else {
-          console.log(chalk.gray(`  ${line}`));
-        }
-      }
-      console.log('');
+      printDiffPreview(change.filePath, change.originalContent, change.newContent);
     }
   } else if (result.fileChanges.size > 5) {
     console.log(chalk.gray(`  (${result.fileChanges.size} files will be modified - too many to preview)\n`));
@@ -223,13 +255,30 @@ function printPreview(result: CleanupResult): void {
 
   // Summary line
   console.log(chalk.gray('─'.repeat(50)));
-  console.log(`  Total: ${chalk.red(result.removedExports.length)} exports, ${chalk.red(result.removedFiles.length)} files`);
+  console.log(`  Total: ${chalk.red(result.removedExports.length)} exports, ${chalk.red(result.removedMembers.length)} members, ${chalk.red(result.removedFiles.length + countDeadFiles(result))} files`);
   console.log('');
 }
 
 /**
  * Print summary after cleanup is complete
  */
+/**
+ * Print a colored diff of one file, as every dry run shows its changes
+ */
+export function printDiffPreview(filePath: string, originalContent: string, newContent: string): void {
+  const diff = generateDiffPreview({ filePath, originalContent, newContent, removedExports: [], removedImports: [] });
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('-') && !line.startsWith('---')) {
+      console.log(chalk.red(`  ${line}`));
+    } else if (line.startsWith('+') && !line.startsWith('+++')) {
+      console.log(chalk.green(`  ${line}`));
+    } else {
+      console.log(chalk.gray(`  ${line}`));
+    }
+  }
+  console.log('');
+}
+
 function printSummary(result: CleanupResult): void {
   console.log(chalk.green('\n  Cleanup Summary\n'));
 
@@ -237,6 +286,10 @@ function printSummary(result: CleanupResult): void {
     console.log(`    ${chalk.green('Removed')} ${result.removedExports.length} unused export(s)`);
   }
 
+  if (result.removedMembers.length > 0) {
+    console.log(`    ${chalk.green('Removed')} ${result.removedMembers.length} unused member(s)`);
+  }
+
   if (result.removedFiles.length > 0) {
     console.log(`    ${chalk.green('Deleted')} ${result.removedFiles.length} empty file(s)`);
     for (const file of result.removedFiles) {
@@ -244,10 +297,18 @@ function printSummary(result: CleanupResult): void {
     }
   }
 
+  if (result.deadClusters.length > 0) {
+    console.log(`    ${chalk.green('Deleted')} ${countDeadFiles(result)} unreachable file(s) in ${result.deadClusters.length} cluster(s)`);
+  }
+
   if (result.consolidatedDuplicates.length > 0) {
     console.log(`    ${chalk.green('Consolidated')} ${result.consolidatedDuplicates.length} duplicate(s)`);
   }
 
   console.log('');
   console.log(chalk.gray('  Tip: Run `consuela verify` to ensure no structural changes.\n'));
-}
\ No newline at end of file
+}
+
+function countDeadFiles(result: CleanupResult): number {
+  return result.deadClusters.reduce((count, cluster) => count + cluster.files.length, 0);
+}
@@ -1,9 +1,24 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import Conf from 'conf';
+import * as path from 'node:path';
+import { AI_PROVIDERS, type AIProviderConfig, type AIProviderName, type CassetteOptions } from '../core/ai-provider.js';
+import { DEFAULT_GEMINI_MODEL } from '../core/gemini.js';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from '../core/openai.js';
+import { DEFAULT_OLLAMA_BASE_URL, DEFAULT_OLLAMA_MODEL } from '../core/ollama.js';
 
 interface GlobalConfig {
   geminiApiKey?: string;
+  openaiApiKey?: string;
+  aiProvider?: AIProviderName;
+  aiModel?: string;
+  aiBaseUrl?: string;
+}
+
+export interface ConfigOptions {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
 }
 
 const globalConf = new Conf<GlobalConfig>({
@@ -11,9 +26,56 @@ const globalConf = new Conf<GlobalConfig>({
   configName: 'config',
 });
 
-export async function configCommand(): Promise<void> {
+const PROVIDER_LABELS: Record<AIProviderName, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible endpoint',
+  ollama: 'Ollama (local)',
+};
+
+export async function configCommand(options: ConfigOptions = {}): Promise<void> {
   console.log(chalk.green.bold('\n🧹 Consuela - Global Configuration\n'));
 
+  if (options.provider && !AI_PROVIDERS.includes(options.provider as AIProviderName)) {
+    console.log(chalk.red(`Unknown AI provider: ${options.provider}`));
+    console.log(chalk.gray(`Available providers: ${AI_PROVIDERS.join(', ')}\n`));
+    return;
+  }
+
+  const currentProvider = getGlobalProvider();
+  let provider = options.provider as AIProviderName | undefined;
+
+  if (!provider) {
+    const answer = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'provider',
+        message: 'Which AI provider do you want to use?',
+        default: currentProvider,
+        choices: AI_PROVIDERS.map(value => ({ name: PROVIDER_LABELS[value], value })),
+      },
+    ]);
+    provider = answer.provider as AIProviderName;
+  }
+
+  // Model and endpoint settings belong to a single provider
+  if (provider !== currentProvider) {
+    globalConf.delete('aiModel');
+    globalConf.delete('aiBaseUrl');
+  }
+  globalConf.set('aiProvider', provider);
+
+  if (provider === 'gemini') {
+    await configureGemini(options);
+  } else {
+    await configureHttpProvider(provider, options);
+  }
+}
+
+async function configureGemini(options: ConfigOptions): Promise<void> {
+  if (options.model) {
+    globalConf.set('aiModel', options.model);
+  }
+
   const existingKey = globalConf.get('geminiApiKey');
 
   if (existingKey) {
@@ -65,6 +127,46 @@ export async function configCommand(): Promise<void> {
   console.log(chalk.gray('\nYou can now run `consuela init` in any project directory.\n'));
 }
 
+async function configureHttpProvider(provider: 'openai' | 'ollama', options: ConfigOptions): Promise<void> {
+  const defaults = provider === 'openai'
+    ? { baseUrl: DEFAULT_OPENAI_BASE_URL, model: DEFAULT_OPENAI_MODEL }
+    : { baseUrl: DEFAULT_OLLAMA_BASE_URL, model: DEFAULT_OLLAMA_MODEL };
+
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'baseUrl',
+      message: 'Endpoint base URL:',
+      default: globalConf.get('aiBaseUrl') || defaults.baseUrl,
+      when: !options.baseUrl,
+      validate: (input: string) => /^https?:\/\//.test(input) || 'Please enter an http(s) URL',
+    },
+    {
+      type: 'input',
+      name: 'model',
+      message: 'Model name:',
+      default: globalConf.get('aiModel') || defaults.model,
+      when: !options.model,
+    },
+    {
+      type: 'password',
+      name: 'apiKey',
+      message: 'API key (leave empty to keep the current one or use none):',
+      mask: '*',
+      when: provider === 'openai',
+    },
+  ]);
+
+  globalConf.set('aiBaseUrl', options.baseUrl || answers.baseUrl);
+  globalConf.set('aiModel', options.model || answers.model);
+  if (answers.apiKey) {
+    globalConf.set('openaiApiKey', answers.apiKey);
+  }
+
+  console.log(chalk.green(`\n✓ ${PROVIDER_LABELS[provider]} configured successfully!`));
+  console.log(chalk.gray('\nYou can now run `consuela init` in any project directory.\n'));
+}
+
 export function getGlobalApiKey(): string | undefined {
   // Check environment variable first (useful for CI/CD)
   const envKey = process.env.GEMINI_API_KEY;
@@ -75,3 +177,62 @@ export function getGlobalApiKey(): string | undefined {
 export function hasGlobalApiKey(): boolean {
   return !!process.env.GEMINI_API_KEY || !!globalConf.get('geminiApiKey');
 }
+
+/**
+ * Get the selected AI provider (CONSUELA_AI_PROVIDER overrides the stored choice)
+ */
+export function getGlobalProvider(): AIProviderName {
+  const provider = process.env.CONSUELA_AI_PROVIDER || globalConf.get('aiProvider');
+  return AI_PROVIDERS.includes(provider as AIProviderName) ? provider as AIProviderName : 'gemini';
+}
+
+/**
+ * Get record/replay settings (set by --record/--replay or CONSUELA_AI_RECORD/CONSUELA_AI_REPLAY)
+ */
+export function getCassetteOptions(): CassetteOptions | undefined {
+  const replayDir = process.env.CONSUELA_AI_REPLAY;
+  if (replayDir) return { mode: 'replay', dir: path.resolve(replayDir) };
+
+  const recordDir = process.env.CONSUELA_AI_RECORD;
+  if (recordDir) return { mode: 'record', dir: path.resolve(recordDir) };
+
+  return undefined;
+}
+
+/**
+ * Get the full settings for the selected AI provider, or undefined if it is not set up.
+ * Replay mode needs no credentials, so it is always available.
+ */
+export function getGlobalAIConfig(): AIProviderConfig | undefined {
+  const config = getProviderConfig();
+  const cassette = getCassetteOptions();
+
+  if (cassette?.mode === 'replay') {
+    return { ...(config ?? { provider: getGlobalProvider() }), cassette };
+  }
+  return config && cassette ? { ...config, cassette } : config;
+}
+
+function getProviderConfig(): AIProviderConfig | undefined {
+  const provider = getGlobalProvider();
+  const model = globalConf.get('aiModel');
+
+  if (provider === 'gemini') {
+    const apiKey = getGlobalApiKey();
+    return apiKey ? { provider, apiKey, model: model || DEFAULT_GEMINI_MODEL } : undefined;
+  }
+
+  const baseUrl = globalConf.get('aiBaseUrl');
+
+  if (provider === 'openai') {
+    const apiKey = process.env.OPENAI_API_KEY || globalConf.get('openaiApiKey');
+    if (!apiKey && !baseUrl) return undefined;
+    return { provider, apiKey, baseUrl, model };
+  }
+
+  return { provider, baseUrl, model };
+}
+
+export function hasGlobalAIProvider(): boolean {
+  return getGlobalAIConfig() !== undefined;
+}
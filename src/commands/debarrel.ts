@@ -0,0 +1,149 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { applyDebarrel, planDebarrel, type DebarrelPlan } from '../refactor/operations/debarrel.js';
+import { printDiffPreview } from './cleanup.js';
+
+interface DebarrelOptions {
+  deleteUnused?: boolean;
+  keepPublic?: boolean;
+  dryRun?: boolean;
+  verify?: boolean;
+  json?: boolean;
+}
+
+/** Diffs are shown up to this many files */
+const MAX_PREVIEW_FILES = 10;
+
+export async function debarrelCommand(dir: string | undefined, options: DebarrelOptions): Promise<void> {
+  const spinner = ora('Resolving barrel re-exports...').start();
+
+  try {
+    const plan = await planDebarrel({ dir, deleteUnused: options.deleteUnused, keepPublic: options.keepPublic });
+
+    if (plan.errors.length > 0) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ success: false, errors: plan.errors }, null, 2));
+      } else {
+        spinner.fail('Cannot debarrel');
+        for (const error of plan.errors) {
+          console.error(chalk.red(`Error: ${error}`));
+        }
+      }
+      process.exit(1);
+    }
+
+    if (plan.changes.size === 0 && plan.deletions.length === 0) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ success: true, barrels: plan.barrels, rewrites: [], deletions: [], warnings: plan.warnings }, null, 2));
+        return;
+      }
+      spinner.succeed(plan.barrels.length === 0 ? 'No barrels found' : `Nothing imports through ${plan.barrels.length} barrel(s)`);
+      printWarnings(plan.warnings);
+      console.log('');
+      return;
+    }
+
+    const summary = `${plan.rewrites.length} import(s) in ${plan.changes.size} file(s)`;
+    if (options.dryRun) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({
+          success: true,
+          dryRun: true,
+          barrels: plan.barrels,
+          rewrites: plan.rewrites,
+          deletions: plan.deletions,
+          warnings: plan.warnings,
+        }, null, 2));
+        return;
+      }
+      spinner.succeed(`Would rewrite ${summary}`);
+      printPlan(plan);
+      console.log(chalk.gray('Dry run - no files written. Run without --dry-run to apply.\n'));
+      return;
+    }
+
+    if (options.json) spinner.stop();
+    else spinner.succeed('Plan complete');
+
+    const verifySpinner = options.verify === false || options.json ? null : ora('Verifying build...').start();
+    const result = applyDebarrel(plan, { verify: options.verify });
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        success: result.success,
+        barrels: plan.barrels,
+        rewrites: result.success ? plan.rewrites : [],
+        deletions: result.success ? plan.deletions : [],
+        files: result.filesModified,
+        warnings: plan.warnings,
+        ...(result.buildPassed !== undefined && { buildPassed: result.buildPassed }),
+        ...(result.error && { error: result.error }),
+      }, null, 2));
+      if (!result.success) process.exit(1);
+      return;
+    }
+
+    if (!result.success) {
+      verifySpinner?.fail('Build failed after debarrel');
+      console.error(chalk.red(`Error: ${result.error}`));
+      process.exit(1);
+    }
+    verifySpinner?.succeed('Build verified');
+
+    console.log(chalk.green(`\n  ✓ Rewrote ${summary}`));
+    if (plan.deletions.length > 0) {
+      console.log(chalk.green(`  ✓ Deleted ${plan.deletions.length} unused barrel(s)`));
+    }
+    printWarnings(plan.warnings);
+    console.log('');
+  } catch (error) {
+    spinner.fail('Debarrel failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function printPlan(plan: DebarrelPlan): void {
+  console.log(chalk.gray('─'.repeat(50)));
+
+  const byBarrel = new Map<string, number>();
+  for (const rewrite of plan.rewrites) {
+    byBarrel.set(rewrite.barrel, (byBarrel.get(rewrite.barrel) ?? 0) + 1);
+  }
+  if (byBarrel.size > 0) {
+    console.log(chalk.white('\n  Barrels bypassed:\n'));
+    for (const [barrel, count] of byBarrel) {
+      console.log(`    ${barrel} ${chalk.gray(`(${count} import(s))`)}`);
+    }
+  }
+
+  if (plan.deletions.length > 0) {
+    console.log(chalk.white('\n  Barrels to delete:\n'));
+    for (const barrel of plan.deletions) {
+      console.log(`    ${chalk.red('-')} ${barrel}`);
+    }
+  }
+
+  if (plan.changes.size > MAX_PREVIEW_FILES) {
+    console.log(chalk.gray(`\n  (${plan.changes.size} files will be modified - too many to preview)`));
+  } else if (plan.changes.size > 0) {
+    console.log(chalk.white('\n  Changes:\n'));
+    for (const [file, change] of plan.changes) {
+      printDiffPreview(file, change.original, change.content);
+    }
+  }
+
+  printWarnings(plan.warnings);
+  console.log('');
+}
+
+function printWarnings(warnings: string[]): void {
+  if (warnings.length === 0) return;
+  console.log(chalk.yellow('\n  Left on the barrel:\n'));
+  for (const warning of warnings) {
+    console.log(`    ${chalk.yellow('⚠')} ${warning}`);
+  }
+}
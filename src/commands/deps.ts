@@ -0,0 +1,77 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { analyzeDependencies, createConfiguredAnalyzer, type DependencyIssue, type DependencyReport } from '../core/index.js';
+
+interface DepsOptions {
+  json?: boolean;
+  fail?: boolean; // Exit with code 1 if any issue is found (for CI)
+}
+
+const HEADINGS: Record<DependencyIssue['kind'], { title: string; hint: string }> = {
+  unresolved: { title: 'Path alias imports that resolve to no file', hint: 'fix the import path' },
+  missing: { title: 'Imported but not declared', hint: 'add to package.json' },
+  misplaced: { title: 'Used at runtime but only in devDependencies', hint: 'move to dependencies' },
+  unused: { title: 'Declared in dependencies but never imported', hint: 'remove from package.json' },
+};
+
+export async function depsCommand(options: DepsOptions): Promise<void> {
+  const spinner = ora('Analyzing codebase...').start();
+
+  try {
+    const rootDir = process.cwd();
+    const analysis = await createConfiguredAnalyzer(rootDir).analyze();
+    const report = analyzeDependencies(analysis, rootDir);
+
+    spinner.succeed('Analysis complete');
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report);
+    }
+
+    if (options.fail && report.issues.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spinner.fail('Analysis failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function printReport(report: DependencyReport): void {
+  console.log(chalk.cyan('\n📦 Dependencies\n'));
+
+  if (report.manifests.length === 0) {
+    console.log(chalk.yellow('  No package.json found.\n'));
+    return;
+  }
+  if (report.issues.length === 0) {
+    console.log(chalk.green(`  ✓ package.json matches the ${report.packagesImported} package(s) the code imports.\n`));
+    return;
+  }
+
+  const showManifest = report.manifests.length > 1;
+  for (const kind of ['unresolved', 'missing', 'misplaced', 'unused'] as const) {
+    const issues = report.issues.filter(issue => issue.kind === kind);
+    if (issues.length === 0) continue;
+
+    const { title, hint } = HEADINGS[kind];
+    console.log(chalk.white(`  ${title} (${issues.length}):\n`));
+    for (const issue of issues) {
+      const where = showManifest ? chalk.gray(` ${issue.manifest}`) : '';
+      const types = issue.typeOnly ? chalk.gray(' (types only)') : '';
+      console.log(`    ${kind === 'unused' ? chalk.yellow('○') : chalk.red('✗')} ${issue.name}${types}${where} ${chalk.gray(`- ${hint}`)}`);
+      for (const imp of issue.imports.slice(0, 3)) {
+        console.log(chalk.gray(`        ${imp.file}:${imp.line} ${imp.source}`));
+      }
+      if (issue.imports.length > 3) {
+        console.log(chalk.gray(`        ... and ${issue.imports.length - 3} more`));
+      }
+    }
+    console.log('');
+  }
+
+  console.log(chalk.gray('  Run `consuela fix --deps` to update package.json.\n'));
+}
@@ -7,29 +7,36 @@ import chalk from 'chalk';
 import ora from 'ora';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { createConfiguredAnalyzer, type ProjectAnalysis, type ProjectAnalyzer } from '../core/index.js';
+import {
+  createConfiguredAnalyzer, findUnusedSuppressions, isSuppressed, parseReportFormat, problemFromCycle, problemFromLargeFile,
+  problemFromRuleViolation, problemFromUnusedExport, problemFromUnusedMember, problemFromUnusedSuppression, renderReport,
+  type Problem, type ProjectAnalysis, type ProjectAnalyzer,
+} from '../core/index.js';
 import { createGraphAnalyzer, type FunctionGraph } from '../graph/index.js';
 
 interface DiagnoseOptions {
   json?: boolean;
+  format?: string;
 }
 
-interface Problem {
-  severity: 'critical' | 'warning' | 'info';
+/** How much one problem category took off the health score */
+export interface CategoryScore {
   category: string;
-  file?: string;
-  message: string;
-  suggestion?: string;
+  count: number;
+  maxPenalty: number;
+  penalty: number;
 }
 
-interface DiagnosisResult {
+export interface DiagnosisResult {
   score: number;
+  scoreBreakdown: CategoryScore[];
   problems: Problem[];
   stats: {
     totalFiles: number;
     totalFunctions: number;
     totalExports: number;
     unusedExports: number;
+    unusedMembers: number;
     pureRatio: number;
     avgFileSize: number;
     largestFile: { path: string; lines: number };
@@ -42,6 +49,8 @@ export async function diagnoseCommand(options: DiagnoseOptions): Promise<void> {
   const spinner = ora('Analyzing codebase health...').start();
 
   try {
+    const format = parseReportFormat(options.format, options.json);
+
     // Run both analyzers
     const analyzer = createConfiguredAnalyzer();
     const graphAnalyzer = createGraphAnalyzer();
@@ -57,10 +66,14 @@ export async function diagnoseCommand(options: DiagnoseOptions): Promise<void> {
 
     spinner.succeed('Diagnosis complete');
 
-    if (options.json) {
+    if (format === 'json') {
       console.log(JSON.stringify(diagnosis, null, 2));
       return;
     }
+    if (format !== 'text') {
+      console.log(renderReport(format, diagnosis.problems));
+      return;
+    }
 
     printDiagnosis(diagnosis);
 
@@ -71,8 +84,8 @@ export async function diagnoseCommand(options: DiagnoseOptions): Promise<void> {
   }
 }
 
-function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, graph: FunctionGraph): DiagnosisResult {
-  const problems: Problem[] = [];
+export function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, graph: FunctionGraph): DiagnosisResult {
+  let problems: Problem[] = [];
 
   // Collect file stats
   const fileSizes = new Map<string, number>();
@@ -80,7 +93,7 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
 
   for (const file of graph.files) {
     try {
-      const content = fs.readFileSync(path.join(process.cwd(), file), 'utf-8');
+      const content = fs.readFileSync(path.join(graph.rootDir, file), 'utf-8');
       const lines = content.split('\n').length;
       fileSizes.set(file, lines);
     } catch {
@@ -103,22 +116,8 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
 
   // Problem 1: Large files
   for (const [file, lines] of fileSizes) {
-    if (lines > 500) {
-      problems.push({
-        severity: 'critical',
-        category: 'file-size',
-        file,
-        message: `${lines} lines (recommended: <200)`,
-        suggestion: 'Split into smaller, focused modules',
-      });
-    } else if (lines > 300) {
-      problems.push({
-        severity: 'warning',
-        category: 'file-size',
-        file,
-        message: `${lines} lines (getting large)`,
-        suggestion: 'Consider extracting some functions',
-      });
+    if (lines > 300) {
+      problems.push(problemFromLargeFile(file, lines));
     }
   }
 
@@ -126,6 +125,7 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
   for (const [file, count] of functionsByFile) {
     if (count > 20) {
       problems.push({
+        rule: 'complex-file',
         severity: 'critical',
         category: 'complexity',
         file,
@@ -134,6 +134,7 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
       });
     } else if (count > 10) {
       problems.push({
+        rule: 'complex-file',
         severity: 'warning',
         category: 'complexity',
         file,
@@ -148,16 +149,16 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
     .filter(u => !u.reason.includes('Entry point'));
 
   for (const unused of unusedExports) {
-    problems.push({
-      severity: 'warning',
-      category: 'dead-code',
-      file: unused.export.filePath,
-      message: `Unused export: ${unused.export.name}`,
-      suggestion: 'Remove if not needed, or check if it should be an entry point',
-    });
+    problems.push(problemFromUnusedExport(unused));
   }
   const unusedCount = unusedExports.length;
 
+  // Problem 3b: Unused class, enum and interface members
+  const unusedMembers = analyzer.findUnusedMembers(analysis);
+  for (const member of unusedMembers) {
+    problems.push(problemFromUnusedMember(member));
+  }
+
   // Problem 4: Duplicate function signatures
   const signatures = new Map<string, string[]>();
   for (const func of graph.nodes.values()) {
@@ -175,8 +176,11 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
       duplicateCount++;
       const funcName = sig.split('(')[0];
       problems.push({
+        rule: 'duplicate-function',
         severity: 'warning',
         category: 'duplication',
+        file: files[0],
+        symbol: funcName,
         message: `"${funcName}" has same signature in ${files.length} files`,
         suggestion: `Consolidate into one location: ${files.join(', ')}`,
       });
@@ -186,19 +190,20 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
   // Problem 5: Circular dependencies
   if (analysis.circularDependencies.length > 0) {
     for (const cycle of analysis.circularDependencies) {
-      problems.push({
-        severity: 'critical',
-        category: 'architecture',
-        message: `Circular dependency: ${cycle.join(' → ')}`,
-        suggestion: 'Extract shared code to break the cycle',
-      });
+      problems.push(problemFromCycle(cycle, analysis));
     }
   }
 
+  // Problem 5b: Imports that break architecture rules
+  for (const violation of analyzer.findRuleViolations(analysis)) {
+    problems.push(problemFromRuleViolation(violation));
+  }
+
   // Problem 6: Low purity ratio
   const pureRatio = graph.stats.pureFunctions / graph.stats.totalFunctions;
   if (pureRatio < 0.3) {
     problems.push({
+      rule: 'low-purity',
       severity: 'warning',
       category: 'architecture',
       message: `Only ${(pureRatio * 100).toFixed(0)}% of functions are pure`,
@@ -211,6 +216,7 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
     const depCount = dependents.size;
     if (depCount > 10) {
       problems.push({
+        rule: 'hub-file',
         severity: 'warning',
         category: 'architecture',
         file,
@@ -220,6 +226,14 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
     }
   }
 
+  // Drop findings hidden by consuela-ignore comments (unused code and cycles are already filtered by the analyzer)
+  problems = problems.filter(p => !isSuppressed(analysis.suppressions, p.rule, p.file, p.line));
+
+  // Problem 8: Suppressions that no longer hide anything
+  for (const suppression of findUnusedSuppressions(analysis.suppressions)) {
+    problems.push(problemFromUnusedSuppression(suppression));
+  }
+
   // Calculate health score (0-100) using category-based scoring with diminishing returns
   const categoryPenalties: Record<string, { count: number; maxPenalty: number }> = {
     'file-size': { count: 0, maxPenalty: 25 },
@@ -236,11 +250,11 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
   }
 
   let score = 100;
-  for (const [, { count, maxPenalty }] of Object.entries(categoryPenalties)) {
-    if (count > 0) {
-      const penalty = maxPenalty * (1 - Math.exp(-count / 3));
-      score -= penalty;
-    }
+  const scoreBreakdown: CategoryScore[] = [];
+  for (const [category, { count, maxPenalty }] of Object.entries(categoryPenalties)) {
+    const penalty = count > 0 ? maxPenalty * (1 - Math.exp(-count / 3)) : 0;
+    score -= penalty;
+    scoreBreakdown.push({ category, count, maxPenalty, penalty: Math.round(penalty * 10) / 10 });
   }
   score = Math.max(0, Math.round(score));
 
@@ -250,12 +264,14 @@ function runDiagnosis(analyzer: ProjectAnalyzer, analysis: ProjectAnalysis, grap
 
   return {
     score,
+    scoreBreakdown,
     problems,
     stats: {
       totalFiles: graph.files.length,
       totalFunctions: graph.stats.totalFunctions,
       totalExports: graph.stats.exportedFunctions,
       unusedExports: unusedCount,
+      unusedMembers: unusedMembers.length,
       pureRatio: Math.round(pureRatio * 100),
       avgFileSize,
       largestFile,
@@ -344,6 +360,18 @@ function printDiagnosis(diagnosis: DiagnosisResult): void {
     }
   }
 
+  const staleSuppressions = problems.filter(p => p.rule === 'unused-suppression');
+  if (staleSuppressions.length > 0) {
+    console.log(chalk.gray(`━━━ Unused Suppressions (${staleSuppressions.length}) ━━━\n`));
+    for (const problem of staleSuppressions.slice(0, 10)) {
+      console.log(`  ${chalk.gray('•')} ${chalk.gray(`${problem.file}:${problem.line}`)} ${problem.symbol}`);
+    }
+    if (staleSuppressions.length > 10) {
+      console.log(chalk.gray(`    ... and ${staleSuppressions.length - 10} more`));
+    }
+    console.log('');
+  }
+
   // Recommendations
   console.log(chalk.cyan('━━━ Recommended Actions ━━━\n'));
 
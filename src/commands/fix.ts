@@ -11,7 +11,7 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { autoFix, type AutoFixResult } from '../refactor/operations/auto-fix.js';
-import { hasGlobalApiKey } from './config.js';
+import { hasGlobalAIProvider } from './config.js';
 
 interface FixOptions {
   dryRun?: boolean;
@@ -26,7 +26,7 @@ interface FixOptions {
 
 export async function fixCommand(options: FixOptions): Promise<void> {
   // Check for AI capability
-  if (!hasGlobalApiKey()) {
+  if (!hasGlobalAIProvider()) {
     console.log(chalk.yellow('\nNote: AI features not configured.'));
     console.log(chalk.gray('Run `consuela config` to enable smarter refactoring decisions.'));
     console.log(chalk.gray('Proceeding with rule-based fixing...\n'));
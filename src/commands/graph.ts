@@ -0,0 +1,94 @@
+/**
+ * graph command - Export the dependency or call graph for diagrams and tooling
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createConfiguredAnalyzer, globToRegExp } from '../core/index.js';
+import {
+  createFileView, createFolderView, createFunctionView, createGraphAnalyzer, findFileHubs, renderGraph,
+  GRAPH_FORMATS, GRAPH_LEVELS, type GraphFormat, type GraphLevel, type GraphView, type GraphViewOptions,
+} from '../graph/index.js';
+
+interface GraphOptions {
+  format?: string;
+  level?: string;
+  file?: string;
+  depth?: string;
+  filter?: string[];
+  output?: string;
+  highlight?: boolean;
+  hubThreshold?: string;
+}
+
+/** Connections a node needs to be drawn as a hub, as in GraphAnalyzer.findHubs */
+const DEFAULT_HUB_THRESHOLD = 5;
+
+export async function graphCommand(options: GraphOptions): Promise<void> {
+  const spinner = ora('Analyzing codebase...').start();
+
+  try {
+    const format = parseChoice<GraphFormat>('format', options.format ?? 'dot', GRAPH_FORMATS);
+    const level = parseChoice<GraphLevel>('level', options.level ?? 'file', GRAPH_LEVELS);
+    const depth = parseNumber('depth', options.depth, 2);
+    const hubThreshold = parseNumber('hub threshold', options.hubThreshold, DEFAULT_HUB_THRESHOLD);
+    const highlight = options.highlight !== false;
+
+    const patterns = (options.filter || []).map(globToRegExp);
+    const viewOptions: GraphViewOptions = {
+      include: patterns.length > 0 ? nodePath => patterns.some(p => p.test(nodePath)) : undefined,
+      focus: options.file,
+      depth,
+      highlightCycles: highlight,
+    };
+
+    let view: GraphView;
+    if (level === 'function') {
+      const graphAnalyzer = createGraphAnalyzer();
+      const graph = await graphAnalyzer.buildGraph();
+      const hubs = highlight ? new Set(graphAnalyzer.findHubs(graph, hubThreshold).map(node => node.id)) : undefined;
+      view = createFunctionView(graph, { ...viewOptions, hubs });
+    } else {
+      const analysis = await createConfiguredAnalyzer().analyze();
+      const hubs = highlight ? findFileHubs(analysis.importGraph, level, hubThreshold) : undefined;
+      view = level === 'file'
+        ? createFileView(analysis.importGraph, { ...viewOptions, hubs })
+        : createFolderView(analysis.importGraph, { ...viewOptions, hubs });
+    }
+
+    const rendered = renderGraph(view, format);
+    const summary = `${view.nodes.length} ${level} node(s), ${view.edges.length} edge(s)`;
+
+    if (options.output) {
+      fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+      fs.writeFileSync(options.output, rendered + '\n');
+      spinner.succeed(`Wrote ${format} graph to ${options.output} (${summary})`);
+      return;
+    }
+
+    spinner.succeed(`Graph ready (${summary})`);
+    console.log(rendered);
+  } catch (error) {
+    spinner.fail('Graph export failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function parseChoice<T extends string>(name: string, value: string, choices: T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`Unknown ${name} "${value}" (expected ${choices.join(', ')})`);
+  }
+  return value as T;
+}
+
+function parseNumber(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected a non-negative number)`);
+  }
+  return parsed;
+}
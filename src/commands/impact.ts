@@ -1,7 +1,7 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import * as path from 'node:path';
-import { createConfiguredAnalyzer, type ProjectAnalysis, type SymbolTrace } from '../core/index.js';
+import { createConfiguredAnalyzer, findPackageOf, type ProjectAnalysis, type SymbolTrace } from '../core/index.js';
 
 interface ImpactOptions {
   json?: boolean;
@@ -37,9 +37,15 @@ export async function impactCommand(filePath: string, options: ImpactOptions): P
       }
     }
 
+    const affectedPackages = getAffectedPackages(relativePath, impactedFiles, analysis);
+
     if (options.json) {
       console.log(JSON.stringify({
         file: relativePath,
+        ...(analysis.packages.length > 0 && {
+          package: findPackageOf(analysis.packages, relativePath)?.name,
+          affectedPackages,
+        }),
         exports: fileAnalysis.exports,
         directDependents: Array.from(analysis.reverseGraph.get(relativePath) || []),
         allImpacted: impactedFiles,
@@ -53,6 +59,9 @@ export async function impactCommand(filePath: string, options: ImpactOptions): P
     }
 
     printImpact(relativePath, fileAnalysis, impactedFiles, exportTraces, analysis);
+    if (analysis.packages.length > 0) {
+      printAffectedPackages(relativePath, affectedPackages, analysis);
+    }
   } catch (error) {
     spinner.fail('Analysis failed');
     console.error(chalk.red(`Error: ${error}`));
@@ -60,6 +69,45 @@ export async function impactCommand(filePath: string, options: ImpactOptions): P
   }
 }
 
+interface AffectedPackage {
+  name: string;
+  files: number;
+  crossPackage: boolean;
+}
+
+/** Impacted files grouped by workspace package */
+function getAffectedPackages(filePath: string, impactedFiles: string[], analysis: ProjectAnalysis): AffectedPackage[] {
+  if (analysis.packages.length === 0) return [];
+
+  const ownPackage = findPackageOf(analysis.packages, filePath)?.name ?? '(root)';
+  const counts = new Map<string, number>();
+  for (const file of impactedFiles) {
+    const name = findPackageOf(analysis.packages, file)?.name ?? '(root)';
+    counts.set(name, (counts.get(name) || 0) + 1);
+  }
+
+  return Array.from(counts, ([name, files]) => ({ name, files, crossPackage: name !== ownPackage }))
+    .sort((a, b) => b.files - a.files);
+}
+
+function printAffectedPackages(filePath: string, affected: AffectedPackage[], analysis: ProjectAnalysis): void {
+  const ownPackage = findPackageOf(analysis.packages, filePath)?.name ?? '(root)';
+  const crossPackage = affected.filter(p => p.crossPackage);
+
+  console.log(chalk.white(`  Packages (${ownPackage}):`));
+  if (affected.length === 0) {
+    console.log(chalk.gray('    No packages affected'));
+  }
+  for (const pkg of affected) {
+    const label = pkg.crossPackage ? chalk.yellow(pkg.name) : chalk.blue(`${pkg.name} (same package)`);
+    console.log(`    ${label} ${chalk.gray(`${pkg.files} files`)}`);
+  }
+  if (crossPackage.length > 0) {
+    console.log(chalk.yellow(`    ⚠ Change crosses package boundaries: ${crossPackage.length} other package(s) affected`));
+  }
+  console.log('');
+}
+
 function printImpact(
   filePath: string,
   fileAnalysis: { exports: Array<{ name: string; kind: string; line: number }> },
@@ -1,4 +1,4 @@
-export { configCommand, getGlobalApiKey, hasGlobalApiKey } from './config.js';
+export { configCommand, getGlobalApiKey, hasGlobalApiKey, getGlobalAIConfig, hasGlobalAIProvider } from './config.js';
 export { initCommand } from './init.js';
 export { exportsCommand } from './exports.js';
 export { traceCommand } from './trace.js';
@@ -12,9 +12,20 @@ export { scanCommand } from './scan.js';
 export { verifyCommand } from './verify.js';
 export { extractCommand } from './extract.js';
 export { diagnoseCommand } from './diagnose.js';
+export { baselineCommand } from './baseline.js';
 export { cleanupCommand } from './cleanup.js';
 export { splitCommand } from './split.js';
 export { mergeCommand } from './merge.js';
 export { fixCommand } from './fix.js';
 export { reorganizeCommand } from './reorganize.js';
 export { quickfixCommand } from './quickfix.js';
+export { watchCommand } from './watch.js';
+export { lspCommand } from './lsp.js';
+export { checkCommand } from './check.js';
+export { graphCommand } from './graph.js';
+export { reportCommand } from './report.js';
+export { renameCommand } from './rename.js';
+export { mvCommand } from './mv.js';
+export { depsCommand } from './deps.js';
+export { debarrelCommand } from './debarrel.js';
+export { typeImportsCommand } from './type-imports.js';
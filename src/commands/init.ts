@@ -4,7 +4,7 @@ import ora from 'ora';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { createConfiguredAnalyzer, type ProjectAnalysis, type SymbolTrace, type ProjectAnalyzer } from '../core/index.js';
-import { hasGlobalApiKey } from './config.js';
+import { hasGlobalAIProvider } from './config.js';
 
 export async function initCommand(): Promise<void> {
   console.log(chalk.green.bold('\n🧹 Consuela - Code Analysis Tool\n'));
@@ -122,7 +122,7 @@ async function promptNextAction(
   analysis: ProjectAnalysis,
   analyzer: ProjectAnalyzer
 ): Promise<void> {
-  const hasApiKey = hasGlobalApiKey();
+  const hasApiKey = hasGlobalAIProvider();
 
   const choices = [
     { name: '📦 View all exports', value: 'exports' },
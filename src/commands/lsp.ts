@@ -0,0 +1,14 @@
+/**
+ * lsp command - Serve consuela's findings to editors over the Language Server Protocol
+ */
+
+import { createLanguageServer } from '../lsp/server.js';
+
+export async function lspCommand(): Promise<void> {
+  // stdout carries the protocol, so nothing else may be printed to it
+  const server = createLanguageServer(process.stdin, process.stdout, {
+    // Pipes are written asynchronously: let pending responses flush before exiting
+    onExit: code => process.stdout.write('', () => process.exit(code)),
+  });
+  server.listen();
+}
@@ -0,0 +1,112 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { applyMove, planMove, type MovePlan } from '../refactor/operations/move.js';
+import { printDiffPreview } from './cleanup.js';
+
+interface MvOptions {
+  dryRun?: boolean;
+  verify?: boolean;
+  json?: boolean;
+}
+
+export async function mvCommand(from: string, to: string, options: MvOptions): Promise<void> {
+  const spinner = ora('Planning move...').start();
+
+  try {
+    const plan = await planMove({ from, to });
+
+    if (plan.errors.length > 0) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ success: false, errors: plan.errors }, null, 2));
+      } else {
+        spinner.fail(`Cannot move ${from}`);
+        for (const error of plan.errors) {
+          console.error(chalk.red(`Error: ${error}`));
+        }
+      }
+      process.exit(1);
+    }
+
+    const files = new Set([...plan.changes.keys(), ...plan.moves.map(move => move.to)]).size;
+    if (options.dryRun) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({
+          success: true,
+          dryRun: true,
+          moves: plan.moves,
+          files: [...plan.changes.keys()].sort(),
+          warnings: plan.warnings,
+        }, null, 2));
+        return;
+      }
+      spinner.succeed(`Would move ${from} to ${to}, touching ${files} file(s)`);
+      printPlan(plan);
+      console.log(chalk.gray('Dry run - no files written. Run without --dry-run to apply.\n'));
+      return;
+    }
+
+    if (options.json) spinner.stop();
+    else spinner.succeed('Plan complete');
+
+    const verifySpinner = options.verify === false || options.json ? null : ora('Verifying build...').start();
+    const result = applyMove(plan, { verify: options.verify });
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        success: result.success,
+        moves: result.success ? plan.moves : [],
+        files: result.filesModified,
+        warnings: plan.warnings,
+        ...(result.buildPassed !== undefined && { buildPassed: result.buildPassed }),
+        ...(result.error && { error: result.error }),
+      }, null, 2));
+      if (!result.success) process.exit(1);
+      return;
+    }
+
+    if (!result.success) {
+      verifySpinner?.fail('Build failed after move');
+      console.error(chalk.red(`Error: ${result.error}`));
+      process.exit(1);
+    }
+    verifySpinner?.succeed('Build verified');
+
+    console.log(chalk.green(`\n  ✓ Moved ${from} to ${to}, updated ${files} file(s)`));
+    printWarnings(plan.warnings);
+    console.log('');
+  } catch (error) {
+    spinner.fail('Move failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function printPlan(plan: MovePlan): void {
+  console.log(chalk.gray('─'.repeat(50)));
+  if (plan.moves.length > 0) {
+    console.log(chalk.white('\n  Moves:\n'));
+    for (const move of plan.moves) {
+      console.log(`    ${move.from} ${chalk.gray('→')} ${chalk.cyan(move.to)}`);
+    }
+  }
+
+  if (plan.changes.size > 0) {
+    console.log(chalk.white('\n  Changes:\n'));
+    for (const [file, change] of plan.changes) {
+      printDiffPreview(file, change.original ?? '', change.content);
+    }
+  }
+
+  printWarnings(plan.warnings);
+  console.log('');
+}
+
+function printWarnings(warnings: string[]): void {
+  if (warnings.length === 0) return;
+  console.log(chalk.yellow('\n  Check by hand:\n'));
+  for (const warning of warnings) {
+    console.log(`    ${chalk.yellow('⚠')} ${warning}`);
+  }
+}
@@ -11,6 +11,7 @@
  * Usage:
  *   consuela fix              # Fix dead code automatically
  *   consuela fix --deep       # AI-powered deep cleanup (large files, etc.)
+ *   consuela fix --deps       # Also bring package.json in line with the imports
  *   consuela fix --dry-run    # Preview what would be fixed
  */
 
@@ -20,23 +21,29 @@ import inquirer from 'inquirer';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { execSync } from 'node:child_process';
-import { createConfiguredAnalyzer, type ProjectAnalysis, type ProjectAnalyzer } from '../core/index.js';
+import {
+  analyzeDependencies, createConfiguredAnalyzer, problemFromLargeFile, problemFromUnusedExport, type ProjectAnalysis, type ProjectAnalyzer, type RuleId,
+} from '../core/index.js';
 import { createGraphAnalyzer, type FunctionGraph } from '../graph/index.js';
-import { hasGlobalApiKey, configCommand, getGlobalApiKey } from './config.js';
+import { hasGlobalAIProvider, configCommand, getGlobalAIConfig } from './config.js';
+import { countFailingProblems } from './baseline.js';
 import { cleanup, type CleanupOptions } from '../refactor/operations/cleanup.js';
-import { createGeminiClient, type TidyContext } from '../core/gemini.js';
+import { fixDependencies } from '../refactor/operations/fix-dependencies.js';
+import { createAIProvider } from '../core/ai.js';
+import type { TidyContext } from '../core/ai-provider.js';
 import { reorganize } from '../refactor/operations/reorganize.js';
 
 interface QuickfixOptions {
   dryRun?: boolean;
   deep?: boolean;
   all?: boolean;
+  deps?: boolean;
   fail?: boolean;
   json?: boolean;
 }
 
 interface FixedItem {
-  type: 'removed-export' | 'removed-file' | 'split-file' | 'tidied-file' | 'reorganized';
+  type: 'removed-export' | 'removed-file' | 'split-file' | 'tidied-file' | 'reorganized' | 'updated-dependency';
   file: string;
   name?: string;
   kind?: string;
@@ -111,15 +118,15 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
     options.deep = true;
   }
 
-  // Check for API key if deep or all mode
-  if ((options.deep || options.all) && !hasGlobalApiKey()) {
+  // Check for an AI provider if deep or all mode
+  if ((options.deep || options.all) && !hasGlobalAIProvider()) {
     if (!options.json) {
-      console.log(chalk.yellow('  AI-powered fixes require an API key.\n'));
+      console.log(chalk.yellow('  AI-powered fixes require an AI provider.\n'));
 
       const { setupKey } = await inquirer.prompt([{
         type: 'confirm',
         name: 'setupKey',
-        message: 'Would you like to configure your API key now?',
+        message: 'Would you like to configure an AI provider now?',
         default: true,
       }]);
 
@@ -127,7 +134,7 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
         await configCommand();
         console.log('');
         // Re-check after config
-        if (!hasGlobalApiKey()) {
+        if (!hasGlobalAIProvider()) {
           console.log(chalk.gray('  Running basic mode only.\n'));
           options.deep = false;
           options.all = false;
@@ -140,7 +147,7 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
     } else {
       console.log(JSON.stringify({
         success: false,
-        error: 'AI features require API key. Run: consuela config',
+        error: 'AI features require an AI provider. Run: consuela config',
       }, null, 2));
       return;
     }
@@ -189,9 +196,14 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
       largeFiles.sort((a, b) => b.lines - a.lines);
     }
 
+    // package.json dependencies, only when asked for
+    const dependencyReport = options.deps ? analyzeDependencies(analysis, rootDir) : undefined;
+    const dependencyIssues = dependencyReport?.issues ?? [];
+
     const hasDeadCode = trulyUnused.length > 0;
     const hasLargeFiles = largeFiles.length > 0;
-    const hasWork = hasDeadCode || (options.deep && hasLargeFiles);
+    const hasDependencyIssues = dependencyIssues.length > 0;
+    const hasWork = hasDeadCode || (options.deep && hasLargeFiles) || hasDependencyIssues;
 
     if (!hasWork) {
       if (options.json) {
@@ -204,6 +216,8 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
         }, null, 2));
       } else {
         console.log(chalk.green('  ✓ Your codebase is clean! Nothing to fix.\n'));
+        // Still point out baseline entries that can be pruned
+        if (options.fail) countFailingProblems([], options.deep ? ['unused-export', 'large-file'] : ['unused-export']);
       }
       return;
     }
@@ -224,6 +238,15 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
           console.log(chalk.gray(`        ... and ${largeFiles.length - 3} more`));
         }
       }
+      if (hasDependencyIssues) {
+        console.log(chalk.yellow(`    • ${dependencyIssues.length} package.json dependency issue(s)`));
+        for (const issue of dependencyIssues.slice(0, 3)) {
+          console.log(chalk.gray(`        ${issue.kind}: ${issue.name}`));
+        }
+        if (dependencyIssues.length > 3) {
+          console.log(chalk.gray(`        ... and ${dependencyIssues.length - 3} more`));
+        }
+      }
       console.log('');
     }
 
@@ -240,15 +263,23 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
               kind: u.export.kind,
             })),
             largeFiles: options.deep ? largeFiles : [],
+            ...(options.deps && { dependencies: dependencyIssues }),
           },
         }, null, 2));
       } else {
         console.log(chalk.gray('  Dry run - no changes made.'));
         console.log(chalk.gray('  Run without --dry-run to fix automatically.\n'));
       }
-      // Exit with code 1 if --fail and there are issues
-      if (options.fail && hasWork) {
-        process.exit(1);
+      // Exit with code 1 if --fail and there are issues the baseline does not know about
+      if (options.fail) {
+        const problems = [
+          ...trulyUnused.map(problemFromUnusedExport),
+          ...(options.deep ? largeFiles.map(({ file, lines }) => problemFromLargeFile(file, lines)) : []),
+        ];
+        const rules: RuleId[] = options.deep ? ['unused-export', 'large-file'] : ['unused-export'];
+        if (countFailingProblems(problems, rules, options.json) > 0) {
+          process.exit(1);
+        }
       }
       return;
     }
@@ -287,10 +318,27 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
       }
     }
 
+    // Step 5b: Update package.json dependencies
+    if (dependencyReport && hasDependencyIssues) {
+      const depsSpinner = options.json ? null : ora('Updating package.json...').start();
+      try {
+        const result = fixDependencies(dependencyReport, { rootDir });
+        for (const fix of result.fixed) {
+          fixed.push({ type: 'updated-dependency', file: fix.manifest, name: fix.name, details: `${fix.kind}: ${fix.section} ${fix.version}` });
+        }
+        for (const skipped of result.skipped) {
+          errors.push(`${skipped.name} (${skipped.manifest}): ${skipped.reason}`);
+        }
+        if (depsSpinner) depsSpinner.succeed(`Updated ${result.fixed.length} dependency(ies) in package.json`);
+      } catch (err) {
+        if (depsSpinner) depsSpinner.fail('Updating package.json failed');
+        errors.push(`Dependency fix error: ${err}`);
+      }
+    }
+
     // Step 6: Deep mode - tidy large files with AI
     if (options.deep && hasLargeFiles) {
-      const apiKey = getGlobalApiKey()!;
-      const gemini = createGeminiClient(apiKey);
+      const ai = createAIProvider(getGlobalAIConfig()!);
       const filesToTidy = largeFiles.slice(0, 3); // Limit to 3 files per run
 
       for (const { file, lines } of filesToTidy) {
@@ -319,7 +367,7 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
 
           if (tidySpinner) tidySpinner.text = `AI analyzing ${file}...`;
 
-          const result = await gemini.tidyCode(file, fileContent, context);
+          const result = await ai.tidyCode(file, fileContent, context);
 
           if (result.cleanedCode && result.cleanedCode !== fileContent) {
             fs.writeFileSync(absolutePath, result.cleanedCode);
@@ -418,6 +466,7 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
         const removedFiles = fixed.filter(f => f.type === 'removed-file');
         const tidiedFiles = fixed.filter(f => f.type === 'tidied-file');
         const reorganized = fixed.filter(f => f.type === 'reorganized');
+        const dependencies = fixed.filter(f => f.type === 'updated-dependency');
 
         if (removedExports.length > 0) {
           console.log(chalk.green(`    • Removed ${removedExports.length} unused export(s)`));
@@ -428,6 +477,12 @@ export async function quickfixCommand(options: QuickfixOptions = {}): Promise<vo
         if (tidiedFiles.length > 0) {
           console.log(chalk.green(`    • Cleaned up ${tidiedFiles.length} large file(s)`));
         }
+        if (dependencies.length > 0) {
+          console.log(chalk.green(`    • Updated ${dependencies.length} package.json dependency(ies)`));
+          for (const d of dependencies) {
+            console.log(chalk.gray(`      ${d.name} (${d.details})`));
+          }
+        }
         if (reorganized.length > 0) {
           console.log(chalk.green(`    • Reorganized codebase structure`));
           for (const r of reorganized) {
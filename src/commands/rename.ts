@@ -0,0 +1,79 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { renameSymbol } from '../refactor/operations/rename.js';
+import { printDiffPreview } from './cleanup.js';
+
+interface RenameOptions {
+  dryRun?: boolean;
+  verify?: boolean;
+  json?: boolean;
+}
+
+export async function renameCommand(target: string, newName: string, options: RenameOptions): Promise<void> {
+  const separator = target.lastIndexOf('#');
+  if (separator <= 0 || separator === target.length - 1) {
+    console.error(chalk.red('Error: Expected <file>#<name>, e.g. src/utils.ts#formatDate'));
+    process.exit(1);
+  }
+  const file = target.slice(0, separator);
+  const oldName = target.slice(separator + 1);
+
+  const spinner = ora('Analyzing codebase...').start();
+
+  try {
+    const result = await renameSymbol({ file, oldName, newName, dryRun: options.dryRun, verify: options.verify });
+
+    if (options.json) {
+      spinner.stop();
+      console.log(JSON.stringify({
+        success: result.success,
+        dryRun: !!options.dryRun,
+        files: result.fileChanges.map(change => ({ file: change.filePath, renamed: change.renamed })),
+        conflicts: result.conflicts,
+        errors: result.errors,
+        ...(result.buildPassed !== undefined && { buildPassed: result.buildPassed }),
+      }, null, 2));
+      if (!result.success) process.exit(1);
+      return;
+    }
+
+    if (result.conflicts.length > 0) {
+      spinner.fail(`Cannot rename ${oldName} to ${newName}`);
+      console.log(chalk.red('\n  Conflicts:\n'));
+      for (const conflict of result.conflicts) {
+        console.log(`    ${chalk.red('✗')} ${conflict.file}:${conflict.line} ${chalk.gray(conflict.reason)}`);
+      }
+      console.log('');
+      process.exit(1);
+    }
+
+    if (!result.success) {
+      spinner.fail(result.buildPassed === false ? 'Build failed after rename' : 'Rename failed');
+      for (const error of result.errors) {
+        console.error(chalk.red(`Error: ${error}`));
+      }
+      process.exit(1);
+    }
+
+    const files = result.fileChanges.length;
+    if (options.dryRun) {
+      spinner.succeed(`Would rename ${oldName} to ${newName} in ${files} file(s)`);
+      console.log(chalk.gray('─'.repeat(50)));
+      for (const change of result.fileChanges) {
+        printDiffPreview(change.filePath, change.originalContent, change.newContent);
+      }
+      console.log(chalk.gray('Dry run - no files written. Run without --dry-run to apply.\n'));
+      return;
+    }
+
+    spinner.succeed(`Renamed ${oldName} to ${newName} in ${files} file(s)`);
+    for (const change of result.fileChanges) {
+      console.log(`  ${chalk.green('✓')} ${change.filePath} ${chalk.gray(`(${change.renamed} change(s))`)}`);
+    }
+    console.log('');
+  } catch (error) {
+    spinner.fail('Rename failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
@@ -16,7 +16,7 @@ import {
   type ProgressCallback,
 } from '../refactor/operations/reorganize.js';
 import type { ReorganizeOptions } from '../refactor/types.js';
-import { hasGlobalApiKey } from './config.js';
+import { hasGlobalAIProvider } from './config.js';
 import type { ReorganizePlan, ReorganizeConflict } from '../refactor/types.js';
 
 interface ReorganizeCommandOptions {
@@ -67,10 +67,10 @@ export async function reorganizeCommand(
     return;
   }
 
-  // Check for Gemini API key
-  if (!hasGlobalApiKey()) {
-    console.log(chalk.red('\nError: Gemini API key is required for reorganization.\n'));
-    console.log(chalk.gray('Run `consuela config` to set up your API key.'));
+  // Check for a configured AI provider
+  if (!hasGlobalAIProvider()) {
+    console.log(chalk.red('\nError: An AI provider is required for reorganization.\n'));
+    console.log(chalk.gray('Run `consuela config` to set up Gemini, an OpenAI-compatible endpoint or Ollama.'));
     process.exit(1);
   }
 
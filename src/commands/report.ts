@@ -0,0 +1,84 @@
+/**
+ * report command - Write a standalone HTML health report (e.g. as a CI artifact)
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createConfiguredAnalyzer, type ProjectAnalysis, type Problem } from '../core/index.js';
+import { renderHtmlReport, type HtmlReportFile } from '../core/html-report.js';
+import { createFileView, createGraphAnalyzer, findFileHubs } from '../graph/index.js';
+import { runDiagnosis } from './diagnose.js';
+
+interface ReportOptions {
+  html?: string;
+}
+
+const DEFAULT_REPORT_FILE = 'consuela-report.html';
+
+/** Connections a file needs to be drawn as a hub, as in `consuela graph` */
+const HUB_THRESHOLD = 5;
+
+export async function reportCommand(options: ReportOptions): Promise<void> {
+  const spinner = ora('Analyzing codebase health...').start();
+
+  try {
+    const output = options.html || DEFAULT_REPORT_FILE;
+    const analyzer = createConfiguredAnalyzer();
+    const graphAnalyzer = createGraphAnalyzer();
+
+    const [analysis, graph] = await Promise.all([
+      analyzer.analyze(),
+      graphAnalyzer.buildGraph(),
+    ]);
+
+    spinner.text = 'Building report...';
+
+    const diagnosis = runDiagnosis(analyzer, analysis, graph);
+    const html = renderHtmlReport({
+      title: `Consuela report: ${path.basename(process.cwd())}`,
+      generatedAt: new Date().toISOString(),
+      score: diagnosis.score,
+      scoreBreakdown: diagnosis.scoreBreakdown,
+      problems: diagnosis.problems,
+      purity: graph.stats,
+      graph: createFileView(analysis.importGraph, {
+        highlightCycles: true,
+        hubs: findFileHubs(analysis.importGraph, 'file', HUB_THRESHOLD),
+      }),
+      files: collectFiles(analysis, diagnosis.problems),
+    });
+
+    fs.mkdirSync(path.dirname(path.resolve(output)), { recursive: true });
+    fs.writeFileSync(output, html);
+    spinner.succeed(`Wrote HTML report to ${output} (score ${diagnosis.score}/100, ${diagnosis.problems.length} problem(s))`);
+  } catch (error) {
+    spinner.fail('Report failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function collectFiles(analysis: ProjectAnalysis, problems: Problem[]): HtmlReportFile[] {
+  const unused = new Set(
+    problems.filter(p => p.rule === 'unused-export').map(p => `${p.file}:${p.symbol}`)
+  );
+
+  return [...analysis.files.keys()].sort().map(file => ({
+    path: file,
+    dependencies: analysis.importGraph.get(file)?.size || 0,
+    dependents: analysis.reverseGraph.get(file)?.size || 0,
+    exports: (analysis.files.get(file)?.exports || []).map(exp => {
+      const trace = analysis.symbolTraces.get(`${file}:${exp.name}`);
+      return {
+        name: exp.name,
+        kind: exp.kind,
+        line: exp.line,
+        usageCount: trace?.usageCount || 0,
+        importedBy: [...new Set(trace?.importedBy.map(i => i.file) || [])].sort(),
+        unused: unused.has(`${file}:${exp.name}`),
+      };
+    }),
+  }));
+}
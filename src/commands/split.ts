@@ -8,7 +8,7 @@ import ora from 'ora';
 import * as path from 'node:path';
 import inquirer from 'inquirer';
 import { splitFile, previewSplit, type SplitOptions, type SplitResult } from '../refactor/operations/split.js';
-import { hasGlobalApiKey } from './config.js';
+import { hasGlobalAIProvider } from './config.js';
 
 interface SplitCommandOptions {
   extract?: string;
@@ -32,8 +32,8 @@ export async function splitCommand(
     process.exit(1);
   }
 
-  if (options.auto && !hasGlobalApiKey()) {
-    console.log(chalk.yellow('\nNote: --auto works best with Gemini AI configured.'));
+  if (options.auto && !hasGlobalAIProvider()) {
+    console.log(chalk.yellow('\nNote: --auto works best with an AI provider configured.'));
     console.log(chalk.gray('Run `consuela config` to set up AI features for better suggestions.\n'));
     console.log(chalk.gray('Proceeding with heuristic-based extraction...\n'));
   }
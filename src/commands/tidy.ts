@@ -3,8 +3,9 @@ import ora from 'ora';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import inquirer from 'inquirer';
-import { getGlobalApiKey, hasGlobalApiKey } from './config.js';
-import { createGeminiClient, type TidyContext } from '../core/gemini.js';
+import { getGlobalAIConfig } from './config.js';
+import { createAIProvider } from '../core/ai.js';
+import type { TidyContext } from '../core/ai-provider.js';
 import { createConfiguredAnalyzer } from '../core/index.js';
 import { createGraphAnalyzer } from '../graph/index.js';
 
@@ -15,14 +16,13 @@ interface TidyOptions {
 }
 
 export async function tidyCommand(filePath: string, options: TidyOptions): Promise<void> {
-  if (!hasGlobalApiKey()) {
-    console.log(chalk.red('\nGemini API key not configured.'));
+  const aiConfig = getGlobalAIConfig();
+  if (!aiConfig) {
+    console.log(chalk.red('\nAI provider not configured.'));
     console.log(chalk.gray('Run `consuela config` to set up AI features.\n'));
     process.exit(1);
   }
 
-  const apiKey = getGlobalApiKey()!;
-
   // Resolve file path
   const absolutePath = path.resolve(process.cwd(), filePath);
   const relativePath = path.relative(process.cwd(), absolutePath);
@@ -77,10 +77,10 @@ export async function tidyCommand(filePath: string, options: TidyOptions): Promi
         .map(u => u.export.name);
     }
 
-    spinner.text = 'Sending to Gemini for cleanup suggestions...';
+    const ai = createAIProvider(aiConfig);
+    spinner.text = `Sending to ${ai.name} (${ai.model}) for cleanup suggestions...`;
 
-    const gemini = createGeminiClient(apiKey);
-    const result = await gemini.tidyCode(relativePath, fileContent, context);
+    const result = await ai.tidyCode(relativePath, fileContent, context);
 
     spinner.succeed('Received cleanup suggestions');
 
@@ -0,0 +1,119 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { applyTypeImports, planTypeImports, type TypeImportsPlan } from '../refactor/operations/type-imports.js';
+import { printDiffPreview } from './cleanup.js';
+
+interface TypeImportsOptions {
+  dryRun?: boolean;
+  verify?: boolean;
+  json?: boolean;
+}
+
+/** Diffs are shown up to this many files */
+const MAX_PREVIEW_FILES = 10;
+
+export async function typeImportsCommand(dir: string | undefined, options: TypeImportsOptions): Promise<void> {
+  const spinner = ora('Finding type-only imports...').start();
+
+  try {
+    const plan = await planTypeImports({ dir });
+
+    if (plan.errors.length > 0) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ success: false, errors: plan.errors }, null, 2));
+      } else {
+        spinner.fail('Cannot convert type imports');
+        for (const error of plan.errors) {
+          console.error(chalk.red(`Error: ${error}`));
+        }
+      }
+      process.exit(1);
+    }
+
+    if (plan.changes.size === 0) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ success: true, conversions: [], eliminatedEdges: [] }, null, 2));
+        return;
+      }
+      spinner.succeed('Every type-only import is already marked');
+      console.log('');
+      return;
+    }
+
+    const summary = `${plan.conversions.length} declaration(s) in ${plan.changes.size} file(s)`;
+    const edges = `${plan.eliminatedEdges.length} runtime import edge(s)`;
+    if (options.dryRun) {
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({
+          success: true,
+          dryRun: true,
+          conversions: plan.conversions,
+          eliminatedEdges: plan.eliminatedEdges,
+        }, null, 2));
+        return;
+      }
+      spinner.succeed(`Would convert ${summary}, eliminating ${edges}`);
+      printPlan(plan);
+      console.log(chalk.gray('Dry run - no files written. Run without --dry-run to apply.\n'));
+      return;
+    }
+
+    if (options.json) spinner.stop();
+    else spinner.succeed('Plan complete');
+
+    const verifySpinner = options.verify === false || options.json ? null : ora('Verifying build...').start();
+    const result = applyTypeImports(plan, { verify: options.verify });
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        success: result.success,
+        conversions: result.success ? plan.conversions : [],
+        eliminatedEdges: result.success ? plan.eliminatedEdges : [],
+        files: result.filesModified,
+        ...(result.buildPassed !== undefined && { buildPassed: result.buildPassed }),
+        ...(result.error && { error: result.error }),
+      }, null, 2));
+      if (!result.success) process.exit(1);
+      return;
+    }
+
+    if (!result.success) {
+      verifySpinner?.fail('Build failed after converting type imports');
+      console.error(chalk.red(`Error: ${result.error}`));
+      process.exit(1);
+    }
+    verifySpinner?.succeed('Build verified');
+
+    console.log(chalk.green(`\n  ✓ Converted ${summary}`));
+    console.log(chalk.green(`  ✓ Eliminated ${edges}`));
+    console.log('');
+  } catch (error) {
+    spinner.fail('Type imports failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+}
+
+function printPlan(plan: TypeImportsPlan): void {
+  console.log(chalk.gray('─'.repeat(50)));
+
+  if (plan.eliminatedEdges.length > 0) {
+    console.log(chalk.white('\n  Runtime edges eliminated:\n'));
+    for (const edge of plan.eliminatedEdges) {
+      console.log(`    ${edge.from} ${chalk.gray('→')} ${edge.to}`);
+    }
+  }
+
+  if (plan.changes.size > MAX_PREVIEW_FILES) {
+    console.log(chalk.gray(`\n  (${plan.changes.size} files will be modified - too many to preview)`));
+  } else {
+    console.log(chalk.white('\n  Changes:\n'));
+    for (const [file, change] of plan.changes) {
+      printDiffPreview(file, change.original, change.content);
+    }
+  }
+  console.log('');
+}
@@ -1,17 +1,25 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { createConfiguredAnalyzer, type UnusedExport } from '../core/index.js';
+import {
+  createConfiguredAnalyzer, findPackageOf, parseReportFormat, problemFromDeadFile, problemFromUnusedExport, problemFromUnusedMember, renderReport,
+  type DeadCluster, type ProjectAnalysis, type RuleId, type UnusedExport, type UnusedMember,
+} from '../core/index.js';
+import { countFailingProblems } from './baseline.js';
 
 interface UnusedOptions {
   json?: boolean;
+  format?: string;
   strict?: boolean; // Include entry points
   fail?: boolean; // Exit with code 1 if unused exports found (for CI)
+  members?: boolean; // Also report unused class/enum/interface members
+  files?: boolean; // Also report files unreachable from any entry point
 }
 
 export async function unusedCommand(options: UnusedOptions): Promise<void> {
   const spinner = ora('Analyzing codebase...').start();
 
   try {
+    const format = parseReportFormat(options.format, options.json);
     const analyzer = createConfiguredAnalyzer();
     const analysis = await analyzer.analyze();
 
@@ -27,17 +35,51 @@ export async function unusedCommand(options: UnusedOptions): Promise<void> {
     // Count truly unused for CI
     const trulyUnused = filtered.filter(u => !u.reason.includes('Entry point'));
 
-    if (options.json) {
-      console.log(JSON.stringify(filtered, null, 2));
-      if (options.fail && trulyUnused.length > 0) {
+    const members = options.members ? analyzer.findUnusedMembers(analysis) : [];
+    const clusters = options.files ? analyzer.findUnusedFiles(analysis) : [];
+    const deadFiles = clusters.flatMap(cluster => cluster.files.map(file => problemFromDeadFile(file, cluster)));
+    const findings = [...trulyUnused.map(problemFromUnusedExport), ...members.map(problemFromUnusedMember), ...deadFiles];
+    const checkedRules: RuleId[] = [
+      'unused-export',
+      ...(options.members ? ['unused-member' as const] : []),
+      ...(options.files ? ['unused-file' as const] : []),
+    ];
+
+    if (format === 'sarif' || format === 'codeclimate') {
+      console.log(renderReport(format, [...filtered.map(problemFromUnusedExport), ...members.map(problemFromUnusedMember), ...deadFiles]));
+      if (options.fail && countFailingProblems(findings, checkedRules, true) > 0) {
+        process.exit(1);
+      }
+      return;
+    }
+
+    if (format === 'json') {
+      // In a workspace, every finding carries the package it belongs to
+      const exportsJson = analysis.packages.length > 0
+        ? filtered.map(u => ({ ...u, package: findPackageOf(analysis.packages, u.export.filePath)?.name }))
+        : filtered;
+      const json = options.members || options.files
+        ? { exports: exportsJson, ...(options.members && { members }), ...(options.files && { files: clusters }) }
+        : exportsJson;
+      console.log(JSON.stringify(json, null, 2));
+      if (options.fail && countFailingProblems(findings, checkedRules, true) > 0) {
         process.exit(1);
       }
       return;
     }
 
     printUnused(filtered, options.strict);
+    if (analysis.packages.length > 0) {
+      printPackageBreakdown(trulyUnused, analysis);
+    }
+    if (options.members) {
+      printUnusedMembers(members);
+    }
+    if (options.files) {
+      printDeadClusters(clusters);
+    }
 
-    if (options.fail && trulyUnused.length > 0) {
+    if (options.fail && countFailingProblems(findings, checkedRules) > 0) {
       process.exit(1);
     }
   } catch (error) {
@@ -129,3 +171,88 @@ function printUnused(unused: UnusedExport[], strict?: boolean): void {
     console.log(chalk.gray('  Tip: Use `consuela trace <name>` to verify before removing\n'));
   }
 }
+
+function printUnusedMembers(members: UnusedMember[]): void {
+  console.log(chalk.cyan('🧩 Unused Members\n'));
+
+  if (members.length === 0) {
+    console.log(chalk.green('  ✓ No unused members found!\n'));
+    return;
+  }
+
+  const byFile = new Map<string, UnusedMember[]>();
+  for (const m of members) {
+    const existing = byFile.get(m.filePath) || [];
+    existing.push(m);
+    byFile.set(m.filePath, existing);
+  }
+
+  for (const [file, fileMembers] of byFile) {
+    console.log(`    ${chalk.white(file)}`);
+    for (const m of fileMembers) {
+      const kindLabel = chalk.gray(`[${m.isStatic && m.kind !== 'enum-member' ? `static ${m.kind}` : m.kind}]`);
+      console.log(`      ${chalk.red('✗')} ${kindLabel} ${m.container}.${m.name} ${chalk.gray(`(line ${m.line})`)}`);
+    }
+  }
+  console.log('');
+
+  console.log(chalk.gray('─'.repeat(40)));
+  console.log(`  Total: ${chalk.white(members.length)} unused members`);
+  console.log(chalk.gray('  Tip: Use `consuela cleanup --members` to remove them\n'));
+}
+
+function printDeadClusters(clusters: DeadCluster[]): void {
+  console.log(chalk.cyan('🪦 Unreachable Files\n'));
+
+  if (clusters.length === 0) {
+    console.log(chalk.green('  ✓ Every file is reachable from an entry point!\n'));
+    return;
+  }
+
+  clusters.forEach((cluster, index) => {
+    const label = cluster.files.length === 1 ? '1 file' : `${cluster.files.length} files`;
+    console.log(`    ${chalk.white(`Cluster ${index + 1}`)} ${chalk.gray(`(${label})`)}`);
+    for (const file of cluster.files) {
+      const root = cluster.roots.includes(file) ? chalk.gray(' - nothing imports it') : '';
+      console.log(`      ${chalk.red('✗')} ${file}${root}`);
+    }
+  });
+  console.log('');
+
+  const total = clusters.reduce((count, cluster) => count + cluster.files.length, 0);
+  console.log(chalk.gray('─'.repeat(40)));
+  console.log(`  Total: ${chalk.white(total)} unreachable files in ${chalk.white(clusters.length)} cluster(s)`);
+  console.log(chalk.gray('  Tip: Use `consuela cleanup --files` to delete them\n'));
+}
+
+function printPackageBreakdown(unused: UnusedExport[], analysis: ProjectAnalysis): void {
+  console.log(chalk.cyan('📦 By Package\n'));
+
+  const packageName = (file: string) => findPackageOf(analysis.packages, file)?.name ?? '(root)';
+  const rows = new Map<string, { unused: number; crossPackage: number }>();
+  for (const pkg of analysis.packages) {
+    rows.set(pkg.name, { unused: 0, crossPackage: 0 });
+  }
+
+  for (const u of unused) {
+    const row = rows.get(packageName(u.export.filePath)) ?? { unused: 0, crossPackage: 0 };
+    row.unused++;
+    rows.set(packageName(u.export.filePath), row);
+  }
+
+  // Exports whose only consumers live in other packages form the package's real public API
+  for (const trace of analysis.symbolTraces.values()) {
+    const owner = packageName(trace.symbol.filePath);
+    if (trace.importedBy.length > 0 && trace.importedBy.every(i => packageName(i.file) !== owner)) {
+      const row = rows.get(owner);
+      if (row) row.crossPackage++;
+    }
+  }
+
+  const width = Math.max(...Array.from(rows.keys(), name => name.length));
+  for (const [name, row] of rows) {
+    const unusedLabel = row.unused > 0 ? chalk.red(`${row.unused} unused`) : chalk.green('0 unused');
+    console.log(`  ${chalk.white(name.padEnd(width))}  ${unusedLabel}  ${chalk.gray(`${row.crossPackage} used only by other packages`)}`);
+  }
+  console.log('');
+}
@@ -0,0 +1,209 @@
+/**
+ * watch command - Keep the analysis in memory and report what each edit changes
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  compareWithBaseline, createBaseline, createConfiguredAnalyzer,
+  type Problem, type ProjectAnalysis, type ProjectAnalyzer, type RuleId,
+} from '../core/index.js';
+import { createGraphAnalyzer, type FunctionGraph, type GraphAnalyzer } from '../graph/index.js';
+import { defaultRegistry } from '../parsers/index.js';
+import { runDiagnosis } from './diagnose.js';
+
+interface WatchOptions {
+  json?: boolean;
+}
+
+/** Findings streamed as they appear or go away */
+const WATCHED_RULES: RuleId[] = ['unused-export', 'circular-dependency'];
+
+/** Changes to these rebuild the session from scratch */
+const CONFIG_FILES = ['package.json', 'tsconfig.json', '.consuelarc', '.consuelarc.json', 'consuela.config.json'];
+
+const IGNORED_DIRS = new Set(['node_modules', '.git', '.consuela', 'dist', 'build', 'coverage']);
+
+const DEBOUNCE_MS = 100;
+
+export interface WatchUpdate {
+  /** Root-relative files that triggered the update */
+  files: string[];
+  durationMs: number;
+  /** Unused exports and cycles that were not there before */
+  introduced: Problem[];
+  /** Unused exports and cycles that are gone */
+  resolved: Problem[];
+  previousScore: number;
+  score: number;
+}
+
+/**
+ * A long-lived analysis: the project analysis and function graph stay in memory,
+ * and update() recomputes only what the changed files can affect.
+ */
+export class WatchSession {
+  private readonly rootDir: string;
+  private analyzer!: ProjectAnalyzer;
+  private graphAnalyzer!: GraphAnalyzer;
+  analysis!: ProjectAnalysis;
+  graph!: FunctionGraph;
+  problems: Problem[] = [];
+  score = 100;
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  /** Full analysis, also used when configuration changes */
+  async start(): Promise<void> {
+    this.analyzer = createConfiguredAnalyzer(this.rootDir);
+    this.graphAnalyzer = createGraphAnalyzer(this.rootDir);
+    [this.analysis, this.graph] = await Promise.all([
+      this.analyzer.analyze(),
+      this.graphAnalyzer.buildGraph(),
+    ]);
+    this.diagnose();
+  }
+
+  async update(changedFiles: string[]): Promise<WatchUpdate> {
+    const startedAt = Date.now();
+    const files = changedFiles.map(f => path.relative(this.rootDir, path.resolve(this.rootDir, f)));
+    const previousProblems = this.problems;
+    const previousScore = this.score;
+
+    if (files.some(f => CONFIG_FILES.includes(path.basename(f)))) {
+      await this.start();
+    } else {
+      [this.analysis, this.graph] = await Promise.all([
+        this.analyzer.update(files),
+        this.graphAnalyzer.updateGraph(files),
+      ]);
+      this.diagnose();
+    }
+
+    // Same matching as baselines: by file and symbol, so findings that merely moved are not reported
+    const before = previousProblems.filter(p => WATCHED_RULES.includes(p.rule));
+    const after = this.problems.filter(p => WATCHED_RULES.includes(p.rule));
+    return {
+      files,
+      durationMs: Date.now() - startedAt,
+      introduced: compareWithBaseline(after, createBaseline(before)).newProblems,
+      resolved: compareWithBaseline(before, createBaseline(after)).newProblems,
+      previousScore,
+      score: this.score,
+    };
+  }
+
+  private diagnose(): void {
+    const diagnosis = runDiagnosis(this.analyzer, this.analysis, this.graph);
+    this.problems = diagnosis.problems;
+    this.score = diagnosis.score;
+  }
+}
+
+export async function startWatchSession(rootDir: string = process.cwd()): Promise<WatchSession> {
+  const session = new WatchSession(rootDir);
+  await session.start();
+  return session;
+}
+
+export async function watchCommand(options: WatchOptions = {}): Promise<void> {
+  const spinner = ora('Analyzing codebase...').start();
+  const rootDir = process.cwd();
+
+  let session: WatchSession;
+  try {
+    session = await startWatchSession(rootDir);
+    spinner.succeed('Analysis complete');
+  } catch (error) {
+    spinner.fail('Analysis failed');
+    console.error(chalk.red(`Error: ${error}`));
+    process.exit(1);
+  }
+
+  const counts = () => ({
+    unusedExports: session.problems.filter(p => p.rule === 'unused-export').length,
+    cycles: session.analysis.circularDependencies.length,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify({ type: 'ready', score: session.score, ...counts() }));
+  } else {
+    const { unusedExports, cycles } = counts();
+    console.log(chalk.cyan('\n👀 Watching for changes (Ctrl+C to stop)\n'));
+    console.log(`  Health Score: ${session.score}/100, ${unusedExports} unused export(s), ${cycles} circular dependenc${cycles === 1 ? 'y' : 'ies'}\n`);
+  }
+
+  // Edits arrive in bursts (save, format, rename), so they are batched and applied one batch at a time
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  const flush = () => {
+    const files = Array.from(pending);
+    pending.clear();
+    running = running.then(async () => {
+      try {
+        const update = await session.update(files);
+        if (options.json) {
+          console.log(JSON.stringify({ type: 'update', ...update }));
+        } else {
+          printUpdate(update);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error}`));
+      }
+    });
+  };
+
+  const watcher = fs.watch(rootDir, { recursive: true }, (_event, filename) => {
+    if (!filename || !isWatchedFile(filename.toString())) return;
+    pending.add(filename.toString());
+    clearTimeout(timer);
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  });
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => {
+      watcher.close();
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+  await running;
+}
+
+function isWatchedFile(filename: string): boolean {
+  const segments = filename.split(/[\\/]/);
+  if (segments.some(segment => IGNORED_DIRS.has(segment))) return false;
+  const basename = segments[segments.length - 1];
+  return CONFIG_FILES.includes(basename) || defaultRegistry.getSupportedExtensions().includes(path.extname(basename));
+}
+
+function printUpdate(update: WatchUpdate): void {
+  const time = new Date().toLocaleTimeString();
+  const files = update.files.length > 1 ? `${update.files[0]} (+${update.files.length - 1} more)` : update.files[0];
+  const { introduced, resolved, previousScore, score } = update;
+
+  if (introduced.length === 0 && resolved.length === 0 && score === previousScore) {
+    console.log(chalk.gray(`[${time}] ${files}: no new issues (${update.durationMs}ms)`));
+    return;
+  }
+
+  console.log(`${chalk.gray(`[${time}]`)} ${files} ${chalk.gray(`(${update.durationMs}ms)`)}`);
+  for (const problem of introduced) {
+    const location = problem.file ? chalk.gray(` ${problem.file}${problem.line ? `:${problem.line}` : ''}`) : '';
+    const icon = problem.rule === 'circular-dependency' ? chalk.red('↻') : chalk.yellow('+');
+    console.log(`  ${icon} ${problem.message}${location}`);
+  }
+  for (const problem of resolved) {
+    console.log(`  ${chalk.green('✓')} ${chalk.gray(`Fixed: ${problem.message}`)}`);
+  }
+  if (score !== previousScore) {
+    const color = score > previousScore ? chalk.green : chalk.red;
+    console.log(`  Health Score: ${previousScore} → ${color(score)}`);
+  }
+}
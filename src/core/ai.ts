@@ -0,0 +1,32 @@
+import type { AIProvider, AIProviderConfig } from './ai-provider.js';
+import { createGeminiClient } from './gemini.js';
+import { createOpenAIClient } from './openai.js';
+import { createOllamaClient } from './ollama.js';
+import { createCassetteProvider } from './cassette.js';
+
+/**
+ * Create the AI backend described by the config, wrapped in a cassette when recording or replaying
+ */
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  if (config.cassette) {
+    const inner = config.cassette.mode === 'replay' ? null : createBackend(config);
+    return createCassetteProvider(inner, config.cassette, { name: config.provider, model: config.model });
+  }
+  return createBackend(config);
+}
+
+function createBackend(config: AIProviderConfig): AIProvider {
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) {
+        throw new Error('Gemini provider requires an API key');
+      }
+      return createGeminiClient(config.apiKey, config.model);
+    case 'openai':
+      return createOpenAIClient({ apiKey: config.apiKey, baseUrl: config.baseUrl, model: config.model });
+    case 'ollama':
+      return createOllamaClient({ baseUrl: config.baseUrl, model: config.model });
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider as string}`);
+  }
+}
@@ -3,6 +3,14 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as crypto from 'node:crypto';
 import { glob } from 'glob';
+import { defaultRegistry, type LanguageParser, type ExportKind, type ResolverConfig } from '../parsers/index.js';
+import { detectUnusedMembers, type UnusedMember } from './members.js';
+import { detectTypeOnlyImports, type TypeOnlyImport } from './type-imports.js';
+import { discoverWorkspacePackages, findPackageOf, matchWorkspaceSpecifier, readWorkspacePackage, type WorkspacePackage } from './workspace.js';
+import { createExclusionMatcher, isCycleSuppressed, isSuppressed, parseSuppressions, type Suppression, type SuppressionMap } from './suppressions.js';
+import { checkArchitectureRules, type ArchitectureRule, type RuleViolation } from './rules.js';
+import { findCycles } from './cycles.js';
+import { analyzeReachability, type DeadCluster } from './reachability.js';
 
 export interface ExportInfo {
   name: string;
@@ -13,6 +21,7 @@ export interface ExportInfo {
   isReExport?: boolean;
   originalSource?: string;
   signature?: string;
+  isExportEquals?: boolean;
 }
 
 interface ImportInfo {
@@ -23,6 +32,22 @@ interface ImportInfo {
   line: number;
   isDefault: boolean;
   resolvedPath?: string;
+  isDynamic?: boolean;
+  /** `import type` or a `type` specifier, erased at runtime */
+  isTypeOnly?: boolean;
+}
+
+/** Import of an npm package or Node builtin: a bare specifier that resolves to no project file */
+export interface PackageImport {
+  /** Specifier as written (`lodash/fp`, `node:fs`) */
+  source: string;
+  filePath: string;
+  line: number;
+  /** `import type`, type-only specifiers or re-exports, and `import('pkg').T` types */
+  isTypeOnly?: boolean;
+  isDynamic?: boolean;
+  /** Starts with a path alias but resolves to no file, so it is a broken project import */
+  isUnresolvedAlias?: boolean;
 }
 
 interface UsageInfo {
@@ -48,6 +73,7 @@ interface FileAnalysis {
   filePath: string;
   exports: ExportInfo[];
   imports: ImportInfo[];
+  packageImports: PackageImport[];
   localSymbols: Map<string, { source: string; originalName: string }>;
 }
 
@@ -55,21 +81,39 @@ export interface ProjectAnalysis {
   files: Map<string, FileAnalysis>;
   exports: Map<string, ExportInfo[]>;
   importGraph: Map<string, Set<string>>;
+  /** importGraph without imports that are type-only */
+  runtimeGraph: Map<string, Set<string>>;
   reverseGraph: Map<string, Set<string>>;
   symbolTraces: Map<string, SymbolTrace>;
   circularDependencies: string[][];
+  /** Workspace packages (empty for single-package projects) */
+  packages: WorkspacePackage[];
+  /** Inline `consuela-ignore` comments by file */
+  suppressions: SuppressionMap;
 }
 
 interface AnalyzerConfig {
   entryPoints?: string[];
   ignore?: string[];
   cache?: boolean;
+  /** Files (`src/generated/**`) or exports (`src/api.ts:handler`) never reported as unused */
+  excludeFromUnused?: string[];
+  /** Layering constraints checked by findRuleViolations() */
+  rules?: ArchitectureRule[];
+}
+
+/** What a file contributed to the last run, before re-exports were linked in */
+interface FileSnapshot {
+  hash: string;
+  analysis: FileAnalysis;
+  suppressions: Suppression[];
 }
 
 interface SerializedFileAnalysis {
   filePath: string;
   exports: ExportInfo[];
   imports: ImportInfo[];
+  packageImports: PackageImport[];
   localSymbols: Record<string, { source: string; originalName: string }>;
 }
 
@@ -95,10 +139,15 @@ export interface BreakingChange {
   affectedFiles: string[];
 }
 
-const CACHE_VERSION = '2.0';
+const CACHE_VERSION = '2.5';
 const CACHE_DIR = '.consuela';
 const CACHE_FILE = 'analysis-cache.json';
 
+/** Parsed TypeScript lib files, shared by every program built in this process */
+const LIB_SOURCE_FILES = new Map<string, ts.SourceFile>();
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs'];
+
 const DEFAULT_BLACKLIST = [
   'node_modules', '.git', 'dist', 'build', '.consuela',
   'tests', 'test', '__tests__', '*.test.*', '*.spec.*',
@@ -114,8 +163,17 @@ export class ProjectAnalyzer {
   private baseUrl: string = '';
   private readonly config: AnalyzerConfig;
   private entryPointPatterns: string[] = [];
+  /** Leading entryPointPatterns that are conventional file names rather than declared entry points */
+  private conventionalEntryPoints = 0;
+  private readonly packages: WorkspacePackage[];
+  /** The project's own package.json, read like a workspace package */
+  private readonly rootPackage: WorkspacePackage | undefined;
   private cache: ProjectCache | null = null;
   private readonly cacheEnabled: boolean;
+  /** The last analyze()/update() result and its inputs, which update() builds on */
+  private lastRun: { snapshots: Map<string, FileSnapshot>; analysis: ProjectAnalysis } | null = null;
+  /** Parsed project files, reused by the next program until their file changes */
+  private readonly projectSourceFiles = new Map<string, ts.SourceFile>();
 
   constructor(
     rootDir: string,
@@ -126,6 +184,8 @@ export class ProjectAnalyzer {
     this.blacklist = [...blacklist, ...(config.ignore || [])];
     this.config = config;
     this.cacheEnabled = config.cache !== false;
+    this.packages = discoverWorkspacePackages(rootDir);
+    this.rootPackage = fs.existsSync(path.join(rootDir, 'package.json')) ? readWorkspacePackage(rootDir, '.') : undefined;
 
     this.loadTsConfig();
     this.loadEntryPoints();
@@ -162,12 +222,19 @@ export class ProjectAnalyzer {
       'main.ts', 'main.tsx', 'main.js', 'main.jsx',
       'app.ts', 'app.tsx', 'app.js', 'app.jsx',
       'cli.ts', 'cli.js',
+      'main.py', 'app.py', 'cli.py', '__main__.py',
     ];
 
+    this.conventionalEntryPoints = this.entryPointPatterns.length;
     if (this.config.entryPoints) {
       this.entryPointPatterns.push(...this.config.entryPoints);
     }
 
+    // Every workspace package is published on its own
+    for (const pkg of [...this.packages, ...(this.rootPackage ? [this.rootPackage] : [])]) {
+      this.entryPointPatterns.push(...pkg.entryPoints);
+    }
+
     const pkgPath = path.join(this.rootDir, 'package.json');
     if (!fs.existsSync(pkgPath)) return;
 
@@ -179,27 +246,11 @@ export class ProjectAnalyzer {
         const bins = typeof pkg.bin === 'string' ? [pkg.bin] : Object.values(pkg.bin as Record<string, string>);
         bins.forEach(b => this.entryPointPatterns.push(b.replace(/^\.\//, '')));
       }
-
-      if (pkg.exports) {
-        this.extractExportsEntries(pkg.exports);
-      }
     } catch {
       // Ignore parse errors
     }
   }
 
-  private extractExportsEntries(exports: unknown): void {
-    if (typeof exports === 'string') {
-      this.entryPointPatterns.push(exports.replace(/^\.\//, ''));
-    } else if (typeof exports === 'object' && exports !== null) {
-      for (const [key, value] of Object.entries(exports)) {
-        if (['import', 'require', 'default'].includes(key) || key.startsWith('.')) {
-          this.extractExportsEntries(value);
-        }
-      }
-    }
-  }
-
   private loadCache(): void {
     const cacheFile = path.join(this.rootDir, CACHE_DIR, CACHE_FILE);
     if (!fs.existsSync(cacheFile)) return;
@@ -214,7 +265,7 @@ export class ProjectAnalyzer {
     }
   }
 
-  private saveCache(files: Map<string, { hash: string; analysis: FileAnalysis }>): void {
+  private saveCache(files: Map<string, FileSnapshot>): void {
     if (!this.cacheEnabled) return;
 
     const cacheDir = path.join(this.rootDir, CACHE_DIR);
@@ -230,6 +281,7 @@ export class ProjectAnalyzer {
           filePath: analysis.filePath,
           exports: analysis.exports,
           imports: analysis.imports,
+          packageImports: analysis.packageImports,
           localSymbols: Object.fromEntries(analysis.localSymbols),
         },
       };
@@ -244,18 +296,27 @@ export class ProjectAnalyzer {
       filePath: cached.filePath,
       exports: cached.exports,
       imports: cached.imports,
+      packageImports: cached.packageImports,
       localSymbols: new Map(Object.entries(cached.localSymbols)),
     };
   }
 
-  private getFileHash(filePath: string): string {
-    const content = fs.readFileSync(filePath, 'utf-8');
+  private getFileHash(content: string): string {
     return crypto.createHash('md5').update(content).digest('hex');
   }
 
   isEntryPoint(filePath: string): boolean {
+    return this.matchesEntryPoint(filePath, this.entryPointPatterns);
+  }
+
+  /** Whether the config or a package.json (main, bin, exports) declares the file, ignoring conventional names like index.ts */
+  isPublicEntryPoint(filePath: string): boolean {
+    return this.matchesEntryPoint(filePath, this.entryPointPatterns.slice(this.conventionalEntryPoints));
+  }
+
+  private matchesEntryPoint(filePath: string, patterns: string[]): boolean {
     const normalized = filePath.replace(/\\/g, '/');
-    return this.entryPointPatterns.some(pattern => {
+    return patterns.some(pattern => {
       return normalized === pattern ||
              normalized.endsWith('/' + pattern) ||
              normalized.endsWith(pattern.replace(/^src\//, ''));
@@ -264,27 +325,129 @@ export class ProjectAnalyzer {
 
   async analyze(): Promise<ProjectAnalysis> {
     const files = await this.findSourceFiles();
+    this.projectSourceFiles.clear();
     this.initializeTsProgram(files);
 
-    const fileAnalyses = new Map<string, FileAnalysis>();
-    const fileHashes = new Map<string, { hash: string; analysis: FileAnalysis }>();
-    const allExports = new Map<string, ExportInfo[]>();
-    const importGraph = new Map<string, Set<string>>();
-    const reverseGraph = new Map<string, Set<string>>();
-    const symbolTraces = new Map<string, SymbolTrace>();
-
-    // Pass 1: Local file analysis and export registration
+    // Pass 1: Local file analysis
+    const snapshots = new Map<string, FileSnapshot>();
     for (const filePath of files) {
       const relativePath = path.relative(this.rootDir, filePath);
-      const hash = this.getFileHash(filePath);
-      
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const hash = this.getFileHash(content);
+
       const cached = this.cache?.files[relativePath];
       const analysis = (cached && cached.hash === hash)
         ? this.deserializeFileAnalysis(cached.analysis)
-        : this.analyzeFile(filePath);
+        : this.analyzeSourceFile(filePath);
+
+      // Comments are not part of the cached analysis, so they are read on every run
+      snapshots.set(relativePath, { hash, analysis, suppressions: parseSuppressions(relativePath, content) });
+    }
+
+    const analysis = this.linkAnalyses(snapshots, new Set(snapshots.keys()));
+    this.saveCache(snapshots);
+    this.lastRun = { snapshots, analysis };
+    return analysis;
+  }
 
+  /**
+   * Bring the last analysis up to date after `changedFiles` were edited, added or deleted.
+   * Only those files are parsed again, and usages are re-traced only in them and in the
+   * files importing them (directly or through barrels); every other trace is carried over.
+   * Without a previous analysis this is a full analyze().
+   */
+  async update(changedFiles: string[]): Promise<ProjectAnalysis> {
+    if (!this.lastRun) return this.analyze();
+
+    const previous = this.lastRun;
+    const files = await this.findSourceFiles();
+    const current = new Set(files.map(f => path.relative(this.rootDir, f)));
+    const changed = new Set(changedFiles.map(f => path.relative(this.rootDir, path.resolve(this.rootDir, f))));
+    const removed = [...previous.snapshots.keys()].filter(f => !current.has(f));
+    const added = [...current].filter(f => !previous.snapshots.has(f));
+
+    // Files appearing or disappearing can change where other files' imports resolve
+    const reresolve = new Set<string>();
+    if (added.length > 0 || removed.length > 0) {
+      for (const [file, snapshot] of previous.snapshots) {
+        const affected = snapshot.analysis.imports.some(imp =>
+          imp.resolvedPath ? removed.includes(imp.resolvedPath) : this.isProjectSpecifier(imp.source));
+        if (affected && current.has(file)) reresolve.add(file);
+      }
+    }
+
+    // Pass 1, for changed files only
+    const snapshots = new Map<string, FileSnapshot>();
+    const touched = new Set<string>();
+    for (const filePath of files) {
+      const relativePath = path.relative(this.rootDir, filePath);
+      const snapshot = previous.snapshots.get(relativePath);
+      if (snapshot && !changed.has(relativePath) && !reresolve.has(relativePath)) {
+        snapshots.set(relativePath, snapshot);
+        continue;
+      }
+
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const hash = this.getFileHash(content);
+      if (snapshot && snapshot.hash === hash && !reresolve.has(relativePath)) {
+        snapshots.set(relativePath, snapshot);
+        continue;
+      }
+
+      this.projectSourceFiles.delete(path.resolve(filePath));
+      snapshots.set(relativePath, { hash, analysis: this.analyzeSourceFile(filePath), suppressions: parseSuppressions(relativePath, content) });
+      touched.add(relativePath);
+    }
+
+    if (touched.size === 0 && removed.length === 0) return previous.analysis;
+
+    for (const file of removed) this.projectSourceFiles.delete(path.resolve(this.rootDir, file));
+    this.initializeTsProgram(files, this.program ?? undefined);
+
+    // Exports of touched files may have changed, and barrels pass that on to whoever imports them
+    const exporting = new Set([...touched, ...removed]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const [file, snapshot] of snapshots) {
+        if (!exporting.has(file) && snapshot.analysis.exports.some(e => e.originalSource && exporting.has(e.originalSource))) {
+          exporting.add(file);
+          grew = true;
+        }
+      }
+    }
+
+    const retrace = new Set(touched);
+    for (const [file, snapshot] of snapshots) {
+      if (snapshot.analysis.imports.some(imp => imp.resolvedPath && exporting.has(imp.resolvedPath))) retrace.add(file);
+    }
+
+    const analysis = this.linkAnalyses(snapshots, retrace, previous.analysis);
+    this.saveCache(snapshots);
+    this.lastRun = { snapshots, analysis };
+    return analysis;
+  }
+
+  /**
+   * Passes 2-5: build the project-wide graphs and traces from per-file analyses.
+   * Usages are traced in `retrace` files; for the others they are copied from `previous`.
+   */
+  private linkAnalyses(snapshots: Map<string, FileSnapshot>, retrace: Set<string>, previous?: ProjectAnalysis): ProjectAnalysis {
+    const fileAnalyses = new Map<string, FileAnalysis>();
+    const allExports = new Map<string, ExportInfo[]>();
+    const importGraph = new Map<string, Set<string>>();
+    const runtimeGraph = new Map<string, Set<string>>();
+    const reverseGraph = new Map<string, Set<string>>();
+    const symbolTraces = new Map<string, SymbolTrace>();
+    const suppressions: SuppressionMap = new Map();
+
+    // Export registration. Re-export linking mutates exports, so it works on copies
+    for (const [relativePath, snapshot] of snapshots) {
+      const analysis: FileAnalysis = { ...snapshot.analysis, exports: snapshot.analysis.exports.map(e => ({ ...e })) };
       fileAnalyses.set(relativePath, analysis);
-      fileHashes.set(relativePath, { hash, analysis });
+      if (snapshot.suppressions.length > 0) {
+        suppressions.set(relativePath, snapshot.suppressions.map(s => ({ ...s, used: false })));
+      }
 
       for (const exp of analysis.exports) {
         const existing = allExports.get(exp.name) || [];
@@ -302,64 +465,259 @@ export class ProjectAnalyzer {
       }
     }
 
+    // Modules using `export =` are consumed whole by require() and `import x = require()`
+    const exportEqualsFiles = new Set<string>();
+    for (const [relativePath, analysis] of fileAnalyses) {
+      if (analysis.exports.some(e => e.isExportEquals)) exportEqualsFiles.add(relativePath);
+    }
+
     // Pass 2: Map imports and link to traces
     for (const [relativePath, analysis] of fileAnalyses) {
       const imports = new Set<string>();
+      const runtimeImports = new Set<string>();
       for (const imp of analysis.imports) {
         if (imp.resolvedPath) {
           imports.add(imp.resolvedPath);
+          if (!imp.isTypeOnly) runtimeImports.add(imp.resolvedPath);
           const importers = reverseGraph.get(imp.resolvedPath) || new Set();
           importers.add(relativePath);
           reverseGraph.set(imp.resolvedPath, importers);
 
-          const trace = symbolTraces.get(`${imp.resolvedPath}:${imp.name}`);
-          if (trace) {
-            trace.importedBy.push({ file: relativePath, alias: imp.alias, line: imp.line });
+          const importedBy = { file: relativePath, alias: imp.alias, line: imp.line };
+          if (imp.name === '*' && exportEqualsFiles.has(imp.resolvedPath)) {
+            symbolTraces.get(`${imp.resolvedPath}:default`)?.importedBy.push(importedBy);
+          } else if (imp.name === '*' && !imp.alias) {
+            // Opaque module imports (e.g. `import('./x').then(...)`) may touch any export
+            for (const exp of fileAnalyses.get(imp.resolvedPath)?.exports || []) {
+              symbolTraces.get(`${imp.resolvedPath}:${exp.name}`)?.importedBy.push(importedBy);
+            }
+          } else {
+            symbolTraces.get(`${imp.resolvedPath}:${imp.name}`)?.importedBy.push(importedBy);
           }
         }
       }
       importGraph.set(relativePath, imports);
+      runtimeGraph.set(relativePath, runtimeImports);
     }
 
     // Pass 3 & 4: Re-exports and Usage tracing
     this.resolveReExports(fileAnalyses, symbolTraces, allExports);
+    const exportKeys = this.buildExportSymbolMap();
+    const carriedUsages = previous ? this.groupUsagesByFile(previous.symbolTraces, retrace) : new Map<string, Array<[string, UsageInfo]>>();
 
-    for (const filePath of files) {
-      const relativePath = path.relative(this.rootDir, filePath);
-      this.findUsagesInFile(filePath, fileAnalyses.get(relativePath)!, symbolTraces);
+    for (const relativePath of fileAnalyses.keys()) {
+      if (!retrace.has(relativePath)) {
+        for (const [key, usage] of carriedUsages.get(relativePath) || []) symbolTraces.get(key)?.usages.push(usage);
+        continue;
+      }
+
+      const filePath = path.join(this.rootDir, relativePath);
+      const parser = this.getExternalParser(filePath);
+      if (parser) {
+        this.findUsagesWithParser(parser, filePath, fileAnalyses, symbolTraces);
+      } else {
+        this.findUsagesInFile(filePath, fileAnalyses, symbolTraces, exportEqualsFiles, exportKeys);
+      }
     }
 
     // Pass 5: Finalize traces and calculate transitive impact
+    const transitiveDependents = new Map<string, Set<string>>();
     for (const [, trace] of symbolTraces) {
       const dependents = new Set<string>();
       for (const imp of trace.importedBy) {
         dependents.add(imp.file);
-        this.getTransitiveDependents(imp.file, reverseGraph).forEach(t => dependents.add(t));
+        if (!transitiveDependents.has(imp.file)) transitiveDependents.set(imp.file, this.getTransitiveDependents(imp.file, reverseGraph));
+        transitiveDependents.get(imp.file)!.forEach(t => dependents.add(t));
       }
       trace.dependents = Array.from(dependents);
       trace.usageCount = trace.usages.length;
     }
 
-    this.saveCache(fileHashes);
-
     return {
       files: fileAnalyses,
       exports: allExports,
       importGraph,
+      runtimeGraph,
       reverseGraph,
       symbolTraces,
-      circularDependencies: this.detectCircularDependencies(importGraph),
+      circularDependencies: findCycles(importGraph)
+        .filter(cycle => !isCycleSuppressed(suppressions, cycle, fileAnalyses)),
+      packages: this.packages,
+      suppressions,
     };
   }
 
-  private initializeTsProgram(files: string[]): void {
+  /** Usages recorded by files outside `exclude`, keyed by the file they occur in */
+  private groupUsagesByFile(symbolTraces: Map<string, SymbolTrace>, exclude: Set<string>): Map<string, Array<[string, UsageInfo]>> {
+    const byFile = new Map<string, Array<[string, UsageInfo]>>();
+    for (const [key, trace] of symbolTraces) {
+      for (const usage of trace.usages) {
+        if (exclude.has(usage.filePath)) continue;
+        const entries = byFile.get(usage.filePath) || [];
+        entries.push([key, usage]);
+        byFile.set(usage.filePath, entries);
+      }
+    }
+    return byFile;
+  }
+
+  /** Relative, `#` and alias specifiers can start resolving once the file they name exists */
+  private isProjectSpecifier(specifier: string): boolean {
+    return specifier.startsWith('.') || specifier.startsWith('#') ||
+      Array.from(this.pathAliases.keys()).some(alias => specifier.startsWith(alias)) ||
+      !!matchWorkspaceSpecifier(this.packages, specifier);
+  }
+
+  private initializeTsProgram(files: string[], oldProgram?: ts.Program): void {
+    const tsFiles = files.filter(f => !this.getExternalParser(f));
     const configPath = ts.findConfigFile(this.rootDir, ts.sys.fileExists, 'tsconfig.json');
     if (configPath) {
       const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
       const parsedConfig = ts.parseJsonConfigFileContent(configFile.config, ts.sys, this.rootDir);
-      this.program = ts.createProgram(files, parsedConfig.options);
-      this.checker = this.program.getTypeChecker();
+      const options = this.withWorkspacePaths(parsedConfig.options);
+      this.program = ts.createProgram(tsFiles, options, this.createCompilerHost(options), oldProgram);
+    } else {
+      // No tsconfig: resolve like a bundler would, without pulling in ambient @types packages
+      const options: ts.CompilerOptions = this.withWorkspacePaths({
+        allowJs: true,
+        lib: ['lib.es2022.d.ts'],
+        types: [],
+        noEmit: true,
+        jsx: ts.JsxEmit.Preserve,
+        target: ts.ScriptTarget.Latest,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+      });
+      this.program = ts.createProgram(tsFiles, options, this.createCompilerHost(options), oldProgram);
+    }
+    this.checker = this.program.getTypeChecker();
+  }
+
+  /**
+   * Point workspace package specifiers and `#` imports at their source files instead of build output.
+   * `paths` are global, so when packages share an import specifier the root package's mapping wins.
+   */
+  private withWorkspacePaths(options: ts.CompilerOptions): ts.CompilerOptions {
+    const packages = this.rootPackage ? [this.rootPackage, ...this.packages] : this.packages;
+    const hasImports = packages.some(pkg => Object.keys(pkg.imports).length > 0);
+    if (this.packages.length === 0 && !hasImports) return options;
+
+    const paths: ts.MapLike<string[]> = {};
+    for (const pkg of packages) {
+      for (const [specifier, file] of Object.entries(pkg.imports)) {
+        paths[specifier] ??= [path.join(this.rootDir, file)];
+      }
+    }
+    for (const pkg of this.packages) {
+      for (const [subpath, file] of Object.entries(pkg.exports)) {
+        paths[subpath === '.' ? pkg.name : `${pkg.name}/${subpath.slice(2)}`] = [path.join(this.rootDir, file)];
+      }
+      if (!pkg.encapsulated) {
+        const pkgDir = path.join(this.rootDir, pkg.dir);
+        paths[`${pkg.name}/*`] = [path.join(pkgDir, '*'), path.join(pkgDir, 'src', '*')];
+      }
+    }
+    return { ...options, paths: { ...paths, ...options.paths } };
+  }
+
+  /**
+   * Compiler host that parses TypeScript's bundled lib files once per process,
+   * and project files once until update() sees them change
+   */
+  private createCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    const libDir = path.dirname(ts.getDefaultLibFilePath(options));
+
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      if (path.dirname(fileName) !== libDir) {
+        const key = path.resolve(fileName);
+        let sourceFile = shouldCreateNewSourceFile ? undefined : this.projectSourceFiles.get(key);
+        if (!sourceFile) {
+          sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+          if (sourceFile) this.projectSourceFiles.set(key, sourceFile);
+        }
+        return sourceFile;
+      }
+      const target = typeof languageVersion === 'object' ? languageVersion.languageVersion : languageVersion;
+      const key = `${fileName}:${target}`;
+      let sourceFile = LIB_SOURCE_FILES.get(key);
+      if (!sourceFile) {
+        sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+        if (sourceFile) LIB_SOURCE_FILES.set(key, sourceFile);
+      }
+      return sourceFile;
+    };
+    return host;
+  }
+
+  /**
+   * Map every export symbol declared in a project file to its trace key(s).
+   * Star re-exports are skipped: their symbols belong to the module that declares them.
+   */
+  private buildExportSymbolMap(): Map<ts.Symbol, string[]> {
+    const exportKeys = new Map<ts.Symbol, string[]>();
+    if (!this.program || !this.checker) return exportKeys;
+
+    for (const sourceFile of this.program.getSourceFiles()) {
+      if (sourceFile.isDeclarationFile) continue;
+      const relativePath = path.relative(this.rootDir, sourceFile.fileName);
+      if (relativePath.startsWith('..') || relativePath.includes('node_modules')) continue;
+
+      const moduleSymbol = this.checker.getSymbolAtLocation(sourceFile);
+      if (!moduleSymbol) continue;
+
+      for (const symbol of this.checker.getExportsOfModule(moduleSymbol)) {
+        if (!symbol.declarations?.some(d => d.getSourceFile() === sourceFile)) continue;
+        exportKeys.set(symbol, [...(exportKeys.get(symbol) || []), `${relativePath}:${symbol.name}`]);
+      }
+    }
+    return exportKeys;
+  }
+
+  /**
+   * Resolve an identifier to the trace keys of every export it reaches, following
+   * import aliases and re-exports hop by hop so each barrel along the way is credited.
+   */
+  private resolveExportKeys(node: ts.Identifier, exportKeys: Map<ts.Symbol, string[]>): string[] {
+    if (!this.checker) return [];
+
+    let symbol = ts.isShorthandPropertyAssignment(node.parent) && node.parent.name === node
+      ? this.checker.getShorthandAssignmentValueSymbol(node.parent)
+      : this.checker.getSymbolAtLocation(node);
+
+    const keys: string[] = [];
+    const seen = new Set<ts.Symbol>();
+    while (symbol && !seen.has(symbol)) {
+      seen.add(symbol);
+      // Same-file references resolve to the local symbol; its export symbol carries the key
+      const exported = this.checker.getExportSymbolOfSymbol(symbol);
+      keys.push(...(exportKeys.get(symbol) || []));
+      if (exported !== symbol) keys.push(...(exportKeys.get(exported) || []));
+      if (!(symbol.flags & ts.SymbolFlags.Alias)) break;
+      symbol = this.checker.getImmediateAliasedSymbol(symbol);
     }
+    return keys;
+  }
+
+  /** Identifier is the name being declared, not a reference to something */
+  private isDeclarationName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if (!parent) return false;
+    if (ts.isBindingElement(parent)) return parent.name === node || parent.propertyName === node;
+    if (ts.isExportSpecifier(parent) || ts.isImportSpecifier(parent)) return true;
+
+    const isNamedDeclaration = ts.isFunctionDeclaration(parent) || ts.isFunctionExpression(parent) ||
+      ts.isClassDeclaration(parent) || ts.isClassExpression(parent) ||
+      ts.isInterfaceDeclaration(parent) || ts.isTypeAliasDeclaration(parent) ||
+      ts.isEnumDeclaration(parent) || ts.isEnumMember(parent) ||
+      ts.isModuleDeclaration(parent) || ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) || ts.isTypeParameterDeclaration(parent) ||
+      ts.isPropertyDeclaration(parent) || ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) || ts.isMethodSignature(parent) ||
+      ts.isGetAccessorDeclaration(parent) || ts.isSetAccessorDeclaration(parent) ||
+      ts.isPropertyAssignment(parent);
+    return isNamedDeclaration && (parent as ts.NamedDeclaration).name === node;
   }
 
   private resolveReExports(
@@ -412,47 +770,8 @@ export class ProjectAnalyzer {
     }
   }
 
-  private detectCircularDependencies(importGraph: Map<string, Set<string>>): string[][] {
-    const cycles: string[][] = [];
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-    const currentPath: string[] = [];
-
-    const dfs = (file: string) => {
-      visited.add(file);
-      recursionStack.add(file);
-      currentPath.push(file);
-
-      const imports = importGraph.get(file);
-      if (imports) {
-        for (const imported of imports) {
-          if (!visited.has(imported)) {
-            dfs(imported);
-          } else if (recursionStack.has(imported)) {
-            const cycleStart = currentPath.indexOf(imported);
-            if (cycleStart !== -1) {
-              const cycle = currentPath.slice(cycleStart);
-              const cycleKey = [...cycle].sort().join('|');
-              if (!cycles.some(c => [...c].sort().join('|') === cycleKey)) {
-                cycles.push([...cycle]);
-              }
-            }
-          }
-        }
-      }
-
-      currentPath.pop();
-      recursionStack.delete(file);
-    };
-
-    for (const file of importGraph.keys()) {
-      if (!visited.has(file)) dfs(file);
-    }
-    return cycles;
-  }
-
   private async findSourceFiles(): Promise<string[]> {
-    const patterns = ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.mjs'];
+    const patterns = defaultRegistry.getSupportedExtensions().map(ext => `**/*${ext}`);
     const ignorePatterns = this.blacklist.map(b => b.includes('*') ? `**/${b}` : `**/${b}/**`);
 
     const files: string[] = [];
@@ -467,6 +786,80 @@ export class ProjectAnalyzer {
     return files;
   }
 
+  /**
+   * Parser for files handled outside the built-in TypeScript analysis.
+   * TS/JS files stay on the checker-backed path; everything else goes through its registered parser.
+   */
+  private getExternalParser(filePath: string): LanguageParser | undefined {
+    const parser = defaultRegistry.getForFile(filePath);
+    return parser && parser.id !== 'typescript' ? parser : undefined;
+  }
+
+  private getResolverConfig(): ResolverConfig {
+    return { rootDir: this.rootDir, baseUrl: this.baseUrl || undefined, pathAliases: this.pathAliases };
+  }
+
+  private analyzeSourceFile(filePath: string): FileAnalysis {
+    const parser = this.getExternalParser(filePath);
+    return parser ? this.analyzeFileWithParser(parser, filePath) : this.analyzeFile(filePath);
+  }
+
+  private analyzeFileWithParser(parser: LanguageParser, filePath: string): FileAnalysis {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const relativePath = path.relative(this.rootDir, filePath);
+    const parsed = parser.parseFile(relativePath, content);
+    const resolverConfig = this.getResolverConfig();
+
+    const imports: ImportInfo[] = [];
+    const localSymbols = new Map<string, { source: string; originalName: string }>();
+
+    for (const imp of parsed.imports) {
+      const isModuleImport = imp.name === imp.source;
+      let resolvedPath = parser.resolveImport(imp.source, relativePath, resolverConfig);
+      let name = isModuleImport ? '*' : imp.name;
+
+      // `from pkg import mod` binds a submodule rather than a symbol
+      if (!isModuleImport && imp.name !== '*') {
+        const submodule = imp.source.endsWith('.') ? `${imp.source}${imp.name}` : `${imp.source}.${imp.name}`;
+        const submodulePath = parser.resolveImport(submodule, relativePath, resolverConfig);
+        if (submodulePath) {
+          resolvedPath = submodulePath;
+          name = '*';
+        }
+      }
+      if (!resolvedPath) continue;
+
+      const local = imp.alias || imp.name;
+      const alias = name === '*' && imp.name !== '*' ? local : imp.alias;
+      imports.push({ name, alias, source: imp.source, filePath: relativePath, line: imp.line, isDefault: !!imp.isDefault, resolvedPath });
+      if (imp.name !== '*') {
+        localSymbols.set(local, { source: resolvedPath, originalName: name });
+      }
+    }
+
+    const exports: ExportInfo[] = parsed.exports.map(exp => {
+      const imported = localSymbols.get(exp.name);
+      return {
+        name: exp.name,
+        kind: this.toExportKind(exp.kind),
+        filePath: relativePath,
+        line: exp.line,
+        isDefault: !!exp.isDefault,
+        isReExport: exp.isReExport || !!imported || undefined,
+        originalSource: exp.originalSource || imported?.source,
+        signature: exp.signature,
+      };
+    });
+
+    return { filePath: relativePath, exports, imports, packageImports: [], localSymbols };
+  }
+
+  private toExportKind(kind: ExportKind): ExportInfo['kind'] {
+    if (kind === 'constant') return 'const';
+    if (kind === 'module') return 'unknown';
+    return kind;
+  }
+
   private analyzeFile(filePath: string): FileAnalysis {
     const content = fs.readFileSync(filePath, 'utf-8');
     const relativePath = path.relative(this.rootDir, filePath);
@@ -480,6 +873,10 @@ export class ProjectAnalyzer {
     const visitImports = (node: ts.Node) => {
       if (ts.isImportDeclaration(node)) {
         this.handleImportDeclaration(node, sourceFile, relativePath, imports, localSymbols);
+      } else if (ts.isImportEqualsDeclaration(node)) {
+        this.handleImportEquals(node, sourceFile, relativePath, imports, localSymbols);
+      } else if (ts.isCallExpression(node) && this.isModuleCall(node)) {
+        this.handleModuleCall(node, sourceFile, relativePath, imports, localSymbols);
       }
       ts.forEachChild(node, visitImports);
     };
@@ -498,7 +895,55 @@ export class ProjectAnalyzer {
     };
     visitExports(sourceFile);
 
-    return { filePath: relativePath, exports, imports, localSymbols };
+    return { filePath: relativePath, exports, imports, packageImports: this.collectPackageImports(sourceFile, relativePath), localSymbols };
+  }
+
+  /** Bare-specifier imports, re-exports, requires and `import()` types that resolve to no project file */
+  private collectPackageImports(sourceFile: ts.SourceFile, filePath: string): PackageImport[] {
+    const packageImports: PackageImport[] = [];
+    const add = (specifier: ts.Node | undefined, node: ts.Node, isTypeOnly: boolean, isDynamic = false) => {
+      if (!specifier || !ts.isStringLiteralLike(specifier) || !this.isPackageSpecifier(filePath, specifier.text)) return;
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+      const isUnresolvedAlias = Array.from(this.pathAliases.keys()).some(alias => alias !== '' && specifier.text.startsWith(alias));
+      packageImports.push({
+        source: specifier.text, filePath, line, isTypeOnly: isTypeOnly || undefined, isDynamic: isDynamic || undefined,
+        isUnresolvedAlias: isUnresolvedAlias || undefined,
+      });
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node)) {
+        const clause = node.importClause;
+        const named = clause?.namedBindings;
+        const allTypes = !!clause && (clause.isTypeOnly ||
+          (!clause.name && !!named && ts.isNamedImports(named) && named.elements.length > 0 && named.elements.every(el => el.isTypeOnly)));
+        add(node.moduleSpecifier, node, allTypes);
+      } else if (ts.isExportDeclaration(node)) {
+        const clause = node.exportClause;
+        const allTypes = node.isTypeOnly ||
+          (!!clause && ts.isNamedExports(clause) && clause.elements.length > 0 && clause.elements.every(el => el.isTypeOnly));
+        add(node.moduleSpecifier, node, allTypes);
+      } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+        add(node.moduleReference.expression, node, node.isTypeOnly);
+      } else if (ts.isCallExpression(node) && this.isModuleCall(node)) {
+        add(node.arguments[0], node, false, true);
+      } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+        add(node.argument.literal, node, true);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return packageImports;
+  }
+
+  /**
+   * `lodash`, `@scope/pkg/sub` or `node:fs`, but not relative paths, `#` imports, or path aliases and workspace
+   * packages that resolve. Alias specifiers that resolve to no file are kept so they can be reported.
+   */
+  private isPackageSpecifier(fromFile: string, specifier: string): boolean {
+    if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('#') || specifier === '') return false;
+    if (/^[a-z][a-z0-9+.-]*:/i.test(specifier) && !specifier.startsWith('node:')) return false;
+    return !this.resolveImportPath(fromFile, specifier);
   }
 
   private getScriptKind(filePath: string): ts.ScriptKind {
@@ -562,7 +1007,7 @@ export class ProjectAnalyzer {
 
   private handleExportAssignment(node: ts.ExportAssignment, sourceFile: ts.SourceFile, filePath: string, exports: ExportInfo[]) {
     const line = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
-    exports.push({ name: 'default', kind: 'unknown', filePath, line, isDefault: true });
+    exports.push({ name: 'default', kind: 'unknown', filePath, line, isDefault: true, isExportEquals: node.isExportEquals || undefined });
   }
 
   private handleExportedDeclaration(node: ts.Node, sourceFile: ts.SourceFile, filePath: string, exports: ExportInfo[]) {
@@ -651,9 +1096,10 @@ export class ProjectAnalyzer {
     const clause = node.importClause;
 
     if (clause) {
+      const isTypeOnly = clause.isTypeOnly || undefined;
       if (clause.name && resolvedPath) {
         const local = clause.name.text;
-        imports.push({ name: 'default', alias: local, source, filePath, line, isDefault: true, resolvedPath });
+        imports.push({ name: 'default', alias: local, source, filePath, line, isDefault: true, resolvedPath, isTypeOnly });
         localSymbols.set(local, { source: resolvedPath, originalName: 'default' });
       }
 
@@ -662,19 +1108,148 @@ export class ProjectAnalyzer {
           for (const el of clause.namedBindings.elements) {
             const original = el.propertyName?.text || el.name.text;
             const local = el.name.text;
-            imports.push({ name: original, alias: el.propertyName ? local : undefined, source, filePath, line, isDefault: false, resolvedPath });
+            imports.push({
+              name: original, alias: el.propertyName ? local : undefined, source, filePath, line, isDefault: false, resolvedPath,
+              isTypeOnly: isTypeOnly || el.isTypeOnly || undefined,
+            });
             localSymbols.set(local, { source: resolvedPath, originalName: original });
           }
         } else if (ts.isNamespaceImport(clause.namedBindings)) {
           const local = clause.namedBindings.name.text;
-          imports.push({ name: '*', alias: local, source, filePath, line, isDefault: false, resolvedPath });
+          imports.push({ name: '*', alias: local, source, filePath, line, isDefault: false, resolvedPath, isTypeOnly });
           localSymbols.set(local, { source: resolvedPath, originalName: '*' });
         }
       }
     }
   }
 
+  private handleImportEquals(
+    node: ts.ImportEqualsDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    imports: ImportInfo[],
+    localSymbols: Map<string, { source: string; originalName: string }>
+  ) {
+    if (!ts.isExternalModuleReference(node.moduleReference) || !ts.isStringLiteral(node.moduleReference.expression)) return;
+
+    const source = node.moduleReference.expression.text;
+    const resolvedPath = this.resolveImportPath(filePath, source);
+    if (!resolvedPath) return;
+
+    const line = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+    const local = node.name.text;
+    imports.push({ name: '*', alias: local, source, filePath, line, isDefault: false, resolvedPath, isTypeOnly: node.isTypeOnly || undefined });
+    localSymbols.set(local, { source: resolvedPath, originalName: '*' });
+  }
+
+  /** `import(...)` or `require(...)` with a single argument */
+  private isModuleCall(node: ts.CallExpression): boolean {
+    if (node.arguments.length !== 1) return false;
+    if (node.expression.kind === ts.SyntaxKind.ImportKeyword) return true;
+    return ts.isIdentifier(node.expression) && node.expression.text === 'require';
+  }
+
+  /** Strip `await` and parentheses wrapping a module call to find how its result is consumed */
+  private getModuleCallConsumer(node: ts.CallExpression): { expression: ts.Expression; parent: ts.Node } {
+    let expression: ts.Expression = node;
+    while (ts.isAwaitExpression(expression.parent) || ts.isParenthesizedExpression(expression.parent)) {
+      expression = expression.parent;
+    }
+    return { expression, parent: expression.parent };
+  }
+
+  private handleModuleCall(
+    node: ts.CallExpression,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    imports: ImportInfo[],
+    localSymbols: Map<string, { source: string; originalName: string }>
+  ) {
+    const line = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+    const specifier = node.arguments[0];
+
+    // Template literal with a static prefix: `./plugins/${name}` may load any matching module
+    if (ts.isTemplateExpression(specifier)) {
+      const source = specifier.head.text;
+      for (const resolvedPath of this.resolveImportPrefix(filePath, source)) {
+        imports.push({ name: '*', source, filePath, line, isDefault: false, resolvedPath, isDynamic: true });
+      }
+      return;
+    }
+
+    if (!ts.isStringLiteral(specifier) && !ts.isNoSubstitutionTemplateLiteral(specifier)) return;
+
+    const source = specifier.text;
+    const resolvedPath = this.resolveImportPath(filePath, source);
+    if (!resolvedPath) return;
+
+    const add = (name: string, local?: string) => {
+      imports.push({ name, alias: local !== name ? local : undefined, source, filePath, line, isDefault: name === 'default', resolvedPath, isDynamic: true });
+      if (local) localSymbols.set(local, { source: resolvedPath, originalName: name });
+    };
+
+    const { expression, parent } = this.getModuleCallConsumer(node);
+
+    // require('./x').b / (await import('./x')).b
+    if (ts.isPropertyAccessExpression(parent) && parent.expression === expression) {
+      const declaration = parent.parent;
+      const local = ts.isVariableDeclaration(declaration) && declaration.initializer === parent && ts.isIdentifier(declaration.name)
+        ? declaration.name.text
+        : undefined;
+      add(parent.name.text, local);
+      return;
+    }
+
+    if (ts.isVariableDeclaration(parent) && parent.initializer === expression) {
+      // const { a, b: c } = await import('./x')
+      if (ts.isObjectBindingPattern(parent.name)) {
+        const elements = parent.name.elements;
+        if (elements.every(el => !el.dotDotDotToken && ts.isIdentifier(el.name))) {
+          for (const el of elements) {
+            const local = (el.name as ts.Identifier).text;
+            const original = el.propertyName && ts.isIdentifier(el.propertyName) ? el.propertyName.text : local;
+            add(original, local);
+          }
+          return;
+        }
+      } else if (ts.isIdentifier(parent.name)) {
+        // const mod = require('./x')
+        add('*', parent.name.text);
+        return;
+      }
+    }
+
+    add('*');
+  }
+
+  /** Resolve the static prefix of a template-literal specifier to every module it could load */
+  private resolveImportPrefix(fromFile: string, prefix: string): string[] {
+    if (!prefix.startsWith('.')) return [];
+
+    const base = path.resolve(path.dirname(path.join(this.rootDir, fromFile)), prefix);
+    const dir = prefix.endsWith('/') ? base : path.dirname(base);
+    const stem = prefix.endsWith('/') ? '' : path.basename(base);
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return [];
+
+    const resolved: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.name.startsWith(stem)) continue;
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isFile() && SCRIPT_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')) {
+        resolved.push(path.relative(this.rootDir, entryPath));
+      } else if (entry.isDirectory()) {
+        const index = this.tryResolveWithExtensions(entryPath, SCRIPT_EXTENSIONS.map(ext => `/index${ext}`));
+        if (index) resolved.push(index);
+      }
+    }
+    return resolved;
+  }
+
   private resolveImportPath(fromFile: string, importPath: string): string | undefined {
+    if (importPath.startsWith('#')) {
+      return this.resolvePackageImport(fromFile, importPath);
+    }
+
     let normalizedPath = importPath.replace(/\.(js|mjs|jsx)$/, '');
     const extensions = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
 
@@ -693,6 +1268,9 @@ export class ProjectAnalyzer {
       }
     }
 
+    const workspaceTarget = this.resolveWorkspaceImport(importPath, extensions);
+    if (workspaceTarget) return workspaceTarget;
+
     if (this.baseUrl) {
       return this.tryResolveWithExtensions(path.join(this.baseUrl, normalizedPath), extensions);
     }
@@ -700,6 +1278,30 @@ export class ProjectAnalyzer {
     return undefined;
   }
 
+  /** Resolve `@scope/pkg` and `@scope/pkg/sub` imports of sibling workspace packages to source files */
+  private resolveWorkspaceImport(specifier: string, extensions: string[]): string | undefined {
+    const match = matchWorkspaceSpecifier(this.packages, specifier);
+    if (!match) return undefined;
+
+    // Subpath keys may spell out the extension ('./utils/*.js') or leave it off
+    const { pkg, subpath } = match;
+    const target = pkg.exports[subpath] ?? pkg.exports[subpath.replace(/\.(js|mjs|jsx)$/, '')];
+    if (target) return target;
+    // With an exports field, anything it does not list is private to the package
+    if (subpath === '.' || pkg.encapsulated) return undefined;
+
+    const pkgDir = path.join(this.rootDir, pkg.dir);
+    const file = subpath.replace(/\.(js|mjs|jsx)$/, '');
+    return this.tryResolveWithExtensions(path.join(pkgDir, file), extensions)
+      || this.tryResolveWithExtensions(path.join(pkgDir, 'src', file), extensions);
+  }
+
+  /** Resolve a `#internal/*` specifier through the `imports` field of the importing file's package */
+  private resolvePackageImport(fromFile: string, specifier: string): string | undefined {
+    const pkg = findPackageOf(this.packages, fromFile) ?? this.rootPackage;
+    return pkg?.imports[specifier];
+  }
+
   private tryResolveWithExtensions(basePath: string, extensions: string[]): string | undefined {
     if (fs.existsSync(basePath) && fs.statSync(basePath).isFile()) {
       return path.relative(this.rootDir, basePath);
@@ -710,7 +1312,14 @@ export class ProjectAnalyzer {
     return undefined;
   }
 
-  private findUsagesInFile(filePath: string, fileAnalysis: FileAnalysis, symbolTraces: Map<string, SymbolTrace>) {
+  private findUsagesInFile(
+    filePath: string,
+    fileAnalyses: Map<string, FileAnalysis>,
+    symbolTraces: Map<string, SymbolTrace>,
+    exportEqualsFiles: Set<string>,
+    exportKeys: Map<ts.Symbol, string[]>
+  ) {
+    const fileAnalysis = fileAnalyses.get(path.relative(this.rootDir, filePath))!;
     const content = fs.readFileSync(filePath, 'utf-8');
     const lines = content.split('\n');
 
@@ -718,13 +1327,14 @@ export class ProjectAnalyzer {
     const programSourceFile = this.program?.getSourceFile(filePath);
     const sourceFile = programSourceFile || ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, this.getScriptKind(filePath));
 
+    // With a checker, usages resolve through symbols; otherwise fall back to matching names
+    const useChecker = !!(this.checker && programSourceFile);
+
     // Build a map of exports defined in THIS file for same-file usage tracking
-    const localExports = new Map<string, { traceKey: string; declarationLine: number }>();
+    const localExports = new Map<string, string>();
     for (const exp of fileAnalysis.exports) {
       const traceKey = `${fileAnalysis.filePath}:${exp.name}`;
-      if (symbolTraces.has(traceKey)) {
-        localExports.set(exp.name, { traceKey, declarationLine: exp.line });
-      }
+      if (symbolTraces.has(traceKey)) localExports.set(exp.name, traceKey);
     }
 
     const record = (traceKey: string, node: ts.Node, usageType: UsageInfo['usageType']) => {
@@ -735,6 +1345,9 @@ export class ProjectAnalyzer {
       }
     };
 
+    const traceKeyFor = (info: { source: string; originalName: string }) =>
+      info.originalName === '*' && exportEqualsFiles.has(info.source) ? `${info.source}:default` : `${info.source}:${info.originalName}`;
+
     // Helper to check if an identifier actually refers to an imported symbol
     // using the TypeScript type checker for proper scope resolution
     const getImportedSymbolInfo = (node: ts.Identifier): { source: string; originalName: string } | undefined => {
@@ -754,7 +1367,9 @@ export class ProjectAnalyzer {
             // If it's a variable declaration or parameter, it's a local that shadows the import
             if (ts.isImportSpecifier(decl) ||
                 ts.isImportClause(decl) ||
-                ts.isNamespaceImport(decl)) {
+                ts.isNamespaceImport(decl) ||
+                ts.isImportEqualsDeclaration(decl) ||
+                this.isModuleCallBinding(decl)) {
               return localInfo;
             }
             // The symbol was declared locally (shadowing the import)
@@ -769,73 +1384,53 @@ export class ProjectAnalyzer {
       return localInfo;
     };
 
-    // Helper to check if node is part of an export declaration (to avoid counting definitions as usages)
-    const isPartOfExportDeclaration = (node: ts.Node): boolean => {
-      let current: ts.Node | undefined = node.parent;
-      while (current) {
-        // Skip if it's the name in a function/class/variable declaration that is exported
-        if (ts.isFunctionDeclaration(current) && current.name === node) return true;
-        if (ts.isClassDeclaration(current) && current.name === node) return true;
-        if (ts.isVariableDeclaration(current) && current.name === node) return true;
-        if (ts.isInterfaceDeclaration(current) && current.name === node) return true;
-        if (ts.isTypeAliasDeclaration(current) && current.name === node) return true;
-        if (ts.isEnumDeclaration(current) && current.name === node) return true;
-        // Also skip export { name } declarations
-        if (ts.isExportSpecifier(current)) return true;
-        current = current.parent;
-      }
-      return false;
-    };
-
     const visit = (node: ts.Node) => {
-      if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) return;
-
-      // JSX Components
-      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
-        if (ts.isIdentifier(node.tagName)) {
-          const info = getImportedSymbolInfo(node.tagName);
-          if (info) record(`${info.source}:${info.originalName}`, node, 'call');
-        } else if (ts.isPropertyAccessExpression(node.tagName) && ts.isIdentifier(node.tagName.expression)) {
-          const info = getImportedSymbolInfo(node.tagName.expression);
-          if (info?.originalName === '*') record(`${info.source}:${node.tagName.name.text}`, node, 'call');
+      if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node) || ts.isImportEqualsDeclaration(node)) return;
+      if (ts.isVariableDeclaration(node) && this.isModuleCallBinding(node)) return;
+
+      // Inline member access on a module call: require('./x').b(), (await import('./x')).b
+      if (ts.isCallExpression(node) && this.isModuleCall(node)) {
+        const specifier = node.arguments[0];
+        const { expression, parent } = this.getModuleCallConsumer(node);
+        if (ts.isStringLiteralLike(specifier) && ts.isPropertyAccessExpression(parent) && parent.expression === expression) {
+          const resolvedPath = this.resolveImportPath(fileAnalysis.filePath, specifier.text);
+          if (resolvedPath) record(`${resolvedPath}:${parent.name.text}`, parent, this.determineUsageType(parent));
         }
       }
 
-      // Identifiers & Property Access
-      if (ts.isIdentifier(node)) {
+      if (ts.isIdentifier(node) && !this.isDeclarationName(node)) {
         const parent = node.parent;
-        const isJsxTag = parent && (ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent)) && (parent as any).tagName === node;
-
-        if (!isJsxTag) {
-          // Check imported symbols first
+        // `ns.member` in value (property access) or type (qualified name) position
+        const container = ts.isPropertyAccessExpression(parent) && parent.name === node ? parent.expression
+          : ts.isQualifiedName(parent) && parent.right === node ? parent.left
+          : undefined;
+        const usageNode = container ? parent : node;
+        const traceKeys = new Set<string>();
+
+        if (ts.isJsxClosingElement(usageNode.parent)) {
+          // Already counted at the opening tag
+        } else if (container) {
+          const info = ts.isIdentifier(container) ? getImportedSymbolInfo(container) : undefined;
+          if (info?.originalName === '*') traceKeys.add(`${info.source}:${node.text}`);
+        } else {
           const info = getImportedSymbolInfo(node);
           if (info) {
-            record(`${info.source}:${info.originalName}`, node, this.determineUsageType(node));
-          } else {
-            // Check same-file exports (not already imported)
-            const localExport = localExports.get(node.text);
-            if (localExport && !isPartOfExportDeclaration(node)) {
-              record(localExport.traceKey, node, this.determineUsageType(node));
-            }
+            traceKeys.add(traceKeyFor(info));
+          } else if (!useChecker && localExports.has(node.text)) {
+            traceKeys.add(localExports.get(node.text)!);
           }
         }
-      }
 
-      if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)) {
-        const info = getImportedSymbolInfo(node.expression);
-        if (info?.originalName === '*') record(`${info.source}:${node.name.text}`, node, this.determineUsageType(node));
-      }
+        // The checker follows aliases through every barrel, namespace member and merged declaration
+        if (useChecker && !ts.isJsxClosingElement(usageNode.parent)) {
+          this.resolveExportKeys(node, exportKeys).forEach(key => traceKeys.add(key));
+        }
 
-      if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
-        const info = getImportedSymbolInfo(node.typeName);
-        if (info) {
-          record(`${info.source}:${info.originalName}`, node, 'reference');
-        } else {
-          // Check same-file type exports
-          const localExport = localExports.get(node.typeName.text);
-          if (localExport && !isPartOfExportDeclaration(node.typeName)) {
-            record(localExport.traceKey, node, 'reference');
-          }
+        const tagParent = usageNode.parent;
+        const isJsxTag = (ts.isJsxOpeningElement(tagParent) || ts.isJsxSelfClosingElement(tagParent)) && tagParent.tagName === usageNode;
+        const usageType = isJsxTag ? 'call' : this.determineUsageType(usageNode);
+        for (const traceKey of traceKeys) {
+          record(traceKey, isJsxTag ? tagParent : usageNode, usageType);
         }
       }
 
@@ -843,6 +1438,78 @@ export class ProjectAnalyzer {
     };
 
     visit(sourceFile);
+
+    // Opaque module imports count as a use of every export they can reach
+    for (const imp of fileAnalysis.imports) {
+      if (imp.name !== '*' || imp.alias || !imp.resolvedPath || !imp.isDynamic) continue;
+      for (const exp of fileAnalyses.get(imp.resolvedPath)?.exports || []) {
+        symbolTraces.get(`${imp.resolvedPath}:${exp.name}`)?.usages.push({
+          filePath: fileAnalysis.filePath,
+          line: imp.line,
+          context: lines[imp.line - 1]?.trim() || '',
+          usageType: 'reference',
+        });
+      }
+    }
+  }
+
+  /** Variable bound from `require(...)` / `await import(...)`, possibly destructured */
+  private isModuleCallBinding(decl: ts.Declaration): boolean {
+    let declaration: ts.Node = decl;
+    while (ts.isBindingElement(declaration) || ts.isObjectBindingPattern(declaration)) {
+      declaration = declaration.parent;
+    }
+    if (!ts.isVariableDeclaration(declaration) || !declaration.initializer) return false;
+
+    let init: ts.Expression = declaration.initializer;
+    while (ts.isAwaitExpression(init) || ts.isParenthesizedExpression(init) || ts.isPropertyAccessExpression(init)) {
+      init = init.expression;
+    }
+    return ts.isCallExpression(init) && this.isModuleCall(init);
+  }
+
+  private findUsagesWithParser(
+    parser: LanguageParser,
+    filePath: string,
+    fileAnalyses: Map<string, FileAnalysis>,
+    symbolTraces: Map<string, SymbolTrace>
+  ) {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const fileAnalysis = fileAnalyses.get(path.relative(this.rootDir, filePath))!;
+    const { localSymbols } = fileAnalysis;
+
+    const record = (traceKey: string, symbolName: string) => {
+      const trace = symbolTraces.get(traceKey);
+      if (!trace) return;
+      for (const usage of parser.findUsages(fileAnalysis.filePath, content, symbolName, localSymbols)) {
+        trace.usages.push({ filePath: fileAnalysis.filePath, line: usage.line, context: usage.context, usageType: usage.type });
+      }
+    };
+
+    for (const [local, info] of localSymbols) {
+      if (info.originalName === '*') {
+        // Module imports are used through attribute access: `mod.symbol`
+        for (const exp of fileAnalyses.get(info.source)?.exports || []) {
+          record(`${info.source}:${exp.name}`, `${local}.${exp.name}`);
+        }
+      } else {
+        record(`${info.source}:${info.originalName}`, local);
+      }
+    }
+
+    // Wildcard imports bring every exported name into scope unqualified
+    for (const imp of fileAnalysis.imports) {
+      if (imp.name !== '*' || imp.alias || !imp.resolvedPath) continue;
+      for (const exp of fileAnalyses.get(imp.resolvedPath)?.exports || []) {
+        if (!localSymbols.has(exp.name)) record(`${imp.resolvedPath}:${exp.name}`, exp.name);
+      }
+    }
+
+    for (const exp of fileAnalysis.exports) {
+      if (!exp.isReExport && !localSymbols.has(exp.name)) {
+        record(`${fileAnalysis.filePath}:${exp.name}`, exp.name);
+      }
+    }
   }
 
   private determineUsageType(node: ts.Node): UsageInfo['usageType'] {
@@ -877,6 +1544,7 @@ export class ProjectAnalyzer {
 
   findUnusedExports(analysis: ProjectAnalysis): UnusedExport[] {
     const unused: UnusedExport[] = [];
+    const isExcluded = createExclusionMatcher(this.config.excludeFromUnused || []);
     const reExportMap = new Map<string, string[]>();
 
     for (const [key, trace] of analysis.symbolTraces) {
@@ -888,6 +1556,7 @@ export class ProjectAnalyzer {
 
     for (const [key, trace] of analysis.symbolTraces) {
       if (trace.symbol.name === '*') continue;
+      if (isExcluded(trace.symbol.filePath, trace.symbol.name)) continue;
 
       const isEntry = this.isEntryPoint(trace.symbol.filePath);
       const isUsedViaReExport = trace.symbol.isReExport && trace.importedBy.length > 0;
@@ -898,10 +1567,16 @@ export class ProjectAnalyzer {
 
       const isUsed = trace.importedBy.length > 0 || trace.usages.length > 0 || isUsedViaReExport || isUsedViaOtherReExport;
 
+      const suppressed = () => isSuppressed(analysis.suppressions, 'unused-export', trace.symbol.filePath, trace.symbol.line);
+
       if (!isUsed) {
-        unused.push({ export: trace.symbol, reason: isEntry ? 'Entry point - may be used externally' : 'Never imported or used' });
+        if (isEntry) {
+          unused.push({ export: trace.symbol, reason: 'Entry point - may be used externally' });
+        } else if (!suppressed()) {
+          unused.push({ export: trace.symbol, reason: 'Never imported or used' });
+        }
       } else if (trace.importedBy.length > 0 && trace.usages.length === 0 && !isUsedViaReExport && !isUsedViaOtherReExport) {
-        if (trace.symbol.kind !== 'type' && trace.symbol.kind !== 'interface') {
+        if (trace.symbol.kind !== 'type' && trace.symbol.kind !== 'interface' && !suppressed()) {
           unused.push({ export: trace.symbol, reason: `Imported by ${trace.importedBy.length} file(s) but never actually used` });
         }
       }
@@ -909,6 +1584,65 @@ export class ProjectAnalyzer {
     return unused;
   }
 
+  /**
+   * Find public class members, enum members and interface properties that nothing uses.
+   * Resolution goes through the type checker built by the last analyze() call.
+   */
+  findUnusedMembers(analysis: ProjectAnalysis): UnusedMember[] {
+    if (!this.program) return [];
+    const isExcluded = createExclusionMatcher(this.config.excludeFromUnused || []);
+    return detectUnusedMembers(this.program, this.rootDir, new Set(analysis.files.keys()), f => this.isEntryPoint(f))
+      .filter(m => !isExcluded(m.filePath, m.container) && !isSuppressed(analysis.suppressions, 'unused-member', m.filePath, m.line));
+  }
+
+  /**
+   * Find imports and re-exports that only carry types and can become `import type` / `export type`.
+   * Resolution goes through the type checker built by the last analyze() call.
+   */
+  findTypeOnlyImports(analysis: ProjectAnalysis): TypeOnlyImport[] {
+    if (!this.program) return [];
+    return detectTypeOnlyImports(this.program, this.rootDir, new Set(analysis.files.keys()));
+  }
+
+  /**
+   * Find files that no entry point reaches through imports, grouped into dead clusters.
+   * Files excluded from unused checks or suppressed with `consuela-ignore-file unused-file`
+   * count as entry points, so whatever they import stays alive.
+   */
+  findUnusedFiles(analysis: ProjectAnalysis): DeadCluster[] {
+    const isExcluded = createExclusionMatcher(this.config.excludeFromUnused || []);
+    const kept = new Set([...analysis.files.keys()].filter(file =>
+      this.isEntryPoint(file) || isExcluded(file, '*') || analysis.files.get(file)!.exports.some(e => isExcluded(file, e.name))
+    ));
+
+    // Barrels reach what they re-export, which importGraph does not record
+    const graph = new Map([...analysis.importGraph].map(([file, imports]) => [file, new Set(imports)]));
+    for (const [file, fileAnalysis] of analysis.files) {
+      for (const exp of fileAnalysis.exports) {
+        if (exp.isReExport && exp.originalSource) graph.get(file)?.add(exp.originalSource);
+      }
+    }
+
+    const { clusters } = analyzeReachability(graph, kept);
+    const suppressed = clusters.flatMap(c => c.files).filter(file => isSuppressed(analysis.suppressions, 'unused-file', file));
+    if (suppressed.length === 0) return clusters;
+
+    suppressed.forEach(file => kept.add(file));
+    return analyzeReachability(graph, kept).clusters;
+  }
+
+  /** Imports that break the configured architecture rules */
+  findRuleViolations(analysis: ProjectAnalysis): RuleViolation[] {
+    return checkArchitectureRules(analysis, this.config.rules || [])
+      .filter(v => !isSuppressed(analysis.suppressions, 'architecture-violation', v.file, v.line));
+  }
+
+  /** Workspace package that owns a file, if the project is a monorepo */
+  getPackage(filePath: string): WorkspacePackage | undefined {
+    const rel = filePath.startsWith(this.rootDir) ? path.relative(this.rootDir, filePath) : filePath;
+    return findPackageOf(this.packages, rel);
+  }
+
   getSymbolTrace(analysis: ProjectAnalysis, filePath: string, symbolName: string): SymbolTrace | undefined {
     const rel = filePath.startsWith(this.rootDir) ? path.relative(this.rootDir, filePath) : filePath;
     return analysis.symbolTraces.get(`${rel}:${symbolName}`);
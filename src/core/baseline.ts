@@ -0,0 +1,121 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import type { Problem, RuleId } from './reporter.js';
+
+/**
+ * Baselines record the problems a project already has, so CI can fail on new
+ * ones only. Entries are matched by file + symbol + category, never by line,
+ * so edits elsewhere in a file do not invalidate them.
+ */
+
+export const BASELINE_FILE = path.join('.consuela', 'baseline.json');
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  rule: RuleId;
+  category: string;
+  file?: string;
+  symbol?: string;
+  /** Message at the time the baseline was created, for humans reading the file */
+  message: string;
+}
+
+export interface Baseline {
+  version: number;
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  /** Problems not covered by the baseline */
+  newProblems: Problem[];
+  /** Problems the baseline already knows about */
+  knownProblems: Problem[];
+  /** Baseline entries that no longer occur and can be pruned */
+  fixedEntries: BaselineEntry[];
+}
+
+export function fingerprintProblem(problem: Problem): string {
+  return crypto.createHash('sha1')
+    .update(`${problem.category}\0${problem.file ?? ''}\0${problem.symbol ?? ''}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function createBaseline(problems: Problem[]): Baseline {
+  const entries = problems.map((problem): BaselineEntry => ({
+    fingerprint: fingerprintProblem(problem),
+    rule: problem.rule,
+    category: problem.category,
+    ...(problem.file && { file: problem.file }),
+    ...(problem.symbol && { symbol: problem.symbol }),
+    message: problem.message,
+  }));
+
+  entries.sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || a.fingerprint.localeCompare(b.fingerprint));
+  return { version: BASELINE_VERSION, createdAt: new Date().toISOString(), entries };
+}
+
+/**
+ * Read the project's baseline. Returns undefined when there is none; throws when it cannot be read.
+ */
+export function loadBaseline(rootDir: string): Baseline | undefined {
+  const baselinePath = path.join(rootDir, BASELINE_FILE);
+  if (!fs.existsSync(baselinePath)) return undefined;
+
+  let baseline: Baseline;
+  try {
+    baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse ${BASELINE_FILE}: ${error}`);
+  }
+  if (baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.entries)) {
+    throw new Error(`Unsupported baseline format in ${BASELINE_FILE}, recreate it with \`consuela baseline create\``);
+  }
+  return baseline;
+}
+
+export function saveBaseline(rootDir: string, baseline: Baseline): string {
+  const baselinePath = path.join(rootDir, BASELINE_FILE);
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n');
+  return baselinePath;
+}
+
+/**
+ * Split problems into new and known ones. Only baseline entries for `rules` are
+ * considered, so a command that checks a subset of rules does not report the
+ * other entries as fixed.
+ */
+export function compareWithBaseline(problems: Problem[], baseline: Baseline, rules?: RuleId[]): BaselineComparison {
+  const entries = rules ? baseline.entries.filter(e => rules.includes(e.rule)) : baseline.entries;
+
+  // The same fingerprint may legitimately occur more than once, so match by count
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of entries) {
+    remaining.set(entry.fingerprint, [...(remaining.get(entry.fingerprint) || []), entry]);
+  }
+
+  const newProblems: Problem[] = [];
+  const knownProblems: Problem[] = [];
+  for (const problem of problems) {
+    const matches = remaining.get(fingerprintProblem(problem));
+    if (matches && matches.length > 0) {
+      matches.pop();
+      knownProblems.push(problem);
+    } else {
+      newProblems.push(problem);
+    }
+  }
+
+  return { newProblems, knownProblems, fixedEntries: Array.from(remaining.values()).flat() };
+}
+
+/** Drop entries that no longer occur, without adding new problems */
+export function pruneBaseline(baseline: Baseline, fixedEntries: BaselineEntry[]): Baseline {
+  const fixed = new Set(fixedEntries);
+  return { ...baseline, entries: baseline.entries.filter(e => !fixed.has(e)) };
+}
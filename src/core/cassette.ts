@@ -0,0 +1,74 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import { BaseAIProvider, type AIProvider, type AIProviderName, type CassetteOptions } from './ai-provider.js';
+
+/**
+ * Record/replay ("cassette") mode for AI calls.
+ * Each prompt/response pair is stored as `<sha256(prompt)>.json` so AI-driven
+ * plans can be reviewed in a PR and re-run offline and deterministically.
+ */
+
+/** One stored prompt/response pair */
+export interface CassetteEntry {
+  key: string;
+  provider: AIProviderName;
+  model: string;
+  prompt: string;
+  response: string;
+}
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+class CassetteProvider extends BaseAIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  private readonly inner: AIProvider | null;
+  private readonly options: CassetteOptions;
+
+  constructor(inner: AIProvider | null, options: CassetteOptions, fallback: { name: AIProviderName; model?: string }) {
+    super();
+    this.inner = inner;
+    this.options = options;
+    this.name = inner?.name ?? fallback.name;
+    this.model = inner?.model ?? fallback.model ?? 'replay';
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const key = hashPrompt(prompt);
+    const entryPath = path.join(this.options.dir, `${key}.json`);
+
+    if (this.options.mode === 'replay') {
+      if (!fs.existsSync(entryPath)) {
+        throw new Error(`No recorded AI response for prompt ${key.slice(0, 12)} in ${this.options.dir}`);
+      }
+      const entry = JSON.parse(fs.readFileSync(entryPath, 'utf-8')) as CassetteEntry;
+      return entry.response;
+    }
+
+    if (!this.inner) {
+      throw new Error('Recording AI responses requires a configured AI provider');
+    }
+
+    const response = await this.inner.generateText(prompt);
+    const entry: CassetteEntry = { key, provider: this.inner.name, model: this.inner.model, prompt, response };
+
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    fs.writeFileSync(entryPath, JSON.stringify(entry, null, 2) + '\n');
+    return response;
+  }
+}
+
+/**
+ * Wrap a provider so every prompt is recorded to, or replayed from, a cassette directory.
+ * Replay mode needs no live provider.
+ */
+export const createCassetteProvider = (
+  inner: AIProvider | null,
+  options: CassetteOptions,
+  fallback: { name: AIProviderName; model?: string } = { name: 'gemini' }
+): AIProvider => {
+  return new CassetteProvider(inner, options, fallback);
+};
@@ -1,5 +1,6 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import type { ArchitectureRule } from './rules.js';
 
 export interface ConsuelaConfig {
   // Patterns to ignore (added to defaults)
@@ -11,8 +12,11 @@ export interface ConsuelaConfig {
   // Disable caching
   noCache?: boolean;
 
-  // Files/exports to exclude from unused detection
+  // Files (`src/generated/**`) or exports (`src/api.ts:handler`) to exclude from unused detection
   excludeFromUnused?: string[];
+
+  // Forbidden imports between layers, checked by `consuela check`
+  rules?: ArchitectureRule[];
 }
 
 const CONFIG_FILES = ['.consuelarc', '.consuelarc.json', 'consuela.config.json'];
@@ -50,10 +54,14 @@ export function mergeWithDefaults(config: ConsuelaConfig): {
   ignore: string[];
   entryPoints: string[];
   cache: boolean;
+  excludeFromUnused: string[];
+  rules: ArchitectureRule[];
 } {
   return {
     ignore: config.ignore || [],
     entryPoints: config.entryPoints || [],
     cache: !config.noCache,
+    excludeFromUnused: config.excludeFromUnused || [],
+    rules: config.rules || [],
   };
 }
@@ -0,0 +1,251 @@
+/**
+ * Import cycle detection over the file import graph
+ */
+
+/** Elementary cycles counted per component before giving up */
+const MAX_CYCLES_PER_COMPONENT = 10_000;
+/** Search steps per component before giving up */
+const MAX_STEPS_PER_COMPONENT = 1_000_000;
+
+/** An import between two files of the same cyclic component */
+export interface CycleEdge {
+  from: string;
+  to: string;
+  /** Every import behind the edge is type-only, so it is erased at runtime */
+  typeOnly: boolean;
+  /** Elementary cycles that run through the edge */
+  cycles: number;
+}
+
+/** A strongly connected component of the import graph */
+export interface CycleComponent {
+  /** Member files, sorted */
+  files: string[];
+  size: number;
+  /** Imports between members */
+  edges: CycleEdge[];
+  /** The edges that remain at runtime */
+  runtimeEdges: CycleEdge[];
+  /** The cycles only exist through type-only imports */
+  typeOnly: boolean;
+  /** Elementary cycles in the component */
+  cycleCount: number;
+  /** Counting stopped early; cycle counts are lower bounds */
+  truncated: boolean;
+}
+
+export interface CycleAnalysis {
+  /** Largest first */
+  components: CycleComponent[];
+  /** Edges of all components by the number of cycles they appear in, most first */
+  edgeRanking: CycleEdge[];
+  /** Elementary cycles as file chains starting at their lowest-ordered file, up to the per-component limit */
+  cycles: string[][];
+}
+
+/**
+ * Strongly connected components of the import graph, with their internal
+ * edges, the runtime subset and how many cycles run through each edge
+ */
+export function analyzeCycles(
+  importGraph: Map<string, Set<string>>,
+  runtimeGraph: Map<string, Set<string>>
+): CycleAnalysis {
+  const cycles: string[][] = [];
+  const components = findCyclicComponents(importGraph).map(files => {
+    const members = new Set(files);
+    const edges: CycleEdge[] = [];
+    for (const from of files) {
+      for (const to of [...(importGraph.get(from) || [])].sort()) {
+        if (members.has(to)) edges.push({ from, to, typeOnly: !runtimeGraph.get(from)?.has(to), cycles: 0 });
+      }
+    }
+
+    const { cycleCount, truncated } = countCycles(files, edges, cycles);
+    const runtimeEdges = edges.filter(edge => !edge.typeOnly);
+    const runtimeSuccessors = new Map<string, string[]>();
+    for (const edge of runtimeEdges) {
+      runtimeSuccessors.set(edge.from, [...(runtimeSuccessors.get(edge.from) || []), edge.to]);
+    }
+
+    return {
+      files,
+      size: files.length,
+      edges,
+      runtimeEdges,
+      typeOnly: findCyclicComponents(runtimeSuccessors).length === 0,
+      cycleCount,
+      truncated,
+    };
+  });
+
+  components.sort((a, b) => b.size - a.size || a.files[0].localeCompare(b.files[0]));
+  const edgeRanking = components
+    .flatMap(component => component.edges)
+    .sort((a, b) => b.cycles - a.cycles || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  return { components, edgeRanking, cycles };
+}
+
+/**
+ * Count the elementary cycles of a component, add them to each edge's
+ * `cycles` and collect their chains. Each cycle is found once, from its
+ * lowest-ordered file, by only walking through files ordered after the start.
+ */
+function countCycles(files: string[], edges: CycleEdge[], chains: string[][]): { cycleCount: number; truncated: boolean } {
+  const order = new Map(files.map((file, index) => [file, index]));
+  const outgoing = new Map<string, CycleEdge[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge]);
+  }
+
+  let cycleCount = 0;
+  let steps = 0;
+  for (const start of files) {
+    const startOrder = order.get(start)!;
+    const path: CycleEdge[] = [];
+    const onPath = new Set([start]);
+    const work = [{ node: start, next: 0 }];
+
+    while (work.length > 0) {
+      if (++steps > MAX_STEPS_PER_COMPONENT || cycleCount >= MAX_CYCLES_PER_COMPONENT) {
+        return { cycleCount, truncated: true };
+      }
+      const frame = work[work.length - 1];
+      const candidates = outgoing.get(frame.node) || [];
+      if (frame.next >= candidates.length) {
+        work.pop();
+        onPath.delete(frame.node);
+        path.pop();
+        continue;
+      }
+
+      const edge = candidates[frame.next++];
+      if (edge.to === start) {
+        cycleCount++;
+        for (const step of path) step.cycles++;
+        edge.cycles++;
+        chains.push([start, ...path.map(step => step.to)]);
+      } else if (order.get(edge.to)! > startOrder && !onPath.has(edge.to)) {
+        onPath.add(edge.to);
+        path.push(edge);
+        work.push({ node: edge.to, next: 0 });
+      }
+    }
+  }
+  return { cycleCount, truncated: false };
+}
+
+/**
+ * Strongly connected components that contain a cycle (two or more nodes, or a
+ * self-loop), members sorted. Iterative Tarjan, so deep graphs don't overflow the stack.
+ */
+export function findCyclicComponents(graph: Map<string, Iterable<string>>): string[][] {
+  const successors = new Map<string, string[]>();
+  for (const [node, targets] of graph) {
+    successors.set(node, [...targets]);
+  }
+  for (const targets of [...successors.values()]) {
+    for (const target of targets) {
+      if (!successors.has(target)) successors.set(target, []);
+    }
+  }
+
+  const indices = new Map<string, number>();
+  const lowlinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (node: string) => {
+    indices.set(node, nextIndex);
+    lowlinks.set(node, nextIndex);
+    nextIndex++;
+    stack.push(node);
+    onStack.add(node);
+  };
+
+  for (const root of successors.keys()) {
+    if (indices.has(root)) continue;
+    visit(root);
+    const work = [{ node: root, next: 0 }];
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = successors.get(frame.node)!;
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!indices.has(target)) {
+          visit(target);
+          work.push({ node: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowlinks.set(frame.node, Math.min(lowlinks.get(frame.node)!, indices.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowlinks.set(parent, Math.min(lowlinks.get(parent)!, lowlinks.get(frame.node)!));
+      }
+      if (lowlinks.get(frame.node) !== indices.get(frame.node)) continue;
+
+      const members: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        members.push(member);
+      } while (member !== frame.node);
+
+      if (members.length > 1 || targets.includes(frame.node)) {
+        components.push(members.sort());
+      }
+    }
+  }
+  return components;
+}
+
+/**
+ * Import cycles as file chains, one per back edge met by a depth-first walk
+ */
+export function findCycles(importGraph: Map<string, Set<string>>): string[][] {
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+  const recursionStack = new Set<string>();
+  const currentPath: string[] = [];
+
+  const dfs = (file: string) => {
+    visited.add(file);
+    recursionStack.add(file);
+    currentPath.push(file);
+
+    const imports = importGraph.get(file);
+    if (imports) {
+      for (const imported of imports) {
+        if (!visited.has(imported)) {
+          dfs(imported);
+        } else if (recursionStack.has(imported)) {
+          const cycleStart = currentPath.indexOf(imported);
+          if (cycleStart !== -1) {
+            const cycle = currentPath.slice(cycleStart);
+            const cycleKey = [...cycle].sort().join('|');
+            if (!cycles.some(c => [...c].sort().join('|') === cycleKey)) {
+              cycles.push([...cycle]);
+            }
+          }
+        }
+      }
+    }
+
+    currentPath.pop();
+    recursionStack.delete(file);
+  };
+
+  for (const file of importGraph.keys()) {
+    if (!visited.has(file)) dfs(file);
+  }
+  return cycles;
+}
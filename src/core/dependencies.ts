@@ -0,0 +1,192 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { builtinModules } from 'node:module';
+import type { PackageImport, ProjectAnalysis } from './analyzer.js';
+import { findPackageOf } from './workspace.js';
+
+/**
+ * package.json checks against what source files import: `dependencies` no file
+ * imports, packages imported without being declared, and runtime imports of
+ * packages that are only `devDependencies`. Imports that start with a path
+ * alias but resolve to no file are reported on their own, since they are
+ * broken project imports rather than packages. Type-only imports are satisfied by
+ * the package itself or its `@types/` counterpart. In workspaces each package
+ * is checked against its own manifest, with the root manifest's packages
+ * available to all of them.
+ */
+
+export type DependencyIssueKind = 'unused' | 'missing' | 'misplaced' | 'unresolved';
+
+export const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'] as const;
+export type DependencySection = typeof DEPENDENCY_SECTIONS[number];
+
+export interface DependencyIssue {
+  kind: DependencyIssueKind;
+  /** npm package name (`lodash`, `@types/node`), or the specifier of an unresolved alias import */
+  name: string;
+  /** package.json the issue belongs to, relative to the project root */
+  manifest: string;
+  /** Imports of the package; empty for unused dependencies */
+  imports: Array<{ file: string; line: number; source: string }>;
+  /** Every import of a missing package is type-only */
+  typeOnly?: boolean;
+}
+
+export interface DependencyReport {
+  issues: DependencyIssue[];
+  /** package.json files checked, relative to the project root */
+  manifests: string[];
+  /** Distinct packages imported by source files */
+  packagesImported: number;
+}
+
+export interface PackageManifest {
+  name?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+const BUILTINS = new Set(builtinModules);
+
+/**
+ * npm package a specifier imports (`@scope/pkg/sub` → `@scope/pkg`); undefined for Node builtins
+ */
+export function packageNameOf(specifier: string): string | undefined {
+  if (specifier.startsWith('node:') || BUILTINS.has(specifier) || BUILTINS.has(specifier.split('/')[0])) return undefined;
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * DefinitelyTyped package for an npm package (`@scope/pkg` → `@types/scope__pkg`)
+ */
+export function typesPackageFor(name: string): string {
+  return `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+}
+
+/**
+ * Check every package.json of the project against the package imports in its source files
+ */
+export function analyzeDependencies(analysis: ProjectAnalysis, rootDir: string): DependencyReport {
+  const manifests = new Map<string, PackageManifest>();
+  for (const dir of ['.', ...analysis.packages.map(pkg => pkg.dir)]) {
+    const manifest = readManifest(path.join(rootDir, dir, 'package.json'));
+    if (manifest) manifests.set(dir, manifest);
+  }
+  const root = manifests.get('.');
+
+  // Package imports by owning manifest
+  const importsByManifest = new Map<string, PackageImport[]>([...manifests.keys()].map(dir => [dir, []]));
+  const builtinUsers = new Set<string>();
+  const imported = new Set<string>();
+  const unresolved = new Map<string, PackageImport[]>();
+  for (const [file, fileAnalysis] of analysis.files) {
+    const dir = findPackageOf(analysis.packages, file)?.dir ?? '.';
+    for (const packageImport of fileAnalysis.packageImports) {
+      if (packageImport.isUnresolvedAlias) {
+        const key = `${dir}\0${packageImport.source}`;
+        unresolved.set(key, [...(unresolved.get(key) ?? []), packageImport]);
+        continue;
+      }
+      const name = packageNameOf(packageImport.source);
+      if (name) imported.add(name);
+      else builtinUsers.add(dir);
+      importsByManifest.get(dir)?.push(packageImport);
+    }
+  }
+
+  const issues: DependencyIssue[] = [];
+  for (const [key, packageImports] of unresolved) {
+    const [dir, source] = key.split('\0');
+    if (!manifests.has(dir)) continue;
+    issues.push({
+      kind: 'unresolved', name: source, manifest: dir === '.' ? 'package.json' : `${dir}/package.json`,
+      imports: packageImports.map(imp => ({ file: imp.filePath, line: imp.line, source: imp.source })),
+    });
+  }
+  for (const [dir, manifest] of manifests) {
+    const manifestPath = dir === '.' ? 'package.json' : `${dir}/package.json`;
+    const declared = (name: string) =>
+      isDeclared(manifest, name) || (dir !== '.' && !!root && isDeclared(root, name));
+    const runtime = (name: string) =>
+      !!(manifest.dependencies?.[name] || manifest.peerDependencies?.[name] || manifest.optionalDependencies?.[name]);
+
+    // The root manifest is hoisted, so it is used by every file
+    const owned = dir === '.' ? [...importsByManifest.values()].flat() : importsByManifest.get(dir)!;
+    const byName = new Map<string, PackageImport[]>();
+    for (const packageImport of owned) {
+      const name = packageNameOf(packageImport.source);
+      if (name) byName.set(name, [...(byName.get(name) ?? []), packageImport]);
+    }
+    const toLocations = (packageImports: PackageImport[]) =>
+      packageImports.map(imp => ({ file: imp.filePath, line: imp.line, source: imp.source }));
+
+    // Declared in `dependencies` but never imported
+    const scripts = Object.values(manifest.scripts ?? {}).join('\n');
+    for (const name of Object.keys(manifest.dependencies ?? {})) {
+      const typesFor = name.startsWith('@types/') ? name.slice('@types/'.length) : undefined;
+      const used = byName.has(name) ||
+        (typesFor !== undefined && (typesFor === 'node'
+          ? (dir === '.' ? builtinUsers.size > 0 : builtinUsers.has(dir))
+          : [...byName.keys()].some(pkg => typesPackageFor(pkg) === name))) ||
+        new RegExp(`(^|[\\s/"'])${escapeRegExp(name)}($|[\\s/"'@])`, 'm').test(scripts);
+      if (!used) issues.push({ kind: 'unused', name, manifest: manifestPath, imports: [] });
+    }
+
+    // Only workspace-local imports count for workspace manifests; the root also sees its own files
+    const local = dir === '.' ? importsByManifest.get('.')! : owned;
+    const localByName = new Map<string, PackageImport[]>();
+    for (const packageImport of local) {
+      const name = packageNameOf(packageImport.source);
+      if (name && name !== manifest.name) localByName.set(name, [...(localByName.get(name) ?? []), packageImport]);
+    }
+
+    for (const [name, packageImports] of localByName) {
+      const runtimeImports = packageImports.filter(imp => !imp.isTypeOnly);
+
+      // Imported but not declared anywhere it would be installed from
+      const satisfied = runtimeImports.length > 0 ? declared(name) : declared(name) || declared(typesPackageFor(name));
+      if (!satisfied) {
+        issues.push({
+          kind: 'missing', name, manifest: manifestPath, imports: toLocations(packageImports),
+          ...(runtimeImports.length === 0 && { typeOnly: true }),
+        });
+        continue;
+      }
+
+      // Needed at runtime but only installed for development
+      if (runtimeImports.length > 0 && manifest.devDependencies?.[name] && !runtime(name)) {
+        issues.push({ kind: 'misplaced', name, manifest: manifestPath, imports: toLocations(runtimeImports) });
+      }
+    }
+  }
+
+  const order: Record<DependencyIssueKind, number> = { unresolved: 0, missing: 1, misplaced: 2, unused: 3 };
+  issues.sort((a, b) => order[a.kind] - order[b.kind] || a.manifest.localeCompare(b.manifest) || a.name.localeCompare(b.name));
+
+  return {
+    issues,
+    manifests: [...manifests.keys()].map(dir => (dir === '.' ? 'package.json' : `${dir}/package.json`)),
+    packagesImported: imported.size,
+  };
+}
+
+export function readManifest(manifestPath: string): PackageManifest | undefined {
+  if (!fs.existsSync(manifestPath)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as PackageManifest;
+  } catch {
+    return undefined;
+  }
+}
+
+function isDeclared(manifest: PackageManifest, name: string): boolean {
+  return DEPENDENCY_SECTIONS.some(section => !!manifest[section]?.[name]);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,468 @@
+import type { GraphView } from '../graph/export.js';
+import type { Problem } from './reporter.js';
+
+/**
+ * Self-contained HTML health report: one file with inline styles and scripts,
+ * so it opens offline and can be published as a CI artifact. Tables are
+ * rendered up front and scripts only add sorting, filtering and zooming.
+ */
+
+export interface HtmlReportExport {
+  name: string;
+  kind: string;
+  line: number;
+  usageCount: number;
+  /** Files that import the export */
+  importedBy: string[];
+  unused: boolean;
+}
+
+export interface HtmlReportFile {
+  path: string;
+  dependencies: number;
+  dependents: number;
+  exports: HtmlReportExport[];
+}
+
+export interface HtmlReportData {
+  title: string;
+  generatedAt: string;
+  score: number;
+  scoreBreakdown: Array<{ category: string; count: number; maxPenalty: number; penalty: number }>;
+  problems: Problem[];
+  purity: { totalFunctions: number; pureFunctions: number; impureFunctions: number; unknownFunctions: number };
+  /** File import graph, with cycles and hubs already marked */
+  graph: GraphView;
+  files: HtmlReportFile[];
+}
+
+interface PositionedNode {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  inCycle: boolean;
+  isHub: boolean;
+}
+
+const NODE_HEIGHT = 24;
+const ROW_GAP = 12;
+const COLUMN_GAP = 80;
+const CHAR_WIDTH = 6.6;
+
+export function renderHtmlReport(data: HtmlReportData): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(data.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>🧹 ${escapeHtml(data.title)}</h1>
+  <p class="muted">Generated ${escapeHtml(data.generatedAt)}</p>
+</header>
+<main>
+${renderScore(data)}
+${renderPurity(data.purity)}
+${renderProblems(data.problems)}
+${renderGraphSection(data.graph)}
+${renderFiles(data.files)}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function fileAnchor(file: string): string {
+  return `file-${file.replace(/[^\w-]/g, '_')}`;
+}
+
+function renderScore(data: HtmlReportData): string {
+  const level = data.score >= 80 ? 'good' : data.score >= 50 ? 'fair' : 'poor';
+  const rows = data.scoreBreakdown.map(entry => {
+    const width = entry.maxPenalty > 0 ? (entry.penalty / entry.maxPenalty) * 100 : 0;
+    return `<tr>
+      <td>${escapeHtml(entry.category)}</td>
+      <td class="num">${entry.count}</td>
+      <td><div class="bar"><div class="bar-fill poor" style="width:${width.toFixed(1)}%"></div></div></td>
+      <td class="num">−${entry.penalty} / ${entry.maxPenalty}</td>
+    </tr>`;
+  }).join('\n');
+
+  return `<section id="score">
+  <h2>Health score</h2>
+  <div class="score ${level}">${data.score}<span>/100</span></div>
+  <table>
+    <thead><tr><th>Category</th><th class="num">Problems</th><th>Penalty</th><th class="num">Points</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</section>`;
+}
+
+function renderPurity(purity: HtmlReportData['purity']): string {
+  const percent = (count: number) => purity.totalFunctions > 0 ? (count / purity.totalFunctions) * 100 : 0;
+  const segments = [
+    { label: 'Pure', count: purity.pureFunctions, className: 'good' },
+    { label: 'Impure', count: purity.impureFunctions, className: 'poor' },
+    { label: 'Unknown', count: purity.unknownFunctions, className: 'unknown' },
+  ];
+
+  return `<section id="purity">
+  <h2>Function purity</h2>
+  <p>${purity.totalFunctions} functions, ${percent(purity.pureFunctions).toFixed(0)}% free of side effects.</p>
+  <div class="bar stacked">${segments.map(s => `<div class="bar-fill ${s.className}" style="width:${percent(s.count).toFixed(1)}%" title="${s.label}: ${s.count}"></div>`).join('')}</div>
+  <ul class="legend">${segments.map(s => `<li><span class="swatch ${s.className}"></span>${s.label}: ${s.count}</li>`).join('')}</ul>
+</section>`;
+}
+
+const SEVERITY_RANK: Record<Problem['severity'], number> = { critical: 0, warning: 1, info: 2 };
+
+function renderProblems(problems: Problem[]): string {
+  const rows = problems.map(problem => {
+    const location = problem.file ? `${problem.file}${problem.line ? `:${problem.line}` : ''}` : '';
+    const fileLink = problem.file ? `<a href="#${fileAnchor(problem.file)}">${escapeHtml(location)}</a>` : '';
+    return `<tr data-severity="${problem.severity}">
+      <td data-sort="${SEVERITY_RANK[problem.severity]}"><span class="badge ${problem.severity}">${problem.severity}</span></td>
+      <td>${escapeHtml(problem.rule)}</td>
+      <td>${escapeHtml(problem.category)}</td>
+      <td data-sort="${escapeHtml(location)}">${fileLink}</td>
+      <td>${escapeHtml(problem.message)}${problem.suggestion ? `<div class="muted">${escapeHtml(problem.suggestion)}</div>` : ''}</td>
+    </tr>`;
+  }).join('\n');
+
+  return `<section id="problems">
+  <h2>Problems (${problems.length})</h2>
+  <div class="controls">
+    <input type="search" placeholder="Filter problems" data-filter="problem-table">
+    <select data-severity-filter="problem-table">
+      <option value="">All severities</option>
+      <option value="critical">Critical</option>
+      <option value="warning">Warning</option>
+      <option value="info">Info</option>
+    </select>
+  </div>
+  <table id="problem-table" class="sortable">
+    <thead><tr><th>Severity</th><th>Rule</th><th>Category</th><th>Location</th><th>Message</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</section>`;
+}
+
+function renderGraphSection(graph: GraphView): string {
+  const cycles = graph.nodes.filter(node => node.inCycle).length;
+  const hubs = graph.nodes.filter(node => node.isHub).length;
+  return `<section id="graph">
+  <h2>Dependency graph</h2>
+  <p class="muted">${graph.nodes.length} files, ${graph.edges.length} imports, ${cycles} files in cycles, ${hubs} hubs.
+    Scroll to zoom, drag to pan, click a file for its exports.</p>
+  <ul class="legend"><li><span class="swatch cycle"></span>In a cycle</li><li><span class="swatch hub"></span>Hub</li></ul>
+  <div class="graph-frame">${renderGraphSvg(graph)}</div>
+  <button type="button" data-reset-zoom>Reset zoom</button>
+</section>`;
+}
+
+/**
+ * Layered left-to-right layout: back edges are set aside so each file sits one
+ * column right of its deepest importer, then rows follow importer order.
+ */
+function layoutGraph(graph: GraphView): { nodes: PositionedNode[]; width: number; height: number } {
+  const successors = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]));
+  for (const edge of graph.edges) successors.get(edge.from)?.push(edge.to);
+
+  // Iterative DFS marking edges into the current path as back edges
+  const state = new Map<string, 'active' | 'done'>();
+  const backEdges = new Set<string>();
+  for (const root of graph.nodes) {
+    if (state.has(root.id)) continue;
+    state.set(root.id, 'active');
+    const stack = [{ node: root.id, next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const targets = successors.get(frame.node)!;
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (state.get(target) === 'active') backEdges.add(`${frame.node}\0${target}`);
+        else if (!state.has(target)) {
+          state.set(target, 'active');
+          stack.push({ node: target, next: 0 });
+        }
+        continue;
+      }
+      state.set(frame.node, 'done');
+      stack.pop();
+    }
+  }
+
+  // Longest-path layering over the remaining (acyclic) edges
+  const forward = graph.edges.filter(edge => !backEdges.has(`${edge.from}\0${edge.to}`));
+  const inDegree = new Map(graph.nodes.map(node => [node.id, 0]));
+  for (const edge of forward) inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+  const layer = new Map(graph.nodes.map(node => [node.id, 0]));
+  const queue = graph.nodes.filter(node => inDegree.get(node.id) === 0).map(node => node.id);
+  const forwardSuccessors = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]));
+  for (const edge of forward) forwardSuccessors.get(edge.from)!.push(edge.to);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const target of forwardSuccessors.get(node)!) {
+      layer.set(target, Math.max(layer.get(target)!, layer.get(node)! + 1));
+      inDegree.set(target, inDegree.get(target)! - 1);
+      if (inDegree.get(target) === 0) queue.push(target);
+    }
+  }
+
+  const columns: string[][] = [];
+  for (const node of graph.nodes) {
+    const column = layer.get(node.id)!;
+    (columns[column] ||= []).push(node.id);
+  }
+
+  // Order each column by the average row of its importers, so edges cross less
+  const row = new Map<string, number>();
+  const predecessors = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]));
+  for (const edge of forward) predecessors.get(edge.to)!.push(edge.from);
+  for (const column of columns) {
+    if (!column) continue;
+    const weight = (id: string) => {
+      const rows = predecessors.get(id)!.filter(p => row.has(p)).map(p => row.get(p)!);
+      return rows.length > 0 ? rows.reduce((a, b) => a + b, 0) / rows.length : Number.MAX_SAFE_INTEGER;
+    };
+    column.sort((a, b) => weight(a) - weight(b) || a.localeCompare(b));
+    column.forEach((id, i) => row.set(id, i));
+  }
+
+  const byId = new Map(graph.nodes.map(node => [node.id, node]));
+  const positioned: PositionedNode[] = [];
+  let x = 0;
+  let height = 0;
+  for (const column of columns) {
+    if (!column) continue;
+    let columnWidth = 0;
+    column.forEach((id, i) => {
+      const node = byId.get(id)!;
+      const width = Math.ceil(node.label.length * CHAR_WIDTH) + 16;
+      columnWidth = Math.max(columnWidth, width);
+      const y = i * (NODE_HEIGHT + ROW_GAP);
+      positioned.push({ id, label: node.label, x, y, width, inCycle: node.inCycle, isHub: node.isHub });
+      height = Math.max(height, y + NODE_HEIGHT);
+    });
+    x += columnWidth + COLUMN_GAP;
+  }
+  return { nodes: positioned, width: Math.max(0, x - COLUMN_GAP), height };
+}
+
+function renderGraphSvg(graph: GraphView): string {
+  if (graph.nodes.length === 0) return '<p class="muted">No files to draw.</p>';
+
+  const { nodes, width, height } = layoutGraph(graph);
+  const positions = new Map(nodes.map(node => [node.id, node]));
+  const margin = 20;
+
+  const edges = graph.edges.map(edge => {
+    const from = positions.get(edge.from)!;
+    const to = positions.get(edge.to)!;
+    const x1 = from.x + from.width;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+    return `<path class="edge${edge.inCycle ? ' cycle' : ''}" d="M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}" marker-end="url(#${edge.inCycle ? 'arrow-cycle' : 'arrow'})"><title>${escapeHtml(edge.from)} → ${escapeHtml(edge.to)}</title></path>`;
+  }).join('\n');
+
+  const nodeElements = nodes.map(node => {
+    const classes = ['node', node.inCycle ? 'cycle' : '', node.isHub ? 'hub' : ''].filter(Boolean).join(' ');
+    return `<a href="#${fileAnchor(node.id)}"><g class="${classes}" transform="translate(${node.x},${node.y})">
+      <rect width="${node.width}" height="${NODE_HEIGHT}" rx="4"></rect>
+      <text x="8" y="16">${escapeHtml(node.label)}</text>
+    </g></a>`;
+  }).join('\n');
+
+  return `<svg id="graph-svg" xmlns="http://www.w3.org/2000/svg" viewBox="${-margin} ${-margin} ${width + margin * 2} ${height + margin * 2}">
+  <defs>
+    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#8a8f98"></path></marker>
+    <marker id="arrow-cycle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#d62728"></path></marker>
+  </defs>
+  <g>${edges}</g>
+  <g>${nodeElements}</g>
+</svg>`;
+}
+
+function renderFiles(files: HtmlReportFile[]): string {
+  const items = files.map(file => {
+    const rows = file.exports.map(exp => `<tr${exp.unused ? ' class="unused"' : ''}>
+        <td>${escapeHtml(exp.name)}${exp.unused ? ' <span class="badge warning">unused</span>' : ''}</td>
+        <td>${escapeHtml(exp.kind)}</td>
+        <td class="num">${exp.line}</td>
+        <td class="num">${exp.usageCount}</td>
+        <td>${exp.importedBy.map(importer => `<a href="#${fileAnchor(importer)}">${escapeHtml(importer)}</a>`).join('<br>')}</td>
+      </tr>`).join('\n');
+    const unused = file.exports.filter(exp => exp.unused).length;
+
+    return `<details id="${fileAnchor(file.path)}" data-file="${escapeHtml(file.path)}">
+    <summary><code>${escapeHtml(file.path)}</code>
+      <span class="muted">${file.exports.length} exports${unused > 0 ? `, ${unused} unused` : ''} · imports ${file.dependencies} · imported by ${file.dependents}</span></summary>
+    ${file.exports.length > 0 ? `<table class="sortable">
+      <thead><tr><th>Export</th><th>Kind</th><th class="num">Line</th><th class="num">Usages</th><th>Imported by</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>` : '<p class="muted">No exports.</p>'}
+  </details>`;
+  }).join('\n');
+
+  return `<section id="files">
+  <h2>Files (${files.length})</h2>
+  <div class="controls"><input type="search" placeholder="Filter files" data-file-filter></div>
+  ${items}
+</section>`;
+}
+
+const STYLES = `
+:root { --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --bg: #ffffff; --panel: #f6f8fa;
+  --good: #2da44e; --fair: #d4a72c; --poor: #cf222e; --unknown: #8a8f98; --hub: #ffd966; --cycle: #d62728; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: var(--fg); background: var(--bg); }
+header { padding: 24px 32px 8px; border-bottom: 1px solid var(--border); }
+header h1 { margin: 0; font-size: 24px; }
+main { padding: 0 32px 48px; max-width: 1200px; }
+section { margin-top: 32px; }
+h2 { font-size: 18px; border-bottom: 1px solid var(--border); padding-bottom: 6px; }
+.muted { color: var(--muted); font-size: 12px; }
+table { border-collapse: collapse; width: 100%; margin-top: 8px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--border); vertical-align: top; }
+th { background: var(--panel); font-weight: 600; }
+.sortable th { cursor: pointer; user-select: none; }
+.sortable th[data-order="asc"]::after { content: " ▲"; }
+.sortable th[data-order="desc"]::after { content: " ▼"; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.score { font-size: 56px; font-weight: 700; }
+.score span { font-size: 20px; color: var(--muted); }
+.score.good { color: var(--good); } .score.fair { color: var(--fair); } .score.poor { color: var(--poor); }
+.bar { display: flex; height: 10px; background: var(--panel); border-radius: 5px; overflow: hidden; min-width: 120px; }
+.bar.stacked { height: 18px; max-width: 600px; }
+.bar-fill.good { background: var(--good); } .bar-fill.poor { background: var(--poor); } .bar-fill.unknown { background: var(--unknown); }
+.legend { list-style: none; padding: 0; display: flex; gap: 16px; font-size: 12px; }
+.swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; }
+.swatch.good { background: var(--good); } .swatch.poor { background: var(--poor); } .swatch.unknown { background: var(--unknown); }
+.swatch.hub { background: var(--hub); } .swatch.cycle { background: var(--cycle); }
+.badge { display: inline-block; padding: 0 6px; border-radius: 10px; font-size: 11px; color: #fff; }
+.badge.critical { background: var(--poor); } .badge.warning { background: var(--fair); } .badge.info { background: var(--unknown); }
+.controls { display: flex; gap: 8px; margin: 8px 0; }
+.controls input, .controls select { padding: 4px 8px; border: 1px solid var(--border); border-radius: 4px; font: inherit; }
+.controls input { flex: 1; max-width: 360px; }
+.graph-frame { border: 1px solid var(--border); border-radius: 6px; height: 560px; overflow: hidden; background: var(--panel); cursor: grab; }
+.graph-frame svg { width: 100%; height: 100%; }
+.edge { fill: none; stroke: #8a8f98; stroke-width: 1; opacity: 0.7; }
+.edge.cycle { stroke: var(--cycle); stroke-width: 2; opacity: 1; }
+.node rect { fill: #fff; stroke: #8a8f98; }
+.node.hub rect { fill: var(--hub); }
+.node.cycle rect { stroke: var(--cycle); stroke-width: 2; }
+.node text { font: 11px ui-monospace, SFMono-Regular, Menlo, monospace; fill: var(--fg); }
+details { border: 1px solid var(--border); border-radius: 6px; margin: 6px 0; padding: 6px 10px; }
+details:target { border-color: var(--fair); }
+summary { cursor: pointer; }
+tr.unused td { background: #fff8c5; }
+button { margin-top: 8px; padding: 4px 10px; border: 1px solid var(--border); border-radius: 4px; background: var(--panel); cursor: pointer; }
+`;
+
+const SCRIPT = `
+(function () {
+  // Sortable tables: click a header to sort by its column, again to reverse
+  document.querySelectorAll('table.sortable').forEach(function (table) {
+    table.querySelectorAll('th').forEach(function (th, column) {
+      th.addEventListener('click', function () {
+        var order = th.getAttribute('data-order') === 'asc' ? 'desc' : 'asc';
+        table.querySelectorAll('th').forEach(function (other) { other.removeAttribute('data-order'); });
+        th.setAttribute('data-order', order);
+        var body = table.tBodies[0];
+        var rows = Array.prototype.slice.call(body.rows);
+        var value = function (row) {
+          var cell = row.cells[column];
+          return cell.getAttribute('data-sort') || cell.textContent.trim();
+        };
+        rows.sort(function (a, b) {
+          var x = value(a), y = value(b);
+          var result = !isNaN(x) && !isNaN(y) && x !== '' && y !== '' ? x - y : x.localeCompare(y);
+          return order === 'asc' ? result : -result;
+        });
+        rows.forEach(function (row) { body.appendChild(row); });
+      });
+    });
+  });
+
+  // Problem filters: free text and severity
+  var problemTable = document.getElementById('problem-table');
+  var textFilter = document.querySelector('[data-filter="problem-table"]');
+  var severityFilter = document.querySelector('[data-severity-filter="problem-table"]');
+  function filterProblems() {
+    var text = textFilter.value.toLowerCase();
+    var severity = severityFilter.value;
+    Array.prototype.forEach.call(problemTable.tBodies[0].rows, function (row) {
+      var visible = (!severity || row.getAttribute('data-severity') === severity)
+        && row.textContent.toLowerCase().indexOf(text) !== -1;
+      row.style.display = visible ? '' : 'none';
+    });
+  }
+  if (problemTable) {
+    textFilter.addEventListener('input', filterProblems);
+    severityFilter.addEventListener('change', filterProblems);
+  }
+
+  // File filter
+  var fileFilter = document.querySelector('[data-file-filter]');
+  if (fileFilter) {
+    fileFilter.addEventListener('input', function () {
+      var text = fileFilter.value.toLowerCase();
+      document.querySelectorAll('details[data-file]').forEach(function (item) {
+        item.style.display = item.getAttribute('data-file').toLowerCase().indexOf(text) !== -1 ? '' : 'none';
+      });
+    });
+  }
+
+  // Opening a file from a link expands its drill-down
+  function openTarget() {
+    var target = location.hash && document.getElementById(location.hash.slice(1));
+    if (target && target.tagName === 'DETAILS') target.open = true;
+  }
+  window.addEventListener('hashchange', openTarget);
+  openTarget();
+
+  // Graph zoom (wheel) and pan (drag) by rewriting the viewBox
+  var svg = document.getElementById('graph-svg');
+  if (!svg) return;
+  var initial = svg.getAttribute('viewBox').split(' ').map(Number);
+  var box = initial.slice();
+  function apply() { svg.setAttribute('viewBox', box.join(' ')); }
+  svg.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var rect = svg.getBoundingClientRect();
+    var scale = event.deltaY > 0 ? 1.15 : 1 / 1.15;
+    var px = box[0] + (event.clientX - rect.left) / rect.width * box[2];
+    var py = box[1] + (event.clientY - rect.top) / rect.height * box[3];
+    box = [px - (px - box[0]) * scale, py - (py - box[1]) * scale, box[2] * scale, box[3] * scale];
+    apply();
+  }, { passive: false });
+  var drag = null;
+  svg.addEventListener('mousedown', function (event) { drag = { x: event.clientX, y: event.clientY, box: box.slice() }; });
+  window.addEventListener('mouseup', function () { drag = null; });
+  window.addEventListener('mousemove', function (event) {
+    if (!drag) return;
+    var rect = svg.getBoundingClientRect();
+    box[0] = drag.box[0] - (event.clientX - drag.x) / rect.width * box[2];
+    box[1] = drag.box[1] - (event.clientY - drag.y) / rect.height * box[3];
+    apply();
+  });
+  document.querySelector('[data-reset-zoom]').addEventListener('click', function () { box = initial.slice(); apply(); });
+})();
+`;
@@ -1,10 +1,35 @@
 // Core exports
 export { createAnalyzer, type ProjectAnalyzer } from './analyzer.js';
-export type { ExportInfo, SymbolTrace, ProjectAnalysis, UnusedExport, BreakingChange } from './analyzer.js';
+export type { ExportInfo, SymbolTrace, ProjectAnalysis, UnusedExport, BreakingChange, PackageImport } from './analyzer.js';
+export type { UnusedMember, MemberKind } from './members.js';
+export { analyzeReachability } from './reachability.js';
+export type { DeadCluster, Reachability } from './reachability.js';
+export type { TypeOnlyImport } from './type-imports.js';
+export { findPackageOf } from './workspace.js';
+export type { WorkspacePackage } from './workspace.js';
+export {
+  RULES, parseReportFormat, renderReport, problemFromCycle, problemFromLargeFile, problemFromUnusedExport, problemFromUnusedMember,
+  problemFromDeadFile, problemFromRuleViolation, problemFromUnusedSuppression,
+} from './reporter.js';
+export type { Problem, ProblemSeverity, ReportFormat, RuleId } from './reporter.js';
+export { BASELINE_FILE, compareWithBaseline, createBaseline, loadBaseline, pruneBaseline, saveBaseline } from './baseline.js';
+export type { Baseline, BaselineComparison, BaselineEntry } from './baseline.js';
+export { findUnusedSuppressions, globToRegExp, isCycleSuppressed, isSuppressed, parseSuppressions } from './suppressions.js';
+export type { Suppression, SuppressionMap, SuppressionScope } from './suppressions.js';
+export type { ArchitectureRule, RuleViolation } from './rules.js';
+export { analyzeCycles, findCycles, findCyclicComponents } from './cycles.js';
+export type { CycleAnalysis, CycleComponent, CycleEdge } from './cycles.js';
+export { analyzeDependencies, packageNameOf, readManifest, typesPackageFor, DEPENDENCY_SECTIONS } from './dependencies.js';
+export type { DependencyIssue, DependencyIssueKind, DependencyReport, DependencySection, PackageManifest } from './dependencies.js';
 export { loadProjectConfig, mergeWithDefaults } from './config.js';
 export type { ConsuelaConfig } from './config.js';
 export { createGeminiClient } from './gemini.js';
-export type { TidyContext } from './gemini.js';
+export { createOpenAIClient } from './openai.js';
+export { createOllamaClient } from './ollama.js';
+export { createAIProvider } from './ai.js';
+export { createCassetteProvider, hashPrompt } from './cassette.js';
+export { AI_PROVIDERS } from './ai-provider.js';
+export type { AIProvider, AIProviderConfig, AIProviderName, CassetteOptions, TidyContext } from './ai-provider.js';
 
 import { createAnalyzer, type ProjectAnalyzer } from './analyzer.js';
 import { loadProjectConfig, mergeWithDefaults } from './config.js';
@@ -20,5 +45,7 @@ export function createConfiguredAnalyzer(rootDir: string = process.cwd()): Proje
     ignore: config.ignore,
     entryPoints: config.entryPoints,
     cache: config.cache,
+    excludeFromUnused: config.excludeFromUnused,
+    rules: config.rules,
   });
 }
@@ -0,0 +1,221 @@
+import * as ts from 'typescript';
+import * as path from 'node:path';
+
+/**
+ * Member-level dead code: public members of exported classes, enums and
+ * interfaces that nothing in the project references.
+ */
+
+export type MemberKind = 'method' | 'property' | 'getter' | 'setter' | 'enum-member';
+
+export interface UnusedMember {
+  /** Exported class, enum or interface that declares the member */
+  container: string;
+  containerKind: 'class' | 'enum' | 'interface';
+  name: string;
+  kind: MemberKind;
+  isStatic: boolean;
+  filePath: string;
+  line: number;
+}
+
+/** Members that runtimes and libraries call implicitly */
+const IMPLICIT_MEMBERS = new Set(['constructor', 'toString', 'toJSON', 'valueOf', 'then']);
+
+/**
+ * Find unused members across the given project files.
+ * Members of entry-point files are never reported: they may be used externally.
+ */
+export function detectUnusedMembers(
+  program: ts.Program,
+  rootDir: string,
+  projectFiles: Set<string>,
+  isEntryPoint: (filePath: string) => boolean
+): UnusedMember[] {
+  const checker = program.getTypeChecker();
+  const sourceFiles = program.getSourceFiles().filter(sf =>
+    !sf.isDeclarationFile && projectFiles.has(path.relative(rootDir, sf.fileName))
+  );
+
+  const candidates = new Map<ts.Symbol, UnusedMember>();
+  const enumMembers = new Map<ts.Symbol, ts.Symbol[]>();
+
+  const baseTypesOf = (owner: ts.ClassLikeDeclaration | ts.InterfaceDeclaration): ts.Type[] =>
+    (owner.heritageClauses || []).flatMap(clause => clause.types.map(t => checker.getTypeAtLocation(t)));
+
+  const addCandidate = (
+    member: ts.ClassElement | ts.TypeElement | ts.EnumMember,
+    container: { name: string; kind: UnusedMember['containerKind'] },
+    kind: MemberKind,
+    isStatic: boolean
+  ) => {
+    if (!member.name || !(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) return;
+    if (IMPLICIT_MEMBERS.has(member.name.text)) return;
+
+    const symbol = checker.getSymbolAtLocation(member.name);
+    if (!symbol || candidates.has(symbol)) return;
+
+    const sourceFile = member.getSourceFile();
+    candidates.set(symbol, {
+      container: container.name,
+      containerKind: container.kind,
+      name: member.name.text,
+      kind,
+      isStatic,
+      filePath: path.relative(rootDir, sourceFile.fileName),
+      line: sourceFile.getLineAndCharacterOfPosition(member.getStart()).line + 1,
+    });
+  };
+
+  // Overrides and implementations are reached through their base type
+  const isInherited = (owner: ts.ClassLikeDeclaration | ts.InterfaceDeclaration, name: string) =>
+    baseTypesOf(owner).some(base => base.getProperty(name));
+
+  const collectClass = (node: ts.ClassDeclaration, name: string) => {
+    for (const member of node.members) {
+      if (!member.name || ts.isPrivateIdentifier(member.name)) continue;
+      const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) || [] : [];
+      if (modifiers.some(m => m.kind === ts.SyntaxKind.PrivateKeyword || m.kind === ts.SyntaxKind.ProtectedKeyword || m.kind === ts.SyntaxKind.OverrideKeyword)) continue;
+      if (ts.canHaveDecorators(member) && ts.getDecorators(member)?.length) continue;
+
+      const isStatic = modifiers.some(m => m.kind === ts.SyntaxKind.StaticKeyword);
+      if (!isStatic && ts.isIdentifier(member.name) && isInherited(node, member.name.text)) continue;
+
+      const kind: MemberKind | undefined = ts.isMethodDeclaration(member) ? 'method'
+        : ts.isPropertyDeclaration(member) ? 'property'
+        : ts.isGetAccessorDeclaration(member) ? 'getter'
+        : ts.isSetAccessorDeclaration(member) ? 'setter'
+        : undefined;
+      if (kind) addCandidate(member, { name, kind: 'class' }, kind, isStatic);
+    }
+  };
+
+  const collectInterface = (node: ts.InterfaceDeclaration, name: string) => {
+    for (const member of node.members) {
+      if (!(ts.isPropertySignature(member) || ts.isMethodSignature(member))) continue;
+      if (member.name && ts.isIdentifier(member.name) && isInherited(node, member.name.text)) continue;
+      addCandidate(member, { name, kind: 'interface' }, ts.isMethodSignature(member) ? 'method' : 'property', false);
+    }
+  };
+
+  const collectEnum = (node: ts.EnumDeclaration, name: string) => {
+    const enumSymbol = checker.getSymbolAtLocation(node.name);
+    const members: ts.Symbol[] = [];
+    for (const member of node.members) {
+      addCandidate(member, { name, kind: 'enum' }, 'enum-member', true);
+      const symbol = checker.getSymbolAtLocation(member.name);
+      if (symbol) members.push(symbol);
+    }
+    if (enumSymbol) enumMembers.set(enumSymbol, [...(enumMembers.get(enumSymbol) || []), ...members]);
+  };
+
+  // Pass 1: collect members of exported declarations
+  for (const sourceFile of sourceFiles) {
+    if (isEntryPoint(path.relative(rootDir, sourceFile.fileName))) continue;
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue;
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+      for (const decl of symbol.declarations || []) {
+        if (decl.getSourceFile() !== sourceFile) continue;
+        if (ts.isClassDeclaration(decl)) collectClass(decl, symbol.name);
+        else if (ts.isInterfaceDeclaration(decl)) collectInterface(decl, symbol.name);
+        else if (ts.isEnumDeclaration(decl)) collectEnum(decl, symbol.name);
+      }
+    }
+  }
+
+  if (candidates.size === 0) return [];
+
+  const candidateNames = new Set(Array.from(candidates.values(), c => c.name));
+  const enumNames = new Set(Array.from(candidates.values()).filter(c => c.containerKind === 'enum').map(c => c.container));
+  const used = new Set<ts.Symbol>();
+  const unresolvedNames = new Set<string>();
+
+  const markUsed = (symbol: ts.Symbol | undefined) => {
+    if (!symbol || used.has(symbol)) return;
+    used.add(symbol);
+
+    // Members reached through instantiated or union types resolve to synthetic symbols
+    for (const root of checker.getRootSymbols(symbol)) {
+      if (root !== symbol) markUsed(root);
+    }
+
+    // A use through a derived type also keeps the member it implements or overrides
+    for (const decl of symbol.declarations || []) {
+      const owner = decl.parent;
+      if (owner && (ts.isClassLike(owner) || ts.isInterfaceDeclaration(owner))) {
+        for (const base of baseTypesOf(owner)) markUsed(base.getProperty(symbol.name));
+      }
+    }
+  };
+
+  const markProperty = (type: ts.Type | undefined, name: string) => {
+    if (!type) return;
+    for (const t of type.isUnion() ? type.types : [type]) markUsed(t.getProperty(name));
+  };
+
+  const isMemberDeclarationName = (node: ts.Node): boolean => {
+    const parent = node.parent;
+    if (!(ts.isClassElement(parent) || ts.isTypeElement(parent) || ts.isEnumMember(parent)) || parent.name !== node) return false;
+    return !ts.isObjectLiteralExpression(parent.parent);
+  };
+
+  // Enums used as values (Object.values(Color), passing Color around) use every member
+  const isWholeEnumUse = (node: ts.Identifier): boolean => {
+    const parent = node.parent;
+    if (ts.isPropertyAccessExpression(parent) && parent.expression === node) return false;
+    if (ts.isElementAccessExpression(parent) && parent.expression === node && ts.isStringLiteralLike(parent.argumentExpression)) return false;
+    if (ts.isQualifiedName(parent) || ts.isTypeReferenceNode(parent) || ts.isEnumDeclaration(parent)) return false;
+    if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent) || ts.isImportClause(parent)) return false;
+    return true;
+  };
+
+  // Pass 2: resolve every reference to a candidate name
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && enumNames.has(node.text) && isWholeEnumUse(node)) {
+      const symbol = checker.getSymbolAtLocation(node);
+      const target = symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+      if (target) enumMembers.get(target)?.forEach(markUsed);
+    }
+
+    const isName = ts.isIdentifier(node) ||
+      (ts.isStringLiteral(node) && ts.isElementAccessExpression(node.parent) && node.parent.argumentExpression === node);
+
+    if (isName && candidateNames.has((node as ts.Identifier | ts.StringLiteral).text) && !isMemberDeclarationName(node)) {
+      const name = (node as ts.Identifier | ts.StringLiteral).text;
+      const parent = node.parent;
+
+      const symbol = checker.getSymbolAtLocation(node);
+      markUsed(symbol);
+
+      // Accesses on untyped values could reach any member with this name
+      if (!symbol && (ts.isPropertyAccessExpression(parent) || ts.isElementAccessExpression(parent))) {
+        unresolvedNames.add(name);
+      }
+
+      // Object literals satisfy the members of their contextual type
+      if ((ts.isPropertyAssignment(parent) || ts.isShorthandPropertyAssignment(parent) || ts.isMethodDeclaration(parent)) &&
+          parent.name === node && ts.isObjectLiteralExpression(parent.parent)) {
+        markProperty(checker.getContextualType(parent.parent), name);
+      }
+
+      // Destructuring reads the member from the destructured type
+      if (ts.isBindingElement(parent) && (parent.propertyName ?? parent.name) === node && ts.isObjectBindingPattern(parent.parent)) {
+        markProperty(checker.getTypeAtLocation(parent.parent), name);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  for (const sourceFile of sourceFiles) {
+    visit(sourceFile);
+  }
+
+  return Array.from(candidates)
+    .filter(([symbol, member]) => !used.has(symbol) && !unresolvedNames.has(member.name))
+    .map(([, member]) => member)
+    .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line);
+}
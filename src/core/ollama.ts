@@ -0,0 +1,42 @@
+import { BaseAIProvider } from './ai-provider.js';
+
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+export const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+
+interface OllamaGenerateResponse {
+  response?: string;
+}
+
+/**
+ * Client for a local Ollama server
+ */
+class OllamaClient extends BaseAIProvider {
+  readonly name = 'ollama' as const;
+  readonly model: string;
+  private readonly baseUrl: string;
+
+  constructor(options: { baseUrl?: string; model?: string } = {}) {
+    super();
+    this.baseUrl = (options.baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+    this.model = options.model || DEFAULT_OLLAMA_MODEL;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, prompt, stream: false }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json() as OllamaGenerateResponse;
+    return data.response ?? '';
+  }
+}
+
+export const createOllamaClient = (options?: { baseUrl?: string; model?: string }): OllamaClient => {
+  return new OllamaClient(options);
+};
@@ -0,0 +1,53 @@
+import { BaseAIProvider } from './ai-provider.js';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+/**
+ * Client for any endpoint speaking the OpenAI chat completions API
+ * (OpenAI itself, Azure-style gateways, vLLM, LiteLLM, internal proxies)
+ */
+class OpenAICompatibleClient extends BaseAIProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(options: { apiKey?: string; baseUrl?: string; model?: string } = {}) {
+    super();
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+}
+
+export const createOpenAIClient = (options?: { apiKey?: string; baseUrl?: string; model?: string }): OpenAICompatibleClient => {
+  return new OpenAICompatibleClient(options);
+};
@@ -0,0 +1,100 @@
+/**
+ * Node's package.json "exports" / "imports" resolution (PACKAGE_EXPORTS_RESOLVE and
+ * PACKAGE_IMPORTS_RESOLVE): exact and wildcard subpath keys, nested conditions,
+ * fallback arrays and null exclusions.
+ */
+
+export type PackageMap = Record<string, unknown>;
+
+export interface PackageMapEntry {
+  /** Subpath ('.', './features/*') or import specifier ('#internal/*') */
+  key: string;
+  /** Every target reachable under some condition, in the order Node tries them */
+  targets: string[];
+}
+
+/**
+ * Bring an `exports` field into subpath-map form: a string, array or
+ * conditions object is sugar for `{ ".": value }`.
+ */
+export function normalizeExports(field: unknown): PackageMap | undefined {
+  if (typeof field === 'string' || Array.isArray(field)) return { '.': field };
+  if (!field || typeof field !== 'object') return undefined;
+  return Object.keys(field).some(key => key.startsWith('.')) ? field as PackageMap : { '.': field };
+}
+
+/** List every key of an exports/imports map with all of its targets */
+export function listPackageMap(map: PackageMap): PackageMapEntry[] {
+  return Object.entries(map).map(([key, value]) => ({ key, targets: resolveTarget(value, undefined) ?? [] }));
+}
+
+/**
+ * Resolve a subpath ('./button') or import specifier ('#internal/db') against a map.
+ *
+ * Without `conditions` every condition counts as active and all candidate targets are
+ * returned; with them, only the branch Node would pick. Returns an empty list when the
+ * request is not exposed or is excluded with `null`.
+ */
+export function resolvePackageMap(map: PackageMap, request: string, conditions?: ReadonlySet<string>): string[] {
+  const match = matchKey(map, request);
+  if (!match) return [];
+  return resolveTarget(map[match.key], match.wildcard, conditions) ?? [];
+}
+
+/** Exact keys win; otherwise the most specific single-`*` pattern */
+function matchKey(map: PackageMap, request: string): { key: string; wildcard?: string } | undefined {
+  if (Object.hasOwn(map, request) && !request.includes('*')) return { key: request };
+
+  let best: { key: string; wildcard: string } | undefined;
+  for (const key of Object.keys(map)) {
+    const star = key.indexOf('*');
+    if (star === -1 || key.indexOf('*', star + 1) !== -1) continue;
+
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (request.startsWith(prefix) && request !== prefix && request.length >= key.length && request.endsWith(suffix)) {
+      if (!best || comparePatternKeys(key, best.key) < 0) {
+        best = { key, wildcard: request.slice(prefix.length, request.length - suffix.length) };
+      }
+    }
+  }
+  return best;
+}
+
+/** PATTERN_KEY_COMPARE: longer prefix first, then longer key */
+function comparePatternKeys(a: string, b: string): number {
+  const aBase = a.indexOf('*');
+  const bBase = b.indexOf('*');
+  if (aBase !== bBase) return bBase - aBase;
+  return b.length - a.length;
+}
+
+/** Targets of one map value; null when the request is explicitly excluded */
+function resolveTarget(value: unknown, wildcard: string | undefined, conditions?: ReadonlySet<string>): string[] | null {
+  if (typeof value === 'string') {
+    return [wildcard === undefined ? value : value.replaceAll('*', wildcard)];
+  }
+
+  if (Array.isArray(value)) {
+    const targets = value.flatMap(item => resolveTarget(item, wildcard, conditions) ?? []);
+    return conditions && targets.length > 0 ? targets.slice(0, 1) : targets;
+  }
+
+  if (value && typeof value === 'object') {
+    const targets: string[] = [];
+    for (const [condition, branch] of Object.entries(value)) {
+      if (conditions && condition !== 'default' && !conditions.has(condition)) continue;
+
+      const resolved = resolveTarget(branch, wildcard, conditions);
+      // Node stops at the first matching condition that resolves, even to an exclusion
+      if (conditions) {
+        if (resolved === null || resolved.length > 0) return resolved;
+        continue;
+      }
+      if (resolved) targets.push(...resolved);
+    }
+    return conditions ? [] : targets;
+  }
+
+  return null;
+}
@@ -0,0 +1,84 @@
+/**
+ * File-level dead code: files no entry point reaches through the import graph.
+ * Files that only import each other stay dead together, so unreachable files
+ * are grouped into clusters that can be deleted as a unit.
+ */
+
+/** Unreachable files connected by imports in either direction */
+export interface DeadCluster {
+  /** Member files, sorted */
+  files: string[];
+  /** Members no other file imports, where deletion would start; empty when the cluster is a cycle */
+  roots: string[];
+  /** Imports between members */
+  edges: number;
+}
+
+export interface Reachability {
+  /** Files reached from the entry points, entry points included */
+  reachable: Set<string>;
+  /** Largest first */
+  clusters: DeadCluster[];
+}
+
+/**
+ * Walk the import graph from the entry points and group every file left
+ * unvisited into weakly connected dead clusters
+ */
+export function analyzeReachability(importGraph: Map<string, Set<string>>, entryPoints: Iterable<string>): Reachability {
+  const reachable = new Set<string>();
+  const queue = [...entryPoints].filter(file => importGraph.has(file));
+  queue.forEach(file => reachable.add(file));
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const imported of importGraph.get(current) || []) {
+      if (!reachable.has(imported) && importGraph.has(imported)) {
+        reachable.add(imported);
+        queue.push(imported);
+      }
+    }
+  }
+
+  // Unreachable files can only be imported by other unreachable files
+  const neighbours = new Map<string, Set<string>>();
+  const importedBy = new Map<string, number>();
+  for (const [file, imports] of importGraph) {
+    if (reachable.has(file)) continue;
+    if (!neighbours.has(file)) neighbours.set(file, new Set());
+    for (const imported of imports) {
+      if (reachable.has(imported) || !importGraph.has(imported) || imported === file) continue;
+      neighbours.get(file)!.add(imported);
+      if (!neighbours.has(imported)) neighbours.set(imported, new Set());
+      neighbours.get(imported)!.add(file);
+      importedBy.set(imported, (importedBy.get(imported) || 0) + 1);
+    }
+  }
+
+  const clusters: DeadCluster[] = [];
+  const visited = new Set<string>();
+  for (const start of [...neighbours.keys()].sort()) {
+    if (visited.has(start)) continue;
+
+    const files: string[] = [];
+    const stack = [start];
+    visited.add(start);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      files.push(current);
+      for (const next of neighbours.get(current)!) {
+        if (!visited.has(next)) {
+          visited.add(next);
+          stack.push(next);
+        }
+      }
+    }
+
+    files.sort();
+    const edges = files.reduce((count, file) => count + (importedBy.get(file) || 0), 0);
+    clusters.push({ files, roots: files.filter(file => !importedBy.has(file)), edges });
+  }
+
+  clusters.sort((a, b) => b.files.length - a.files.length || a.files[0].localeCompare(b.files[0]));
+  return { reachable, clusters };
+}
@@ -0,0 +1,243 @@
+import * as crypto from 'node:crypto';
+import type { ProjectAnalysis, UnusedExport } from './analyzer.js';
+import type { UnusedMember } from './members.js';
+import type { DeadCluster } from './reachability.js';
+import type { RuleViolation } from './rules.js';
+import type { Suppression } from './suppressions.js';
+
+/**
+ * Machine-readable reports for CI: every finding is a Problem with a rule id,
+ * severity and location, rendered as JSON, SARIF 2.1.0 or Code Climate issues.
+ */
+
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'codeclimate';
+export type ProblemSeverity = 'critical' | 'warning' | 'info';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif', 'codeclimate'];
+
+interface RuleDefinition {
+  category: string;
+  description: string;
+  /** Code Climate category the rule reports under */
+  codeClimateCategory: 'Bug Risk' | 'Clarity' | 'Complexity' | 'Duplication';
+}
+
+export const RULES = {
+  'large-file': { category: 'file-size', description: 'File has too many lines', codeClimateCategory: 'Complexity' },
+  'complex-file': { category: 'complexity', description: 'File defines too many functions', codeClimateCategory: 'Complexity' },
+  'unused-export': { category: 'dead-code', description: 'Export is never imported or used', codeClimateCategory: 'Clarity' },
+  'unused-member': { category: 'dead-code', description: 'Class, enum or interface member is never used', codeClimateCategory: 'Clarity' },
+  'unused-file': { category: 'dead-code', description: 'File is not reachable from any entry point', codeClimateCategory: 'Clarity' },
+  'duplicate-function': { category: 'duplication', description: 'Exported function signature is duplicated across files', codeClimateCategory: 'Duplication' },
+  'circular-dependency': { category: 'architecture', description: 'Modules import each other in a cycle', codeClimateCategory: 'Bug Risk' },
+  'low-purity': { category: 'architecture', description: 'Few functions are free of side effects', codeClimateCategory: 'Complexity' },
+  'hub-file': { category: 'architecture', description: 'Too many files depend on this module', codeClimateCategory: 'Complexity' },
+  'architecture-violation': { category: 'architecture', description: 'Import breaks an architecture rule from the project config', codeClimateCategory: 'Bug Risk' },
+  'unused-suppression': { category: 'suppressions', description: 'consuela-ignore comment no longer matches any finding', codeClimateCategory: 'Clarity' },
+} satisfies Record<string, RuleDefinition>;
+
+export type RuleId = keyof typeof RULES;
+
+export interface Problem {
+  rule: RuleId;
+  severity: ProblemSeverity;
+  category: string;
+  file?: string;
+  line?: number;
+  /** What the problem is about within the file (export name, `Class.member`, cycle chain) */
+  symbol?: string;
+  message: string;
+  suggestion?: string;
+}
+
+/**
+ * Pick the output format from `--format` (falling back to `--json`).
+ * Throws for unknown formats.
+ */
+export function parseReportFormat(format: string | undefined, json?: boolean): ReportFormat {
+  if (!format) return json ? 'json' : 'text';
+  if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+    throw new Error(`Unknown format "${format}" (expected ${REPORT_FORMATS.join(', ')})`);
+  }
+  return format as ReportFormat;
+}
+
+export function problemFromUnusedExport(unused: UnusedExport): Problem {
+  return {
+    rule: 'unused-export',
+    severity: 'warning',
+    category: RULES['unused-export'].category,
+    file: unused.export.filePath,
+    line: unused.export.line,
+    symbol: unused.export.name,
+    message: `Unused export: ${unused.export.name}`,
+    suggestion: 'Remove if not needed, or check if it should be an entry point',
+  };
+}
+
+export function problemFromUnusedMember(member: UnusedMember): Problem {
+  return {
+    rule: 'unused-member',
+    severity: 'warning',
+    category: RULES['unused-member'].category,
+    file: member.filePath,
+    line: member.line,
+    symbol: `${member.container}.${member.name}`,
+    message: `Unused ${member.containerKind} member: ${member.container}.${member.name}`,
+    suggestion: 'Remove the member, or run cleanup --members',
+  };
+}
+
+/** Every file of a dead cluster is reported on its own, so baselines survive the cluster growing */
+export function problemFromDeadFile(file: string, cluster: DeadCluster): Problem {
+  const others = cluster.files.length - 1;
+  return {
+    rule: 'unused-file',
+    severity: 'warning',
+    category: RULES['unused-file'].category,
+    file,
+    message: others > 0
+      ? `Unreachable file, dead together with ${others} other file(s) it shares imports with`
+      : 'Unreachable file: no entry point imports it, directly or indirectly',
+    suggestion: 'Delete it, or run cleanup --files',
+  };
+}
+
+/**
+ * A cycle is reported at the import that starts it. Cycles are rotated to start at
+ * their first file in sort order, so the same cycle always reads the same way.
+ */
+export function problemFromCycle(cycle: string[], analysis: ProjectAnalysis): Problem {
+  const start = cycle.indexOf([...cycle].sort()[0]);
+  const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+  const edge = analysis.files.get(rotated[0])?.imports.find(i => i.resolvedPath === rotated[1 % rotated.length]);
+  return {
+    rule: 'circular-dependency',
+    severity: 'critical',
+    category: RULES['circular-dependency'].category,
+    file: rotated[0],
+    line: edge?.line,
+    symbol: rotated.join(' → '),
+    message: `Circular dependency: ${rotated.join(' → ')}`,
+    suggestion: 'Extract shared code to break the cycle',
+  };
+}
+
+/** Files over 300 lines are a warning, over 500 critical */
+export function problemFromLargeFile(file: string, lines: number): Problem {
+  const critical = lines > 500;
+  return {
+    rule: 'large-file',
+    severity: critical ? 'critical' : 'warning',
+    category: RULES['large-file'].category,
+    file,
+    message: critical ? `${lines} lines (recommended: <200)` : `${lines} lines (getting large)`,
+    suggestion: critical ? 'Split into smaller, focused modules' : 'Consider extracting some functions',
+  };
+}
+
+/** Keyed by rule and imported file, so a baseline survives the import moving within the file */
+export function problemFromRuleViolation(violation: RuleViolation): Problem {
+  return {
+    rule: 'architecture-violation',
+    severity: violation.severity,
+    category: RULES['architecture-violation'].category,
+    file: violation.file,
+    line: violation.line,
+    symbol: `${violation.rule}: ${violation.target}`,
+    message: `Forbidden import of ${violation.target} (${violation.rule})`,
+    suggestion: violation.message ?? 'Depend on an allowed module instead, or revisit the rule',
+  };
+}
+
+export function problemFromUnusedSuppression(suppression: Suppression): Problem {
+  return {
+    rule: 'unused-suppression',
+    severity: 'info',
+    category: RULES['unused-suppression'].category,
+    file: suppression.file,
+    line: suppression.line,
+    symbol: suppression.text,
+    message: `Unused suppression: ${suppression.text}`,
+    suggestion: 'Remove the comment, nothing it covers is reported anymore',
+  };
+}
+
+/**
+ * Render problems in a CI format. Text and JSON output stay with each command,
+ * since their shapes differ per command.
+ */
+export function renderReport(format: 'sarif' | 'codeclimate', problems: Problem[]): string {
+  const report = format === 'sarif' ? toSarif(problems) : toCodeClimate(problems);
+  return JSON.stringify(report, null, 2);
+}
+
+const SARIF_LEVELS: Record<ProblemSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/** SARIF 2.1.0 log, as consumed by GitHub code scanning */
+export function toSarif(problems: Problem[]) {
+  const ruleIds = Object.keys(RULES) as RuleId[];
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'consuela',
+          informationUri: 'https://github.com/TeoSlayer/consuela',
+          rules: ruleIds.map(id => ({
+            id,
+            shortDescription: { text: RULES[id].description },
+            properties: { category: RULES[id].category },
+          })),
+        },
+      },
+      results: problems.map(problem => ({
+        ruleId: problem.rule,
+        ruleIndex: ruleIds.indexOf(problem.rule),
+        level: SARIF_LEVELS[problem.severity],
+        message: { text: problem.suggestion ? `${problem.message}. ${problem.suggestion}` : problem.message },
+        locations: problem.file ? [{
+          physicalLocation: {
+            artifactLocation: { uri: problem.file.replace(/\\/g, '/'), uriBaseId: '%SRCROOT%' },
+            region: { startLine: problem.line ?? 1 },
+          },
+        }] : [],
+        partialFingerprints: { primaryLocationLineHash: fingerprint(problem) },
+      })),
+    }],
+  };
+}
+
+const CODE_CLIMATE_SEVERITIES: Record<ProblemSeverity, 'critical' | 'minor' | 'info'> = {
+  critical: 'critical',
+  warning: 'minor',
+  info: 'info',
+};
+
+/** Code Climate issues, as consumed by the GitLab code quality widget */
+export function toCodeClimate(problems: Problem[]) {
+  return problems.map(problem => ({
+    type: 'issue',
+    check_name: problem.rule,
+    description: problem.message,
+    ...(problem.suggestion && { content: { body: problem.suggestion } }),
+    categories: [RULES[problem.rule].codeClimateCategory],
+    severity: CODE_CLIMATE_SEVERITIES[problem.severity],
+    location: {
+      path: problem.file?.replace(/\\/g, '/') ?? '.',
+      lines: { begin: problem.line ?? 1 },
+    },
+    fingerprint: fingerprint(problem),
+  }));
+}
+
+/** Stable across line shifts and message changes: rule, file and symbol only */
+function fingerprint(problem: Problem): string {
+  return crypto.createHash('md5').update(`${problem.rule}:${problem.file ?? ''}:${problem.symbol ?? ''}`).digest('hex');
+}
@@ -0,0 +1,102 @@
+import type { ProjectAnalysis } from './analyzer.js';
+import { globToRegExp } from './suppressions.js';
+
+/**
+ * Architecture rules from the project config. An import from a file matching
+ * `from` into a file matching `to` is a violation, unless the imported file
+ * matches `allow`:
+ *
+ *   { "from": "src/domain/**", "to": "src/infra/**" }
+ *   { "from": "src/ui", "to": "src/api", "allow": "src/api/index.ts" }
+ */
+
+export interface ArchitectureRule {
+  /** Shown in reports, defaults to `from → to` */
+  name?: string;
+  from: string | string[];
+  to: string | string[];
+  /** Files under `to` that may still be imported, such as a public index */
+  allow?: string | string[];
+  /** Why the rule exists, shown with each violation */
+  message?: string;
+  severity?: 'critical' | 'warning';
+}
+
+export interface RuleViolation {
+  rule: string;
+  file: string;
+  line: number;
+  /** Specifier as written in the import */
+  source: string;
+  /** Root-relative file the import resolves to */
+  target: string;
+  severity: 'critical' | 'warning';
+  message?: string;
+}
+
+/**
+ * Check every edge of the import graph against the rules, reporting each
+ * violating import statement once per rule. Throws for malformed rules.
+ */
+export function checkArchitectureRules(analysis: ProjectAnalysis, rules: ArchitectureRule[]): RuleViolation[] {
+  const compiled = rules.map((rule, index) => {
+    if (!rule.from || !rule.to) {
+      throw new Error(`Architecture rule ${index + 1} needs "from" and "to" globs`);
+    }
+    const from = toArray(rule.from);
+    const to = toArray(rule.to);
+    return {
+      name: rule.name ?? `${from.join(', ')} → ${to.join(', ')}`,
+      from: createMatcher(from),
+      to: createMatcher(to),
+      allow: createMatcher(toArray(rule.allow)),
+      severity: rule.severity ?? 'critical',
+      message: rule.message,
+    };
+  });
+  if (compiled.length === 0) return [];
+
+  const violations: RuleViolation[] = [];
+  for (const [file, targets] of analysis.importGraph) {
+    const rulesForFile = compiled.filter(rule => rule.from(file));
+    if (rulesForFile.length === 0) continue;
+
+    const imports = analysis.files.get(file)?.imports || [];
+    for (const target of targets) {
+      for (const rule of rulesForFile) {
+        if (!rule.to(target) || rule.allow(target)) continue;
+
+        // One import statement yields an ImportInfo per name; report the statement once
+        const lines = new Set<number>();
+        for (const imp of imports) {
+          if (imp.resolvedPath !== target || lines.has(imp.line)) continue;
+          lines.add(imp.line);
+          violations.push({
+            rule: rule.name,
+            file,
+            line: imp.line,
+            source: imp.source,
+            target,
+            severity: rule.severity,
+            ...(rule.message && { message: rule.message }),
+          });
+        }
+      }
+    }
+  }
+
+  return violations.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+function toArray(patterns: string | string[] | undefined): string[] {
+  if (!patterns) return [];
+  return Array.isArray(patterns) ? patterns : [patterns];
+}
+
+function createMatcher(patterns: string[]): (file: string) => boolean {
+  const regexps = patterns.map(globToRegExp);
+  return file => {
+    const normalized = file.replace(/\\/g, '/');
+    return regexps.some(r => r.test(normalized));
+  };
+}
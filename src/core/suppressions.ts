@@ -0,0 +1,166 @@
+import { RULES, type RuleId } from './reporter.js';
+
+/**
+ * Inline suppression comments. `consuela-ignore` covers the line it trails, or
+ * the next line of code when it stands alone; `consuela-ignore-next-line`
+ * covers the line below and `consuela-ignore-file` the whole file.
+ *
+ * Kinds name a rule (`unused-export`), a rule category (`dead-code`) or a rule
+ * prefix (`unused`, `circular`). Without kinds every rule is suppressed.
+ * Anything after `--` is a free-form reason.
+ */
+
+export type SuppressionScope = 'line' | 'next-line' | 'file';
+
+export interface Suppression {
+  file: string;
+  /** Line of the comment itself */
+  line: number;
+  /** Line the suppression applies to (unset for file scope) */
+  targetLine?: number;
+  scope: SuppressionScope;
+  kinds: string[];
+  /** The directive without its reason, e.g. `consuela-ignore-next-line circular` */
+  text: string;
+  /** Set once the suppression has hidden a finding */
+  used: boolean;
+}
+
+/** Suppressions by file, for files that have any */
+export type SuppressionMap = Map<string, Suppression[]>;
+
+const DIRECTIVE = /(\/\/|\/\*|#)\s*consuela-ignore(-next-line|-file)?(?![\w-])([^\n]*)/;
+
+export function parseSuppressions(file: string, content: string): Suppression[] {
+  if (!content.includes('consuela-ignore')) return [];
+
+  const lines = content.split('\n');
+  const hashComments = file.endsWith('.py');
+  const suppressions: Suppression[] = [];
+
+  lines.forEach((text, index) => {
+    const match = text.match(DIRECTIVE);
+    if (!match || (match[1] === '#' && !hashComments)) return;
+
+    const [, , suffix = '', rest] = match;
+    const kinds = rest
+      .replace(/\*\/.*$/, '')
+      .split('--')[0]
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    const line = index + 1;
+    const standalone = text.slice(0, match.index).trim() === '';
+    const base = { file, line, kinds, text: [`consuela-ignore${suffix}`, ...kinds].join(' '), used: false };
+
+    if (suffix === '-file') {
+      suppressions.push({ ...base, scope: 'file' });
+    } else if (suffix === '-next-line') {
+      suppressions.push({ ...base, scope: 'next-line', targetLine: line + 1 });
+    } else if (standalone) {
+      // On a line of its own it covers the next line of code, skipping doc comments
+      suppressions.push({ ...base, scope: 'line', targetLine: findNextCodeLine(lines, index + 1) });
+    } else {
+      suppressions.push({ ...base, scope: 'line', targetLine: line });
+    }
+  });
+
+  return suppressions;
+}
+
+function findNextCodeLine(lines: string[], start: number): number {
+  let inBlockComment = false;
+  for (let i = start; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (inBlockComment) {
+      if (trimmed.includes('*/')) inBlockComment = false;
+      continue;
+    }
+    if (trimmed === '' || trimmed.startsWith('//') || trimmed.startsWith('#')) continue;
+    if (trimmed.startsWith('/*')) {
+      inBlockComment = !trimmed.includes('*/');
+      continue;
+    }
+    return i + 1;
+  }
+  return start + 1;
+}
+
+function coversRule(suppression: Suppression, rule: RuleId): boolean {
+  if (suppression.kinds.length === 0) return true;
+  return suppression.kinds.some(kind => kind === rule || kind === RULES[rule].category || rule.startsWith(`${kind}-`));
+}
+
+/**
+ * Whether a finding for `rule` at `file:line` is suppressed. Findings without a
+ * line can only be suppressed file-wide. Matching suppressions are marked used.
+ */
+export function isSuppressed(suppressions: SuppressionMap, rule: RuleId, file: string | undefined, line?: number): boolean {
+  if (!file) return false;
+
+  let suppressed = false;
+  for (const suppression of suppressions.get(file) || []) {
+    const applies = suppression.scope === 'file' || (line !== undefined && suppression.targetLine === line);
+    if (applies && coversRule(suppression, rule)) {
+      suppression.used = true;
+      suppressed = true;
+    }
+  }
+  return suppressed;
+}
+
+/** A cycle is suppressed when any of its imports is, or any of its files is file-wide */
+export function isCycleSuppressed(
+  suppressions: SuppressionMap,
+  cycle: string[],
+  files: Map<string, { imports: Array<{ resolvedPath?: string; line: number }> }>
+): boolean {
+  return cycle.some((file, i) => {
+    const next = cycle[(i + 1) % cycle.length];
+    const edges = files.get(file)?.imports.filter(imp => imp.resolvedPath === next) || [];
+    if (edges.length === 0) return isSuppressed(suppressions, 'circular-dependency', file);
+    return edges.some(imp => isSuppressed(suppressions, 'circular-dependency', file, imp.line));
+  });
+}
+
+/** Suppressions that hid nothing in the checks run so far */
+export function findUnusedSuppressions(suppressions: SuppressionMap): Suppression[] {
+  return Array.from(suppressions.values()).flat().filter(s => !s.used);
+}
+
+/**
+ * Matcher for `excludeFromUnused` config entries: `src/generated/**` excludes
+ * files, `src/api.ts:handler` (or `src/api/*.ts:*`) excludes specific exports.
+ */
+export function createExclusionMatcher(patterns: string[]): (filePath: string, name: string) => boolean {
+  const matchers = patterns.map(pattern => {
+    const separator = pattern.lastIndexOf(':');
+    const filePattern = separator > 0 ? pattern.slice(0, separator) : pattern;
+    const namePattern = separator > 0 ? pattern.slice(separator + 1) : '*';
+    return { file: globToRegExp(filePattern), name: globToRegExp(namePattern) };
+  });
+
+  return (filePath, name) => {
+    const normalized = filePath.replace(/\\/g, '/');
+    return matchers.some(m => m.file.test(normalized) && m.name.test(name));
+  };
+}
+
+/** `**` spans directories, `*` and `?` stay within one; a bare directory matches everything below it */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+  let source = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      source += normalized[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += normalized[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
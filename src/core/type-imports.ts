@@ -0,0 +1,185 @@
+import * as ts from 'typescript';
+import * as path from 'node:path';
+
+/**
+ * Imports and re-exports that only carry types: bindings the checker sees
+ * used in type positions alone, and re-exported names with no value meaning.
+ * They can become `import type` / `export type` and drop a runtime edge.
+ */
+
+export interface TypeOnlyImport {
+  filePath: string;
+  line: number;
+  /** Start offset of the import or export declaration */
+  start: number;
+  kind: 'import' | 'export';
+  /** Module specifier as written; empty for `export { }` lists without one */
+  source: string;
+  /** Local names for imports, exported names for re-exports, '*' for `export *` */
+  names: string[];
+  /** Every binding of the declaration is type-only afterwards */
+  whole: boolean;
+}
+
+interface Usage {
+  types: number;
+  values: number;
+}
+
+/**
+ * Find type-only imports and re-exports in the given project files.
+ * JavaScript and declaration files are skipped: `import type` is TypeScript syntax.
+ */
+export function detectTypeOnlyImports(
+  program: ts.Program,
+  rootDir: string,
+  projectFiles: Set<string>
+): TypeOnlyImport[] {
+  const checker = program.getTypeChecker();
+  // Decorator metadata emits constructor parameter types as values
+  const decoratorMetadata = !!program.getCompilerOptions().emitDecoratorMetadata;
+  const found: TypeOnlyImport[] = [];
+
+  const hasValueMeaning = (symbol: ts.Symbol): boolean => {
+    const target = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+    return (target.flags & ts.SymbolFlags.Value) !== 0;
+  };
+
+  for (const sourceFile of program.getSourceFiles()) {
+    const filePath = path.relative(rootDir, sourceFile.fileName);
+    if (sourceFile.isDeclarationFile || !projectFiles.has(filePath) || !/\.[cm]?tsx?$/.test(filePath)) continue;
+
+    const usages = collectUsages(sourceFile, checker, hasValueMeaning);
+    const skipImports = decoratorMetadata && hasDecorators(sourceFile);
+    const add = (statement: ts.Statement, kind: TypeOnlyImport['kind'], names: string[], whole: boolean) => {
+      const moduleSpecifier = (statement as ts.ImportDeclaration | ts.ExportDeclaration).moduleSpecifier;
+      found.push({
+        filePath,
+        line: sourceFile.getLineAndCharacterOfPosition(statement.getStart()).line + 1,
+        start: statement.getStart(),
+        kind,
+        source: moduleSpecifier && ts.isStringLiteral(moduleSpecifier) ? moduleSpecifier.text : '',
+        names,
+        whole,
+      });
+    };
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) {
+        const clause = statement.importClause;
+        if (skipImports || !clause || clause.isTypeOnly || !checker.getSymbolAtLocation(statement.moduleSpecifier)) continue;
+
+        const bindings: Array<{ name: ts.Identifier; typeOnly: boolean }> = [];
+        if (clause.name) bindings.push({ name: clause.name, typeOnly: false });
+        if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+          bindings.push({ name: clause.namedBindings.name, typeOnly: false });
+        } else if (clause.namedBindings) {
+          bindings.push(...clause.namedBindings.elements.map(element => ({ name: element.name, typeOnly: element.isTypeOnly })));
+        }
+
+        // Unused bindings are left for cleanup: converting them would hide them
+        const names = bindings
+          .filter(binding => !binding.typeOnly)
+          .filter(binding => {
+            const symbol = checker.getSymbolAtLocation(binding.name);
+            const usage = symbol && usages.get(symbol);
+            return !!usage && usage.types > 0 && usage.values === 0;
+          })
+          .map(binding => binding.name.text);
+        if (names.length === 0) continue;
+        add(statement, 'import', names, bindings.every(binding => binding.typeOnly || names.includes(binding.name.text)));
+      } else if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+        const clause = statement.exportClause;
+        if (clause && ts.isNamedExports(clause)) {
+          const names = clause.elements
+            .filter(element => !element.isTypeOnly)
+            .filter(element => {
+              // Local `export { }` lists only matter for names they take from an import
+              const symbol = checker.getExportSpecifierLocalTargetSymbol(element);
+              return !!symbol && !hasValueMeaning(symbol) && (!!statement.moduleSpecifier || isImported(symbol));
+            })
+            .map(element => element.name.text);
+          if (names.length === 0) continue;
+          add(statement, 'export', names, clause.elements.every(element => element.isTypeOnly || names.includes(element.name.text)));
+        } else if (statement.moduleSpecifier) {
+          // `export *` and `export * as ns` of a module that only exports types
+          const moduleSymbol = checker.getSymbolAtLocation(statement.moduleSpecifier);
+          const exports = moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : [];
+          if (exports.length > 0 && !exports.some(hasValueMeaning)) {
+            add(statement, 'export', [clause ? clause.name.text : '*'], true);
+          }
+        }
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Count how each import binding of the file is used. `export { x }` counts
+ * as a type use when `x` has no value meaning, since it becomes `export type`.
+ */
+function collectUsages(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+  hasValueMeaning: (symbol: ts.Symbol) => boolean
+): Map<ts.Symbol, Usage> {
+  const usages = new Map<ts.Symbol, Usage>();
+  const record = (symbol: ts.Symbol | undefined, isType: boolean) => {
+    if (!symbol || !isImported(symbol)) return;
+    const usage = usages.get(symbol) ?? { types: 0, values: 0 };
+    if (isType) usage.types++;
+    else usage.values++;
+    usages.set(symbol, usage);
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) return;
+    if (ts.isExportDeclaration(node)) {
+      if (node.moduleSpecifier || !node.exportClause || !ts.isNamedExports(node.exportClause)) return;
+      for (const element of node.exportClause.elements) {
+        const local = checker.getExportSpecifierLocalTargetSymbol(element);
+        record(local, node.isTypeOnly || element.isTypeOnly || (!!local && !hasValueMeaning(local)));
+      }
+      return;
+    }
+
+    if (ts.isShorthandPropertyAssignment(node)) {
+      record(checker.getShorthandAssignmentValueSymbol(node), false);
+    } else if (ts.isIdentifier(node)) {
+      record(checker.getSymbolAtLocation(node), isTypePosition(node));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return usages;
+}
+
+/** A binding an import declaration of the file introduces */
+function isImported(symbol: ts.Symbol): boolean {
+  return (symbol.flags & ts.SymbolFlags.Alias) !== 0 && !!symbol.declarations?.some(declaration =>
+    ts.isImportSpecifier(declaration) || ts.isImportClause(declaration) || ts.isNamespaceImport(declaration)
+  );
+}
+
+/** Inside a type annotation, `typeof` query, `implements` clause or interface `extends` */
+function isTypePosition(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isExpressionWithTypeArguments(current)) {
+      // Class `extends` and instantiation expressions (`f<T>`) are values
+      const heritage = current.parent;
+      return ts.isHeritageClause(heritage) &&
+        (heritage.token === ts.SyntaxKind.ImplementsKeyword || ts.isInterfaceDeclaration(heritage.parent));
+    }
+    if (ts.isTypeNode(current)) return true;
+    // Computed keys name values even inside type literals
+    if (ts.isComputedPropertyName(current) || ts.isStatement(current) || ts.isSourceFile(current)) return false;
+  }
+  return false;
+}
+
+function hasDecorators(sourceFile: ts.SourceFile): boolean {
+  const visit = (node: ts.Node): boolean => ts.isDecorator(node) || !!ts.forEachChild(node, visit);
+  return visit(sourceFile);
+}
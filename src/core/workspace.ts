@@ -0,0 +1,311 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { globSync } from 'glob';
+import { listPackageMap, normalizeExports, resolvePackageMap, type PackageMap } from './package-exports.js';
+
+/**
+ * Workspace/monorepo discovery: npm and yarn `workspaces`, `pnpm-workspace.yaml`
+ * and TypeScript project `references`. Packages are mapped back to their source
+ * files so cross-package imports resolve like relative ones.
+ */
+
+export interface WorkspacePackage {
+  name: string;
+  /** Package directory relative to the workspace root */
+  dir: string;
+  /** Public subpaths ('.', './button') mapped to the source file behind them; wildcard subpaths are expanded */
+  exports: Record<string, string>;
+  /** Private `#` specifiers from the `imports` field mapped to source files */
+  imports: Record<string, string>;
+  /** Whether package.json has an `exports` field, which hides every subpath it does not list */
+  encapsulated: boolean;
+  /** Source files behind main, exports and bin, relative to the workspace root */
+  entryPoints: string[];
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.js', '.jsx', '.mjs'];
+const BUILD_DIRS = ['dist', 'build', 'lib', 'out', 'esm', 'cjs'];
+
+/**
+ * Find all workspace packages below rootDir. Returns an empty list for single-package projects.
+ */
+export function discoverWorkspacePackages(rootDir: string): WorkspacePackage[] {
+  const patterns = [...readPackageJsonWorkspaces(rootDir), ...readPnpmWorkspaces(rootDir)];
+  const include = patterns.filter(p => !p.startsWith('!'));
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => `${p.slice(1).replace(/\/$/, '')}/package.json`);
+
+  const dirs = new Set<string>();
+  for (const pattern of include) {
+    const manifests = globSync(`${pattern.replace(/\/$/, '')}/package.json`, {
+      cwd: rootDir,
+      ignore: ['**/node_modules/**', ...exclude],
+    });
+    manifests.forEach(m => dirs.add(path.dirname(m)));
+  }
+
+  for (const dir of readTsReferences(rootDir)) {
+    dirs.add(dir);
+  }
+
+  return Array.from(dirs)
+    .filter(dir => dir !== '.' && dir !== '')
+    .sort()
+    .map(dir => readWorkspacePackage(rootDir, dir.replace(/\\/g, '/')));
+}
+
+/**
+ * Package that contains a file (deepest package directory wins for nested packages)
+ */
+export function findPackageOf(packages: WorkspacePackage[], filePath: string): WorkspacePackage | undefined {
+  const normalized = filePath.replace(/\\/g, '/');
+  let match: WorkspacePackage | undefined;
+  for (const pkg of packages) {
+    if (normalized.startsWith(pkg.dir + '/') && (!match || pkg.dir.length > match.dir.length)) {
+      match = pkg;
+    }
+  }
+  return match;
+}
+
+/**
+ * Split a bare specifier (`@acme/ui/button`) into the workspace package and the subpath ('./button')
+ */
+export function matchWorkspaceSpecifier(
+  packages: WorkspacePackage[],
+  specifier: string
+): { pkg: WorkspacePackage; subpath: string } | undefined {
+  for (const pkg of packages) {
+    if (specifier === pkg.name) return { pkg, subpath: '.' };
+    if (specifier.startsWith(pkg.name + '/')) return { pkg, subpath: `./${specifier.slice(pkg.name.length + 1)}` };
+  }
+  return undefined;
+}
+
+function readPackageJsonWorkspaces(rootDir: string): string[] {
+  const pkg = readJson(path.join(rootDir, 'package.json'));
+  const workspaces = isObject(pkg) ? pkg.workspaces : undefined;
+  // Yarn also accepts `{ packages: [...] }`
+  const patterns = isObject(workspaces) ? workspaces.packages : workspaces;
+  return Array.isArray(patterns) ? patterns.filter((p): p is string => typeof p === 'string') : [];
+}
+
+/** Minimal reader for the `packages:` list of pnpm-workspace.yaml */
+function readPnpmWorkspaces(rootDir: string): string[] {
+  const yamlPath = path.join(rootDir, 'pnpm-workspace.yaml');
+  if (!fs.existsSync(yamlPath)) return [];
+
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of fs.readFileSync(yamlPath, 'utf-8').split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) continue;
+    if (/^\S/.test(line)) break;
+
+    const item = /^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/.exec(line);
+    if (item) patterns.push(item[1]);
+  }
+  return patterns;
+}
+
+function readTsReferences(rootDir: string): string[] {
+  const configPath = path.join(rootDir, 'tsconfig.json');
+  if (!fs.existsSync(configPath)) return [];
+
+  const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+  const references: Array<{ path: string }> = config?.references || [];
+  return references.map(ref => {
+    const target = path.resolve(rootDir, ref.path);
+    const dir = target.endsWith('.json') ? path.dirname(target) : target;
+    return path.relative(rootDir, dir);
+  });
+}
+
+/**
+ * Read one package's manifest, mapping its exports, imports, main and bin back to source.
+ * `dir` is relative to rootDir ('.' for the root package).
+ */
+export function readWorkspacePackage(rootDir: string, dir: string): WorkspacePackage {
+  const manifest = readJson(path.join(rootDir, dir, 'package.json'));
+  const pkg = isObject(manifest) ? manifest : {};
+  const sourceDir = readSourceDir(rootDir, dir);
+  const toSource = (entry: string) => findSourceFile(rootDir, dir, entry, sourceDir);
+
+  const exportsMap = normalizeExports(pkg.exports);
+  const expanded = exportsMap ? expandPackageMap(exportsMap, rootDir, dir, sourceDir) : { resolved: {}, files: new Set<string>() };
+  const exports = expanded.resolved;
+  const imports = isObject(pkg.imports) ? expandPackageMap(pkg.imports, rootDir, dir, sourceDir).resolved : {};
+
+  // `main` only applies when there is no exports field
+  if (!exportsMap) {
+    const main = [pkg.source, pkg.module, pkg.main, 'src/index', 'index']
+      .filter((e): e is string => typeof e === 'string')
+      .map(toSource)
+      .find(Boolean);
+    if (main) exports['.'] = main;
+  }
+
+  const bins = typeof pkg.bin === 'string'
+    ? [pkg.bin]
+    : Object.values(isObject(pkg.bin) ? pkg.bin : {}).filter((b): b is string => typeof b === 'string');
+  // Targets of every condition are public, not just the one resolution picks
+  const entryPoints = new Set([...Object.values(exports), ...expanded.files]);
+  for (const bin of bins) {
+    const source = toSource(bin);
+    if (source) entryPoints.add(source);
+  }
+
+  return {
+    name: typeof pkg.name === 'string' ? pkg.name : dir,
+    dir,
+    exports,
+    imports,
+    encapsulated: !!exportsMap,
+    entryPoints: Array.from(entryPoints),
+  };
+}
+
+/**
+ * Map every key of an exports/imports map to a source file. Wildcard keys are
+ * expanded against the files their targets match, so `./features/*` yields one
+ * entry per feature module. `files` holds the sources behind every condition.
+ */
+function expandPackageMap(
+  map: PackageMap,
+  rootDir: string,
+  dir: string,
+  sourceDir: { outDir?: string; rootDir: string }
+): { resolved: Record<string, string>; files: Set<string> } {
+  const resolved: Record<string, string> = {};
+  const files = new Set<string>();
+
+  for (const { key, targets } of listPackageMap(map)) {
+    // Bare targets in `imports` point at dependencies, not package files
+    const fileTargets = targets.filter(t => t.startsWith('./'));
+
+    if (!key.includes('*')) {
+      const sources = fileTargets
+        .map(t => findSourceFile(rootDir, dir, t, sourceDir))
+        .filter((f): f is string => !!f);
+      if (sources.length > 0) resolved[key] = sources[0];
+      sources.forEach(f => files.add(f));
+      continue;
+    }
+
+    for (const target of fileTargets) {
+      for (const { wildcard, file } of expandPatternTarget(rootDir, dir, target, sourceDir)) {
+        const request = key.replace('*', wildcard);
+        // A more specific key, or a null exclusion, may own this request
+        if (resolved[request] || !resolvePackageMap(map, request).includes(target.replaceAll('*', wildcard))) continue;
+        resolved[request] = file;
+        files.add(file);
+      }
+    }
+  }
+  return { resolved, files };
+}
+
+/**
+ * Files matched by a wildcard target (`./dist/features/*.js`), looked up in the
+ * source tree first. Returns the `*` substitution that reaches each file.
+ */
+function expandPatternTarget(
+  rootDir: string,
+  dir: string,
+  target: string,
+  sourceDir: { outDir?: string; rootDir: string }
+): Array<{ wildcard: string; file: string }> {
+  const rel = target.replace(/^\.\//, '');
+  const buildDir = [sourceDir.outDir, ...BUILD_DIRS].find(d => d && (rel === d || rel.startsWith(d + '/')));
+  const candidates = buildDir ? [sourceDir.rootDir + rel.slice(buildDir.length), rel] : [rel];
+  const pkgDir = path.join(rootDir, dir);
+
+  const matches: Array<{ wildcard: string; file: string }> = [];
+  for (const candidate of candidates) {
+    const star = candidate.indexOf('*');
+    const prefix = candidate.slice(0, star);
+    const suffix = candidate.slice(star + 1);
+    const suffixBase = suffix.replace(/\.(d\.ts|[cm]?jsx?|[cm]?tsx?)$/, '');
+    const searchDir = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+    if (!fs.existsSync(path.join(pkgDir, searchDir))) continue;
+
+    const files = globSync(`${searchDir}**/*`, {
+      cwd: pkgDir,
+      nodir: true,
+      posix: true,
+      ignore: ['**/node_modules/**', '**/*.d.ts'],
+    });
+
+    for (const file of files.sort()) {
+      if (!file.startsWith(prefix)) continue;
+      const rest = file.slice(prefix.length);
+
+      let wildcard: string | undefined;
+      if (suffix !== suffixBase) {
+        // `*.js` in the target also matches the .ts source it is built from
+        const ext = SOURCE_EXTENSIONS.find(e => rest.endsWith(suffixBase + e));
+        if (ext) wildcard = rest.slice(0, rest.length - suffixBase.length - ext.length);
+      } else if (rest.endsWith(suffix) && SOURCE_EXTENSIONS.some(e => rest.endsWith(e))) {
+        wildcard = rest.slice(0, rest.length - suffix.length);
+        // Requests for built files name the emitted extension
+        if (candidate !== rel) wildcard = wildcard.replace(/\.([cm]?)tsx?$/, '.$1js');
+      }
+
+      if (wildcard) {
+        matches.push({ wildcard, file: path.relative(rootDir, path.join(pkgDir, file)).replace(/\\/g, '/') });
+      }
+    }
+  }
+  return matches;
+}
+
+/** The package's source root, from its tsconfig `rootDir` (defaults to src) */
+function readSourceDir(rootDir: string, dir: string): { outDir?: string; rootDir: string } {
+  const configPath = path.join(rootDir, dir, 'tsconfig.json');
+  const options = fs.existsSync(configPath) ? ts.readConfigFile(configPath, ts.sys.readFile).config?.compilerOptions : undefined;
+  const clean = (p?: string) => p?.replace(/^\.\//, '').replace(/\/$/, '');
+  return { outDir: clean(options?.outDir), rootDir: clean(options?.rootDir) || 'src' };
+}
+
+/**
+ * Map a published entry (`./dist/index.js`) back to the source file that builds it
+ */
+function findSourceFile(
+  rootDir: string,
+  dir: string,
+  entry: string,
+  sourceDir: { outDir?: string; rootDir: string }
+): string | undefined {
+  const rel = entry.replace(/^\.\//, '');
+  const buildDir = [sourceDir.outDir, ...BUILD_DIRS].find(d => d && (rel === d || rel.startsWith(d + '/')));
+  // Prefer the source file over build output, which may be stale or missing
+  const candidates = buildDir ? [sourceDir.rootDir + rel.slice(buildDir.length), rel] : [rel];
+
+  for (const candidate of candidates) {
+    const base = candidate.replace(/\.(d\.ts|[cm]?jsx?|[cm]?tsx?)$/, '');
+    for (const file of [candidate, ...SOURCE_EXTENSIONS.map(ext => base + ext), ...SOURCE_EXTENSIONS.map(ext => `${base}/index${ext}`)]) {
+      if (!SOURCE_EXTENSIONS.some(ext => file.endsWith(ext))) continue;
+      const absolute = path.join(rootDir, dir, file);
+      if (fs.existsSync(absolute) && fs.statSync(absolute).isFile()) {
+        return path.relative(rootDir, absolute).replace(/\\/g, '/');
+      }
+    }
+  }
+  return undefined;
+}
+
+function readJson(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
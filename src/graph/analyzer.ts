@@ -22,8 +22,9 @@ import {
   serializeGraph,
   deserializeGraph,
 } from './extractor.js';
-import { createGeminiClient, type SemanticAnalysisResult } from '../core/gemini.js';
-import { hasGlobalApiKey, getGlobalApiKey } from '../commands/config.js';
+import { createAIProvider } from '../core/ai.js';
+import type { SemanticAnalysisResult } from '../core/ai-provider.js';
+import { hasGlobalAIProvider, getGlobalAIConfig } from '../commands/config.js';
 
 const GRAPH_VERSION = '1.0.0';
 const GRAPH_FILE = 'graph.json';
@@ -34,11 +35,19 @@ export interface GraphAnalyzerConfig {
   options?: GraphExtractionOptions;
 }
 
+/** A file's content and the functions extracted from it */
+interface FileSource {
+  content: string;
+  functions: FunctionNode[];
+}
+
 export class GraphAnalyzer {
   private readonly rootDir: string;
   private readonly exclude: string[];
   private readonly options: GraphExtractionOptions;
   private readonly extractors: Map<string, FunctionExtractor> = new Map();
+  /** Sources behind the last graph, which updateGraph() builds on */
+  private lastSources: Map<string, FileSource> | null = null;
 
   constructor(config: GraphAnalyzerConfig) {
     this.rootDir = config.rootDir;
@@ -63,31 +72,53 @@ export class GraphAnalyzer {
    */
   async buildGraph(): Promise<FunctionGraph> {
     const files = await this.getFiles();
+    return this.assembleGraph(files, new Set(files));
+  }
+
+  /**
+   * Rebuild the last graph after `changedFiles` changed. Functions are extracted
+   * again only from those files; purity and call edges reach across files, so
+   * they are recomputed from the cached contents of the rest.
+   */
+  async updateGraph(changedFiles: string[]): Promise<FunctionGraph> {
+    if (!this.lastSources) return this.buildGraph();
+
+    const files = await this.getFiles();
+    const changed = new Set(changedFiles.map(f => path.relative(this.rootDir, path.resolve(this.rootDir, f))));
+    return this.assembleGraph(files, new Set(files.filter(f => changed.has(f) || !this.lastSources!.has(f))));
+  }
+
+  private assembleGraph(files: string[], extract: Set<string>): FunctionGraph {
+    const sources = new Map<string, FileSource>();
     const allFunctions = new Map<string, FunctionNode>();
     const allEdges: CallEdge[] = [];
 
     // First pass: Extract all functions
     for (const file of files) {
-      const content = fs.readFileSync(path.join(this.rootDir, file), 'utf-8');
       const extractor = this.getExtractor(file);
       if (!extractor) continue;
 
-      const functions = extractor.extractFunctions(file, content);
-      for (const func of functions) {
-        allFunctions.set(func.id, func);
+      const cached = this.lastSources?.get(file);
+      if (cached && !extract.has(file)) {
+        sources.set(file, cached);
+      } else {
+        const content = fs.readFileSync(path.join(this.rootDir, file), 'utf-8');
+        sources.set(file, { content, functions: extractor.extractFunctions(file, content) });
+      }
+
+      // Purity passes update nodes in place, so each graph gets its own copies
+      for (const func of sources.get(file)!.functions) {
+        allFunctions.set(func.id, { ...func });
       }
     }
+    this.lastSources = sources;
 
     // Second pass: Extract all calls and analyze purity
     const knownImpure = new Set<string>();
 
     // Initial purity pass (without infection tracking)
-    for (const file of files) {
-      const content = fs.readFileSync(path.join(this.rootDir, file), 'utf-8');
-      const extractor = this.getExtractor(file);
-      if (!extractor) continue;
-
-      const patterns = extractor.getImpurityPatterns();
+    for (const [file, { content }] of sources) {
+      const patterns = this.getExtractor(file)!.getImpurityPatterns();
 
       for (const [id, func] of allFunctions) {
         if (!id.startsWith(file)) continue;
@@ -106,12 +137,8 @@ export class GraphAnalyzer {
     let changed = true;
     while (changed) {
       changed = false;
-      for (const file of files) {
-        const content = fs.readFileSync(path.join(this.rootDir, file), 'utf-8');
-        const extractor = this.getExtractor(file);
-        if (!extractor) continue;
-
-        const patterns = extractor.getImpurityPatterns();
+      for (const [file, { content }] of sources) {
+        const patterns = this.getExtractor(file)!.getImpurityPatterns();
 
         for (const [id, func] of allFunctions) {
           if (!id.startsWith(file)) continue;
@@ -136,12 +163,8 @@ export class GraphAnalyzer {
     }
 
     // Third pass: Extract call edges
-    for (const file of files) {
-      const content = fs.readFileSync(path.join(this.rootDir, file), 'utf-8');
-      const extractor = this.getExtractor(file);
-      if (!extractor) continue;
-
-      const edges = extractor.extractCalls(file, content, allFunctions);
+    for (const [file, { content }] of sources) {
+      const edges = this.getExtractor(file)!.extractCalls(file, content, allFunctions);
       allEdges.push(...edges);
     }
 
@@ -703,7 +726,7 @@ export class GraphAnalyzer {
     file: string,
     minGroupSize: number = 100
   ): Promise<SemanticAnalysisResult | null> {
-    if (!hasGlobalApiKey()) {
+    if (!hasGlobalAIProvider()) {
       return null;
     }
 
@@ -749,10 +772,10 @@ export class GraphAnalyzer {
     }
 
     try {
-      const apiKey = getGlobalApiKey();
-      if (!apiKey) return null;
-      const gemini = createGeminiClient(apiKey);
-      return await gemini.analyzeSemanticGroups(file, fileFunctions, minGroupSize);
+      const aiConfig = getGlobalAIConfig();
+      if (!aiConfig) return null;
+      const ai = createAIProvider(aiConfig);
+      return await ai.analyzeSemanticGroups(file, fileFunctions, minGroupSize);
     } catch {
       return null;
     }
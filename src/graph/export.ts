@@ -0,0 +1,383 @@
+/**
+ * Graph export - the file import graph, its folder-collapsed form or the
+ * function call graph as Graphviz DOT, Mermaid, GraphML or Cytoscape.js JSON.
+ * Nodes and edges are sorted so regenerated diagrams diff cleanly.
+ */
+
+import * as path from 'node:path';
+import { findCyclicComponents } from '../core/cycles.js';
+import type { FunctionGraph } from './types.js';
+
+export type GraphLevel = 'file' | 'folder' | 'function';
+export type GraphFormat = 'dot' | 'mermaid' | 'graphml' | 'cytoscape';
+
+export const GRAPH_LEVELS: GraphLevel[] = ['file', 'folder', 'function'];
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'graphml', 'cytoscape'];
+
+export interface GraphViewNode {
+  id: string;
+  label: string;
+  /** File or folder the node stands for (a function's file) */
+  path: string;
+  /** Box the node is drawn in: the file of a function */
+  group?: string;
+  inCycle: boolean;
+  isHub: boolean;
+}
+
+export interface GraphViewEdge {
+  from: string;
+  to: string;
+  /** Imports or calls merged into this edge */
+  weight: number;
+  inCycle: boolean;
+}
+
+export interface GraphView {
+  level: GraphLevel;
+  nodes: GraphViewNode[];
+  edges: GraphViewEdge[];
+}
+
+export interface GraphViewOptions {
+  /** Keep only nodes whose path passes */
+  include?: (nodePath: string) => boolean;
+  /** File or folder to center the view on */
+  focus?: string;
+  /** Hops from the focus, following edges either way (default 2) */
+  depth?: number;
+  highlightCycles?: boolean;
+  /** Node ids to highlight as hubs */
+  hubs?: Set<string>;
+}
+
+const ROOT_FOLDER = '.';
+
+/** One node per project file, one edge per importing file pair */
+export function createFileView(importGraph: Map<string, Set<string>>, options: GraphViewOptions = {}): GraphView {
+  const nodes = new Map<string, GraphViewNode>();
+  const edges: GraphViewEdge[] = [];
+  const addNode = (file: string) => {
+    if (!nodes.has(file)) nodes.set(file, createNode(file, file, file));
+  };
+
+  for (const [file, targets] of importGraph) {
+    addNode(file);
+    for (const target of targets) {
+      addNode(target);
+      edges.push({ from: file, to: target, weight: 1, inCycle: false });
+    }
+  }
+  return finishView('file', Array.from(nodes.values()), edges, options);
+}
+
+/** Files merged into their folders; edge weights count the file imports between two folders */
+export function createFolderView(importGraph: Map<string, Set<string>>, options: GraphViewOptions = {}): GraphView {
+  const nodes = new Map<string, GraphViewNode>();
+  const edges: GraphViewEdge[] = [];
+  const addNode = (folder: string) => {
+    if (!nodes.has(folder)) nodes.set(folder, createNode(folder, folder === ROOT_FOLDER ? '(root)' : `${folder}/`, folder));
+  };
+
+  for (const [folder, targets] of collapseToFolders(importGraph)) {
+    addNode(folder);
+    for (const [target, weight] of targets) {
+      addNode(target);
+      edges.push({ from: folder, to: target, weight, inCycle: false });
+    }
+  }
+  return finishView('folder', Array.from(nodes.values()), edges, options);
+}
+
+/** Functions grouped by file; repeated calls between two functions become one weighted edge */
+export function createFunctionView(graph: FunctionGraph, options: GraphViewOptions = {}): GraphView {
+  const nodes = Array.from(graph.nodes.values()).map(node => ({
+    ...createNode(node.id, node.className ? `${node.className}.${node.name}` : node.name, node.filePath),
+    group: node.filePath,
+  }));
+
+  const weights = new Map<string, GraphViewEdge>();
+  for (const edge of graph.edges) {
+    if (!graph.nodes.has(edge.from) || !graph.nodes.has(edge.to)) continue;
+    const key = `${edge.from}\0${edge.to}`;
+    const existing = weights.get(key);
+    if (existing) existing.weight++;
+    else weights.set(key, { from: edge.from, to: edge.to, weight: 1, inCycle: false });
+  }
+  return finishView('function', nodes, Array.from(weights.values()), options);
+}
+
+/**
+ * Files (or folders) with at least `threshold` connections, counting edges in
+ * and out - the degree centrality GraphAnalyzer.findHubs uses for functions.
+ */
+export function findFileHubs(importGraph: Map<string, Set<string>>, level: 'file' | 'folder', threshold: number): Set<string> {
+  const degree = new Map<string, number>();
+  const count = (node: string) => degree.set(node, (degree.get(node) || 0) + 1);
+
+  if (level === 'file') {
+    for (const [file, targets] of importGraph) {
+      for (const target of targets) {
+        count(file);
+        count(target);
+      }
+    }
+  } else {
+    for (const [folder, targets] of collapseToFolders(importGraph)) {
+      for (const target of targets.keys()) {
+        count(folder);
+        count(target);
+      }
+    }
+  }
+  return new Set(Array.from(degree).filter(([, d]) => d >= threshold).map(([node]) => node));
+}
+
+export function renderGraph(view: GraphView, format: GraphFormat): string {
+  switch (format) {
+    case 'dot': return renderDot(view);
+    case 'mermaid': return renderMermaid(view);
+    case 'graphml': return renderGraphML(view);
+    case 'cytoscape': return JSON.stringify(toCytoscape(view), null, 2);
+  }
+}
+
+function createNode(id: string, label: string, nodePath: string): GraphViewNode {
+  return { id, label, path: nodePath, inCycle: false, isHub: false };
+}
+
+function folderOf(file: string): string {
+  return path.posix.dirname(file.replace(/\\/g, '/'));
+}
+
+/** Folder → imported folder → number of file imports; imports within a folder are dropped */
+function collapseToFolders(importGraph: Map<string, Set<string>>): Map<string, Map<string, number>> {
+  const folders = new Map<string, Map<string, number>>();
+  for (const [file, targets] of importGraph) {
+    const folder = folderOf(file);
+    const folderTargets = folders.get(folder) || new Map<string, number>();
+    folders.set(folder, folderTargets);
+    for (const target of targets) {
+      const targetFolder = folderOf(target);
+      if (targetFolder !== folder) folderTargets.set(targetFolder, (folderTargets.get(targetFolder) || 0) + 1);
+    }
+  }
+  return folders;
+}
+
+/** Filter, focus, mark cycles and hubs, then sort */
+function finishView(level: GraphLevel, allNodes: GraphViewNode[], allEdges: GraphViewEdge[], options: GraphViewOptions): GraphView {
+  let nodes = options.include ? allNodes.filter(node => options.include!(node.path)) : allNodes;
+  let kept = new Set(nodes.map(node => node.id));
+  let edges = allEdges.filter(edge => kept.has(edge.from) && kept.has(edge.to));
+
+  if (options.focus) {
+    const focus = options.focus.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+    const matchesFocus = (node: GraphViewNode) =>
+      node.path === focus || node.path.startsWith(`${focus}/`) || (level === 'folder' && node.path === folderOf(focus));
+    const start = nodes.filter(matchesFocus).map(node => node.id);
+    if (start.length === 0) {
+      throw new Error(`Nothing in the ${level} graph matches ${options.focus}`);
+    }
+    kept = collectNeighborhood(start, edges, options.depth ?? 2);
+    nodes = nodes.filter(node => kept.has(node.id));
+    edges = edges.filter(edge => kept.has(edge.from) && kept.has(edge.to));
+  }
+
+  nodes = nodes.map(node => ({ ...node, isHub: options.hubs?.has(node.id) ?? false }));
+  edges = edges.map(edge => ({ ...edge }));
+  if (options.highlightCycles) {
+    const successors = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+    for (const edge of edges) successors.get(edge.from)?.push(edge.to);
+    const componentOf = new Map<string, number>();
+    findCyclicComponents(successors).forEach((members, i) => members.forEach(member => componentOf.set(member, i)));
+    for (const node of nodes) node.inCycle = componentOf.has(node.id);
+    for (const edge of edges) {
+      edge.inCycle = componentOf.has(edge.from) && componentOf.get(edge.from) === componentOf.get(edge.to);
+    }
+  }
+
+  nodes.sort((a, b) => a.id.localeCompare(b.id));
+  edges.sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+  return { level, nodes, edges };
+}
+
+function collectNeighborhood(start: string[], edges: GraphViewEdge[], depth: number): Set<string> {
+  const neighbors = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    const list = neighbors.get(a);
+    if (list) list.push(b);
+    else neighbors.set(a, [b]);
+  };
+  for (const edge of edges) {
+    link(edge.from, edge.to);
+    link(edge.to, edge.from);
+  }
+
+  const visited = new Set(start);
+  let frontier = start;
+  for (let d = 0; d < depth && frontier.length > 0; d++) {
+    const next: string[] = [];
+    for (const node of frontier) {
+      for (const neighbor of neighbors.get(node) || []) {
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return visited;
+}
+
+const CYCLE_COLOR = '#d62728';
+const HUB_COLOR = '#ffd966';
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function renderDot(view: GraphView): string {
+  const lines = [
+    'digraph consuela {',
+    '  rankdir=LR;',
+    '  node [shape=box, fontname="Helvetica", fontsize=10];',
+    '  edge [color="#666666"];',
+  ];
+
+  const nodeLine = (node: GraphViewNode, indent: string) => {
+    const attributes = [`label=${quoteDot(node.label)}`];
+    if (node.isHub) attributes.push('style=filled', `fillcolor="${HUB_COLOR}"`);
+    if (node.inCycle) attributes.push(`color="${CYCLE_COLOR}"`, 'penwidth=2');
+    return `${indent}${quoteDot(node.id)} [${attributes.join(', ')}];`;
+  };
+
+  const groups = groupNodes(view.nodes);
+  let cluster = 0;
+  for (const [group, nodes] of groups) {
+    if (group === undefined) {
+      lines.push(...nodes.map(node => nodeLine(node, '  ')));
+      continue;
+    }
+    lines.push(`  subgraph cluster_${cluster++} {`, `    label=${quoteDot(group)};`, '    style=rounded;');
+    lines.push(...nodes.map(node => nodeLine(node, '    ')));
+    lines.push('  }');
+  }
+
+  for (const edge of view.edges) {
+    const attributes: string[] = [];
+    if (edge.weight > 1) attributes.push(`label="${edge.weight}"`);
+    if (edge.inCycle) attributes.push(`color="${CYCLE_COLOR}"`, 'penwidth=2');
+    const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${suffix};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function renderMermaid(view: GraphView): string {
+  // Mermaid ids must be plain words, so nodes are numbered and labelled
+  const ids = new Map(view.nodes.map((node, i) => [node.id, `n${i}`]));
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  const lines = ['flowchart LR'];
+
+  const groups = groupNodes(view.nodes);
+  let subgraph = 0;
+  for (const [group, nodes] of groups) {
+    const indent = group === undefined ? '  ' : '    ';
+    if (group !== undefined) lines.push(`  subgraph g${subgraph++}[${label(group)}]`);
+    lines.push(...nodes.map(node => `${indent}${ids.get(node.id)}[${label(node.label)}]`));
+    if (group !== undefined) lines.push('  end');
+  }
+
+  view.edges.forEach(edge => {
+    const arrow = edge.weight > 1 ? `-->|${edge.weight}|` : '-->';
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  });
+
+  const cycleNodes = view.nodes.filter(node => node.inCycle).map(node => ids.get(node.id));
+  const hubNodes = view.nodes.filter(node => node.isHub).map(node => ids.get(node.id));
+  const cycleEdges = view.edges.flatMap((edge, i) => edge.inCycle ? [i] : []);
+  if (cycleNodes.length > 0) {
+    lines.push(`  classDef cycle stroke:${CYCLE_COLOR},stroke-width:2px`, `  class ${cycleNodes.join(',')} cycle`);
+  }
+  if (hubNodes.length > 0) {
+    lines.push(`  classDef hub fill:${HUB_COLOR}`, `  class ${hubNodes.join(',')} hub`);
+  }
+  if (cycleEdges.length > 0) {
+    lines.push(`  linkStyle ${cycleEdges.join(',')} stroke:${CYCLE_COLOR},stroke-width:2px`);
+  }
+  return lines.join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderGraphML(view: GraphView): string {
+  const data = (key: string, value: string | number | boolean) => `<data key="${key}">${escapeXml(String(value))}</data>`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="path" for="node" attr.name="path" attr.type="string"/>',
+    '  <key id="group" for="node" attr.name="group" attr.type="string"/>',
+    '  <key id="hub" for="node" attr.name="hub" attr.type="boolean"/>',
+    '  <key id="nodeCycle" for="node" attr.name="cycle" attr.type="boolean"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    '  <key id="edgeCycle" for="edge" attr.name="cycle" attr.type="boolean"/>',
+    `  <graph id="${view.level}" edgedefault="directed">`,
+  ];
+
+  for (const node of view.nodes) {
+    const fields = [data('label', node.label), data('path', node.path)];
+    if (node.group) fields.push(data('group', node.group));
+    fields.push(data('hub', node.isHub), data('nodeCycle', node.inCycle));
+    lines.push(`    <node id="${escapeXml(node.id)}">${fields.join('')}</node>`);
+  }
+  view.edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escapeXml(edge.from)}" target="${escapeXml(edge.to)}">${data('weight', edge.weight)}${data('edgeCycle', edge.inCycle)}</edge>`);
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+/** Cytoscape.js elements; function files become compound parent nodes */
+function toCytoscape(view: GraphView) {
+  const groups = Array.from(new Set(view.nodes.flatMap(node => node.group ? [node.group] : []))).sort();
+  return {
+    elements: {
+      nodes: [
+        ...groups.map(group => ({ data: { id: `group:${group}`, label: group, kind: 'group' } })),
+        ...view.nodes.map(node => ({
+          data: {
+            id: node.id,
+            label: node.label,
+            path: node.path,
+            kind: view.level,
+            ...(node.group && { parent: `group:${node.group}` }),
+            hub: node.isHub,
+            cycle: node.inCycle,
+          },
+        })),
+      ],
+      edges: view.edges.map((edge, i) => ({
+        data: { id: `e${i}`, source: edge.from, target: edge.to, weight: edge.weight, cycle: edge.inCycle },
+      })),
+    },
+  };
+}
+
+/** Nodes by group in first-seen order; ungrouped nodes come first */
+function groupNodes(nodes: GraphViewNode[]): Map<string | undefined, GraphViewNode[]> {
+  const groups = new Map<string | undefined, GraphViewNode[]>([[undefined, []]]);
+  for (const node of nodes) {
+    const group = groups.get(node.group);
+    if (group) group.push(node);
+    else groups.set(node.group, [node]);
+  }
+  return groups;
+}
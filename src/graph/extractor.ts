@@ -1,8 +1,10 @@
 /**
- * Function-level graph extractor using Tree-sitter
+ * Function-level graph extractor using the TypeScript compiler API
  * Extracts functions, calls, and analyzes purity
  */
 
+import * as path from 'node:path';
+import * as ts from 'typescript';
 import type {
   FunctionNode,
   CallEdge,
@@ -37,312 +39,438 @@ export abstract class FunctionExtractor {
   abstract getImpurityPatterns(): ImpurityPatterns;
 }
 
+/** Extensions tried, in order, when an import specifier leaves them out */
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** How far re-export chains (barrels) are followed */
+const MAX_REEXPORT_DEPTH = 10;
+
+/** What an imported name refers to in its source module */
+type ImportBinding =
+  | { kind: 'named'; source: string; name: string }
+  | { kind: 'namespace'; source: string };
+
+/** The import/export surface of a module, used to resolve calls across files */
+interface ModuleInfo {
+  imports: Map<string, ImportBinding>;
+  /** Names re-exported from other modules: exported name → source and original name */
+  reExports: Map<string, { source: string; name: string }>;
+  /** Sources of `export * from` */
+  starExports: string[];
+  /** Names declared at the top level */
+  locals: Set<string>;
+}
+
+/** Functions found in a file, keyed by the AST node that holds their body */
+interface CollectedFunctions {
+  functions: Array<{ node: ts.Node; func: FunctionNode }>;
+  /** Classes and object literals by node, with the name their members are prefixed with */
+  owners: Map<ts.Node, string>;
+}
+
+type FunctionLike = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration;
+
 /**
  * JavaScript/TypeScript function extractor
- * Uses regex-based extraction (Tree-sitter version coming)
+ * Parses with the TypeScript compiler API, so ranges and signatures are exact
+ * and calls resolve through imports and re-exports to the defining file.
  */
 export class JSFunctionExtractor extends FunctionExtractor {
   readonly language = 'javascript';
   readonly extensions = ['.js', '.jsx', '.ts', '.tsx', '.mjs'];
 
-  extractFunctions(filePath: string, content: string): FunctionNode[] {
-    const functions: FunctionNode[] = [];
-    const lines = content.split('\n');
-
-    // Track class context for methods
-    let currentClass: string | undefined;
-    let classIndent = -1;
+  /** Import/export surfaces of every file seen so far, for following barrels */
+  private readonly modules = new Map<string, ModuleInfo>();
 
-    // Track function nesting - stack of (endLine, indent)
-    const functionStack: Array<{ endLine: number; indent: number }> = [];
-
-    // Base indent level for top-level code (typically 0)
-    // Functions with higher indent are likely nested
-    const BASE_INDENT = 0;
+  extractFunctions(filePath: string, content: string): FunctionNode[] {
+    const sourceFile = this.parse(filePath, content);
+    this.modules.set(filePath, collectModuleInfo(sourceFile));
+    return collectFunctions(filePath, sourceFile).functions.map(entry => entry.func);
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNum = i + 1;
-      const indent = this.getIndent(line);
+  extractCalls(filePath: string, content: string, knownFunctions: Map<string, FunctionNode>): CallEdge[] {
+    const sourceFile = this.parse(filePath, content);
+    const module = collectModuleInfo(sourceFile);
+    this.modules.set(filePath, module);
+
+    const { functions, owners } = collectFunctions(filePath, sourceFile);
+    const callers = new Map(functions.map(entry => [entry.node, entry.func.id]));
+    // Barrels declare no functions but still resolve as import targets
+    const knownFiles = new Set([...knownFunctions.values()].map(func => func.filePath).concat([...this.modules.keys()]));
+    const instances = collectInstances(sourceFile);
+    const edges: CallEdge[] = [];
 
-      // Pop functions that have ended
-      while (functionStack.length > 0 && lineNum > functionStack[functionStack.length - 1].endLine) {
-        functionStack.pop();
+    const resolve = (expression: ts.Expression, owner: string | undefined): { id: string; type: CallEdge['type'] } | undefined => {
+      const callee = skipOuterExpressions(expression);
+      let candidate: { id: string; type: CallEdge['type'] } | undefined;
+
+      if (ts.isIdentifier(callee)) {
+        const binding = module.imports.get(callee.text);
+        if (binding?.kind === 'named') {
+          const target = this.resolveExport(filePath, binding.source, binding.name, knownFiles);
+          if (target) candidate = { id: `${target.file}:${target.name}`, type: 'direct' };
+        } else if (!binding) {
+          candidate = { id: `${filePath}:${callee.text}`, type: 'direct' };
+        }
+      } else if (ts.isPropertyAccessExpression(callee)) {
+        const receiver = skipOuterExpressions(callee.expression);
+        const member = callee.name.text;
+
+        if (receiver.kind === ts.SyntaxKind.ThisKeyword && owner) {
+          candidate = { id: `${filePath}:${owner}.${member}`, type: 'method' };
+        } else if (ts.isIdentifier(receiver)) {
+          // `const store = new Store()` makes store.save() a call to Store.save
+          const receiverName = instances.get(receiver.text) ?? receiver.text;
+          const binding = module.imports.get(receiverName);
+          if (binding?.kind === 'namespace') {
+            const target = this.resolveExport(filePath, binding.source, member, knownFiles);
+            if (target) candidate = { id: `${target.file}:${target.name}`, type: 'direct' };
+          } else if (binding) {
+            const target = this.resolveExport(filePath, binding.source, binding.name, knownFiles);
+            if (target) candidate = { id: `${target.file}:${target.name}.${member}`, type: 'method' };
+          } else {
+            candidate = { id: `${filePath}:${receiverName}.${member}`, type: 'method' };
+          }
+        }
       }
 
-      // Check if we're inside a function (nested)
-      // Either we have a parent function on the stack, or we're indented beyond base level
-      const isNested = functionStack.length > 0 || indent > BASE_INDENT;
-
-      // Exit class context if we dedent
-      if (currentClass && indent <= classIndent && line.trim()) {
-        currentClass = undefined;
-        classIndent = -1;
-      }
+      return candidate && knownFunctions.has(candidate.id) ? candidate : undefined;
+    };
 
-      // Detect class declaration
-      const classMatch = line.match(/^\s*(export\s+)?(abstract\s+)?class\s+(\w+)/);
-      if (classMatch) {
-        currentClass = classMatch[3];
-        classIndent = indent;
-        continue;
-      }
+    const visit = (node: ts.Node, caller: string | undefined, owner: string | undefined): void => {
+      caller = callers.get(node) ?? caller;
+      owner = owners.get(node) ?? owner;
 
-      // Function declaration: function name(...) or async function name(...)
-      const funcDeclMatch = line.match(
-        /^\s*(export\s+)?(async\s+)?function\s*(\*?)\s*(\w+)\s*(<[^>]*>)?\s*\(([^)]*)\)/
-      );
-      if (funcDeclMatch) {
-        const [, exported, async, generator, name, , params] = funcDeclMatch;
-        const signature = this.extractSignature(lines, i);
-        const endLine = this.findFunctionEnd(lines, i);
-
-        functions.push({
-          id: `${filePath}:${name}`,
-          name,
-          filePath,
-          line: lineNum,
-          endLine,
-          signature,
-          isExported: !!exported,
-          isMethod: false,
-          isNested,
-          purity: 'unknown',
-          impurityReasons: [],
-          isAsync: !!async,
-          isGenerator: !!generator,
-        });
+      if (caller && (ts.isCallExpression(node) || ts.isNewExpression(node))) {
+        const line = lineOf(sourceFile, node.getStart(sourceFile));
+        const callee = resolve(node.expression, owner);
+        if (callee) {
+          edges.push({ from: caller, to: callee.id, line, type: ts.isNewExpression(node) ? 'constructor' : callee.type });
+        }
 
-        // Push to stack for tracking nested functions
-        functionStack.push({ endLine, indent });
-        continue;
+        // Functions handed over by reference, e.g. items.map(normalize)
+        for (const argument of node.arguments || []) {
+          const value = skipOuterExpressions(argument);
+          if (!ts.isIdentifier(value) && !ts.isPropertyAccessExpression(value)) continue;
+          const callback = resolve(value, owner);
+          if (callback) edges.push({ from: caller, to: callback.id, line, type: 'callback' });
+        }
       }
 
-      // Arrow function assigned to const/let/var
-      const arrowMatch = line.match(
-        /^\s*(export\s+)?(const|let|var)\s+(\w+)\s*(<[^>]*>)?\s*=\s*(async\s+)?\(?([^)=]*)\)?\s*=>/
-      );
-      if (arrowMatch) {
-        const [, exported, , name, , async] = arrowMatch;
-        const signature = this.extractArrowSignature(lines, i);
-        const endLine = this.findArrowEnd(lines, i);
-
-        functions.push({
-          id: `${filePath}:${name}`,
-          name,
-          filePath,
-          line: lineNum,
-          endLine,
-          signature,
-          isExported: !!exported,
-          isMethod: false,
-          isNested,
-          purity: 'unknown',
-          impurityReasons: [],
-          isAsync: !!async,
-          isGenerator: false,
-        });
+      ts.forEachChild(node, child => visit(child, caller, owner));
+    };
+    visit(sourceFile, undefined, undefined);
 
-        // Push to stack for tracking nested functions
-        functionStack.push({ endLine, indent });
-        continue;
-      }
+    return edges;
+  }
 
-      // Class method (inside a class)
-      if (currentClass) {
-        const methodMatch = line.match(
-          /^\s*(public|private|protected|static|async|readonly|\s)*(\w+)\s*(<[^>]*>)?\s*\(([^)]*)\)/
-        );
-        if (methodMatch && !line.includes('constructor')) {
-          const name = methodMatch[2];
-          if (name && !['if', 'for', 'while', 'switch', 'catch', 'function'].includes(name)) {
-            const isPrivate = line.includes('private') || name.startsWith('_') || name.startsWith('#');
-            const signature = this.extractSignature(lines, i);
-            const endLine = this.findFunctionEnd(lines, i);
-
-            functions.push({
-              id: `${filePath}:${currentClass}.${name}`,
-              name: `${currentClass}.${name}`,
-              filePath,
-              line: lineNum,
-              endLine,
-              signature,
-              isExported: !isPrivate,
-              isMethod: true,
-              isNested,
-              className: currentClass,
-              purity: 'unknown',
-              impurityReasons: [],
-              isAsync: line.includes('async'),
-              isGenerator: line.includes('*'),
-            });
-
-            // Push to stack for tracking nested functions
-            functionStack.push({ endLine, indent });
-          }
-        }
-      }
-    }
+  getImpurityPatterns(): ImpurityPatterns {
+    return JS_IMPURITY_PATTERNS;
+  }
 
-    return functions;
+  private parse(filePath: string, content: string): ts.SourceFile {
+    const ext = path.extname(filePath).toLowerCase();
+    const scriptKind = ext === '.tsx' ? ts.ScriptKind.TSX
+      : ext === '.jsx' ? ts.ScriptKind.JSX
+        : ['.js', '.mjs', '.cjs'].includes(ext) ? ts.ScriptKind.JS
+          : ts.ScriptKind.TS;
+    return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
   }
 
-  extractCalls(filePath: string, content: string, knownFunctions: Map<string, FunctionNode>): CallEdge[] {
-    const edges: CallEdge[] = [];
-    const lines = content.split('\n');
-    const functions = this.extractFunctions(filePath, content);
-
-    // Build a map of line ranges to function IDs
-    const lineToFunction = new Map<number, string>();
-    for (const func of functions) {
-      for (let line = func.line; line <= func.endLine; line++) {
-        lineToFunction.set(line, func.id);
-      }
+  /**
+   * Follow an import of `name` from `specifier` to the file that declares it,
+   * through `export { x } from`, `export *` and import-then-export barrels
+   */
+  private resolveExport(
+    fromFile: string,
+    specifier: string,
+    name: string,
+    knownFiles: Set<string>,
+    depth = 0
+  ): { file: string; name: string } | undefined {
+    const file = resolveModulePath(fromFile, specifier, knownFiles);
+    if (!file || depth > MAX_REEXPORT_DEPTH) return undefined;
+
+    const module = this.modules.get(file);
+    if (!module || module.locals.has(name)) return { file, name };
+
+    const reExport = module.reExports.get(name);
+    if (reExport) return this.resolveExport(file, reExport.source, reExport.name, knownFiles, depth + 1);
+
+    for (const source of module.starExports) {
+      const target = this.resolveExport(file, source, name, knownFiles, depth + 1);
+      if (target) return target;
     }
+    return undefined;
+  }
+}
 
-    // Find all function calls
-    const callPattern = /(\w+(?:\.\w+)*)\s*\(/g;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNum = i + 1;
-      const callerFuncId = lineToFunction.get(lineNum);
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+}
 
-      if (!callerFuncId) continue; // Not inside a function
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(m => m.kind === kind);
+}
 
-      let match;
-      while ((match = callPattern.exec(line)) !== null) {
-        const calleeName = match[1];
+/** Strip parentheses, type assertions and non-null assertions */
+function skipOuterExpressions(expression: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) || ts.isNonNullExpression(expression) || ts.isTypeAssertionExpression(expression)
+  ) {
+    expression = expression.expression;
+  }
+  return expression;
+}
 
-        // Skip keywords
-        if (['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'new', 'typeof', 'instanceof'].includes(calleeName)) {
-          continue;
-        }
+function isFunctionValue(node: ts.Node): node is ts.FunctionExpression | ts.ArrowFunction {
+  return ts.isFunctionExpression(node) || ts.isArrowFunction(node);
+}
 
-        // Try to find the callee in known functions
-        // Check for exact match, method match, or imported function
-        let calleeId: string | undefined;
-        let callType: CallEdge['type'] = 'direct';
+/** `(params): returnType` with type parameters, whitespace collapsed */
+function signatureOf(fn: FunctionLike, sourceFile: ts.SourceFile): string {
+  const typeParameters = fn.typeParameters ? `<${fn.typeParameters.map(t => t.getText(sourceFile)).join(', ')}>` : '';
+  const parameters = fn.parameters.map(p => p.getText(sourceFile)).join(', ');
+  const returnType = fn.type ? `: ${fn.type.getText(sourceFile)}` : '';
+  return `${typeParameters}(${parameters})${returnType}`.replace(/\s+/g, ' ');
+}
 
-        // Direct local call
-        if (knownFunctions.has(`${filePath}:${calleeName}`)) {
-          calleeId = `${filePath}:${calleeName}`;
-        }
-        // Method call on same class
-        else if (calleeName.includes('.')) {
-          const possibleId = `${filePath}:${calleeName}`;
-          if (knownFunctions.has(possibleId)) {
-            calleeId = possibleId;
-            callType = 'method';
-          }
-        }
+/**
+ * Resolve a relative specifier to one of `files`. Bare and aliased
+ * specifiers point outside the graph and resolve to nothing.
+ */
+function resolveModulePath(fromFile: string, specifier: string, files: Set<string>): string | undefined {
+  if (!specifier.startsWith('.')) return undefined;
+
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+  const stem = base.replace(/\.[mc]?jsx?$/, '');
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map(ext => stem + ext),
+    ...MODULE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+  return candidates.find(candidate => files.has(candidate));
+}
 
-        // Check if it's a constructor call
-        if (line.includes(`new ${calleeName}`)) {
-          callType = 'constructor';
+function collectModuleInfo(sourceFile: ts.SourceFile): ModuleInfo {
+  const info: ModuleInfo = { imports: new Map(), reExports: new Map(), starExports: [], locals: new Set() };
+  const localExports: Array<{ local: string; exported: string }> = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const source = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (!clause || clause.isTypeOnly) continue;
+      if (clause.name) info.imports.set(clause.name.text, { kind: 'named', source, name: 'default' });
+      const bindings = clause.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        info.imports.set(bindings.name.text, { kind: 'namespace', source });
+      } else if (bindings) {
+        for (const element of bindings.elements) {
+          const name = (element.propertyName || element.name).text;
+          info.imports.set(element.name.text, { kind: 'named', source, name });
         }
-
-        if (calleeId) {
-          edges.push({
-            from: callerFuncId,
-            to: calleeId,
-            line: lineNum,
-            type: callType,
-          });
+      }
+    } else if (ts.isExportDeclaration(statement)) {
+      const source = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+        ? statement.moduleSpecifier.text
+        : undefined;
+      const clause = statement.exportClause;
+      if (!clause) {
+        if (source) info.starExports.push(source);
+      } else if (ts.isNamespaceExport(clause)) {
+        continue;
+      } else {
+        for (const element of clause.elements) {
+          const local = (element.propertyName || element.name).text;
+          if (source) info.reExports.set(element.name.text, { source, name: local });
+          else localExports.push({ local, exported: element.name.text });
         }
       }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) info.locals.add(declaration.name.text);
+      }
+    } else if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+      if (statement.name) info.locals.add(statement.name.text);
+      if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) info.locals.add('default');
     }
-
-    return edges;
   }
 
-  getImpurityPatterns(): ImpurityPatterns {
-    return JS_IMPURITY_PATTERNS;
+  // `import { x } from './x.js'; export { x }` re-exports too
+  for (const { local, exported } of localExports) {
+    const binding = info.imports.get(local);
+    if (binding?.kind === 'named') info.reExports.set(exported, { source: binding.source, name: binding.name });
   }
 
-  private getIndent(line: string): number {
-    const match = line.match(/^(\s*)/);
-    return match ? match[1].length : 0;
-  }
+  return info;
+}
 
-  private extractSignature(lines: string[], startIndex: number): string {
-    let signature = '';
-    let parenCount = 0;
-    let started = false;
-
-    for (let i = startIndex; i < lines.length && i < startIndex + 10; i++) {
-      const line = lines[i];
-      for (const char of line) {
-        if (char === '(') {
-          started = true;
-          parenCount++;
-        }
-        if (started) {
-          signature += char;
-        }
-        if (char === ')') {
-          parenCount--;
-          if (parenCount === 0) {
-            // Check for return type
-            const rest = line.slice(line.lastIndexOf(')') + 1);
-            const returnMatch = rest.match(/:\s*([^{=]+)/);
-            if (returnMatch) {
-              signature += ': ' + returnMatch[1].trim();
-            }
-            return signature;
-          }
-        }
+/** Variables initialized with `new SomeClass()`, mapped to the class name */
+function collectInstances(sourceFile: ts.SourceFile): Map<string, string> {
+  const instances = new Map<string, string>();
+  const visit = (node: ts.Node): void => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const value = skipOuterExpressions(node.initializer);
+      if (ts.isNewExpression(value) && ts.isIdentifier(value.expression)) {
+        instances.set(node.name.text, value.expression.text);
       }
-      if (started) signature += ' ';
     }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return instances;
+}
 
-    return signature || '()';
+/** Names exported by `export { a }` and `export default a` rather than a modifier */
+function collectExportedLocals(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) names.add((element.propertyName || element.name).text);
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      names.add(statement.expression.text);
+    }
   }
+  return names;
+}
+
+/**
+ * Named functions in a file: declarations, function-valued variables, class
+ * and object-literal methods. Anonymous functions (callbacks) are not nodes;
+ * calls inside them count for the enclosing named function.
+ */
+function collectFunctions(filePath: string, sourceFile: ts.SourceFile): CollectedFunctions {
+  const collected: CollectedFunctions = { functions: [], owners: new Map() };
+  const exportedLocals = collectExportedLocals(sourceFile);
+  const ids = new Set<string>();
+
+  const add = (
+    fn: FunctionLike,
+    range: ts.Node,
+    name: string,
+    details: { isExported: boolean; isNested: boolean; isMethod?: boolean; className?: string }
+  ): void => {
+    const line = lineOf(sourceFile, range.getStart(sourceFile));
+    // Same-named functions (nested in different parents) get the line in their id
+    let id = `${filePath}:${name}`;
+    if (ids.has(id)) id = `${filePath}:${line}:${name}`;
+    ids.add(id);
+
+    collected.functions.push({
+      node: fn,
+      func: {
+        id,
+        name,
+        filePath,
+        line,
+        endLine: lineOf(sourceFile, range.getEnd()),
+        signature: signatureOf(fn, sourceFile),
+        isExported: details.isExported,
+        isMethod: !!details.isMethod,
+        className: details.className,
+        isNested: details.isNested,
+        purity: 'unknown',
+        impurityReasons: [],
+        isAsync: hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+        isGenerator: !!fn.asteriskToken,
+      },
+    });
+  };
 
-  private extractArrowSignature(lines: string[], startIndex: number): string {
-    const line = lines[startIndex];
-    const match = line.match(/=\s*(async\s+)?\(?([^)=]*)\)?\s*=>/);
-    if (match) {
-      const params = match[2]?.trim() || '';
-      return `(${params})`;
+  const visitClass = (node: ts.ClassLikeDeclaration, className: string, isExported: boolean, isNested: boolean): void => {
+    collected.owners.set(node, className);
+    for (const member of node.members) {
+      const isPrivate = hasModifier(member, ts.SyntaxKind.PrivateKeyword) || (!!member.name && ts.isPrivateIdentifier(member.name));
+      const memberName = member.name?.getText(sourceFile);
+      const details = { isExported: isExported && !isPrivate, isNested, isMethod: true, className };
+
+      if (ts.isMethodDeclaration(member) && member.body && memberName) {
+        add(member, member, `${className}.${memberName}`, details);
+        visit(member.body, true);
+      } else if (ts.isPropertyDeclaration(member) && member.initializer && memberName && isFunctionValue(skipOuterExpressions(member.initializer))) {
+        const fn = skipOuterExpressions(member.initializer) as ts.FunctionExpression | ts.ArrowFunction;
+        add(fn, member, `${className}.${memberName}`, details);
+        visit(fn.body, true);
+      } else {
+        ts.forEachChild(member, child => visit(child, isNested || ts.isConstructorDeclaration(member)));
+      }
     }
-    return '()';
-  }
+  };
 
-  private findFunctionEnd(lines: string[], startIndex: number): number {
-    let braceCount = 0;
-    let started = false;
+  const visitObject = (node: ts.ObjectLiteralExpression, objectName: string, isExported: boolean, isNested: boolean): void => {
+    collected.owners.set(node, objectName);
+    for (const property of node.properties) {
+      const propertyName = property.name && !ts.isComputedPropertyName(property.name) ? property.name.getText(sourceFile) : undefined;
+      const details = { isExported, isNested, isMethod: true };
+
+      if (ts.isMethodDeclaration(property) && property.body && propertyName) {
+        add(property, property, `${objectName}.${propertyName}`, details);
+        visit(property.body, true);
+      } else if (ts.isPropertyAssignment(property) && propertyName && isFunctionValue(skipOuterExpressions(property.initializer))) {
+        const fn = skipOuterExpressions(property.initializer) as ts.FunctionExpression | ts.ArrowFunction;
+        add(fn, property, `${objectName}.${propertyName}`, details);
+        visit(fn.body, true);
+      } else {
+        ts.forEachChild(property, child => visit(child, isNested));
+      }
+    }
+  };
 
-    for (let i = startIndex; i < lines.length; i++) {
-      const line = lines[i];
-      for (const char of line) {
-        if (char === '{') {
-          started = true;
-          braceCount++;
-        }
-        if (char === '}') {
-          braceCount--;
-          if (started && braceCount === 0) {
-            return i + 1;
-          }
-        }
+  const visit = (node: ts.Node, isNested: boolean): void => {
+    if (ts.isFunctionDeclaration(node)) {
+      // Overload signatures and `declare function` have no body
+      if (!node.body) return;
+      const isDefault = hasModifier(node, ts.SyntaxKind.DefaultKeyword);
+      const name = node.name?.text ?? (isDefault ? 'default' : undefined);
+      if (name) {
+        const isExported = !isNested && (hasModifier(node, ts.SyntaxKind.ExportKeyword) || exportedLocals.has(name));
+        add(node, node, name, { isExported, isNested });
       }
+      visit(node.body, true);
+      return;
     }
 
-    return startIndex + 1;
-  }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const statement = node.parent.parent;
+      const isExported = !isNested && (
+        (ts.isVariableStatement(statement) && hasModifier(statement, ts.SyntaxKind.ExportKeyword)) ||
+        exportedLocals.has(node.name.text)
+      );
+      const value = skipOuterExpressions(node.initializer);
 
-  private findArrowEnd(lines: string[], startIndex: number): number {
-    const line = lines[startIndex];
+      if (isFunctionValue(value)) {
+        add(value, node, node.name.text, { isExported, isNested });
+        visit(value.body, true);
+        return;
+      }
+      if (ts.isObjectLiteralExpression(value)) {
+        visitObject(value, node.name.text, isExported, isNested);
+        return;
+      }
+      if (ts.isClassExpression(value)) {
+        visitClass(value, node.name.text, isExported, isNested);
+        return;
+      }
+    }
 
-    // Single-line arrow function
-    if (!line.includes('{') || (line.includes('{') && line.includes('}'))) {
-      return startIndex + 1;
+    if (ts.isClassDeclaration(node)) {
+      const isDefault = hasModifier(node, ts.SyntaxKind.DefaultKeyword);
+      const name = node.name?.text ?? (isDefault ? 'default' : undefined);
+      if (name) {
+        const isExported = !isNested && (hasModifier(node, ts.SyntaxKind.ExportKeyword) || exportedLocals.has(name));
+        visitClass(node, name, isExported, isNested);
+        return;
+      }
     }
 
-    // Multi-line arrow function
-    return this.findFunctionEnd(lines, startIndex);
-  }
+    // Anonymous functions keep the nesting of their own bodies
+    ts.forEachChild(node, child => visit(child, isNested || ts.isFunctionLike(node)));
+  };
+
+  visit(sourceFile, false);
+  return collected;
 }
 
 /**
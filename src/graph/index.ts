@@ -1,3 +1,4 @@
 export * from './types.js';
 export * from './extractor.js';
 export * from './analyzer.js';
+export * from './export.js';
@@ -17,12 +17,23 @@ import {
   verifyCommand,
   extractCommand,
   diagnoseCommand,
+  baselineCommand,
   cleanupCommand,
   splitCommand,
   mergeCommand,
   fixCommand,
   reorganizeCommand,
   quickfixCommand,
+  watchCommand,
+  lspCommand,
+  checkCommand,
+  graphCommand,
+  reportCommand,
+  renameCommand,
+  mvCommand,
+  depsCommand,
+  debarrelCommand,
+  typeImportsCommand,
 } from './commands/index.js';
 
 const program = new Command();
@@ -34,7 +45,18 @@ program
       ' - Code Analysis & Cleanup Tool\n' +
       chalk.gray('Find issues, fix them automatically, restructure your codebase')
   )
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--record <dir>', 'Record AI prompts and responses to a cassette directory')
+  .option('--replay <dir>', 'Replay AI responses from a cassette directory (offline, deterministic)')
+  .hook('preAction', () => {
+    const { record, replay } = program.opts<{ record?: string; replay?: string }>();
+    if (record && replay) {
+      console.error(chalk.red('\nError: --record and --replay cannot be used together.\n'));
+      process.exit(1);
+    }
+    if (record) process.env.CONSUELA_AI_RECORD = record;
+    if (replay) process.env.CONSUELA_AI_REPLAY = replay;
+  });
 
 // =============================================================================
 // CORE COMMANDS (the "wow" experience)
@@ -52,9 +74,10 @@ program
   .option('--dry-run', 'Preview what would be fixed (no changes)')
   .option('--deep', 'Also: AI splits large files (needs API key)')
   .option('--all', 'Also: AI restructures codebase (needs API key)')
+  .option('--deps', 'Also: update package.json for unused, missing and misplaced dependencies')
   .option('--fail', 'Exit with code 1 if issues found (for CI)')
   .option('--json', 'Output as JSON')
-  .action(async (options: { dryRun?: boolean; deep?: boolean; all?: boolean; fail?: boolean; json?: boolean }) => {
+  .action(async (options: { dryRun?: boolean; deep?: boolean; all?: boolean; deps?: boolean; fail?: boolean; json?: boolean }) => {
     await quickfixCommand(options);
   });
 
@@ -62,10 +85,52 @@ program
   .command('diagnose')
   .description('🏥 Get a health report with specific issues to fix')
   .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, sarif or codeclimate')
   .action(async (options) => {
     await diagnoseCommand(options);
   });
 
+program
+  .command('report')
+  .description('📊 Write the health report as a standalone HTML page')
+  .option('--html <file>', 'Output file', 'consuela-report.html')
+  .action(async (options: { html?: string }) => {
+    await reportCommand(options);
+  });
+
+program
+  .command('baseline <action>')
+  .description('📋 Record known issues (create) or drop fixed ones (prune) so --fail only catches new issues')
+  .option('--json', 'Output as JSON')
+  .action(async (action, options) => {
+    await baselineCommand(action, options);
+  });
+
+program
+  .command('check')
+  .description('🏛️  Check imports against the architecture rules in .consuelarc')
+  .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, sarif or codeclimate')
+  .option('--fail', 'Exit with code 1 if any import breaks a rule (for CI)')
+  .action(async (options: { json?: boolean; format?: string; fail?: boolean }) => {
+    await checkCommand(options);
+  });
+
+program
+  .command('watch')
+  .description('👀 Keep the analysis running and report new issues as you edit')
+  .option('--json', 'Stream updates as JSON lines')
+  .action(async (options) => {
+    await watchCommand(options);
+  });
+
+program
+  .command('lsp')
+  .description('🧩 Language server for editors (diagnostics, usage counts, quick fixes) over stdio')
+  .action(async () => {
+    await lspCommand();
+  });
+
 program
   .command('trace <symbol>')
   .description('🔍 Find everywhere a function/class/type is used')
@@ -82,6 +147,57 @@ program
     await impactCommand(file, options);
   });
 
+program
+  .command('deps')
+  .description('📦 Find unused, missing and misplaced package.json dependencies')
+  .option('--json', 'Output as JSON')
+  .option('--fail', 'Exit with code 1 if issues found (for CI)')
+  .action(async (options: { json?: boolean; fail?: boolean }) => {
+    await depsCommand(options);
+  });
+
+program
+  .command('rename <target> <newName>')
+  .description('✏️  Rename a symbol everywhere: consuela rename src/utils.ts#oldName newName')
+  .option('--dry-run', 'Show the diff without writing')
+  .option('--no-verify', 'Skip the build check after renaming')
+  .option('--json', 'Output as JSON')
+  .action(async (target, newName, options) => {
+    await renameCommand(target, newName, options);
+  });
+
+program
+  .command('mv <from> <to>')
+  .description('📦 Move a file, directory or export and rewrite its imports: consuela mv src/a.ts#helper src/b.ts')
+  .option('--dry-run', 'Show the diff without writing')
+  .option('--no-verify', 'Skip the build check after moving')
+  .option('--json', 'Output as JSON')
+  .action(async (from, to, options) => {
+    await mvCommand(from, to, options);
+  });
+
+program
+  .command('debarrel [dir]')
+  .description('🧺 Import straight from the declaring module instead of through barrels')
+  .option('--delete-unused', 'Delete barrels that nothing imports afterwards')
+  .option('--keep-public', 'Leave entry-point barrels and their imports alone')
+  .option('--dry-run', 'Show the diff without writing')
+  .option('--no-verify', 'Skip the build check after rewriting')
+  .option('--json', 'Output as JSON')
+  .action(async (dir, options) => {
+    await debarrelCommand(dir, options);
+  });
+
+program
+  .command('type-imports [dir]')
+  .description('🏷️  Mark type-only imports and re-exports with `type` to drop runtime edges')
+  .option('--dry-run', 'Show the diff without writing')
+  .option('--no-verify', 'Skip the build check after rewriting')
+  .option('--json', 'Output as JSON')
+  .action(async (dir, options) => {
+    await typeImportsCommand(dir, options);
+  });
+
 program
   .command('reorganize [directory]')
   .description('🏗️  AI suggests a better folder structure (free Gemini API)')
@@ -100,9 +216,12 @@ program
 
 program
   .command('config')
-  .description('⚙️  Set up free Gemini API key for AI features')
-  .action(async () => {
-    await configCommand();
+  .description('⚙️  Choose an AI provider (Gemini, OpenAI-compatible, Ollama)')
+  .option('--provider <name>', 'AI provider: gemini, openai, or ollama')
+  .option('--model <name>', 'Model to use')
+  .option('--base-url <url>', 'Endpoint base URL (openai/ollama)')
+  .action(async (options) => {
+    await configCommand(options);
   });
 
 // =============================================================================
@@ -116,9 +235,12 @@ advanced
   .command('unused')
   .description('Find exports that are never used')
   .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, sarif or codeclimate')
   .option('--strict', 'Include entry points')
   .option('--fail', 'Exit with code 1 if unused found (for CI)')
-  .action(async (options: { json?: boolean; strict?: boolean; fail?: boolean }) => {
+  .option('--members', 'Also report unused class, enum and interface members')
+  .option('--files', 'Also report files unreachable from any entry point')
+  .action(async (options: { json?: boolean; format?: string; strict?: boolean; fail?: boolean; members?: boolean; files?: boolean }) => {
     await unusedCommand(options);
   });
 
@@ -126,8 +248,15 @@ advanced
   .command('circular')
   .description('Find circular dependencies')
   .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, sarif or codeclimate')
   .option('--fail', 'Exit with code 1 if circular deps found')
-  .action(async (options: { json?: boolean; fail?: boolean }) => {
+  .option('--runtime-only', 'Ignore cycles that only exist through type-only imports')
+  .option('--fix', 'Break cycles with the fewest, cheapest edits')
+  .option('--dry-run', 'With --fix, show the plan and diffs without writing')
+  .option('--no-verify', 'With --fix, skip build verification')
+  .action(async (options: {
+    json?: boolean; format?: string; fail?: boolean; runtimeOnly?: boolean; fix?: boolean; dryRun?: boolean; verify?: boolean;
+  }) => {
     await circularCommand(options);
   });
 
@@ -170,6 +299,21 @@ advanced
     await mapCommand(options);
   });
 
+advanced
+  .command('graph')
+  .description('Export the dependency or call graph as DOT, Mermaid, GraphML or Cytoscape JSON')
+  .option('--format <format>', 'Output format: dot, mermaid, graphml or cytoscape', 'dot')
+  .option('--level <level>', 'Graph level: file, folder or function', 'file')
+  .option('-f, --file <path>', 'Focus on a file or folder')
+  .option('-d, --depth <n>', 'Hops to include around the focus', '2')
+  .option('--filter <globs...>', 'Only include files matching these globs')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .option('--no-highlight', 'Do not highlight cycles and hubs')
+  .option('--hub-threshold <n>', 'Connections that make a node a hub', '5')
+  .action(async (options) => {
+    await graphCommand(options);
+  });
+
 advanced
   .command('scan')
   .description('Build function-level graph')
@@ -203,11 +347,14 @@ advanced
   .description('Manual dead code removal')
   .option('--unused', 'Remove unused')
   .option('--duplicates', 'Consolidate duplicates')
+  .option('--members', 'Remove unused class, enum and interface members')
+  .option('--files', 'Delete files unreachable from any entry point')
   .option('--all', 'Everything')
   .option('--dry-run', 'Preview')
   .option('-y, --yes', 'Skip prompt')
+  .option('--no-verify', 'Skip the build check after deleting unreachable files')
   .option('--json', 'Output as JSON')
-  .action(async (options: { unused?: boolean; duplicates?: boolean; all?: boolean; dryRun?: boolean; yes?: boolean; json?: boolean }) => {
+  .action(async (options: { unused?: boolean; duplicates?: boolean; members?: boolean; files?: boolean; all?: boolean; dryRun?: boolean; yes?: boolean; verify?: boolean; json?: boolean }) => {
     await cleanupCommand(options);
   });
 
@@ -270,8 +417,8 @@ ${chalk.cyan('Explore Your Code:')}
   ${chalk.white('$')} consuela impact api.ts   ${chalk.gray('# What breaks if I change this?')}
   ${chalk.white('$')} consuela diagnose        ${chalk.gray('# Full health report')}
 
-${chalk.yellow('AI Features')} ${chalk.gray('(free Gemini API key):')}
-  ${chalk.white('$')} consuela config          ${chalk.gray('# Set up API key')}
+${chalk.yellow('AI Features')} ${chalk.gray('(Gemini, OpenAI-compatible or Ollama):')}
+  ${chalk.white('$')} consuela config          ${chalk.gray('# Choose an AI provider')}
   ${chalk.white('$')} consuela fix --deep      ${chalk.gray('# AI cleans up large files')}
   ${chalk.white('$')} consuela fix --all       ${chalk.gray('# AI restructures codebase')}
 
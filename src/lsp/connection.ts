@@ -0,0 +1,124 @@
+import type { Readable, Writable } from 'node:stream';
+
+/**
+ * JSON-RPC 2.0 over the LSP base protocol: every message is a JSON body
+ * preceded by a `Content-Length` header.
+ */
+
+export interface RpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Params are whatever the client sent: the protocol fixes their shape per
+ * method, so each handler names the type it expects
+ */
+type Handler<P = unknown> = (params: P) => unknown;
+
+export const RPC_ERRORS = {
+  parseError: -32700,
+  methodNotFound: -32601,
+  internalError: -32603,
+  serverNotInitialized: -32002,
+} as const;
+
+const HEADER_END = '\r\n\r\n';
+
+export class MessageConnection {
+  private readonly requestHandlers = new Map<string, Handler>();
+  private readonly notificationHandlers = new Map<string, Handler>();
+  private readonly input: Readable;
+  private readonly output: Writable;
+  private buffer = Buffer.alloc(0);
+
+  constructor(input: Readable, output: Writable) {
+    this.input = input;
+    this.output = output;
+  }
+
+  onRequest<P = unknown>(method: string, handler: Handler<P>): void {
+    this.requestHandlers.set(method, handler as Handler);
+  }
+
+  onNotification<P = unknown>(method: string, handler: Handler<P>): void {
+    this.notificationHandlers.set(method, handler as Handler);
+  }
+
+  sendNotification(method: string, params: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  listen(): void {
+    this.input.on('data', (chunk: Buffer | string) => {
+      this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_END);
+      if (headerEnd === -1) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const length = Number(header.match(/Content-Length:\s*(\d+)/i)?.[1]);
+      const bodyStart = headerEnd + HEADER_END.length;
+      if (Number.isNaN(length)) {
+        // Unusable header: skip it and resync on the next one
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+      if (this.buffer.length < bodyStart + length) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString('utf-8');
+      this.buffer = this.buffer.subarray(bodyStart + length);
+
+      let message: RpcMessage;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        this.write({ jsonrpc: '2.0', id: null, error: { code: RPC_ERRORS.parseError, message: 'Invalid JSON' } });
+        continue;
+      }
+      void this.dispatch(message);
+    }
+  }
+
+  private async dispatch(message: RpcMessage): Promise<void> {
+    if (!message.method) return; // Responses to server-initiated requests are not used
+
+    const isRequest = message.id !== undefined && message.id !== null;
+    if (!isRequest) {
+      try {
+        await this.notificationHandlers.get(message.method)?.(message.params);
+      } catch {
+        // Notifications have no way to report failure back
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.write({ jsonrpc: '2.0', id: message.id, error: { code: RPC_ERRORS.methodNotFound, message: `Unhandled method ${message.method}` } });
+      return;
+    }
+
+    try {
+      const result = await handler(message.params);
+      this.write({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+    } catch (error) {
+      const code = (error as { code?: number }).code ?? RPC_ERRORS.internalError;
+      this.write({ jsonrpc: '2.0', id: message.id, error: { code, message: error instanceof Error ? error.message : String(error) } });
+    }
+  }
+
+  private write(message: RpcMessage): void {
+    const body = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}${HEADER_END}${body}`);
+  }
+}
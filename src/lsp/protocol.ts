@@ -0,0 +1,104 @@
+/**
+ * The subset of Language Server Protocol types the server uses.
+ * Lines and characters are zero-based, as in the protocol.
+ */
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export const DiagnosticSeverity = { Error: 1, Warning: 2, Information: 3, Hint: 4 } as const;
+export const DiagnosticTag = { Unnecessary: 1 } as const;
+
+export interface Diagnostic {
+  range: Range;
+  severity: number;
+  source: 'consuela';
+  code: string;
+  message: string;
+  tags?: number[];
+  /** Export name for unused-export diagnostics, read back by code actions */
+  data?: { symbol: string };
+}
+
+export interface Command {
+  title: string;
+  command: string;
+  arguments?: unknown[];
+}
+
+export interface CodeLens {
+  range: Range;
+  command: Command;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface WorkspaceEdit {
+  changes: Record<string, TextEdit[]>;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: Diagnostic[];
+  isPreferred?: boolean;
+  edit: WorkspaceEdit;
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: { uri: string };
+  position: Position;
+}
+
+export interface ReferenceParams extends TextDocumentPositionParams {
+  context: { includeDeclaration: boolean };
+}
+
+export interface CodeActionParams {
+  textDocument: { uri: string };
+  range: Range;
+  context: { diagnostics: Diagnostic[] };
+}
+
+export interface InitializeParams {
+  rootUri?: string | null;
+  rootPath?: string | null;
+  workspaceFolders?: Array<{ uri: string }> | null;
+}
+
+export interface TextDocumentIdentifier {
+  uri: string;
+}
+
+export interface DidOpenTextDocumentParams {
+  textDocument: TextDocumentIdentifier & { text: string };
+}
+
+/** Full sync: every change carries the whole document */
+export interface DidChangeTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+  contentChanges: Array<{ text: string }>;
+}
+
+export interface TextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface DidChangeWatchedFilesParams {
+  changes: Array<{ uri: string }>;
+}
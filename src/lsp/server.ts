@@ -0,0 +1,319 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { Readable, Writable } from 'node:stream';
+import type { SymbolTrace } from '../core/index.js';
+import { startWatchSession, type WatchSession } from '../commands/watch.js';
+import { isUsedInternally } from '../refactor/operations/cleanup-analysis.js';
+import { removeExportKeywordsFromFile, removeExportsFromFile } from '../refactor/operations/cleanup.js';
+import { MessageConnection } from './connection.js';
+import {
+  DiagnosticSeverity, DiagnosticTag,
+  type CodeAction, type CodeActionParams, type CodeLens, type Diagnostic, type DidChangeTextDocumentParams,
+  type DidChangeWatchedFilesParams, type DidOpenTextDocumentParams, type InitializeParams, type Location, type Position,
+  type Range, type ReferenceParams, type TextDocumentParams,
+} from './protocol.js';
+
+/**
+ * Language server over a WatchSession: diagnostics for unused exports and
+ * circular imports, usage-count code lenses, references from symbol traces
+ * and quick fixes that run cleanup's export removal on a single symbol.
+ *
+ * Analysis follows files on disk, so results refresh when a file is saved.
+ */
+
+export interface LanguageServerOptions {
+  /** Called on the `exit` notification: 0 after a shutdown request, 1 otherwise */
+  onExit?: (code: number) => void;
+}
+
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+export class ConsuelaLanguageServer {
+  private readonly connection: MessageConnection;
+  private readonly options: LanguageServerOptions;
+  private rootDir = process.cwd();
+  private session: WatchSession | null = null;
+  /** Analyses run one after another; requests wait for the latest */
+  private ready: Promise<void> = Promise.resolve();
+  /** Editor contents of open documents, by URI */
+  private readonly documents = new Map<string, string>();
+  /** URIs that currently have diagnostics, so they can be cleared */
+  private published = new Set<string>();
+  private shutdownRequested = false;
+
+  constructor(input: Readable, output: Writable, options: LanguageServerOptions = {}) {
+    this.connection = new MessageConnection(input, output);
+    this.options = options;
+
+    this.connection.onRequest('initialize', (params: InitializeParams) => this.initialize(params));
+    this.connection.onNotification('initialized', () => {
+      this.schedule(async () => {
+        this.session = await startWatchSession(this.rootDir);
+      });
+    });
+    this.connection.onRequest('shutdown', async () => {
+      this.shutdownRequested = true;
+      await this.ready;
+      return null;
+    });
+    this.connection.onNotification('exit', () => this.options.onExit?.(this.shutdownRequested ? 0 : 1));
+
+    this.connection.onNotification('textDocument/didOpen', (params: DidOpenTextDocumentParams) => {
+      this.documents.set(params.textDocument.uri, params.textDocument.text);
+    });
+    this.connection.onNotification('textDocument/didChange', (params: DidChangeTextDocumentParams) => {
+      const last = params.contentChanges[params.contentChanges.length - 1];
+      if (last) this.documents.set(params.textDocument.uri, last.text);
+    });
+    this.connection.onNotification('textDocument/didClose', (params: TextDocumentParams) => {
+      this.documents.delete(params.textDocument.uri);
+    });
+    this.connection.onNotification('textDocument/didSave', (params: TextDocumentParams) => {
+      this.update([this.toFile(params.textDocument.uri)]);
+    });
+    this.connection.onNotification('workspace/didChangeWatchedFiles', (params: DidChangeWatchedFilesParams) => {
+      this.update(params.changes.map(change => this.toFile(change.uri)));
+    });
+
+    this.connection.onRequest('textDocument/codeLens', async (params: TextDocumentParams) => {
+      await this.ready;
+      return this.getCodeLenses(params.textDocument.uri);
+    });
+    this.connection.onRequest('textDocument/references', async (params: ReferenceParams) => {
+      await this.ready;
+      return this.getReferences(params);
+    });
+    this.connection.onRequest('textDocument/codeAction', async (params: CodeActionParams) => {
+      await this.ready;
+      return this.getCodeActions(params);
+    });
+  }
+
+  listen(): void {
+    this.connection.listen();
+  }
+
+  private initialize(params: InitializeParams) {
+    const rootUri = params.rootUri ?? params.workspaceFolders?.[0]?.uri;
+    if (rootUri) this.rootDir = fileURLToPath(rootUri);
+    else if (params.rootPath) this.rootDir = params.rootPath;
+
+    return {
+      capabilities: {
+        textDocumentSync: { openClose: true, change: TEXT_DOCUMENT_SYNC_FULL, save: true },
+        codeLensProvider: { resolveProvider: false },
+        referencesProvider: true,
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+      },
+      serverInfo: { name: 'consuela', version: '1.0.0' },
+    };
+  }
+
+  /** Queue an analysis step, then publish what it found */
+  private schedule(task: () => Promise<void>): void {
+    this.ready = this.ready
+      .then(task)
+      .then(() => this.publishDiagnostics())
+      .catch(error => {
+        this.connection.sendNotification('window/logMessage', { type: 1, message: `Consuela: ${error}` });
+      });
+  }
+
+  private update(files: string[]): void {
+    this.schedule(async () => {
+      await this.session?.update(files);
+    });
+  }
+
+  private publishDiagnostics(): void {
+    if (!this.session) return;
+
+    const byUri = new Map<string, Diagnostic[]>();
+    const add = (file: string, diagnostic: Diagnostic) => {
+      const uri = this.toUri(file);
+      byUri.set(uri, [...(byUri.get(uri) || []), diagnostic]);
+    };
+
+    for (const problem of this.session.problems) {
+      if (problem.rule !== 'unused-export' || !problem.file || !problem.line || !problem.symbol) continue;
+      add(problem.file, {
+        range: this.findRange(problem.file, problem.line, problem.symbol),
+        severity: DiagnosticSeverity.Warning,
+        source: 'consuela',
+        code: problem.rule,
+        message: problem.message,
+        tags: [DiagnosticTag.Unnecessary],
+        data: { symbol: problem.symbol },
+      });
+    }
+
+    // Every import along a cycle gets a diagnostic, reading the cycle from that file
+    const { analysis } = this.session;
+    for (const cycle of analysis.circularDependencies) {
+      cycle.forEach((file, i) => {
+        const next = cycle[(i + 1) % cycle.length];
+        const chain = [...cycle.slice(i), ...cycle.slice(0, i), file];
+        const lines = new Set<number>();
+        for (const imp of analysis.files.get(file)?.imports || []) {
+          if (imp.resolvedPath !== next || lines.has(imp.line)) continue;
+          lines.add(imp.line);
+          add(file, {
+            range: this.findRange(file, imp.line, imp.source),
+            severity: DiagnosticSeverity.Warning,
+            source: 'consuela',
+            code: 'circular-dependency',
+            message: `Circular import: ${chain.join(' → ')}`,
+          });
+        }
+      });
+    }
+
+    for (const uri of this.published) {
+      if (!byUri.has(uri)) this.connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+    }
+    for (const [uri, diagnostics] of byUri) {
+      this.connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics });
+    }
+    this.published = new Set(byUri.keys());
+  }
+
+  private getCodeLenses(uri: string): CodeLens[] {
+    if (!this.session) return [];
+
+    const { analysis } = this.session;
+    const file = this.toFile(uri);
+    const lenses: CodeLens[] = [];
+    for (const exp of analysis.files.get(file)?.exports || []) {
+      const trace = analysis.symbolTraces.get(`${file}:${exp.name}`);
+      if (!trace || exp.isReExport || exp.name === '*') continue;
+
+      const range = this.findRange(file, exp.line, exp.name);
+      const usages = `${trace.usageCount} usage${trace.usageCount === 1 ? '' : 's'}`;
+      const dependents = trace.dependents.length > 0 ? `, ${trace.dependents.length} dependent file${trace.dependents.length === 1 ? '' : 's'}` : '';
+      lenses.push({ range, command: { title: usages + dependents, command: 'consuela.showReferences', arguments: [uri, range.start] } });
+    }
+    return lenses;
+  }
+
+  private getReferences(params: ReferenceParams): Location[] {
+    const file = this.toFile(params.textDocument.uri);
+    const word = this.getWordAt(params.textDocument.uri, params.position);
+    const trace = word ? this.findTrace(file, word) : undefined;
+    if (!trace) return [];
+
+    const aliases = new Map(trace.importedBy.filter(i => i.alias).map(i => [i.file, i.alias!]));
+    const locations = new Map<string, Location>();
+    const add = (target: string, line: number) => {
+      const key = `${target}:${line}`;
+      if (locations.has(key)) return;
+      locations.set(key, { uri: this.toUri(target), range: this.findRange(target, line, aliases.get(target) ?? trace.symbol.name) });
+    };
+
+    if (params.context.includeDeclaration) add(trace.symbol.filePath, trace.symbol.line);
+    for (const imp of trace.importedBy) add(imp.file, imp.line);
+    for (const usage of trace.usages) add(usage.filePath, usage.line);
+    return Array.from(locations.values());
+  }
+
+  /** The export declared in this file, or the one an import in this file brings in */
+  private findTrace(file: string, name: string): SymbolTrace | undefined {
+    if (!this.session) return undefined;
+    const { analysis } = this.session;
+    const local = analysis.symbolTraces.get(`${file}:${name}`);
+    if (local) return local;
+
+    const imported = analysis.files.get(file)?.localSymbols.get(name);
+    return imported ? analysis.symbolTraces.get(`${imported.source}:${imported.originalName}`) : undefined;
+  }
+
+  private async getCodeActions(params: CodeActionParams): Promise<CodeAction[]> {
+    if (!this.session) return [];
+
+    const { analysis } = this.session;
+    const uri = params.textDocument.uri;
+    const file = this.toFile(uri);
+    const absolutePath = path.join(this.rootDir, file);
+    if (!fs.existsSync(absolutePath)) return [];
+
+    // Fixes are computed from the saved file, so they would not apply to unsaved edits
+    const content = fs.readFileSync(absolutePath, 'utf-8');
+    if (this.documents.has(uri) && this.documents.get(uri) !== content) return [];
+
+    const actions: CodeAction[] = [];
+    for (const diagnostic of params.context.diagnostics) {
+      if (diagnostic.source !== 'consuela' || diagnostic.code !== 'unused-export' || !diagnostic.data) continue;
+
+      const name = diagnostic.data.symbol;
+      const trace = analysis.symbolTraces.get(`${file}:${name}`);
+      // Imported (if unused) or re-exported symbols would break other files, which cleanup handles as a whole
+      if (!trace || trace.importedBy.length > 0) continue;
+      if ((analysis.exports.get(name) || []).some(e => e.isReExport && e.originalSource === file)) continue;
+
+      const unused = { export: trace.symbol, reason: 'Never imported or used' };
+      const edit = (change: { originalContent: string; newContent: string }) => ({
+        changes: { [uri]: [{ range: getFullRange(change.originalContent), newText: change.newContent }] },
+      });
+
+      // Deleting is only safe when nothing in the file refers to the symbol; un-exporting always is
+      const usedInternally = isUsedInternally(name, trace.symbol.kind, content);
+      const removal = usedInternally ? null : await removeExportsFromFile(absolutePath, file, [unused], analysis);
+      if (removal) {
+        actions.push({ title: `Remove unused export ${name}`, kind: 'quickfix', diagnostics: [diagnostic], isPreferred: true, edit: edit(removal) });
+      }
+      const unexport = await removeExportKeywordsFromFile(absolutePath, file, [unused]);
+      if (unexport) {
+        actions.push({ title: `Remove export keyword from ${name}`, kind: 'quickfix', diagnostics: [diagnostic], isPreferred: !removal, edit: edit(unexport) });
+      }
+    }
+    return actions;
+  }
+
+  /** Range of `name` on a one-based line of a file on disk, or the whole line when it does not appear */
+  private findRange(file: string, line: number, name: string): Range {
+    let text = '';
+    try {
+      text = fs.readFileSync(path.join(this.rootDir, file), 'utf-8').split('\n')[line - 1] ?? '';
+    } catch {
+      // Deleted since the analysis ran
+    }
+    const match = new RegExp(`(?<![\\w$])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w$])`).exec(text);
+    const start = match ? match.index : 0;
+    const end = match ? start + name.length : text.length;
+    return { start: { line: line - 1, character: start }, end: { line: line - 1, character: end } };
+  }
+
+  private getWordAt(uri: string, position: Position): string | undefined {
+    let text = this.documents.get(uri);
+    if (text === undefined) {
+      try {
+        text = fs.readFileSync(fileURLToPath(uri), 'utf-8');
+      } catch {
+        return undefined;
+      }
+    }
+    const line = text.split('\n')[position.line] ?? '';
+    let start = position.character;
+    let end = position.character;
+    while (start > 0 && /[\w$]/.test(line[start - 1])) start--;
+    while (end < line.length && /[\w$]/.test(line[end])) end++;
+    return start < end ? line.slice(start, end) : undefined;
+  }
+
+  private toFile(uri: string): string {
+    return path.relative(this.rootDir, fileURLToPath(uri));
+  }
+
+  private toUri(file: string): string {
+    return pathToFileURL(path.join(this.rootDir, file)).href;
+  }
+}
+
+function getFullRange(content: string): Range {
+  const lines = content.split('\n');
+  return { start: { line: 0, character: 0 }, end: { line: lines.length - 1, character: lines[lines.length - 1].length } };
+}
+
+export function createLanguageServer(input: Readable, output: Writable, options?: LanguageServerOptions): ConsuelaLanguageServer {
+  return new ConsuelaLanguageServer(input, output, options);
+}
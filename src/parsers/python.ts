@@ -136,12 +136,23 @@ export class PythonParser implements LanguageParser {
     const usages: Usage[] = [];
     const lines = content.split('\n');
     const escapedName = this.escapeRegex(symbolName);
-    const identifierRegex = new RegExp(`\\b${escapedName}\\b`, 'g');
+    const identifierRegex = new RegExp(`\\b${escapedName}\\b`);
+    let inAllBlock = false;
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
       const lineNum = i + 1;
 
+      // Names listed in __all__ are export declarations, not usages
+      if (line.startsWith('__all__')) {
+        inAllBlock = !line.includes(']');
+        continue;
+      }
+      if (inAllBlock) {
+        inAllBlock = !line.includes(']');
+        continue;
+      }
+
       // Skip import lines and definition lines to find only real usages
       if (line.match(/^\s*(from|import)\s/)) continue;
       if (line.match(new RegExp(`^\\s*(def|class|async\\s+def)\\s+${escapedName}\\b`))) continue;
@@ -1,7 +1,7 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as ts from 'typescript';
-import { TextEdit } from './types.js';
+import type { ImportLocation, TextEdit } from './types.js';
 
 /**
  * Apply text edits to content, handling overlapping edits by applying in reverse order
@@ -99,3 +99,142 @@ export function calculateRelativeImport(fromFile: string, toFile: string): strin
 
   return relativePath;
 }
+
+// ============================================================================
+// Specifiers
+// ============================================================================
+
+/** tsconfig `paths`, resolved like the analyzer does: prefix → absolute target directories or files */
+export interface PathMappings {
+  configPath?: string;
+  /** Directory that `paths` targets are relative to */
+  baseDir: string;
+  aliases: Map<string, string[]>;
+}
+
+/** Read tsconfig `paths` the way the analyzer resolves them */
+export function loadPathMappings(rootDir: string): PathMappings {
+  const configPath = ts.findConfigFile(rootDir, ts.sys.fileExists, 'tsconfig.json');
+  const mappings: PathMappings = { configPath, baseDir: rootDir, aliases: new Map() };
+  if (!configPath || !isInside(configPath, rootDir)) return { ...mappings, configPath: undefined };
+
+  const compilerOptions = ts.readConfigFile(configPath, ts.sys.readFile).config?.compilerOptions;
+  if (compilerOptions?.baseUrl) {
+    mappings.baseDir = path.resolve(path.dirname(configPath), compilerOptions.baseUrl);
+  }
+  for (const [alias, targets] of Object.entries((compilerOptions?.paths ?? {}) as Record<string, string[]>)) {
+    mappings.aliases.set(
+      alias.replace(/\*$/, ''),
+      targets.map(target => path.resolve(mappings.baseDir, target.replace(/\*$/, '')))
+    );
+  }
+  return mappings;
+}
+
+/**
+ * The specifier `importer` should use for `target`, written in the style of
+ * `oldSource`: path aliases stay aliases while they can reach the target, and
+ * the extension (or its absence) and directory-index imports are kept.
+ */
+export function specifierFor(oldSource: string, importer: string, target: string, aliases: Map<string, string[]>): string {
+  if (!oldSource.startsWith('.')) {
+    for (const [prefix, targets] of aliases) {
+      if (!oldSource.startsWith(prefix)) continue;
+      const remainder = oldSource.slice(prefix.length);
+      if (targets.some(base => normalizeFilePath(path.join(base, remainder)) === normalizeFilePath(target))) {
+        return oldSource;
+      }
+    }
+    for (const [prefix, targets] of aliases) {
+      for (const base of targets) {
+        if (base === target) return prefix;
+        if (prefix.endsWith('/') && isInside(target, base)) {
+          return withSpecifierStyle(prefix + path.relative(base, target).split(path.sep).join('/'), oldSource, target);
+        }
+      }
+    }
+  }
+  return relativeSpecifier(importer, target, oldSource);
+}
+
+/** Relative specifier from `importer` to `target`, in the style of `example` when given */
+export function relativeSpecifier(importer: string, target: string, example?: string): string {
+  let specifier = path.relative(path.dirname(importer), target).split(path.sep).join('/');
+  if (!specifier.startsWith('.')) specifier = `./${specifier}`;
+  return withSpecifierStyle(specifier, example ?? './module.js', target);
+}
+
+/** Drop or swap the extension of `specifier` (which ends in the target's own extension) to match `example` */
+function withSpecifierStyle(specifier: string, example: string, target: string): string {
+  const targetExtension = path.extname(target);
+  const base = specifier.slice(0, specifier.length - targetExtension.length);
+  const exampleExtension = path.posix.extname(example);
+  if (exampleExtension === targetExtension) return specifier;
+  const knownExtension = /^\.([cm]?[jt]sx?|json)$/.test(exampleExtension) ? exampleExtension : '';
+
+  if (!knownExtension) {
+    // './utils' meant './utils/index.ts'
+    const pointsAtIndex = path.posix.basename(example) !== 'index' && path.basename(base) === 'index';
+    return pointsAtIndex ? base.replace(/\/index$/, '') : base;
+  }
+  if (/^\.[cm]?jsx?$/.test(knownExtension) && /^\.[cm]?tsx?$/.test(targetExtension)) {
+    return base + knownExtension;
+  }
+  return base + targetExtension;
+}
+
+/** Quote character an import or re-export uses for its specifier */
+export function quoteOf(location: ImportLocation): string {
+  return location.originalText.includes(`"${location.source}"`) ? '"' : "'";
+}
+
+export function isInside(file: string, directory: string): boolean {
+  const relative = path.relative(directory, file);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/** Project-relative path with forward slashes */
+export function toProjectPath(rootDir: string, file: string): string {
+  return path.relative(rootDir, path.resolve(rootDir, file)).split(path.sep).join('/');
+}
+
+// ============================================================================
+// Declarations
+// ============================================================================
+
+/** Names a top-level statement declares */
+export function declaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap(declaration => bindingNames(declaration.name));
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) &&
+    statement.name && ts.isIdentifier(statement.name)
+  ) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+export function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+}
+
+/** Identifiers that name a member or property rather than a binding */
+export function isMemberName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isQualifiedName(parent) && parent.right === node) ||
+    (ts.isPropertyAssignment(parent) && parent.name === node) ||
+    (ts.isPropertySignature(parent) && parent.name === node) ||
+    (ts.isPropertyDeclaration(parent) && parent.name === node) ||
+    (ts.isMethodDeclaration(parent) && parent.name === node) ||
+    (ts.isMethodSignature(parent) && parent.name === node) ||
+    ((ts.isGetAccessorDeclaration(parent) || ts.isSetAccessorDeclaration(parent)) && parent.name === node) ||
+    (ts.isEnumMember(parent) && parent.name === node) ||
+    (ts.isBindingElement(parent) && parent.propertyName === node) ||
+    (ts.isJsxAttribute(parent) && parent.name === node) ||
+    ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent);
+}
@@ -43,7 +43,8 @@ export { calculateRelativeImport };
  */
 async function findSourceFiles(
   rootDir: string,
-  ignore: string[] = []
+  ignore: string[] = [],
+  includeTests = false
 ): Promise<string[]> {
   const defaultIgnore = [
     '**/node_modules/**',
@@ -51,13 +52,11 @@ async function findSourceFiles(
     '**/build/**',
     '**/*.d.ts',
     '**/coverage/**',
-    '**/__tests__/**',
-    '**/*.test.*',
-    '**/*.spec.*',
     '**/fixtures/**',
-    '**/test/**',
-    '**/tests/**',
   ];
+  if (!includeTests) {
+    defaultIgnore.push('**/__tests__/**', '**/*.test.*', '**/*.spec.*', '**/test/**', '**/tests/**');
+  }
 
   const files = await glob('**/*.{ts,tsx,js,jsx,mjs}', {
     cwd: rootDir,
@@ -130,7 +129,7 @@ function resolveImportPath(
 /**
  * Find all imports in a file
  */
-function findImportsInFile(
+export function findImportsInFile(
   filePath: string,
   content: string,
   config: ImportRewriterConfig
@@ -385,14 +384,16 @@ function parseDynamicImport(
 /**
  * Apply import changes to a single file's content.
  * Handles multiple changes by sorting them in reverse order to preserve positions.
+ * `extraEdits` (e.g. renamed usages) are applied in the same pass, against the same content.
  */
-function applyImportChangesToFile(
+export function applyImportChangesToFile(
   content: string,
   changes: ImportChange[],
-  config: ImportRewriterConfig
+  config: ImportRewriterConfig,
+  extraEdits: TextEdit[] = []
 ): string {
   // Convert changes to text edits
-  const edits: TextEdit[] = [];
+  const edits: TextEdit[] = [...extraEdits];
 
   for (const change of changes) {
     if (change.newSource === null) {
@@ -455,17 +456,12 @@ function rewriteImportText(change: ImportChange, config: ImportRewriterConfig):
       }
 
       // Handle symbol changes in named imports/exports
-      if (ts.isImportDeclaration(node) && node.importClause?.namedBindings) {
-        if (ts.isNamedImports(node.importClause.namedBindings)) {
-          const newSymbols = processSymbolChanges(
-            node.importClause.namedBindings,
-            symbolChanges,
-            sourceFile
-          );
-          if (newSymbols !== null) {
-            const oldBindings = node.importClause.namedBindings.getText(sourceFile);
-            newText = newText.replace(oldBindings, newSymbols);
-          }
+      const namedBindings = ts.isImportDeclaration(node) ? node.importClause?.namedBindings : node.exportClause;
+      if (namedBindings && (ts.isNamedImports(namedBindings) || ts.isNamedExports(namedBindings))) {
+        const newSymbols = processSymbolChanges(namedBindings, symbolChanges, sourceFile);
+        if (newSymbols !== null) {
+          const oldBindings = namedBindings.getText(sourceFile);
+          newText = newText.replace(oldBindings, newSymbols);
         }
       }
     }
@@ -475,10 +471,10 @@ function rewriteImportText(change: ImportChange, config: ImportRewriterConfig):
 }
 
 /**
- * Process symbol changes for named imports
+ * Process symbol changes for named imports and re-exports
  */
 function processSymbolChanges(
-  namedBindings: ts.NamedImports,
+  namedBindings: ts.NamedImports | ts.NamedExports,
   changes: Array<{ oldName: string; newName: string | null; newSource?: string }>,
   sourceFile: ts.SourceFile
 ): string | null {
@@ -498,12 +494,13 @@ function processSymbolChanges(
 
       // Rename the symbol
       if (change.newName !== originalName) {
-        if (localName !== originalName) {
+        const typePrefix = element.isTypeOnly ? 'type ' : '';
+        if (localName !== originalName && localName !== change.newName) {
           // Was already aliased: import { oldName as alias } -> import { newName as alias }
-          newElements.push(`${change.newName} as ${localName}`);
+          newElements.push(`${typePrefix}${change.newName} as ${localName}`);
         } else {
           // Not aliased: import { oldName } -> import { newName }
-          newElements.push(change.newName);
+          newElements.push(`${typePrefix}${change.newName}`);
         }
       } else {
         // Keep as-is
@@ -529,7 +526,7 @@ export async function findFilesImporting(
   sourceFiles: string[],
   config: ImportRewriterConfig
 ): Promise<Map<string, ImportLocation[]>> {
-  const allFiles = await findSourceFiles(config.rootDir, config.ignore);
+  const allFiles = await findSourceFiles(config.rootDir, config.ignore, config.includeTests);
   const result = new Map<string, ImportLocation[]>();
 
   // Normalize source files to absolute paths
@@ -613,7 +610,7 @@ export async function findImportUpdatesForMoves(
   }
 
   // Find all source files that might have imports to update
-  const allFiles = await findSourceFiles(config.rootDir, config.ignore);
+  const allFiles = await findSourceFiles(config.rootDir, config.ignore, config.includeTests);
 
   // Get paths that are being moved (we need to update their internal imports too)
   const movedFilePaths = new Set(moves.map(m =>
@@ -12,15 +12,15 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { execSync } from 'node:child_process';
-import { createConfiguredAnalyzer, createGeminiClient } from '../../core/index.js';
+import { createConfiguredAnalyzer, createAIProvider } from '../../core/index.js';
 import { createGraphAnalyzer } from '../../graph/index.js';
 import { cleanup } from './cleanup.js';
 import { mergeFiles } from './merge.js';
 import { splitFile, parseSourceFile, type SplitResult } from './split.js';
-import { hasGlobalApiKey, getGlobalApiKey } from '../../commands/config.js';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { hasGlobalAIProvider, getGlobalAIConfig } from '../../commands/config.js';
 import type { AutoFixOptions, FixAction } from '../types.js';
 import { countLinesChanged, getCodebaseStats, diagnoseCodebase } from './diagnostics.js';
+import { runBuildVerification } from './build-verification.js';
 
 export interface AutoFixResult {
   success: boolean;
@@ -162,65 +162,6 @@ function gitRollback(): boolean {
   }
 }
 
-// ============================================================================
-// Build Verification
-// ============================================================================
-
-/**
- * Run the build command and check if it succeeds
- */
-function runBuildVerification(): { success: boolean; error?: string } {
-  const rootDir = process.cwd();
-
-  // Check for package.json to determine build command
-  const packageJsonPath = path.join(rootDir, 'package.json');
-  if (!fs.existsSync(packageJsonPath)) {
-    // No package.json, try tsc directly
-    try {
-      execSync('npx tsc --noEmit', { cwd: rootDir, stdio: 'pipe' });
-      return { success: true };
-    } catch (error) {
-      const message = error instanceof Error && 'stderr' in error
-        ? String((error as { stderr?: unknown }).stderr)
-        : 'TypeScript compilation failed';
-      return { success: false, error: message };
-    }
-  }
-
-  try {
-    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-    const scripts = packageJson.scripts || {};
-
-    // Prefer a type-check only command to avoid full build
-    let buildCommand = 'npm run build';
-    if (scripts['typecheck']) {
-      buildCommand = 'npm run typecheck';
-    } else if (scripts['type-check']) {
-      buildCommand = 'npm run type-check';
-    } else if (scripts['build']) {
-      buildCommand = 'npm run build';
-    } else {
-      // No build script, try tsc directly
-      buildCommand = 'npx tsc --noEmit';
-    }
-
-    execSync(buildCommand, { cwd: rootDir, stdio: 'pipe' });
-    return { success: true };
-  } catch (error) {
-    // TypeScript outputs errors to stdout, npm scripts may use stderr
-    let message = 'Build failed';
-    if (error instanceof Error) {
-      const execError = error as { stdout?: Buffer; stderr?: Buffer };
-      if (execError.stdout && execError.stdout.length > 0) {
-        message = execError.stdout.toString();
-      } else if (execError.stderr && execError.stderr.length > 0) {
-        message = execError.stderr.toString();
-      }
-    }
-    return { success: false, error: message };
-  }
-}
-
 /**
  * Main auto-fix function - the autonomous refactoring agent
  */
@@ -539,7 +480,7 @@ async function decideNextAction(
       return bLines - aLines;
     });
 
-  if (options.aggressive && largeFiles.length > 0 && hasGlobalApiKey()) {
+  if (options.aggressive && largeFiles.length > 0 && hasGlobalAIProvider()) {
     for (const problem of largeFiles) {
       if (!problem.file) continue;
 
@@ -651,7 +592,7 @@ async function decideNextAction(
   }
 
   // If we have AI configured, ask it for suggestions with graph context
-  if (hasGlobalApiKey() && diagnosis.problems.length > 0) {
+  if (hasGlobalAIProvider() && diagnosis.problems.length > 0) {
     try {
       const aiAction = await getAIDecision(diagnosis, previousActions);
       if (aiAction) return aiAction;
@@ -676,11 +617,10 @@ async function getAIDecision(
   diagnosis: DiagnosisResult,
   previousActions: FixAction[]
 ): Promise<FixAction | null> {
-  const apiKey = getGlobalApiKey();
-  if (!apiKey) return null;
+  const aiConfig = getGlobalAIConfig();
+  if (!aiConfig) return null;
 
-  const genai = new GoogleGenerativeAI(apiKey);
-  const model = genai.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+  const ai = createAIProvider(aiConfig);
 
   // Build graph insights section
   let graphSection = '';
@@ -735,9 +675,7 @@ Respond with JSON only:
 }`;
 
   try {
-    const response = await model.generateContent(prompt);
-    const result = response.response;
-    const text = result.text()?.trim() || '';
+    const text = (await ai.generateText(prompt)).trim();
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     if (!jsonMatch) return null;
 
@@ -869,8 +807,8 @@ async function applyActionWithTracking(
             console.log(`  Semantic suggests: ${action.details.suggestedFileName} (${action.details.groupName})`);
           }
         } else if (functions && functions.length > 0) {
-          const apiKey = getGlobalApiKey();
-          if (apiKey) {
+          const aiConfig = getGlobalAIConfig();
+          if (aiConfig) {
             try {
               // Get function contents for context
               const parsed = parseSourceFile(sourcePath, sourceContent);
@@ -879,8 +817,8 @@ async function applyActionWithTracking(
                 return func?.content || '';
               });
 
-              const gemini = createGeminiClient(apiKey);
-              const suggestedName = await gemini.suggestFileName(
+              const ai = createAIProvider(aiConfig);
+              const suggestedName = await ai.suggestFileName(
                 functions,
                 action.target,
                 functionContents
@@ -889,7 +827,7 @@ async function applyActionWithTracking(
               targetName = path.join(sourceDir, suggestedName);
 
               if (options.verbose) {
-                console.log(`  Gemini suggests: ${suggestedName}`);
+                console.log(`  AI suggests: ${suggestedName}`);
               }
             } catch {
               // Fallback to simple naming
@@ -1018,13 +956,13 @@ async function applyActionWithTracking(
           };
         }
 
-        // Validate the rewrite with Gemini if API key available
+        // Validate the rewrite with AI if a provider is configured
         if (result.extractedFunctions.length > 0) {
-          const apiKey = getGlobalApiKey();
-          if (apiKey && result.preview) {
+          const aiConfig = getGlobalAIConfig();
+          if (aiConfig && result.preview) {
             try {
-              const gemini = createGeminiClient(apiKey);
-              const validation = await gemini.validateRewrite(
+              const ai = createAIProvider(aiConfig);
+              const validation = await ai.validateRewrite(
                 sourceContent,
                 result.preview.sourceContent,
                 { filePath: action.target, operation: 'split' }
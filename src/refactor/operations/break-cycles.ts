@@ -0,0 +1,701 @@
+/**
+ * Break-cycles operation - Cut circular imports with the fewest, cheapest edits
+ *
+ * 1. Finds the tangles (strongly connected components) of the runtime import graph
+ * 2. Picks a minimal set of imports whose removal leaves no cycle, cutting
+ *    imports with cheap remedies before expensive ones
+ * 3. Per cut import, tries in order:
+ *    - import-type: only types are used, so `import type` drops the runtime edge
+ *    - split: move the used functions into a new module (via splitFile)
+ *    - invert: move the used declarations into the importer, when nothing else uses them
+ * 4. Checks every remedy against a simulated import graph before planning it
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { createConfiguredAnalyzer, findCycles, findCyclicComponents, type ProjectAnalysis } from '../../core/index.js';
+import { applyTextEdits, calculateRelativeImport, getScriptKind } from '../import-rewriter.helpers.js';
+import type { TextEdit } from '../types.js';
+import { runBuildVerification, summarizeBuildError } from './build-verification.js';
+import { parseSourceFile, splitFile } from './split.js';
+
+export type CycleRemedy = 'import-type' | 'split' | 'invert';
+
+/** One import picked to be cut */
+export interface CycleBreak {
+  /** Importing file */
+  from: string;
+  /** Imported file */
+  to: string;
+  /** Names `from` imports from `to` */
+  symbols: string[];
+  /** How the import is cut; missing when no remedy is safe */
+  remedy?: CycleRemedy;
+  /** Module created by a split */
+  newFile?: string;
+  /** Why no remedy applies */
+  reason?: string;
+}
+
+export interface CycleFixPlan {
+  /** Files of each tangle, sorted */
+  components: string[][];
+  breaks: CycleBreak[];
+  /** Runtime import cycles before and after the planned edits */
+  cyclesBefore: number;
+  cyclesAfter: number;
+  /** New contents by file; `original` is null for created files */
+  changes: Map<string, { original: string | null; content: string }>;
+}
+
+export interface ApplyCycleBreaksOptions {
+  /** Run the build after writing and roll back if it fails. Default: true */
+  verify?: boolean;
+}
+
+export interface ApplyCycleBreaksResult {
+  success: boolean;
+  filesModified: string[];
+  /** Whether the build passed (unset when not verified) */
+  buildPassed?: boolean;
+  error?: string;
+}
+
+/** Remedy cost used to pick which imports to cut; unfixable imports are kept if at all possible */
+const COST = { 'import-type': 1, move: 2, none: 100 } as const;
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** Static import declarations of a file, resolved to project files */
+interface StaticImport {
+  node: ts.ImportDeclaration;
+  target: string;
+  typeOnly: boolean;
+  /** Local binding → imported name ('default' or '*' for default and namespace imports) */
+  bindings: Map<string, string>;
+}
+
+/** Edits planned so far, on top of the files on disk */
+class Overlay {
+  readonly changes = new Map<string, { original: string | null; content: string }>();
+
+  constructor(private readonly rootDir: string) {}
+
+  read(file: string): string {
+    const change = this.changes.get(file);
+    if (change) return change.content;
+    return fs.readFileSync(path.join(this.rootDir, file), 'utf-8');
+  }
+
+  touches(files: string[]): boolean {
+    return files.some(file => this.changes.has(file));
+  }
+
+  apply(updates: Map<string, string>): void {
+    for (const [file, content] of updates) {
+      const existing = this.changes.get(file);
+      const absolute = path.join(this.rootDir, file);
+      const original = existing ? existing.original : fs.existsSync(absolute) ? fs.readFileSync(absolute, 'utf-8') : null;
+      this.changes.set(file, { original, content });
+    }
+  }
+}
+
+/** Project files and how import specifiers resolve to them */
+class ModuleIndex {
+  constructor(
+    readonly files: Set<string>,
+    /** Specifier resolutions from the analysis (path aliases, workspace packages) by importing file */
+    private readonly resolved: Map<string, Map<string, string>>
+  ) {}
+
+  static fromAnalysis(analysis: ProjectAnalysis): ModuleIndex {
+    const resolved = new Map<string, Map<string, string>>();
+    for (const [file, info] of analysis.files) {
+      const bySpecifier = new Map<string, string>();
+      for (const imp of info.imports) {
+        if (imp.resolvedPath) bySpecifier.set(imp.source, imp.resolvedPath);
+      }
+      resolved.set(file, bySpecifier);
+    }
+    return new ModuleIndex(new Set(analysis.files.keys()), resolved);
+  }
+
+  /** The same index with extra (planned) files */
+  with(files: Iterable<string>): ModuleIndex {
+    return new ModuleIndex(new Set([...this.files, ...files]), this.resolved);
+  }
+
+  has(file: string): boolean {
+    return this.files.has(file);
+  }
+
+  resolve(fromFile: string, specifier: string): string | undefined {
+    if (!specifier.startsWith('.')) return this.resolved.get(fromFile)?.get(specifier);
+    const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+    const stem = base.replace(/\.[mc]?jsx?$/, '');
+    const candidates = [
+      base,
+      ...MODULE_EXTENSIONS.map(ext => stem + ext),
+      ...MODULE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+    ];
+    return candidates.find(candidate => this.files.has(candidate));
+  }
+}
+
+/**
+ * Plan the edits that break every import cycle, without writing anything
+ */
+export async function planCycleBreaks(): Promise<CycleFixPlan> {
+  const rootDir = process.cwd();
+  const analyzer = createConfiguredAnalyzer(rootDir);
+  const analysis = await analyzer.analyze();
+  const overlay = new Overlay(rootDir);
+  const modules = ModuleIndex.fromAnalysis(analysis);
+  const graphWith = (updates = new Map<string, string>()) => buildRuntimeGraph(analysis, overlay, modules, updates);
+
+  const graph = graphWith();
+  const reported = new Set(analysis.circularDependencies.flat());
+  const components = findCyclicComponents(graph).filter(members => members.some(file => reported.has(file)));
+  const cyclesBefore = findCycles(graph).length;
+
+  // Cost of cutting each import inside a tangle
+  const candidates: Array<{ from: string; to: string; cost: number }> = [];
+  for (const members of components) {
+    const inComponent = new Set(members);
+    for (const from of members) {
+      for (const to of graph.get(from) || []) {
+        if (inComponent.has(to)) candidates.push({ from, to, cost: estimateCost(analysis, overlay, modules, from, to) });
+      }
+    }
+  }
+
+  const breaks: CycleBreak[] = [];
+  for (const { from, to } of selectEdgesToCut(candidates)) {
+    const content = overlay.read(from);
+    const imports = collectStaticImports(from, content, modules).filter(imp => imp.target === to);
+    const symbols = [...new Set(imports.flatMap(imp => [...imp.bindings.values()]))].sort();
+    const cut: CycleBreak = { from, to, symbols };
+    const reasons: string[] = [];
+
+    const attempts: Array<[CycleRemedy, () => RemedyAttempt | Promise<RemedyAttempt>]> = [
+      ['import-type', () => planImportType(from, to, content, modules)],
+      ['split', () => planSplit(overlay, modules, from, to)],
+      ['invert', () => planInvert(analysis, overlay, modules, from, to, file => analyzer.isEntryPoint(file))],
+    ];
+    for (const [remedy, attempt] of attempts) {
+      const result = await attempt();
+      if ('reason' in result) {
+        reasons.push(`${remedy}: ${result.reason}`);
+        continue;
+      }
+
+      // The remedy must drop the import and must not start a cycle of its own
+      const before = graphWith();
+      const after = graphWith(result.updates);
+      const cyclic = new Set(findCyclicComponents(after).flat());
+      const startsCycle = [...after].some(([file, targets]) =>
+        [...targets].some(target => !before.get(file)?.has(target) && cyclic.has(file) && cyclic.has(target))
+      );
+      if (after.get(from)?.has(to)) {
+        reasons.push(`${remedy}: the import would remain`);
+      } else if (startsCycle) {
+        reasons.push(`${remedy}: would create another cycle`);
+      } else {
+        overlay.apply(result.updates);
+        cut.remedy = remedy;
+        cut.newFile = result.newFile;
+        break;
+      }
+    }
+
+    if (!cut.remedy) cut.reason = reasons.join('; ');
+    breaks.push(cut);
+  }
+
+  return {
+    components,
+    breaks,
+    cyclesBefore,
+    cyclesAfter: findCycles(graphWith()).length,
+    changes: overlay.changes,
+  };
+}
+
+/**
+ * Write a plan, then verify the build and roll back every file if it fails
+ */
+export function applyCycleBreaks(plan: CycleFixPlan, options: ApplyCycleBreaksOptions = {}): ApplyCycleBreaksResult {
+  const rootDir = process.cwd();
+  const filesModified = [...plan.changes.keys()].sort();
+  if (filesModified.length === 0) return { success: true, filesModified };
+
+  for (const [file, { content }] of plan.changes) {
+    const absolute = path.join(rootDir, file);
+    fs.mkdirSync(path.dirname(absolute), { recursive: true });
+    fs.writeFileSync(absolute, content);
+  }
+
+  if (options.verify === false) {
+    return { success: true, filesModified };
+  }
+
+  const build = runBuildVerification();
+  if (build.success) {
+    return { success: true, filesModified, buildPassed: true };
+  }
+
+  // Roll back to the contents before the fix
+  for (const [file, { original }] of plan.changes) {
+    const absolute = path.join(rootDir, file);
+    if (original === null) fs.rmSync(absolute, { force: true });
+    else fs.writeFileSync(absolute, original);
+  }
+  return {
+    success: false,
+    filesModified: [],
+    buildPassed: false,
+    error: `Build failed, changes rolled back: ${summarizeBuildError(build.error)}`,
+  };
+}
+
+// ============================================================================
+// Edge selection
+// ============================================================================
+
+/**
+ * Greedy minimal feedback edge set: keep the most expensive imports first and
+ * cut every import that would close a cycle among the kept ones. Each cut
+ * import closes a cycle with the final kept set, so none can be dropped from
+ * the cut set, which makes it minimal.
+ */
+function selectEdgesToCut<T extends { from: string; to: string; cost: number }>(candidates: T[]): T[] {
+  const ordered = [...candidates].sort((a, b) =>
+    b.cost - a.cost || a.from.localeCompare(b.from) || a.to.localeCompare(b.to)
+  );
+  const kept = new Map<string, Set<string>>();
+  const cut: T[] = [];
+
+  const reaches = (start: string, goal: string): boolean => {
+    const seen = new Set([start]);
+    const stack = [start];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node === goal) return true;
+      for (const next of kept.get(node) || []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    return false;
+  };
+
+  for (const edge of ordered) {
+    if (edge.from === edge.to || reaches(edge.to, edge.from)) {
+      cut.push(edge);
+      continue;
+    }
+    const targets = kept.get(edge.from) || new Set<string>();
+    targets.add(edge.to);
+    kept.set(edge.from, targets);
+  }
+
+  return cut.sort((a, b) => a.cost - b.cost || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+}
+
+function estimateCost(analysis: ProjectAnalysis, overlay: Overlay, modules: ModuleIndex, from: string, to: string): number {
+  const content = overlay.read(from);
+  const imports = collectStaticImports(from, content, modules).filter(imp => imp.target === to && !imp.typeOnly);
+  const dynamic = analysis.files.get(from)?.imports.some(imp => imp.isDynamic && imp.resolvedPath === to);
+  if (dynamic || imports.length === 0) return COST.none;
+
+  const sourceFile = parse(from, content);
+  const runtimeNames = runtimeBindings(sourceFile, imports);
+  if (runtimeNames.length === 0) return isTypeScript(from) ? COST['import-type'] : COST.none;
+
+  const declared = topLevelDeclarations(parse(to, overlay.read(to)));
+  return runtimeNames.every(name => declared.has(name)) ? COST.move : COST.none;
+}
+
+// ============================================================================
+// Runtime import graph
+// ============================================================================
+
+/**
+ * Import graph without type-only imports, with `updates` applied on top of the
+ * planned edits. Dynamic imports come from the analysis; static ones are read
+ * from the current contents.
+ */
+function buildRuntimeGraph(
+  analysis: ProjectAnalysis,
+  overlay: Overlay,
+  modules: ModuleIndex,
+  updates: Map<string, string>
+): Map<string, Set<string>> {
+  const known = modules.with([...overlay.changes.keys(), ...updates.keys()]);
+  const graph = new Map<string, Set<string>>();
+
+  for (const file of known.files) {
+    if (!analysis.files.has(file) && !overlay.changes.has(file) && !updates.has(file)) continue;
+    const content = updates.get(file) ?? overlay.read(file);
+    const targets = new Set(
+      collectStaticImports(file, content, known).filter(imp => !imp.typeOnly).map(imp => imp.target)
+    );
+    for (const imp of analysis.files.get(file)?.imports || []) {
+      if (imp.isDynamic && imp.resolvedPath) targets.add(imp.resolvedPath);
+    }
+    graph.set(file, targets);
+  }
+  return graph;
+}
+
+function parse(file: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, getScriptKind(file));
+}
+
+function isTypeScript(file: string): boolean {
+  return TS_EXTENSIONS.includes(path.extname(file)) && !file.endsWith('.d.ts');
+}
+
+function collectStaticImports(file: string, content: string, modules: ModuleIndex): StaticImport[] {
+  const imports: StaticImport[] = [];
+  for (const statement of parse(file, content).statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const target = modules.resolve(file, statement.moduleSpecifier.text);
+    if (!target) continue;
+
+    const clause = statement.importClause;
+    const bindings = new Map<string, string>();
+    if (clause?.name) bindings.set(clause.name.text, 'default');
+    const named = clause?.namedBindings;
+    if (named && ts.isNamespaceImport(named)) {
+      bindings.set(named.name.text, '*');
+    } else if (named) {
+      for (const element of named.elements) {
+        if (!element.isTypeOnly) bindings.set(element.name.text, (element.propertyName || element.name).text);
+      }
+    }
+
+    const typeOnly = !!clause && (clause.isTypeOnly || bindings.size === 0);
+    imports.push({ node: statement, target, typeOnly, bindings });
+  }
+  return imports;
+}
+
+/** Whether an identifier reference sits in a type position */
+function isTypePosition(identifier: ts.Identifier): boolean {
+  let node: ts.Node = identifier;
+  while (
+    (ts.isQualifiedName(node.parent) && node.parent.left === node) ||
+    (ts.isPropertyAccessExpression(node.parent) && node.parent.expression === node)
+  ) {
+    node = node.parent;
+  }
+
+  const parent = node.parent;
+  if (ts.isExpressionWithTypeArguments(parent)) {
+    const clause = parent.parent;
+    return ts.isHeritageClause(clause) &&
+      (clause.token === ts.SyntaxKind.ImplementsKeyword || ts.isInterfaceDeclaration(clause.parent));
+  }
+  return ts.isTypeNode(parent);
+}
+
+/** Local names from `imports` that are used as values somewhere in the file */
+function runtimeBindings(sourceFile: ts.SourceFile, imports: StaticImport[]): string[] {
+  const locals = new Set(imports.flatMap(imp => [...imp.bindings.keys()]));
+  const runtime = new Set<string>();
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node)) return;
+    if (ts.isIdentifier(node) && locals.has(node.text) && !isTypePosition(node)) {
+      const parent = node.parent;
+      const isMemberName = (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (ts.isPropertyAssignment(parent) && parent.name === node) || (ts.isQualifiedName(parent) && parent.right === node);
+      if (!isMemberName) runtime.add(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return [...runtime].map(local => imports.find(imp => imp.bindings.has(local))!.bindings.get(local)!);
+}
+
+/** Top-level function, variable and class declarations by name */
+function topLevelDeclarations(sourceFile: ts.SourceFile): Map<string, ts.Statement> {
+  const declarations = new Map<string, ts.Statement>();
+  for (const statement of sourceFile.statements) {
+    if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+      declarations.set(statement.name.text, statement);
+    } else if (ts.isVariableStatement(statement) && statement.declarationList.declarations.length === 1) {
+      const declaration = statement.declarationList.declarations[0];
+      if (ts.isIdentifier(declaration.name)) declarations.set(declaration.name.text, statement);
+    }
+  }
+  return declarations;
+}
+
+/** Identifiers a statement reads while the module loads, skipping function bodies */
+function collectEvaluated(node: ts.Node, target: Set<string>): void {
+  if (ts.isFunctionLike(node)) return;
+  if (ts.isIdentifier(node)) target.add(node.text);
+  ts.forEachChild(node, child => collectEvaluated(child, target));
+}
+
+// ============================================================================
+// Remedies
+// ============================================================================
+
+type RemedyAttempt = { updates: Map<string, string>; newFile?: string } | { reason: string };
+
+/**
+ * Rewrite imports of `to` as `import type` when the file only uses them as types
+ */
+function planImportType(from: string, to: string, content: string, modules: ModuleIndex): RemedyAttempt {
+  if (!isTypeScript(from)) return { reason: 'not a TypeScript file' };
+
+  const sourceFile = parse(from, content);
+  const imports = collectStaticImports(from, content, modules).filter(imp => imp.target === to && !imp.typeOnly);
+  if (imports.length === 0) return { reason: 'no static import to rewrite' };
+  const runtime = runtimeBindings(sourceFile, imports);
+  if (runtime.length > 0) return { reason: `${runtime.join(', ')} used as value(s)` };
+  if (imports.some(imp => !imp.node.importClause)) return { reason: 'side-effect import' };
+
+  const edits: TextEdit[] = imports.map(({ node }) => {
+    const clause = node.importClause!;
+    const specifier = node.moduleSpecifier.getText(sourceFile);
+    const semicolon = node.getText(sourceFile).trimEnd().endsWith(';') ? ';' : '';
+    const declarations: string[] = [];
+    if (clause.name) declarations.push(`import type ${clause.name.text} from ${specifier}${semicolon}`);
+    const named = clause.namedBindings;
+    if (named && ts.isNamespaceImport(named)) {
+      declarations.push(`import type * as ${named.name.text} from ${specifier}${semicolon}`);
+    } else if (named) {
+      const elements = named.elements.map(element =>
+        element.propertyName ? `${element.propertyName.text} as ${element.name.text}` : element.name.text
+      );
+      declarations.push(`import type { ${elements.join(', ')} } from ${specifier}${semicolon}`);
+    }
+    return { startOffset: node.getStart(sourceFile), endOffset: node.getEnd(), newText: declarations.join('\n') };
+  });
+
+  return { updates: new Map([[from, applyTextEdits(content, edits)]]) };
+}
+
+/**
+ * Move the functions `from` uses out of `to` into a new module next to `to`
+ */
+async function planSplit(overlay: Overlay, modules: ModuleIndex, from: string, to: string): Promise<RemedyAttempt> {
+  const content = overlay.read(from);
+  const imports = collectStaticImports(from, content, modules).filter(imp => imp.target === to && !imp.typeOnly);
+  const names = runtimeBindings(parse(from, content), imports);
+  if (names.includes('default') || names.includes('*')) return { reason: 'default or namespace import' };
+
+  const functions = new Set(parseSourceFile(to, overlay.read(to)).functions.map(f => f.name));
+  const missing = names.filter(name => !functions.has(name));
+  if (missing.length > 0) return { reason: `${missing.join(', ')} not function(s)` };
+
+  const ext = path.extname(to);
+  const base = to.slice(0, -ext.length);
+  let newFile = `${base}-shared${ext}`;
+  for (let i = 2; modules.has(newFile) || overlay.changes.has(newFile) || fs.existsSync(path.resolve(newFile)); i++) {
+    newFile = `${base}-shared-${i}${ext}`;
+  }
+
+  const split = await splitFile({ source: to, target: newFile, functions: names, dryRun: true, skipConfirmation: true });
+  if (!split.success || !split.preview) return { reason: split.errors?.join('; ') || 'split failed' };
+
+  const updates = new Map<string, string>([
+    [to, split.preview.sourceContent],
+    [newFile, split.preview.targetContent],
+    ...split.preview.externalUpdates,
+  ]);
+  if (overlay.touches([...updates.keys()])) return { reason: 'touches files changed by another fix (run again)' };
+
+  return { updates, newFile };
+}
+
+/**
+ * Move the declarations `from` uses out of `to` into `from` itself, when no
+ * other file uses them, they don't depend on the rest of `to` and `to` is not
+ * part of the public API. The code lands after the imports of `from`, or after
+ * the declarations of `from` it needs, and before its first use.
+ */
+function planInvert(
+  analysis: ProjectAnalysis,
+  overlay: Overlay,
+  modules: ModuleIndex,
+  from: string,
+  to: string,
+  isEntryPoint: (file: string) => boolean
+): RemedyAttempt {
+  if (overlay.touches([from, to])) return { reason: 'touches files changed by another fix (run again)' };
+  if (isEntryPoint(to)) return { reason: `${to} is an entry point` };
+
+  const fromContent = overlay.read(from);
+  const fromFile = parse(from, fromContent);
+  const imports = collectStaticImports(from, fromContent, modules).filter(imp => imp.target === to && !imp.typeOnly);
+  const names = runtimeBindings(fromFile, imports);
+  if (names.includes('default') || names.includes('*')) return { reason: 'default or namespace import' };
+  const aliased = imports.some(imp => [...imp.bindings].some(([local, name]) => local !== name && names.includes(name)));
+  if (aliased) return { reason: 'aliased import' };
+
+  for (const name of names) {
+    const trace = analysis.symbolTraces.get(`${to}:${name}`);
+    const users = [...(trace?.importedBy.map(i => i.file) || []), ...(trace?.usages.map(usage => usage.filePath) || [])];
+    if (users.some(file => file !== from && file !== to)) return { reason: `${name} is used elsewhere` };
+  }
+  // `import * as ns` reaches every export without naming it
+  const namespaceImporter = [...analysis.files.values()].find(file =>
+    file.filePath !== from && file.imports.some(imp => imp.resolvedPath === to && imp.name === '*')
+  );
+  if (namespaceImporter) return { reason: `${namespaceImporter.filePath} imports ${to} as a namespace` };
+  const reExported = [...analysis.files.values()].some(file =>
+    file.exports.some(exp => exp.isReExport && exp.originalSource === to && (exp.name === '*' || names.includes(exp.name)))
+  );
+  if (reExported) return { reason: `${to} is re-exported` };
+
+  const toContent = overlay.read(to);
+  const toFile = parse(to, toContent);
+  const declarations = topLevelDeclarations(toFile);
+  const moved = names.map(name => declarations.get(name)!);
+  const movedSet = new Set(moved);
+
+  // Identifiers referenced inside and outside the moved declarations
+  const inside = new Set<string>();
+  const outside = new Set<string>();
+  const collect = (node: ts.Node, target: Set<string>): void => {
+    if (ts.isIdentifier(node)) target.add(node.text);
+    ts.forEachChild(node, child => collect(child, target));
+  };
+  for (const statement of toFile.statements) {
+    if (movedSet.has(statement)) collect(statement, inside);
+    else if (!ts.isImportDeclaration(statement)) collect(statement, outside);
+  }
+
+  const stillUsed = names.filter(name => outside.has(name));
+  if (stillUsed.length > 0) return { reason: `${stillUsed.join(', ')} still used in ${to}` };
+  const dependsOn = [...declarations.keys()].filter(name => inside.has(name) && !names.includes(name));
+  if (dependsOn.length > 0) return { reason: `depends on ${dependsOn.join(', ')} in ${to}` };
+
+  // Imports the moved code needs, rewritten for `from`; what `from` declares itself is dropped
+  const fromDeclarations = topLevelDeclarations(fromFile);
+  const fromBindings = new Set(
+    collectStaticImports(from, fromContent, modules).flatMap(imp => [...imp.bindings.keys()])
+  );
+  const neededImports: string[] = [];
+  const edits: TextEdit[] = [];
+  for (const statement of toFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const clause = statement.importClause;
+    if (!clause) continue;
+
+    const named = clause.namedBindings;
+    const namedImports = named && ts.isNamedImports(named) ? named.elements : [];
+    const locals = [
+      ...(clause.name ? [clause.name.text] : []),
+      ...(named && ts.isNamespaceImport(named) ? [named.name.text] : []),
+      ...namedImports.map(element => element.name.text),
+    ];
+    const needed = locals.filter(local => inside.has(local));
+    if (needed.length === 0) continue;
+
+    const specifier = statement.moduleSpecifier.text;
+    const target = modules.resolve(to, specifier);
+    if (target === from) {
+      const missing = needed.filter(local => !fromDeclarations.has(local));
+      if (missing.length > 0) return { reason: `needs ${missing.join(', ')} under another name` };
+    } else {
+      const clash = needed.filter(local => fromBindings.has(local) || fromDeclarations.has(local));
+      if (clash.length > 0) return { reason: `${clash.join(', ')} already defined in ${from}` };
+
+      // Copy only the bindings the moved code needs
+      const parts: string[] = [];
+      if (clause.name && needed.includes(clause.name.text)) parts.push(clause.name.text);
+      if (named && ts.isNamespaceImport(named) && needed.includes(named.name.text)) parts.push(`* as ${named.name.text}`);
+      const elements = namedImports.filter(element => needed.includes(element.name.text));
+      if (elements.length > 0) parts.push(`{ ${elements.map(element => element.getText(toFile)).join(', ')} }`);
+      const newSpecifier = target ? calculateRelativeImport(from, target) : specifier;
+      neededImports.push(`import ${clause.isTypeOnly ? 'type ' : ''}${parts.join(', ')} from '${newSpecifier}';`);
+    }
+
+    // Drop imports in `to` that only the moved code used
+    if (needed.every(local => !outside.has(local))) {
+      edits.push({ startOffset: statement.getFullStart(), endOffset: statement.getEnd(), newText: '' });
+    }
+  }
+
+  // Remove the declarations from `to`
+  for (const statement of moved) {
+    edits.push({ startOffset: statement.getFullStart(), endOffset: statement.getEnd(), newText: '' });
+  }
+  const newTo = applyTextEdits(toContent, edits);
+
+  // In `from`: drop the moved names from its import of `to`, add the needed imports, append the code
+  const fromEdits: TextEdit[] = [];
+  for (const imp of imports) {
+    const clause = imp.node.importClause!;
+    const named = clause.namedBindings && ts.isNamedImports(clause.namedBindings) ? clause.namedBindings : undefined;
+    const remaining = named ? named.elements.filter(e => !names.includes((e.propertyName || e.name).text)) : [];
+    if (remaining.length === 0 && !clause.name) {
+      fromEdits.push({ startOffset: imp.node.getFullStart(), endOffset: imp.node.getEnd(), newText: '' });
+    } else if (named && remaining.length === 0) {
+      fromEdits.push({ startOffset: clause.name!.getEnd(), endOffset: named.getEnd(), newText: '' });
+    } else if (named) {
+      fromEdits.push({
+        startOffset: named.getStart(fromFile),
+        endOffset: named.getEnd(),
+        newText: `{ ${remaining.map(e => e.getText(fromFile)).join(', ')} }`,
+      });
+    }
+  }
+
+  // The moved code must load after the declarations of `from` it needs and before any use of it
+  const lastImport = [...fromFile.statements].reverse().find(ts.isImportDeclaration);
+  const evaluated = new Set<string>();
+  for (const statement of moved) collectEvaluated(statement, evaluated);
+  let insertAfter: ts.Statement | undefined = lastImport;
+  for (const [name, statement] of fromDeclarations) {
+    if (!evaluated.has(name) || ts.isFunctionDeclaration(statement)) continue;
+    if (!insertAfter || statement.getEnd() > insertAfter.getEnd()) insertAfter = statement;
+  }
+  const position = insertAfter ? insertAfter.getEnd() : 0;
+  const usedEarly = new Set<string>();
+  for (const statement of fromFile.statements) {
+    if (ts.isImportDeclaration(statement) || statement.getStart(fromFile) >= position) continue;
+    const referenced = new Set<string>();
+    collect(statement, referenced);
+    for (const name of names) if (referenced.has(name)) usedEarly.add(name);
+  }
+  if (usedEarly.size > 0) return { reason: `${[...usedEarly].join(', ')} used in ${from} before the code it needs` };
+
+  // The moved code becomes module-private in `from`
+  const movedCode = moved.map(statement => {
+    const exportKeyword = ts.canHaveModifiers(statement)
+      ? ts.getModifiers(statement)?.find(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+      : undefined;
+    const text = exportKeyword
+      ? toContent.slice(statement.getFullStart(), exportKeyword.getStart(toFile)) +
+        toContent.slice(exportKeyword.getEnd(), statement.getEnd()).replace(/^\s+/, '')
+      : toContent.slice(statement.getFullStart(), statement.getEnd());
+    return text.replace(/^\s*\n/, '');
+  }).join('\n\n');
+
+  // Imports and code go in one edit, so removing the import of `to` cannot swallow them
+  const inserted = insertAfter === lastImport && neededImports.length > 0
+    ? `${neededImports.join('\n')}\n\n${movedCode}`
+    : movedCode;
+  if (insertAfter !== lastImport && neededImports.length > 0) {
+    const importPosition = lastImport ? lastImport.getEnd() : 0;
+    const text = neededImports.join('\n');
+    fromEdits.push({ startOffset: importPosition, endOffset: importPosition, newText: lastImport ? `\n${text}` : `${text}\n` });
+  }
+  fromEdits.push({ startOffset: position, endOffset: position, newText: insertAfter ? `\n\n${inserted}\n` : `${inserted}\n\n` });
+  const newFrom = `${applyTextEdits(fromContent, fromEdits).replace(/^\n+/, '').trimEnd()}\n`;
+
+  return { updates: new Map([[to, newTo], [from, newFrom]]) };
+}
@@ -0,0 +1,72 @@
+/**
+ * Build verification - Run the project's type-check or build after an edit
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+
+/**
+ * Run the build command and check if it succeeds
+ */
+export function runBuildVerification(): { success: boolean; error?: string } {
+  const rootDir = process.cwd();
+
+  // Check for package.json to determine build command
+  const packageJsonPath = path.join(rootDir, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    // No package.json, try tsc directly
+    try {
+      execSync('npx tsc --noEmit', { cwd: rootDir, stdio: 'pipe' });
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error && 'stderr' in error
+        ? String((error as { stderr?: unknown }).stderr)
+        : 'TypeScript compilation failed';
+      return { success: false, error: message };
+    }
+  }
+
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    const scripts = packageJson.scripts || {};
+
+    // Prefer a type-check only command to avoid full build
+    let buildCommand = 'npm run build';
+    if (scripts['typecheck']) {
+      buildCommand = 'npm run typecheck';
+    } else if (scripts['type-check']) {
+      buildCommand = 'npm run type-check';
+    } else if (scripts['build']) {
+      buildCommand = 'npm run build';
+    } else {
+      // No build script, try tsc directly
+      buildCommand = 'npx tsc --noEmit';
+    }
+
+    execSync(buildCommand, { cwd: rootDir, stdio: 'pipe' });
+    return { success: true };
+  } catch (error) {
+    // TypeScript outputs errors to stdout, npm scripts may use stderr
+    let message = 'Build failed';
+    if (error instanceof Error) {
+      const execError = error as { stdout?: Buffer; stderr?: Buffer };
+      if (execError.stdout && execError.stdout.length > 0) {
+        message = execError.stdout.toString();
+      } else if (execError.stderr && execError.stderr.length > 0) {
+        message = execError.stderr.toString();
+      }
+    }
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * The part of build output worth showing: the first line that mentions an
+ * error, or the last few lines when none does
+ */
+export function summarizeBuildError(output: string | undefined): string {
+  // `> pkg@1.0.0 build` and `> tsc` are npm echoing the script
+  const lines = (output ?? '').split('\n').map(line => line.trimEnd()).filter(line => line.trim() && !line.startsWith('> '));
+  return lines.find(line => /error/i.test(line))?.trim() ?? (lines.slice(-3).join('\n') || 'unknown error');
+}
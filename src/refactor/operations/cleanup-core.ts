@@ -1,9 +1,10 @@
 import * as ts from 'typescript';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { createConfiguredAnalyzer, ProjectAnalysis, UnusedExport } from '../../core/index.js';
+import { createConfiguredAnalyzer, ProjectAnalysis, UnusedExport, type DeadCluster, type UnusedMember } from '../../core/index.js';
 import type { RemovedExport, ConsolidatedDuplicate } from '../types.js';
 import { resolveImportPath, findDuplicateFunctions, isUsedInternally, getScriptKind, findBarrelFiles, findReExports } from './cleanup-analysis.js';
+import { runBuildVerification, summarizeBuildError } from './build-verification.js';
 
 /** Re-export information */
 interface ReExportInfo {
@@ -26,8 +27,14 @@ interface CleanupOptions {
   removeUnused?: boolean;
   /** Consolidate duplicate functions */
   removeDuplicates?: boolean;
+  /** Remove unused class, enum and interface members */
+  removeMembers?: boolean;
+  /** Delete files no entry point reaches, a whole dead cluster at a time */
+  removeDeadFiles?: boolean;
   /** Delete files with no exports after cleanup */
   removeEmptyFiles?: boolean;
+  /** Run the build after deleting dead files and restore them if it fails. Default: true */
+  verify?: boolean;
   /** Show what would be done without making changes */
   dryRun?: boolean;
   /** Root directory to analyze */
@@ -37,7 +44,10 @@ interface CleanupOptions {
 interface CleanupResult {
   success: boolean;
   removedExports: RemovedExport[];
+  removedMembers: RemovedExport[];
   removedFiles: string[];
+  /** Unreachable files, deleted together per cluster */
+  deadClusters: DeadCluster[];
   consolidatedDuplicates: ConsolidatedDuplicate[];
   errors: string[];
   /** Changes by file for preview */
@@ -60,7 +70,9 @@ export async function cleanup(options: CleanupOptions): Promise<CleanupResult> {
   const result: CleanupResult = {
     success: true,
     removedExports: [],
+    removedMembers: [],
     removedFiles: [],
+    deadClusters: [],
     consolidatedDuplicates: [],
     errors: [],
     fileChanges: new Map(),
@@ -71,13 +83,19 @@ export async function cleanup(options: CleanupOptions): Promise<CleanupResult> {
     const analyzer = createConfiguredAnalyzer(rootDir);
     const analysis = await analyzer.analyze();
 
+    // Step 1b: Find files no entry point reaches. They are deleted whole, so their exports and members are left alone
+    if (options.removeDeadFiles) {
+      result.deadClusters = analyzer.findUnusedFiles(analysis);
+    }
+    const deadFiles = new Set(result.deadClusters.flatMap(cluster => cluster.files));
+
     // Step 2: Find unused exports (excluding entry points and re-exported)
     if (options.removeUnused) {
       // Find barrel files and re-exports first
       const barrelFiles = findBarrelFiles(rootDir);
       const reExports = findReExports(rootDir, barrelFiles);
 
-      const unused = analyzer.findUnusedExports(analysis);
+      const unused = analyzer.findUnusedExports(analysis).filter(u => !deadFiles.has(u.export.filePath));
 
       // Split into two categories:
       // 1. toRemove - exports not used internally (delete entire declaration)
@@ -192,6 +210,56 @@ export async function cleanup(options: CleanupOptions): Promise<CleanupResult> {
       }
     }
 
+    // Step 3c: Remove unused class, enum and interface members
+    if (options.removeMembers) {
+      const membersByFile = new Map<string, UnusedMember[]>();
+      for (const member of analyzer.findUnusedMembers(analysis)) {
+        if (deadFiles.has(member.filePath)) continue;
+        membersByFile.set(member.filePath, [...(membersByFile.get(member.filePath) || []), member]);
+      }
+
+      for (const [filePath, members] of membersByFile) {
+        const absolutePath = path.join(rootDir, filePath);
+
+        if (!fs.existsSync(absolutePath)) {
+          continue;
+        }
+
+        try {
+          // Work on top of export removals so both edits land in the same file change
+          const existing = result.fileChanges.get(filePath);
+          const currentContent = existing?.newContent ?? fs.readFileSync(absolutePath, 'utf-8');
+          const { newContent, removed } = removeMembersFromContent(currentContent, absolutePath, members);
+
+          if (removed.length === 0) continue;
+
+          if (existing) {
+            existing.newContent = newContent;
+          } else {
+            result.fileChanges.set(filePath, {
+              filePath,
+              originalContent: currentContent,
+              newContent,
+              removedExports: [],
+              removedImports: [],
+            });
+          }
+
+          for (const member of removed) {
+            result.removedMembers.push({
+              file: filePath,
+              name: `${member.container}.${member.name}`,
+              kind: member.kind,
+              line: member.line,
+              reason: `Unused ${member.containerKind} member`,
+            });
+          }
+        } catch (error) {
+          result.errors.push(`Error removing members from ${filePath}: ${error}`);
+        }
+      }
+    }
+
     // Step 4: Find and consolidate duplicates
     if (options.removeDuplicates) {
       const duplicates = findDuplicateFunctions(analysis);
@@ -213,7 +281,18 @@ export async function cleanup(options: CleanupOptions): Promise<CleanupResult> {
 
     // Step 6: Apply changes (unless dry run)
     if (!options.dryRun) {
-      // First, remove imports of the removed exports from other files
+      // Dead files go first, so a failing build is theirs and nothing else has been touched yet
+      if (result.deadClusters.length > 0) {
+        const error = deleteDeadClusters(rootDir, result.deadClusters, options.verify !== false);
+        if (error) {
+          result.success = false;
+          result.errors.push(error);
+          result.deadClusters = [];
+          return result;
+        }
+      }
+
+      // Then remove imports of the removed exports from other files
       for (const removed of result.removedExports) {
         await removeImportsOfSymbol(rootDir, removed.name, removed.file, analysis);
       }
@@ -243,6 +322,27 @@ export async function cleanup(options: CleanupOptions): Promise<CleanupResult> {
   return result;
 }
 
+/**
+ * Delete every file of the dead clusters at once, then run the build and
+ * restore them all if it fails. Returns the reason for a rollback.
+ */
+function deleteDeadClusters(rootDir: string, clusters: DeadCluster[], verify: boolean): string | undefined {
+  const contents = new Map(clusters.flatMap(cluster => cluster.files).map(file => [file, fs.readFileSync(path.join(rootDir, file))]));
+  for (const file of contents.keys()) {
+    fs.rmSync(path.join(rootDir, file), { force: true });
+  }
+
+  if (!verify) return undefined;
+
+  const build = runBuildVerification();
+  if (build.success) return undefined;
+
+  for (const [file, content] of contents) {
+    fs.writeFileSync(path.join(rootDir, file), content);
+  }
+  return `Build failed, dead files restored: ${summarizeBuildError(build.error)}`;
+}
+
 /**
  * Group unused exports by file path
  */
@@ -261,7 +361,7 @@ function groupByFile(unused: UnusedExport[]): Map<string, UnusedExport[]> {
 /**
  * Remove specified exports from a file
  */
-async function removeExportsFromFile(
+export async function removeExportsFromFile(
   absolutePath: string,
   relativePath: string,
   exportsToRemove: UnusedExport[],
@@ -363,11 +463,110 @@ async function removeExportsFromFile(
   };
 }
 
+/**
+ * Remove unused members from their class, enum or interface declarations.
+ * Getter/setter pairs and merged interface declarations are removed together.
+ * Enum members stay when removing them would renumber the members after them.
+ */
+function removeMembersFromContent(
+  content: string,
+  absolutePath: string,
+  members: UnusedMember[]
+): { newContent: string; removed: UnusedMember[] } {
+  const sourceFile = ts.createSourceFile(
+    absolutePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(absolutePath)
+  );
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  const removed = new Set<UnusedMember>();
+
+  const visit = (node: ts.Node) => {
+    if ((ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) && node.name) {
+      const containerName = node.name.text;
+      for (const member of node.members as ts.NodeArray<ts.ClassElement | ts.TypeElement | ts.EnumMember>) {
+        if (!member.name || !(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) continue;
+        const memberName = member.name.text;
+        const isStatic = ts.isEnumMember(member) ||
+          (ts.canHaveModifiers(member) && !!ts.getModifiers(member)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword));
+
+        const match = members.find(m => m.container === containerName && m.name === memberName && m.isStatic === isStatic);
+        if (!match) continue;
+        if (ts.isEnumDeclaration(node) && renumbersLaterMembers(node, member as ts.EnumMember)) continue;
+
+        removed.add(match);
+        ranges.push(getMemberRange(member, sourceFile));
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  // Remove from end to start so earlier positions stay valid
+  let newContent = content;
+  for (const { start, end } of ranges.sort((a, b) => b.start - a.start)) {
+    let removeStart = start;
+    let removeEnd = end;
+    // Drop the blank line that separated the member, unless it still separates two others
+    const before = newContent.slice(0, start);
+    const blankAfter = /^[ \t]*\r?\n/.exec(newContent.slice(removeEnd));
+    const blankBefore = /\r?\n([ \t]*\r?\n)$/.exec(before);
+    if (blankAfter && (/\n[ \t]*\r?\n$/.test(before) || /\{[ \t]*\r?\n$/.test(before))) {
+      removeEnd += blankAfter[0].length;
+    } else if (blankBefore && /^[ \t]*\}/.test(newContent.slice(removeEnd))) {
+      // The last member: the blank line above it would end up before the closing brace
+      removeStart -= blankBefore[1].length;
+    }
+    newContent = newContent.slice(0, removeStart) + newContent.slice(removeEnd);
+  }
+
+  // Imports that only the removed members needed
+  const importsBefore = new Set(findUnusedImportsAfterRemoval(content, absolutePath, []));
+  const newlyUnused = findUnusedImportsAfterRemoval(newContent, absolutePath, [])
+    .filter(name => !importsBefore.has(name));
+  if (newlyUnused.length > 0) {
+    newContent = removeUnusedImports(newContent, absolutePath, newlyUnused);
+  }
+
+  return { newContent, removed: members.filter(m => removed.has(m)) };
+}
+
+/**
+ * Auto-numbered members count on from the one before them, so removing a
+ * member changes the value of any later member without an initializer
+ */
+function renumbersLaterMembers(declaration: ts.EnumDeclaration, member: ts.EnumMember): boolean {
+  return declaration.members.slice(declaration.members.indexOf(member) + 1).some(later => !later.initializer);
+}
+
+/**
+ * Range of a member declaration including its doc comment, indentation,
+ * trailing enum comma and line break
+ */
+function getMemberRange(member: ts.Node, sourceFile: ts.SourceFile): { start: number; end: number } {
+  const text = sourceFile.text;
+  const leadingComments = ts.getLeadingCommentRanges(text, member.getFullStart());
+  let start = leadingComments?.length ? leadingComments[0].pos : member.getStart(sourceFile);
+  while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) {
+    start--;
+  }
+
+  // Class and interface members already include their `;` or `,` separator
+  const trailing = ts.isEnumMember(member) ? /^[ \t]*,?[ \t]*(\r?\n)?/ : /^[ \t]*(\r?\n)?/;
+  const end = member.getEnd() + trailing.exec(text.slice(member.getEnd()))![0].length;
+
+  return { start, end };
+}
+
 /**
  * Remove export keywords from declarations (make them private)
  * Used for exports that aren't imported elsewhere but are used internally
  */
-async function removeExportKeywordsFromFile(
+export async function removeExportKeywordsFromFile(
   absolutePath: string,
   relativePath: string,
   exportsToUnexport: UnusedExport[]
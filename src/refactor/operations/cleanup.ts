@@ -4,6 +4,7 @@
  * Features:
  * - Remove unused exports (functions, classes, variables, types)
  * - Remove empty files after cleanup
+ * - Delete files no entry point reaches, whole dead clusters at once
  * - Consolidate duplicate functions (stretch goal)
  *
  * Safety:
@@ -20,11 +21,12 @@ import {
   type ProjectAnalysis,
   type UnusedExport,
   type ExportInfo,
+  type DeadCluster,
 } from '../../core/index.js';
 import type { RemovedExport, ConsolidatedDuplicate } from '../types.js';
 import { resolveImportPath, findDuplicateFunctions, isUsedInternally, getAllSourceFiles, getScriptKind, findBarrelFiles, findReExports } from './cleanup-analysis.js';
 import { cleanup } from './cleanup-core.js';
-export { cleanup } from './cleanup-core.js';
+export { cleanup, removeExportsFromFile, removeExportKeywordsFromFile } from './cleanup-core.js';
 
 /** Re-export information */
 interface ReExportInfo {
@@ -47,8 +49,14 @@ export interface CleanupOptions {
   removeUnused?: boolean;
   /** Consolidate duplicate functions */
   removeDuplicates?: boolean;
+  /** Remove unused class, enum and interface members */
+  removeMembers?: boolean;
+  /** Delete files no entry point reaches, a whole dead cluster at a time */
+  removeDeadFiles?: boolean;
   /** Delete files with no exports after cleanup */
   removeEmptyFiles?: boolean;
+  /** Run the build after deleting dead files and restore them if it fails. Default: true */
+  verify?: boolean;
   /** Show what would be done without making changes */
   dryRun?: boolean;
   /** Root directory to analyze */
@@ -58,7 +66,10 @@ export interface CleanupOptions {
 export interface CleanupResult {
   success: boolean;
   removedExports: RemovedExport[];
+  removedMembers: RemovedExport[];
   removedFiles: string[];
+  /** Unreachable files, deleted together per cluster */
+  deadClusters: DeadCluster[];
   consolidatedDuplicates: ConsolidatedDuplicate[];
   errors: string[];
   /** Changes by file for preview */
@@ -0,0 +1,413 @@
+/**
+ * Debarrel operation - Import from the module that declares a symbol instead of its barrel
+ *
+ * 1. Barrels are the files findBarrelFiles() reports that re-export something
+ * 2. Every named and default binding imported or re-exported from a barrel is
+ *    followed through `export { }`, `export *` and import-then-export chains,
+ *    renames included, to the module that declares it
+ * 3. Namespace, dynamic and side-effect imports, `export *` of a barrel and
+ *    names the barrel declares itself keep pointing at the barrel
+ * 4. Optionally, barrels made only of re-exports that nothing imports any more
+ *    are deleted
+ * 5. Writes are checked with the project build and rolled back when it fails
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { createConfiguredAnalyzer } from '../../core/index.js';
+import { findFilesImporting, findImportsInFile } from '../import-rewriter.js';
+import {
+  applyTextEdits,
+  declaredNames,
+  getScriptKind,
+  isInside,
+  loadPathMappings,
+  quoteOf,
+  specifierFor,
+  toProjectPath,
+} from '../import-rewriter.helpers.js';
+import type { ImportLocation, ImportRewriterConfig, ImportedSymbol, TextEdit } from '../types.js';
+import { findBarrelFiles } from './cleanup-analysis.js';
+import { runBuildVerification, summarizeBuildError } from './build-verification.js';
+
+export interface DebarrelOptions {
+  /** Only debarrel barrels inside this directory (relative to the project root) */
+  dir?: string;
+  /** Delete barrels that only re-export and that nothing imports afterwards */
+  deleteUnused?: boolean;
+  /** Leave barrels that package.json or the config declare as entry points, and imports of them, as they are */
+  keepPublic?: boolean;
+}
+
+/** An import or re-export that now skips a barrel */
+export interface DebarrelRewrite {
+  file: string;
+  line: number;
+  barrel: string;
+  /** Names now taken from their declaring module */
+  names: string[];
+}
+
+export interface DebarrelPlan {
+  /** Barrels whose importers were considered */
+  barrels: string[];
+  rewrites: DebarrelRewrite[];
+  /** Barrels to delete */
+  deletions: string[];
+  /** New contents by file */
+  changes: Map<string, { original: string; content: string }>;
+  /** Imports left on a barrel that may deserve a look */
+  warnings: string[];
+  /** Why nothing can be planned */
+  errors: string[];
+}
+
+export interface ApplyDebarrelOptions {
+  /** Run the build after writing and roll back if it fails. Default: true */
+  verify?: boolean;
+}
+
+export interface ApplyDebarrelResult {
+  success: boolean;
+  filesModified: string[];
+  /** Whether the build passed (unset when not verified) */
+  buildPassed?: boolean;
+  error?: string;
+}
+
+/** Where a barrel's export is declared, and under which name */
+interface Declaration {
+  file: string;
+  name: string;
+  /** A re-export on the way was `export type` */
+  typeOnly: boolean;
+}
+
+interface Module {
+  text: string;
+  sourceFile: ts.SourceFile;
+  locations: ImportLocation[];
+}
+
+/** One binding of a rewritten statement: `imported as local` for imports, `imported as exported` for re-exports */
+interface Binding {
+  imported: string;
+  local: string;
+  typeOnly: boolean;
+}
+
+/**
+ * Plan pointing every import of the project's barrels at the declaring modules
+ */
+export async function planDebarrel(options: DebarrelOptions = {}): Promise<DebarrelPlan> {
+  const rootDir = process.cwd();
+  const plan: DebarrelPlan = { barrels: [], rewrites: [], deletions: [], changes: new Map(), warnings: [], errors: [] };
+
+  const scope = path.resolve(rootDir, options.dir ?? '.');
+  if (!fs.existsSync(scope) || !fs.statSync(scope).isDirectory()) {
+    plan.errors.push(`Not a directory: ${options.dir}`);
+    return plan;
+  }
+
+  const analyzer = createConfiguredAnalyzer(rootDir);
+  const analysis = await analyzer.analyze();
+  const mappings = loadPathMappings(rootDir);
+  const config: ImportRewriterConfig = { rootDir, pathAliases: mappings.aliases, includeTests: true };
+
+  const modules = new Map<string, Module | null>();
+  const readModule = (file: string): Module | null => {
+    if (!modules.has(file)) {
+      const absolute = path.join(rootDir, file);
+      if (!fs.existsSync(absolute)) {
+        modules.set(file, null);
+      } else {
+        const text = fs.readFileSync(absolute, 'utf-8');
+        modules.set(file, {
+          text,
+          sourceFile: ts.createSourceFile(absolute, text, ts.ScriptTarget.Latest, true, getScriptKind(absolute)),
+          locations: findImportsInFile(absolute, text, config),
+        });
+      }
+    }
+    return modules.get(file)!;
+  };
+
+  const allBarrels = findBarrelFiles(rootDir)
+    .map(file => toProjectPath(rootDir, file))
+    .filter(file => analysis.files.has(file))
+    .filter(file => readModule(file)?.sourceFile.statements.some(statement => ts.isExportDeclaration(statement) && statement.moduleSpecifier));
+  const publicBarrels = new Set(options.keepPublic ? allBarrels.filter(file => analyzer.isPublicEntryPoint(file)) : []);
+  plan.barrels = allBarrels
+    .filter(file => !publicBarrels.has(file) && (scope === rootDir || isInside(path.join(rootDir, file), scope)))
+    .sort();
+  if (plan.barrels.length === 0) return plan;
+
+  const barrels = new Set(plan.barrels);
+  const resolve = (file: string, name: string) => resolveDeclaration(rootDir, readModule, file, name, new Set());
+  const remainingImporters = new Map<string, Set<string>>(plan.barrels.map(barrel => [barrel, new Set()]));
+
+  const importers = await findFilesImporting(plan.barrels, config);
+  const importerFiles = [...new Set([...[...importers.keys()].map(file => toProjectPath(rootDir, file)), ...plan.barrels])].sort();
+
+  for (const importer of importerFiles) {
+    const module = readModule(importer);
+    if (!module) continue;
+    const importerPath = path.join(rootDir, importer);
+    const edits: TextEdit[] = [];
+
+    for (const location of module.locations) {
+      const barrel = location.resolvedPath ? toProjectPath(rootDir, location.resolvedPath) : undefined;
+      if (!barrel || !barrels.has(barrel) || barrel === importer) continue;
+      if (publicBarrels.has(importer)) {
+        remainingImporters.get(barrel)!.add(importer);
+        continue;
+      }
+
+      const namespace = location.symbols.find(symbol => symbol.name === '*');
+      const bindsNames = location.style === 'named' || location.style === 'default' || (location.style === 're-export' && !namespace);
+      if (!bindsNames) {
+        remainingImporters.get(barrel)!.add(importer);
+        if (location.style === 'namespace' || location.style === 'dynamic' || namespace?.alias) {
+          plan.warnings.push(`${importer}:${location.line} uses ${barrel} as a whole; left as is`);
+        }
+        continue;
+      }
+
+      const kept: ImportedSymbol[] = [];
+      const moved = new Map<string, Array<{ symbol: ImportedSymbol; declaration: Declaration }>>();
+      for (const symbol of location.symbols) {
+        const declaration = resolve(barrel, symbol.name);
+        if (!declaration || declaration.file === barrel) {
+          kept.push(symbol);
+        } else {
+          moved.set(declaration.file, [...(moved.get(declaration.file) ?? []), { symbol, declaration }]);
+        }
+      }
+      if (moved.size === 0) {
+        remainingImporters.get(barrel)!.add(importer);
+        continue;
+      }
+
+      const keyword = location.style === 're-export' ? 'export' : 'import';
+      const statements: string[] = [];
+      if (kept.length > 0) {
+        remainingImporters.get(barrel)!.add(importer);
+        statements.push(statementText(keyword, location, kept.map(symbol => ({
+          imported: symbol.name, local: symbol.alias ?? symbol.name, typeOnly: symbol.isTypeOnly,
+        })), location.source));
+      }
+      for (const [file, entries] of moved) {
+        const specifier = specifierFor(location.source, importerPath, path.join(rootDir, file), mappings.aliases);
+        statements.push(statementText(keyword, location, entries.map(({ symbol, declaration }) => ({
+          imported: declaration.name, local: symbol.alias ?? symbol.name, typeOnly: symbol.isTypeOnly || declaration.typeOnly,
+        })), specifier));
+      }
+
+      edits.push({ startOffset: location.startOffset, endOffset: location.endOffset, newText: statements.join('\n') });
+      plan.rewrites.push({
+        file: importer,
+        line: location.line,
+        barrel,
+        names: [...moved.values()].flat().map(({ symbol }) => symbol.alias ?? symbol.name),
+      });
+    }
+
+    if (edits.length > 0) {
+      plan.changes.set(importer, { original: module.text, content: applyTextEdits(module.text, edits) });
+    }
+  }
+
+  if (options.deleteUnused) {
+    // Barrels that are about to go do not keep others alive
+    const deleted = new Set<string>();
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const barrel of plan.barrels) {
+        if (deleted.has(barrel) || !isPureBarrel(readModule(barrel)!.sourceFile)) continue;
+        if ([...remainingImporters.get(barrel)!].every(importer => deleted.has(importer))) {
+          deleted.add(barrel);
+          changed = true;
+        }
+      }
+    }
+    plan.deletions = [...deleted].sort();
+    for (const barrel of plan.deletions) plan.changes.delete(barrel);
+    plan.rewrites = plan.rewrites.filter(rewrite => !deleted.has(rewrite.file));
+  }
+
+  return plan;
+}
+
+/**
+ * Write a debarrel plan, then check the build and restore every file if it fails
+ */
+export function applyDebarrel(plan: DebarrelPlan, options: ApplyDebarrelOptions = {}): ApplyDebarrelResult {
+  const rootDir = process.cwd();
+  const absolute = (file: string) => path.join(rootDir, file);
+  const filesModified = [...plan.changes.keys(), ...plan.deletions].sort();
+  if (filesModified.length === 0) return { success: true, filesModified };
+
+  const deletedContents = new Map(plan.deletions.map(file => [file, fs.readFileSync(absolute(file))]));
+  for (const [file, { content }] of plan.changes) {
+    fs.writeFileSync(absolute(file), content);
+  }
+  for (const file of plan.deletions) {
+    fs.rmSync(absolute(file), { force: true });
+  }
+
+  if (options.verify === false) {
+    return { success: true, filesModified };
+  }
+
+  const build = runBuildVerification();
+  if (build.success) {
+    return { success: true, filesModified, buildPassed: true };
+  }
+
+  // Roll back to the tree before the rewrite
+  for (const [file, { original }] of plan.changes) {
+    fs.writeFileSync(absolute(file), original);
+  }
+  for (const [file, content] of deletedContents) {
+    fs.writeFileSync(absolute(file), content);
+  }
+  return {
+    success: false,
+    filesModified: [],
+    buildPassed: false,
+    error: `Build failed, changes rolled back: ${summarizeBuildError(build.error)}`,
+  };
+}
+
+// ============================================================================
+// Re-export resolution
+// ============================================================================
+
+/**
+ * Follow `name` as exported by `file` to the module that declares it. Named
+ * exports win over `export *`, as in the module system itself. Undefined when
+ * the chain leaves the project or never reaches a declaration.
+ */
+function resolveDeclaration(
+  rootDir: string,
+  readModule: (file: string) => Module | null,
+  file: string,
+  name: string,
+  seen: Set<string>
+): Declaration | undefined {
+  const key = `${file}:${name}`;
+  if (seen.has(key)) return undefined;
+  seen.add(key);
+
+  const module = readModule(file);
+  if (!module) return undefined;
+  const { sourceFile } = module;
+  const targetOf = (statement: ts.Statement): string | undefined => {
+    const resolvedPath = module.locations.find(location => location.startOffset === statement.getStart())?.resolvedPath;
+    return resolvedPath ? toProjectPath(rootDir, resolvedPath) : undefined;
+  };
+  const follow = (statement: ts.Statement, imported: string, typeOnly: boolean): Declaration | undefined => {
+    const target = targetOf(statement);
+    const declaration = target ? resolveDeclaration(rootDir, readModule, target, imported, seen) : undefined;
+    return declaration && { ...declaration, typeOnly: declaration.typeOnly || typeOnly };
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement) && statement.exportClause) {
+      const clause = statement.exportClause;
+      if (ts.isNamespaceExport(clause)) {
+        // `export * as ns from` makes the barrel the module that declares `ns`
+        if (clause.name.text === name) return { file, name, typeOnly: statement.isTypeOnly };
+        continue;
+      }
+
+      const element = clause.elements.find(candidate => candidate.name.text === name);
+      if (!element) continue;
+      const local = element.propertyName?.text ?? name;
+      const typeOnly = statement.isTypeOnly || element.isTypeOnly;
+      if (statement.moduleSpecifier) return follow(statement, local, typeOnly);
+
+      // `import { a } from './a'; export { a }`
+      const binding = importedBinding(sourceFile, local);
+      if (!binding) return { file, name, typeOnly };
+      if (binding.imported === '*') return { file, name, typeOnly };
+      return follow(binding.declaration, binding.imported, typeOnly || binding.typeOnly);
+    }
+
+    if (name === 'default' && ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      return { file, name, typeOnly: false };
+    }
+    if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+      if (isDefault ? name === 'default' : declaredNames(statement).includes(name)) {
+        return { file, name, typeOnly: ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) };
+      }
+    }
+  }
+
+  if (name === 'default') return undefined;
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement) && statement.moduleSpecifier && !statement.exportClause) {
+      const declaration = follow(statement, name, statement.isTypeOnly);
+      if (declaration) return declaration;
+    }
+  }
+  return undefined;
+}
+
+/** The import declaration that binds `local`, and the name it imports */
+function importedBinding(
+  sourceFile: ts.SourceFile,
+  local: string
+): { declaration: ts.ImportDeclaration; imported: string; typeOnly: boolean } | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+    const clause = statement.importClause;
+    if (clause.name?.text === local) return { declaration: statement, imported: 'default', typeOnly: clause.isTypeOnly };
+
+    const named = clause.namedBindings;
+    if (named && ts.isNamespaceImport(named) && named.name.text === local) {
+      return { declaration: statement, imported: '*', typeOnly: clause.isTypeOnly };
+    }
+    if (named && ts.isNamedImports(named)) {
+      const element = named.elements.find(candidate => candidate.name.text === local);
+      if (element) {
+        return { declaration: statement, imported: element.propertyName?.text ?? local, typeOnly: clause.isTypeOnly || element.isTypeOnly };
+      }
+    }
+  }
+  return undefined;
+}
+
+/** A barrel with nothing of its own: every statement re-exports another module */
+function isPureBarrel(sourceFile: ts.SourceFile): boolean {
+  return sourceFile.statements.every(statement => ts.isExportDeclaration(statement) && statement.moduleSpecifier);
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(statement) && (ts.getModifiers(statement)?.some(modifier => modifier.kind === kind) ?? false);
+}
+
+// ============================================================================
+// Statement text
+// ============================================================================
+
+/** An import or re-export of `bindings` from `specifier`, shaped like the statement at `location` */
+function statementText(keyword: 'import' | 'export', location: ImportLocation, bindings: Binding[], specifier: string): string {
+  const quote = quoteOf(location);
+  const typeOnly = location.kind === 'type';
+  const element = (binding: Binding) =>
+    `${binding.typeOnly && !typeOnly ? 'type ' : ''}${binding.imported === binding.local ? binding.local : `${binding.imported} as ${binding.local}`}`;
+
+  // A plain default import keeps its short form
+  const defaultBinding = keyword === 'import' && !typeOnly
+    ? bindings.find(binding => binding.imported === 'default' && !binding.typeOnly)
+    : undefined;
+  const named = bindings.filter(binding => binding !== defaultBinding);
+  const clause = [defaultBinding?.local, named.length > 0 ? `{ ${named.map(element).join(', ')} }` : undefined]
+    .filter(Boolean)
+    .join(', ');
+  return `${keyword} ${typeOnly ? 'type ' : ''}${clause} from ${quote}${specifier}${quote};`;
+}
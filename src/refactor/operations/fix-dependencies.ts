@@ -0,0 +1,132 @@
+/**
+ * Fix-dependencies operation - Bring package.json in line with what the code imports
+ *
+ * - unused: removed from `dependencies`
+ * - misplaced: moved from `devDependencies` to `dependencies`, keeping its range
+ * - missing: added at the installed version (`^1.2.3`); packages only used for
+ *   types go to `devDependencies`, as their `@types/` package when installed
+ *
+ * Missing packages that are not installed are skipped, since there is no
+ * version to record, and so are unresolved alias imports, which need a fix in
+ * the code rather than in package.json.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { readManifest, typesPackageFor, type DependencyIssue, type DependencyReport, type DependencySection, type PackageManifest } from '../../core/index.js';
+
+export interface FixDependenciesOptions {
+  /** Project root; defaults to the working directory */
+  rootDir?: string;
+  /** Plan the edits without writing package.json */
+  dryRun?: boolean;
+}
+
+export interface DependencyFix {
+  kind: DependencyIssue['kind'];
+  /** Package that was removed, moved or added (the `@types/` package for type-only imports) */
+  name: string;
+  manifest: string;
+  /** Section the package was removed from or written to */
+  section: DependencySection;
+  version: string;
+}
+
+export interface FixDependenciesResult {
+  fixed: DependencyFix[];
+  skipped: Array<{ name: string; manifest: string; reason: string }>;
+  /** New package.json contents by manifest */
+  changes: Map<string, { original: string; content: string }>;
+}
+
+/**
+ * Edit package.json files to resolve the issues of a dependency report
+ */
+export function fixDependencies(report: DependencyReport, options: FixDependenciesOptions = {}): FixDependenciesResult {
+  const rootDir = options.rootDir ?? process.cwd();
+  const result: FixDependenciesResult = { fixed: [], skipped: [], changes: new Map() };
+
+  const byManifest = new Map<string, DependencyIssue[]>();
+  for (const issue of report.issues) {
+    byManifest.set(issue.manifest, [...(byManifest.get(issue.manifest) ?? []), issue]);
+  }
+
+  for (const [manifestPath, issues] of byManifest) {
+    const absolute = path.join(rootDir, manifestPath);
+    const original = fs.readFileSync(absolute, 'utf-8');
+    const manifest = readManifest(absolute);
+    if (!manifest) {
+      result.skipped.push(...issues.map(issue => ({ name: issue.name, manifest: manifestPath, reason: 'package.json could not be parsed' })));
+      continue;
+    }
+
+    for (const issue of issues) {
+      if (issue.kind === 'unresolved') {
+        result.skipped.push({ name: issue.name, manifest: manifestPath, reason: 'path alias that resolves to no file; fix the import' });
+      } else if (issue.kind === 'unused') {
+        const version = manifest.dependencies![issue.name];
+        setDependency(manifest, 'dependencies', issue.name, undefined);
+        result.fixed.push({ kind: 'unused', name: issue.name, manifest: manifestPath, section: 'dependencies', version });
+      } else if (issue.kind === 'misplaced') {
+        const version = manifest.devDependencies![issue.name];
+        setDependency(manifest, 'devDependencies', issue.name, undefined);
+        setDependency(manifest, 'dependencies', issue.name, version);
+        result.fixed.push({ kind: 'misplaced', name: issue.name, manifest: manifestPath, section: 'dependencies', version });
+      } else {
+        const fromDir = path.dirname(absolute);
+        const candidates = issue.typeOnly ? [typesPackageFor(issue.name), issue.name] : [issue.name];
+        const installed = candidates
+          .map(name => ({ name, version: installedVersion(rootDir, fromDir, name) }))
+          .find(candidate => candidate.version);
+        if (!installed) {
+          result.skipped.push({ name: issue.name, manifest: manifestPath, reason: `not installed; run npm install ${candidates[0]}` });
+          continue;
+        }
+        const section: DependencySection = issue.typeOnly ? 'devDependencies' : 'dependencies';
+        const version = `^${installed.version}`;
+        setDependency(manifest, section, installed.name, version);
+        result.fixed.push({ kind: 'missing', name: installed.name, manifest: manifestPath, section, version });
+      }
+    }
+
+    const content = formatManifest(manifest, original);
+    if (content !== original) result.changes.set(manifestPath, { original, content });
+  }
+
+  if (!options.dryRun) {
+    for (const [manifestPath, { content }] of result.changes) {
+      fs.writeFileSync(path.join(rootDir, manifestPath), content);
+    }
+  }
+  return result;
+}
+
+/** Set or remove a dependency; new packages go where they sort, as npm writes them */
+function setDependency(manifest: PackageManifest, section: DependencySection, name: string, version: string | undefined): void {
+  const next = Object.entries(manifest[section] ?? {}).filter(([key]) => key !== name);
+  if (version !== undefined) {
+    const index = next.findIndex(([key]) => key.localeCompare(name, 'en') > 0);
+    next.splice(index === -1 ? next.length : index, 0, [name, version]);
+  }
+  if (next.length === 0 && !manifest[section]) return;
+  manifest[section] = Object.fromEntries(next);
+}
+
+/** Version of a package in the nearest node_modules between `fromDir` and the project root */
+function installedVersion(rootDir: string, fromDir: string, name: string): string | undefined {
+  let dir = fromDir;
+  while (true) {
+    const installed = readManifest(path.join(dir, 'node_modules', name, 'package.json')) as { version?: string } | undefined;
+    if (installed?.version) return installed.version;
+    if (path.relative(rootDir, dir) === '' || dir === path.dirname(dir)) return undefined;
+    dir = path.dirname(dir);
+  }
+}
+
+/** Serialize with the original indentation, line endings and final newline */
+function formatManifest(manifest: PackageManifest, original: string): string {
+  const indent = original.match(/^([ \t]+)"/m)?.[1] ?? (original.trim().includes('\n') ? '  ' : '');
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const json = JSON.stringify(manifest, null, indent).replace(/\n/g, eol);
+  return json + (/\r?\n$/.test(original) ? eol : '');
+}
@@ -2,4 +2,11 @@ export * from './split.js';
 export * from './merge.js';
 export * from './cleanup.js';
 export * from './auto-fix.js';
+export * from './build-verification.js';
 export * from './reorganize.js';
+export * from './break-cycles.js';
+export * from './rename.js';
+export * from './move.js';
+export * from './fix-dependencies.js';
+export * from './debarrel.js';
+export * from './type-imports.js';
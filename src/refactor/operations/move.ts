@@ -0,0 +1,608 @@
+/**
+ * Move operation - Move files, directories or a single exported declaration
+ *
+ * 1. File and directory moves: every import, re-export and dynamic import of a
+ *    moved file is repointed, moved files' own imports are rebased, and
+ *    tsconfig `paths` targets inside the moved tree follow it
+ * 2. Symbol moves (`file#name`): the declaration moves together with the
+ *    private helpers only it uses, its imports follow it, and importers and
+ *    barrels are repointed at the new file
+ * 3. Writes are checked with the project build and rolled back when it fails
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { glob } from 'glob';
+import {
+  applyImportChangesToFile,
+  findFilesImporting,
+  findImportsInFile,
+  findImportUpdatesForMoves,
+  type FileMove,
+} from '../import-rewriter.js';
+import {
+  applyTextEdits,
+  declaredNames,
+  getScriptKind,
+  isInside,
+  isMemberName,
+  loadPathMappings,
+  normalizeFilePath,
+  quoteOf,
+  relativeSpecifier,
+  specifierFor,
+  toProjectPath,
+  type PathMappings,
+} from '../import-rewriter.helpers.js';
+import type { ImportChange, ImportLocation, ImportRewriterConfig, TextEdit } from '../types.js';
+import { runBuildVerification, summarizeBuildError } from './build-verification.js';
+
+export interface MoveOptions {
+  /** File or directory to move, or `<file>#<name>` for one exported declaration */
+  from: string;
+  /** Destination; an existing directory receives the moved file or directory */
+  to: string;
+}
+
+export interface MovePlan {
+  /** Files to move, relative to the project root */
+  moves: FileMove[];
+  /** New contents by path after the move; `original` is null for created files */
+  changes: Map<string, { original: string | null; content: string }>;
+  /** Usages that have to be updated by hand */
+  warnings: string[];
+  /** Why the move cannot be made; nothing is planned when set */
+  errors: string[];
+}
+
+export interface ApplyMoveOptions {
+  /** Run the build after writing and roll back if it fails. Default: true */
+  verify?: boolean;
+}
+
+export interface ApplyMoveResult {
+  success: boolean;
+  filesModified: string[];
+  /** Whether the build passed (unset when not verified) */
+  buildPassed?: boolean;
+  error?: string;
+}
+
+/** What a local name of a module is bound to by an import declaration */
+interface ImportBinding {
+  declaration: ts.ImportDeclaration;
+  location?: ImportLocation;
+}
+
+/**
+ * Plan moving a file, a directory, or one exported declaration (`<file>#<name>`)
+ */
+export async function planMove(options: MoveOptions): Promise<MovePlan> {
+  const rootDir = process.cwd();
+  const plan: MovePlan = { moves: [], changes: new Map(), warnings: [], errors: [] };
+
+  const separator = options.from.lastIndexOf('#');
+  if (separator > 0 && !fs.existsSync(path.resolve(rootDir, options.from))) {
+    await planSymbolMove(rootDir, options.from.slice(0, separator), options.from.slice(separator + 1), options.to, plan);
+  } else {
+    await planFileMove(rootDir, options.from, options.to, plan);
+  }
+
+  if (plan.errors.length > 0) {
+    plan.moves = [];
+    plan.changes.clear();
+  }
+  return plan;
+}
+
+/**
+ * Write a move plan, then check the build and restore every file if it fails
+ */
+export function applyMove(plan: MovePlan, options: ApplyMoveOptions = {}): ApplyMoveResult {
+  const rootDir = process.cwd();
+  const absolute = (file: string) => path.join(rootDir, file);
+  const movedTo = new Set(plan.moves.map(move => move.to));
+  const filesModified = [...new Set([...plan.changes.keys(), ...movedTo])].sort();
+  if (filesModified.length === 0) return { success: true, filesModified };
+
+  const movedContents = new Map(plan.moves.map(move => [move.from, fs.readFileSync(absolute(move.from))]));
+  for (const move of plan.moves) {
+    fs.mkdirSync(path.dirname(absolute(move.to)), { recursive: true });
+    const change = plan.changes.get(move.to);
+    fs.writeFileSync(absolute(move.to), change ? change.content : movedContents.get(move.from)!);
+  }
+  for (const [file, { content }] of plan.changes) {
+    if (movedTo.has(file)) continue;
+    fs.mkdirSync(path.dirname(absolute(file)), { recursive: true });
+    fs.writeFileSync(absolute(file), content);
+  }
+  for (const move of plan.moves) {
+    fs.rmSync(absolute(move.from), { force: true });
+    removeEmptyDirectories(rootDir, path.dirname(absolute(move.from)));
+  }
+
+  if (options.verify === false) {
+    return { success: true, filesModified };
+  }
+
+  const build = runBuildVerification();
+  if (build.success) {
+    return { success: true, filesModified, buildPassed: true };
+  }
+
+  // Roll back to the tree before the move
+  for (const move of plan.moves) {
+    fs.rmSync(absolute(move.to), { force: true });
+    removeEmptyDirectories(rootDir, path.dirname(absolute(move.to)));
+    fs.mkdirSync(path.dirname(absolute(move.from)), { recursive: true });
+    fs.writeFileSync(absolute(move.from), movedContents.get(move.from)!);
+  }
+  for (const [file, { original }] of plan.changes) {
+    if (movedTo.has(file)) continue;
+    if (original === null) fs.rmSync(absolute(file), { force: true });
+    else fs.writeFileSync(absolute(file), original);
+  }
+  return {
+    success: false,
+    filesModified: [],
+    buildPassed: false,
+    error: `Build failed, changes rolled back: ${summarizeBuildError(build.error)}`,
+  };
+}
+
+// ============================================================================
+// File and directory moves
+// ============================================================================
+
+async function planFileMove(rootDir: string, from: string, to: string, plan: MovePlan): Promise<void> {
+  const relative = (file: string) => toProjectPath(rootDir, file);
+  const fromPath = path.resolve(rootDir, from);
+  if (!fs.existsSync(fromPath)) {
+    plan.errors.push(`Not found: ${from}`);
+    return;
+  }
+  const isDirectory = fs.statSync(fromPath).isDirectory();
+
+  let toPath = path.resolve(rootDir, to);
+  if (fs.existsSync(toPath) && fs.statSync(toPath).isDirectory()) {
+    toPath = path.join(toPath, path.basename(fromPath));
+  }
+  if (toPath === fromPath) {
+    plan.errors.push('Source and destination are the same');
+    return;
+  }
+  if (fs.existsSync(toPath)) {
+    plan.errors.push(`Destination already exists: ${relative(toPath)}`);
+    return;
+  }
+  if (isDirectory && isInside(toPath, fromPath)) {
+    plan.errors.push(`Cannot move ${relative(fromPath)} into itself`);
+    return;
+  }
+
+  const files = isDirectory
+    ? (await glob('**/*', { cwd: fromPath, nodir: true, dot: true, ignore: ['**/node_modules/**'] })).sort()
+    : [''];
+  plan.moves = files.map(file => ({ from: relative(path.join(fromPath, file)), to: relative(path.join(toPath, file)) }));
+  const newLocation = new Map(plan.moves.map(move => [path.join(rootDir, move.from), path.join(rootDir, move.to)]));
+  const moveTarget = (file: string): string => {
+    if (file === fromPath || isInside(file, fromPath)) return path.join(toPath, path.relative(fromPath, file));
+    return file;
+  };
+
+  // tsconfig `paths` targets that point into the moved tree follow it
+  const mappings = loadPathMappings(rootDir);
+  const movedAliases = new Map(
+    [...mappings.aliases].map(([prefix, targets]) => [prefix, targets.map(moveTarget)] as [string, string[]])
+  );
+  if (mappings.configPath) {
+    const original = fs.readFileSync(mappings.configPath, 'utf-8');
+    const content = rewritePathMappings(original, mappings, moveTarget);
+    if (content !== original) plan.changes.set(relative(mappings.configPath), { original, content });
+  }
+
+  const config: ImportRewriterConfig = { rootDir, pathAliases: mappings.aliases, includeTests: true };
+  const updates = await findImportUpdatesForMoves(plan.moves, config);
+
+  for (const [file, changes] of updates) {
+    const importer = newLocation.get(file) ?? file;
+    const rebased: ImportChange[] = [];
+    for (const change of changes) {
+      const target = path.resolve(rootDir, change.location.resolvedPath!);
+      const newSource = specifierFor(change.oldSource, importer, newLocation.get(target) ?? target, movedAliases);
+      if (newSource !== change.oldSource) rebased.push({ ...change, newSource });
+    }
+    if (rebased.length === 0) continue;
+
+    const original = fs.readFileSync(file, 'utf-8');
+    plan.changes.set(relative(importer), { original, content: applyImportChangesToFile(original, rebased, config) });
+  }
+}
+
+/** Point tsconfig `paths` targets at their new location, keeping their `./` and `*` */
+function rewritePathMappings(content: string, mappings: PathMappings, moveTarget: (file: string) => string): string {
+  const configFile = ts.readConfigFile(mappings.configPath!, ts.sys.readFile);
+  const paths = (configFile.config?.compilerOptions?.paths ?? {}) as Record<string, string[]>;
+  let result = content;
+
+  for (const target of new Set(Object.values(paths).flat())) {
+    const wildcard = target.match(/\/?\*$/)?.[0] ?? '';
+    const resolved = path.resolve(mappings.baseDir, target.slice(0, target.length - wildcard.length));
+    const moved = moveTarget(resolved);
+    if (moved === resolved) continue;
+
+    let rewritten = path.relative(mappings.baseDir, moved).split(path.sep).join('/');
+    if (target.startsWith('./') && !rewritten.startsWith('.')) rewritten = `./${rewritten}`;
+    result = result.split(JSON.stringify(target)).join(JSON.stringify(rewritten + wildcard));
+  }
+  return result;
+}
+
+// ============================================================================
+// Symbol moves
+// ============================================================================
+
+async function planSymbolMove(rootDir: string, file: string, name: string, to: string, plan: MovePlan): Promise<void> {
+  const relative = (filePath: string) => toProjectPath(rootDir, filePath);
+  const sourcePath = path.resolve(rootDir, file);
+  const targetPath = path.resolve(rootDir, to);
+  const source = relative(sourcePath);
+  const target = relative(targetPath);
+
+  if (!fs.existsSync(sourcePath) || !fs.statSync(sourcePath).isFile()) {
+    plan.errors.push(`File not found: ${file}`);
+    return;
+  }
+  if (fs.existsSync(targetPath) && fs.statSync(targetPath).isDirectory()) {
+    plan.errors.push(`${target} is a directory; name the file to move ${name} into`);
+    return;
+  }
+  if (targetPath === sourcePath) {
+    plan.errors.push('Source and destination are the same');
+    return;
+  }
+
+  const mappings = loadPathMappings(rootDir);
+  const config: ImportRewriterConfig = { rootDir, pathAliases: mappings.aliases, includeTests: true };
+  const sourceText = fs.readFileSync(sourcePath, 'utf-8');
+  const sourceFile = ts.createSourceFile(source, sourceText, ts.ScriptTarget.Latest, true, getScriptKind(source));
+
+  // The declaration itself
+  const declarations = sourceFile.statements.filter(statement => declaredNames(statement).includes(name));
+  if (declarations.length === 0) {
+    plan.errors.push(`No top-level declaration of ${name} in ${source}`);
+    return;
+  }
+  if (declarations.some(statement => hasModifier(statement, ts.SyntaxKind.DefaultKeyword))) {
+    plan.errors.push(`${name} is the default export of ${source}; only named exports can be moved`);
+    return;
+  }
+  if (!declarations.every(statement => hasModifier(statement, ts.SyntaxKind.ExportKeyword))) {
+    plan.errors.push(`${name} is not exported from ${source}`);
+    return;
+  }
+  const siblings = declarations.flatMap(declaredNames).filter(declared => declared !== name);
+  if (siblings.length > 0) {
+    plan.errors.push(`${name} is declared together with ${[...new Set(siblings)].join(', ')}; split the declaration first`);
+    return;
+  }
+
+  // Top-level declarations and how the source exports them
+  const topLevel = new Map<string, ts.Statement[]>();
+  const exportedAs = new Map<string, string>();
+  for (const statement of sourceFile.statements) {
+    for (const declared of declaredNames(statement)) {
+      topLevel.set(declared, [...(topLevel.get(declared) ?? []), statement]);
+      if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        exportedAs.set(declared, hasModifier(statement, ts.SyntaxKind.DefaultKeyword) ? 'default' : declared);
+      }
+    }
+    if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        const local = (element.propertyName ?? element.name).text;
+        if (!exportedAs.has(local)) exportedAs.set(local, element.name.text);
+      }
+    }
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals && ts.isIdentifier(statement.expression)) {
+      if (!exportedAs.has(statement.expression.text)) exportedAs.set(statement.expression.text, 'default');
+    }
+  }
+
+  // The declaration plus the private helpers it needs, in source order
+  const moved = new Set<ts.Statement>(declarations);
+  const movedNames = new Set([name]);
+  const fromSource = new Map<string, string>();
+  const queue = [...declarations];
+  while (queue.length > 0) {
+    for (const reference of referencedNames(queue.pop()!)) {
+      if (movedNames.has(reference) || !topLevel.has(reference)) continue;
+      if (exportedAs.has(reference)) {
+        fromSource.set(reference, exportedAs.get(reference)!);
+        continue;
+      }
+      for (const statement of topLevel.get(reference)!) {
+        if (moved.has(statement)) continue;
+        moved.add(statement);
+        queue.push(statement);
+        for (const declared of declaredNames(statement)) movedNames.add(declared);
+      }
+    }
+  }
+  const movedStatements = sourceFile.statements.filter(statement => moved.has(statement));
+  const remaining = sourceFile.statements.filter(statement => !moved.has(statement) && !ts.isImportDeclaration(statement));
+  const movedReferences = new Set(movedStatements.flatMap(statement => [...referencedNames(statement)]));
+  const remainingReferences = new Set(remaining.flatMap(statement => [...referencedNames(statement)]));
+
+  const shared = [...movedNames].filter(helper => helper !== name && remainingReferences.has(helper));
+  if (shared.length > 0) {
+    plan.errors.push(`${shared.join(', ')} ${shared.length === 1 ? 'is' : 'are'} also used by the rest of ${source}; export or move ${shared.length === 1 ? 'it' : 'them'} first`);
+    return;
+  }
+
+  // The target: clashes and its own imports of the symbol
+  const targetExists = fs.existsSync(targetPath);
+  const targetText = targetExists ? fs.readFileSync(targetPath, 'utf-8') : '';
+  const targetFile = ts.createSourceFile(target, targetText, ts.ScriptTarget.Latest, true, getScriptKind(target));
+  const taken = new Set(targetFile.statements.flatMap(declaredNames));
+  const clashes = [...movedNames].filter(moving => taken.has(moving));
+  if (clashes.length > 0) {
+    plan.errors.push(`${target} already declares ${clashes.join(', ')}`);
+    return;
+  }
+
+  const targetLocations = findImportsInFile(targetPath, targetText, config);
+  const targetBindings = importBindings(targetFile, targetLocations);
+  const targetChanges: ImportChange[] = [];
+  const targetEdits: TextEdit[] = [];
+  for (const location of targetLocations) {
+    if (!resolvesTo(rootDir, location, sourcePath)) continue;
+    if (location.style === 'named' && location.symbols.some(symbol => symbol.name === name && !symbol.alias)) {
+      const repointed = repointSymbol(location, name, null);
+      targetChanges.push(...repointed.changes);
+      targetEdits.push(...repointed.edits);
+      targetBindings.delete(name);
+    }
+  }
+  for (const moving of movedNames) {
+    if (targetBindings.has(moving)) {
+      plan.errors.push(`${target} already imports a different ${moving}`);
+      return;
+    }
+  }
+
+  // Imports the moved code needs in the target, and those the source no longer needs
+  const newImports: string[] = [];
+  const sourceEdits: TextEdit[] = [];
+  const sourceLocations = findImportsInFile(sourcePath, sourceText, config);
+  const specifierStyle = sourceLocations.find(location => location.source.startsWith('.'))?.source;
+  for (const [declaration, locals] of groupBindings(importBindings(sourceFile, sourceLocations))) {
+    const location = sourceLocations.find(candidate => candidate.startOffset === declaration.getStart());
+    const specifier = (declaration.moduleSpecifier as ts.StringLiteral).text;
+    const usedByMoved = locals.filter(local => movedReferences.has(local));
+    if (usedByMoved.length === 0) continue;
+
+    const unused = usedByMoved.filter(local => !remainingReferences.has(local));
+    if (unused.length > 0) {
+      const kept = locals.filter(local => !unused.includes(local));
+      sourceEdits.push(kept.length === 0
+        ? removeStatement(sourceText, declaration)
+        : { startOffset: declaration.getStart(), endOffset: declaration.getEnd(), newText: importText(declaration, kept, specifier) });
+    }
+
+    if (location && resolvesTo(rootDir, location, targetPath)) continue;
+    const needed = usedByMoved.filter(local => !targetBindings.has(local));
+    if (needed.length === 0) continue;
+    const resolved = location?.resolvedPath ? path.resolve(rootDir, location.resolvedPath) : undefined;
+    const rebased = resolved
+      ? specifierFor(specifier, targetPath, resolved, mappings.aliases)
+      : specifier.startsWith('.')
+        ? relativeSpecifier(targetPath, path.resolve(path.dirname(sourcePath), specifier), specifier)
+        : specifier;
+    newImports.push(importText(declaration, needed, rebased));
+  }
+
+  // Exported declarations of the source the moved code still uses
+  if (fromSource.size > 0) {
+    const named = [...fromSource].filter(([, exported]) => exported !== 'default').map(([local, exported]) => {
+      const isType = topLevel.get(local)!.every(statement => ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement));
+      return `${isType ? 'type ' : ''}${exported === local ? local : `${exported} as ${local}`}`;
+    });
+    const defaultLocal = [...fromSource].find(([, exported]) => exported === 'default')?.[0];
+    const clause = [defaultLocal, named.length > 0 ? `{ ${named.join(', ')} }` : undefined].filter(Boolean).join(', ');
+    newImports.push(`import ${clause} from '${relativeSpecifier(targetPath, sourcePath, specifierStyle)}';`);
+  }
+
+  // Take the statements out of the source
+  for (const statement of movedStatements) sourceEdits.push(removeStatement(sourceText, statement));
+  const movedText = movedStatements.map(statement => sourceText.slice(statement.getStart(sourceFile, true), statement.getEnd())).join('\n\n');
+
+  const sourceNeedsSymbol = remainingReferences.has(name);
+  if (sourceNeedsSymbol) {
+    const isType = declarations.every(statement => ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement));
+    const specifier = relativeSpecifier(sourcePath, targetPath, specifierStyle);
+    sourceEdits.push(insertImports(sourceFile, [`import ${isType ? 'type ' : ''}{ ${name} } from '${specifier}';`]));
+  }
+  const targetImportsSource = fromSource.size > 0 ||
+    targetLocations.some(location => resolvesTo(rootDir, location, sourcePath) && location.symbols.some(symbol => symbol.name !== name));
+  if (sourceNeedsSymbol && targetImportsSource) {
+    plan.warnings.push(`${source} and ${target} now import each other`);
+  }
+
+  plan.changes.set(source, { original: sourceText, content: applyTextEdits(sourceText, sourceEdits) });
+  if (targetExists) {
+    if (newImports.length > 0) targetEdits.push(insertImports(targetFile, newImports));
+    const content = applyImportChangesToFile(targetText, targetChanges, config, targetEdits);
+    plan.changes.set(target, { original: targetText, content: `${content.replace(/\s*$/, '')}\n\n${movedText}\n` });
+  } else {
+    const imports = newImports.length > 0 ? `${newImports.join('\n')}\n\n` : '';
+    plan.changes.set(target, { original: null, content: `${imports}${movedText}\n` });
+  }
+
+  // Importers and barrels of the source
+  const importers = await findFilesImporting([sourcePath], config);
+  for (const [importerPath, locations] of importers) {
+    if (importerPath === targetPath) continue;
+    const importer = relative(importerPath);
+    const original = fs.readFileSync(importerPath, 'utf-8');
+    const changes: ImportChange[] = [];
+    const edits: TextEdit[] = [];
+    const targetSpecifier = (location: ImportLocation) => specifierFor(location.source, importerPath, targetPath, mappings.aliases);
+
+    for (const location of locations) {
+      const namespace = location.symbols.find(symbol => symbol.name === '*');
+      if (location.style === 're-export-all' && !namespace?.alias) {
+        const starsTarget = findImportsInFile(importerPath, original, config)
+          .some(other => other.style === 're-export-all' && resolvesTo(rootDir, other, targetPath));
+        if (!starsTarget) {
+          const quote = quoteOf(location);
+          edits.push({ startOffset: location.endOffset, endOffset: location.endOffset, newText: `\nexport { ${name} } from ${quote}${targetSpecifier(location)}${quote};` });
+        }
+      } else if (namespace?.alias) {
+        if (new RegExp(`\\b${namespace.alias}\\.${name}\\b`).test(original) || location.style === 're-export') {
+          plan.warnings.push(`${importer}:${location.line} reaches ${name} through ${namespace.alias}; update it by hand`);
+        }
+      } else if (location.style === 'dynamic') {
+        if (new RegExp(`\\b${name}\\b`).test(original)) {
+          plan.warnings.push(`${importer}:${location.line} imports ${location.source} dynamically; check its use of ${name}`);
+        }
+      } else if (location.symbols.some(symbol => symbol.name === name)) {
+        const repointed = repointSymbol(location, name, targetSpecifier(location));
+        changes.push(...repointed.changes);
+        edits.push(...repointed.edits);
+      }
+    }
+
+    if (changes.length > 0 || edits.length > 0) {
+      plan.changes.set(importer, { original, content: applyImportChangesToFile(original, changes, config, edits) });
+    }
+  }
+}
+
+/**
+ * Point the `name` binding of an import or re-export at `newSource`, splitting
+ * it off when the declaration brings in other names too. A null `newSource`
+ * drops the binding.
+ */
+function repointSymbol(location: ImportLocation, name: string, newSource: string | null): { changes: ImportChange[]; edits: TextEdit[] } {
+  const moving = location.symbols.filter(symbol => symbol.name === name);
+  const rest = location.symbols.filter(symbol => symbol.name !== name);
+  const base = { filePath: location.filePath, oldSource: location.source, location };
+  if (rest.length === 0) {
+    return { changes: [{ ...base, newSource }], edits: [] };
+  }
+
+  const quote = quoteOf(location);
+  const edits: TextEdit[] = [];
+  if (newSource !== null) {
+    const keyword = location.style === 're-export' ? 'export' : 'import';
+    const typeOnly = location.kind === 'type';
+    const elements = moving.map(symbol =>
+      `${symbol.isTypeOnly && !typeOnly ? 'type ' : ''}${name}${symbol.alias ? ` as ${symbol.alias}` : ''}`
+    );
+    edits.push({
+      startOffset: location.endOffset,
+      endOffset: location.endOffset,
+      newText: `\n${keyword} ${typeOnly ? 'type ' : ''}{ ${elements.join(', ')} } from ${quote}${newSource}${quote};`,
+    });
+  }
+
+  // `import d, { name }` keeps only its default import
+  if (rest.every(symbol => symbol.name === 'default')) {
+    edits.push({
+      startOffset: location.startOffset,
+      endOffset: location.endOffset,
+      newText: `import ${rest[0].alias} from ${quote}${location.source}${quote};`,
+    });
+    return { changes: [], edits };
+  }
+  return { changes: [{ ...base, newSource: location.source, symbolChanges: [{ oldName: name, newName: null }] }], edits };
+}
+
+/** Local names bound by each import declaration of a file */
+function importBindings(sourceFile: ts.SourceFile, locations: ImportLocation[]): Map<string, ImportBinding> {
+  const bindings = new Map<string, ImportBinding>();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+    const location = locations.find(candidate => candidate.startOffset === statement.getStart());
+    const clause = statement.importClause;
+    if (clause.name) bindings.set(clause.name.text, { declaration: statement, location });
+    const named = clause.namedBindings;
+    if (named && ts.isNamespaceImport(named)) bindings.set(named.name.text, { declaration: statement, location });
+    if (named && ts.isNamedImports(named)) {
+      for (const element of named.elements) bindings.set(element.name.text, { declaration: statement, location });
+    }
+  }
+  return bindings;
+}
+
+function groupBindings(bindings: Map<string, ImportBinding>): Map<ts.ImportDeclaration, string[]> {
+  const grouped = new Map<ts.ImportDeclaration, string[]>();
+  for (const [local, { declaration }] of bindings) {
+    grouped.set(declaration, [...(grouped.get(declaration) ?? []), local]);
+  }
+  return grouped;
+}
+
+/** An import declaration reduced to the given local names, from `specifier` */
+function importText(declaration: ts.ImportDeclaration, locals: string[], specifier: string): string {
+  const clause = declaration.importClause!;
+  const parts: string[] = [];
+  if (clause.name && locals.includes(clause.name.text)) parts.push(clause.name.text);
+  const named = clause.namedBindings;
+  if (named && ts.isNamespaceImport(named) && locals.includes(named.name.text)) parts.push(`* as ${named.name.text}`);
+  if (named && ts.isNamedImports(named)) {
+    const elements = named.elements.filter(element => locals.includes(element.name.text)).map(element => element.getText());
+    if (elements.length > 0) parts.push(`{ ${elements.join(', ')} }`);
+  }
+  const quote = declaration.moduleSpecifier.getText().charAt(0);
+  return `import ${clause.isTypeOnly ? 'type ' : ''}${parts.join(', ')} from ${quote}${specifier}${quote};`;
+}
+
+/** Insert import lines after the last import of a file, or at its top */
+function insertImports(sourceFile: ts.SourceFile, lines: string[]): TextEdit {
+  const lastImport = [...sourceFile.statements].reverse().find(ts.isImportDeclaration);
+  if (lastImport) {
+    return { startOffset: lastImport.getEnd(), endOffset: lastImport.getEnd(), newText: `\n${lines.join('\n')}` };
+  }
+  const start = sourceFile.statements[0]?.getStart(sourceFile, true) ?? 0;
+  return { startOffset: start, endOffset: start, newText: `${lines.join('\n')}\n\n` };
+}
+
+/** Remove a statement with its doc comment and line break */
+function removeStatement(text: string, statement: ts.Statement): TextEdit {
+  const end = text.startsWith('\n', statement.getEnd()) ? statement.getEnd() + 1 : statement.getEnd();
+  return { startOffset: statement.getStart(statement.getSourceFile(), true), endOffset: end, newText: '' };
+}
+
+/** Names a statement refers to, ignoring member and property names */
+function referencedNames(statement: ts.Statement): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && !isMemberName(node)) names.add(node.text);
+    ts.forEachChild(node, visit);
+  };
+  visit(statement);
+  return names;
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(statement) && (ts.getModifiers(statement)?.some(modifier => modifier.kind === kind) ?? false);
+}
+
+// ============================================================================
+// Specifiers and paths
+// ============================================================================
+
+function resolvesTo(rootDir: string, location: ImportLocation, file: string): boolean {
+  return !!location.resolvedPath && normalizeFilePath(path.resolve(rootDir, location.resolvedPath)) === normalizeFilePath(file);
+}
+
+/** Remove `directory` and its parents up to the project root while they are empty */
+function removeEmptyDirectories(rootDir: string, directory: string): void {
+  let current = directory;
+  while (isInside(current, rootDir) && fs.existsSync(current) && fs.readdirSync(current).length === 0) {
+    fs.rmdirSync(current);
+    current = path.dirname(current);
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * Rename operation - Rename an exported symbol across the project
+ *
+ * 1. Renames the declaration and its references in the declaring file
+ * 2. Follows the symbol through every import, alias, namespace import and
+ *    barrel re-export (`export { }` and `export *`)
+ * 3. Renames usages in importing files that bind the symbol under its own name
+ * 4. Refuses to rename when the new name is already taken in a touched file
+ * 5. Writes are checked with the project build and rolled back when it fails
+ *
+ * Importers are found on disk with test files included, since tests import
+ * the symbol as well and would stop compiling otherwise.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { createConfiguredAnalyzer, type ProjectAnalysis } from '../../core/index.js';
+import { applyImportChangesToFile, findFilesImporting, findImportsInFile } from '../import-rewriter.js';
+import { bindingNames, declaredNames, getScriptKind, isMemberName, loadPathMappings, toProjectPath } from '../import-rewriter.helpers.js';
+import type { ImportChange, ImportLocation, ImportRewriterConfig, TextEdit } from '../types.js';
+import { runBuildVerification, summarizeBuildError } from './build-verification.js';
+
+export interface RenameSymbolOptions {
+  /** File that declares the symbol (relative to the project root) */
+  file: string;
+  oldName: string;
+  newName: string;
+  /** Preview changes without writing */
+  dryRun?: boolean;
+  /** Run the build after writing and roll back if it fails. Default: true */
+  verify?: boolean;
+}
+
+/** A place where the new name is already taken */
+export interface RenameConflict {
+  file: string;
+  line: number;
+  reason: string;
+}
+
+export interface RenameFileChange {
+  filePath: string;
+  originalContent: string;
+  newContent: string;
+  /** Identifiers and specifiers renamed in this file */
+  renamed: number;
+}
+
+export interface RenameSymbolResult {
+  success: boolean;
+  fileChanges: RenameFileChange[];
+  conflicts: RenameConflict[];
+  errors: string[];
+  /** Whether the build passed (unset when not verified) */
+  buildPassed?: boolean;
+}
+
+/** Where a name is exposed: the declaration itself, or a barrel that re-exports it */
+interface Exposure {
+  file: string;
+  name: string;
+}
+
+/** Pending edits for one file */
+interface FilePlan {
+  edits: TextEdit[];
+  importChanges: ImportChange[];
+  /** The file gets a new local binding named `newName` */
+  bindsNewName: boolean;
+}
+
+/**
+ * Rename `oldName` declared in `file` to `newName` everywhere it is used
+ */
+export async function renameSymbol(options: RenameSymbolOptions): Promise<RenameSymbolResult> {
+  const rootDir = process.cwd();
+  const file = path.relative(rootDir, path.resolve(rootDir, options.file)).split(path.sep).join('/');
+  const { oldName, newName } = options;
+  const result: RenameSymbolResult = { success: false, fileChanges: [], conflicts: [], errors: [] };
+
+  if (!isIdentifierName(newName)) {
+    result.errors.push(`"${newName}" is not a valid identifier`);
+    return result;
+  }
+  if (oldName === newName) {
+    result.errors.push('The new name is the same as the old one');
+    return result;
+  }
+  if (oldName === 'default') {
+    result.errors.push('Default exports have no name to rename');
+    return result;
+  }
+
+  const analysis = await createConfiguredAnalyzer(rootDir).analyze();
+  const fileAnalysis = analysis.files.get(file);
+  if (!fileAnalysis) {
+    result.errors.push(`File not found in project: ${file}`);
+    return result;
+  }
+  const reExport = fileAnalysis.exports.find(exp => exp.name === oldName && exp.isReExport);
+  if (reExport) {
+    result.errors.push(`${oldName} is re-exported from ${reExport.originalSource}; rename it there`);
+    return result;
+  }
+
+  const config: ImportRewriterConfig = { rootDir, pathAliases: loadPathMappings(rootDir).aliases, includeTests: true };
+  const contents = new Map<string, string>();
+  const read = (relativePath: string): string => {
+    if (!contents.has(relativePath)) contents.set(relativePath, fs.readFileSync(path.join(rootDir, relativePath), 'utf-8'));
+    return contents.get(relativePath)!;
+  };
+  const sourceFiles = new Map<string, ts.SourceFile>();
+  const parse = (relativePath: string): ts.SourceFile => {
+    if (!sourceFiles.has(relativePath)) {
+      sourceFiles.set(relativePath, ts.createSourceFile(relativePath, read(relativePath), ts.ScriptTarget.Latest, true, getScriptKind(relativePath)));
+    }
+    return sourceFiles.get(relativePath)!;
+  };
+
+  const declarationFile = parse(file);
+  const declarations = declarationFile.statements.filter(statement => declaredNames(statement).includes(oldName));
+  if (declarations.length === 0) {
+    result.errors.push(`No top-level declaration of ${oldName} in ${file}`);
+    return result;
+  }
+
+  const plans = new Map<string, FilePlan>();
+  const planFor = (relativePath: string): FilePlan => {
+    if (!plans.has(relativePath)) plans.set(relativePath, { edits: [], importChanges: [], bindsNewName: false });
+    return plans.get(relativePath)!;
+  };
+
+  // The declaring file: the declaration, its references and local `export { }` lists
+  const declaringPlan = planFor(file);
+  declaringPlan.bindsNewName = true;
+  declaringPlan.edits.push(...renameReferences(declarationFile, oldName, newName));
+  const existing = fileAnalysis.exports.find(exp => exp.name === newName);
+  if (existing) {
+    result.conflicts.push({ file, line: existing.line, reason: `${file} already exports ${newName}` });
+  }
+
+  // Follow the exported name through importers and barrels
+  const exposures: Exposure[] = [{ file, name: oldName }];
+  const seen = new Set([`${file}:${oldName}`]);
+  const expose = (exposure: Exposure, line: number) => {
+    const key = `${exposure.file}:${exposure.name}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    exposures.push(exposure);
+    const taken = analysis.files.get(exposure.file)?.exports.find(exp => exp.name === newName);
+    if (taken) {
+      result.conflicts.push({ file: exposure.file, line, reason: `${exposure.file} already exports ${newName}` });
+    }
+  };
+
+  // Imports by file, resolved on disk or, for workspace packages, through the analysis
+  const locationsByFile = new Map<string, Array<{ location: ImportLocation; target?: string }>>();
+  const locationsOf = (importer: string) => {
+    if (!locationsByFile.has(importer)) {
+      const resolvedBySpecifier = new Map(
+        (analysis.files.get(importer)?.imports ?? []).filter(imp => imp.resolvedPath).map(imp => [imp.source, imp.resolvedPath!])
+      );
+      locationsByFile.set(importer, findImportsInFile(path.join(rootDir, importer), read(importer), config).map(location => ({
+        location,
+        target: location.resolvedPath ? toProjectPath(rootDir, location.resolvedPath) : resolvedBySpecifier.get(location.source),
+      })));
+    }
+    return locationsByFile.get(importer)!;
+  };
+  const importersOf = async (target: string): Promise<string[]> => {
+    const importers = new Set(
+      [...(await findFilesImporting([path.join(rootDir, target)], config)).keys()].map(file => toProjectPath(rootDir, file))
+    );
+    for (const [importer, { imports }] of analysis.files) {
+      if (imports.some(imp => imp.resolvedPath === target)) importers.add(importer);
+    }
+    return [...importers].sort();
+  };
+
+  for (let i = 0; i < exposures.length; i++) {
+    const exposure = exposures[i];
+    for (const importer of await importersOf(exposure.file)) {
+      for (const { location, target } of locationsOf(importer)) {
+        if (target !== exposure.file || importer === exposure.file) continue;
+        const plan = planFor(importer);
+
+        if (location.style === 're-export-all') {
+          expose({ file: importer, name: exposure.name }, location.line);
+          continue;
+        }
+
+        const symbols = location.symbols.filter(symbol => symbol.name === exposure.name);
+        if (symbols.length > 0) {
+          plan.importChanges.push({
+            filePath: importer,
+            oldSource: location.source,
+            newSource: location.source,
+            symbolChanges: [{ oldName: exposure.name, newName }],
+            location,
+          });
+        }
+
+        for (const symbol of symbols) {
+          if (location.style === 're-export') {
+            // `export { old as alias }` keeps its public name
+            if (!symbol.alias) expose({ file: importer, name: exposure.name }, location.line);
+          } else if (!symbol.alias) {
+            plan.bindsNewName = true;
+            // Files outside the analysis, like tests, have no recorded usages: rename every reference
+            const lines = analysis.files.has(importer) ? usageLines(analysis, exposures, importer) : undefined;
+            plan.edits.push(...renameUsages(parse(importer), lines, exposure.name, newName));
+            for (const exported of localExportSpecifiers(parse(importer), exposure.name)) {
+              expose({ file: importer, name: exposure.name }, exported);
+            }
+          }
+        }
+
+        // `ns.old` through `import * as ns`
+        const namespace = location.style === 'namespace' ? location.symbols[0]?.alias : undefined;
+        if (namespace) {
+          const edits = renameNamespaceMembers(parse(importer), namespace, exposure.name, newName);
+          plan.edits.push(...edits);
+        }
+      }
+    }
+  }
+
+  // The new name must be free in every file that binds it
+  for (const [relativePath, plan] of plans) {
+    if (!plan.bindsNewName || result.conflicts.some(conflict => conflict.file === relativePath)) continue;
+    const taken = findIdentifier(parse(relativePath), newName);
+    if (taken) {
+      result.conflicts.push({ file: relativePath, line: taken, reason: `${newName} is already used in ${relativePath}` });
+    }
+  }
+
+  for (const [relativePath, plan] of plans) {
+    const renamed = plan.edits.length + plan.importChanges.length;
+    if (renamed === 0) continue;
+    const originalContent = read(relativePath);
+    const newContent = applyImportChangesToFile(originalContent, plan.importChanges, config, dedupeEdits(plan.edits));
+    if (newContent !== originalContent) {
+      result.fileChanges.push({ filePath: relativePath, originalContent, newContent, renamed });
+    }
+  }
+
+  if (result.conflicts.length > 0) {
+    result.errors.push(`${newName} conflicts with existing names`);
+    return result;
+  }
+
+  if (options.dryRun || result.fileChanges.length === 0) {
+    result.success = true;
+    return result;
+  }
+
+  for (const change of result.fileChanges) {
+    fs.writeFileSync(path.join(rootDir, change.filePath), change.newContent);
+  }
+  if (options.verify === false) {
+    result.success = true;
+    return result;
+  }
+
+  const build = runBuildVerification();
+  result.buildPassed = build.success;
+  if (build.success) {
+    result.success = true;
+    return result;
+  }
+
+  // Roll back to the tree before the rename
+  for (const change of result.fileChanges) {
+    fs.writeFileSync(path.join(rootDir, change.filePath), change.originalContent);
+  }
+  result.errors.push(`Build failed, changes rolled back: ${summarizeBuildError(build.error)}`);
+  return result;
+}
+
+// ============================================================================
+// Usage lookup
+// ============================================================================
+
+/** Lines of `file` where the analysis found usages of any exposure of the symbol */
+function usageLines(analysis: ProjectAnalysis, exposures: Exposure[], file: string): Set<number> {
+  const lines = new Set<number>();
+  for (const exposure of exposures) {
+    for (const usage of analysis.symbolTraces.get(`${exposure.file}:${exposure.name}`)?.usages || []) {
+      if (usage.filePath === file) lines.add(usage.line);
+    }
+  }
+  return lines;
+}
+
+/** A name that can be declared: an identifier that is not a reserved word */
+function isIdentifierName(name: string): boolean {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, name);
+  const token = scanner.scan();
+  const isIdentifierToken = token === ts.SyntaxKind.Identifier ||
+    (token > ts.SyntaxKind.LastReservedWord && token <= ts.SyntaxKind.LastKeyword);
+  return isIdentifierToken && scanner.getTextPos() === name.length;
+}
+
+/** Whether a scope between `node` and the top level declares its own `name` */
+function isShadowed(node: ts.Node, name: string): boolean {
+  for (let scope = node.parent; scope && !ts.isSourceFile(scope); scope = scope.parent) {
+    if (ts.isFunctionLike(scope)) {
+      if (scope.parameters.some(parameter => bindingNames(parameter.name).includes(name))) return true;
+      if ((ts.isFunctionExpression(scope) || ts.isClassExpression(scope)) && scope.name?.text === name) return true;
+    }
+    if (ts.isClassExpression(scope) && scope.name?.text === name) return true;
+    if (ts.isBlock(scope) || ts.isModuleBlock(scope) || ts.isCaseClause(scope) || ts.isDefaultClause(scope)) {
+      if (scope.statements.some(statement => declaredNames(statement).includes(name))) return true;
+    }
+    if ((ts.isForStatement(scope) || ts.isForInStatement(scope) || ts.isForOfStatement(scope)) &&
+      scope.initializer && ts.isVariableDeclarationList(scope.initializer) &&
+      scope.initializer.declarations.some(declaration => bindingNames(declaration.name).includes(name))) {
+      return true;
+    }
+    if (ts.isCatchClause(scope) && scope.variableDeclaration && bindingNames(scope.variableDeclaration.name).includes(name)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Edit for one reference; shorthand properties keep their key */
+function referenceEdit(node: ts.Identifier, oldName: string, newName: string): TextEdit {
+  const shorthand = ts.isShorthandPropertyAssignment(node.parent) && node.parent.name === node;
+  return {
+    startOffset: node.getStart(),
+    endOffset: node.getEnd(),
+    newText: shorthand ? `${oldName}: ${newName}` : newName,
+    description: `Rename ${oldName} to ${newName}`,
+  };
+}
+
+/**
+ * Top-level references to `oldName` in the declaring file, declarations and
+ * local `export { }` lists included
+ */
+function renameReferences(sourceFile: ts.SourceFile, oldName: string, newName: string): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || (ts.isExportDeclaration(node) && node.moduleSpecifier)) return;
+    if (ts.isExportSpecifier(node)) {
+      // export { old } → export { newName }, export { old as alias } → export { newName as alias }
+      const local = node.propertyName || node.name;
+      if (ts.isIdentifier(local) && local.text === oldName) {
+        edits.push({ startOffset: local.getStart(), endOffset: local.getEnd(), newText: newName });
+      }
+      return;
+    }
+    if (ts.isIdentifier(node) && node.text === oldName && !isMemberName(node) && !isShadowed(node, oldName)) {
+      edits.push(referenceEdit(node, oldName, newName));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return edits;
+}
+
+/** References to an imported `oldName` on the lines where the analysis found usages, or everywhere without `lines` */
+function renameUsages(sourceFile: ts.SourceFile, lines: Set<number> | undefined, oldName: string, newName: string): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) return;
+    if (ts.isIdentifier(node) && node.text === oldName && !isMemberName(node) && !isShadowed(node, oldName)) {
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+      if (!lines || lines.has(line)) edits.push(referenceEdit(node, oldName, newName));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // `export { old }` of the imported binding, which the analysis does not count as a usage
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExportDeclaration(statement) || statement.moduleSpecifier || !statement.exportClause) continue;
+    if (!ts.isNamedExports(statement.exportClause)) continue;
+    for (const element of statement.exportClause.elements) {
+      const local = element.propertyName || element.name;
+      if (ts.isIdentifier(local) && local.text === oldName) {
+        edits.push({ startOffset: local.getStart(), endOffset: local.getEnd(), newText: newName });
+      }
+    }
+  }
+  return edits;
+}
+
+/** Lines of `export { old }` lists that pass an imported binding on under its own name */
+function localExportSpecifiers(sourceFile: ts.SourceFile, name: string): number[] {
+  const lines: number[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExportDeclaration(statement) || statement.moduleSpecifier || !statement.exportClause) continue;
+    if (!ts.isNamedExports(statement.exportClause)) continue;
+    for (const element of statement.exportClause.elements) {
+      if (!element.propertyName && element.name.text === name) {
+        lines.push(sourceFile.getLineAndCharacterOfPosition(element.getStart()).line + 1);
+      }
+    }
+  }
+  return lines;
+}
+
+/** `ns.old` and `ns.old` types through a namespace import */
+function renameNamespaceMembers(sourceFile: ts.SourceFile, namespace: string, oldName: string, newName: string): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const visit = (node: ts.Node): void => {
+    const member = ts.isPropertyAccessExpression(node) ? [node.expression, node.name] as const
+      : ts.isQualifiedName(node) ? [node.left, node.right] as const
+      : undefined;
+    if (member && ts.isIdentifier(member[0]) && member[0].text === namespace && member[1].text === oldName &&
+      !isShadowed(member[0], namespace)) {
+      edits.push({ startOffset: member[1].getStart(), endOffset: member[1].getEnd(), newText: newName });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return edits;
+}
+
+/** First line with an identifier named `name`, as a binding or a global reference */
+function findIdentifier(sourceFile: ts.SourceFile, name: string): number | undefined {
+  let found: number | undefined;
+  const visit = (node: ts.Node): void => {
+    if (found !== undefined) return;
+    const parent = node.parent;
+    const isSpecifierName = parent && (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) &&
+      (parent.propertyName === node || (ts.isExportSpecifier(parent) && !!parent.propertyName));
+    if (ts.isIdentifier(node) && node.text === name && !isMemberName(node) && !isSpecifierName) {
+      found = sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+function dedupeEdits(edits: TextEdit[]): TextEdit[] {
+  const byStart = new Map<number, TextEdit>();
+  for (const edit of edits) byStart.set(edit.startOffset, edit);
+  return [...byStart.values()];
+}
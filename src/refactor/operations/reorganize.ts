@@ -10,14 +10,14 @@ import * as path from 'node:path';
 import { execSync, spawnSync } from 'node:child_process';
 import { ProjectAnalyzer, type ProjectAnalysis, type ExportInfo } from '../../core/analyzer.js';
 import { GraphAnalyzer } from '../../graph/analyzer.js';
-import {
-  createGeminiClient,
-  type FileInfoForReorg,
-  type DependencyInfoForReorg,
-  type HubFileInfo,
-  type ReorganizationSuggestion,
-} from '../../core/gemini.js';
-import { getGlobalApiKey, hasGlobalApiKey } from '../../commands/config.js';
+import { createAIProvider } from '../../core/ai.js';
+import type {
+  FileInfoForReorg,
+  DependencyInfoForReorg,
+  HubFileInfo,
+  ReorganizationSuggestion,
+} from '../../core/ai-provider.js';
+import { getGlobalAIConfig } from '../../commands/config.js';
 import {
   findImportUpdatesForMoves,
   applyBatchMoves,
@@ -451,15 +451,11 @@ export async function getReorganizationSuggestion(
   hubFiles: HubFileInfo[],
   options: { aggressive?: boolean } = {}
 ): Promise<ReorganizationSuggestion | null> {
-  if (!hasGlobalApiKey()) {
-    return null;
-  }
-
-  const apiKey = getGlobalApiKey();
-  if (!apiKey) return null;
+  const aiConfig = getGlobalAIConfig();
+  if (!aiConfig) return null;
 
-  const gemini = createGeminiClient(apiKey);
-  return gemini.suggestReorganization(files, dependencies, hubFiles, options);
+  const ai = createAIProvider(aiConfig);
+  return ai.suggestReorganization(files, dependencies, hubFiles, options);
 }
 
 /**
@@ -1007,7 +1003,7 @@ export async function reorganize(
       movedFiles: [],
       updatedImports: [],
       createdBarrels: [],
-      errors: ['Could not generate reorganization suggestion. Ensure Gemini API key is configured.'],
+      errors: ['Could not generate reorganization suggestion. Ensure an AI provider is configured (consuela config).'],
       warnings: [],
     };
   }
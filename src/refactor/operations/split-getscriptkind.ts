@@ -2,8 +2,9 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as ts from 'typescript';
 import { createGraphAnalyzer, FunctionGraph } from '../../graph/index.js';
-import { createGeminiClient } from '../../core/gemini.js';
-import { getGlobalApiKey } from '../../commands/config.js';
+import { createAIProvider } from '../../core/ai.js';
+import type { AIProvider } from '../../core/ai-provider.js';
+import { getGlobalAIConfig } from '../../commands/config.js';
 import { SplitPreview } from '../types.js';
 
 interface SplitOptions {
@@ -622,12 +623,12 @@ async function determineAutoExtract(
 
   // If no candidates from heuristics, try AI suggestion
   if (candidates.length === 0) {
-    const apiKey = getGlobalApiKey();
-    if (apiKey) {
+    const aiConfig = getGlobalAIConfig();
+    if (aiConfig) {
       try {
-        const gemini = createGeminiClient(apiKey);
+        const ai = createAIProvider(aiConfig);
         const suggestions = await getAISplitSuggestions(
-          gemini,
+          ai,
           sourceFile,
           content,
           parsed.functions
@@ -643,7 +644,7 @@ async function determineAutoExtract(
 }
 
 async function getAISplitSuggestions(
-  gemini: ReturnType<typeof createGeminiClient>,
+  ai: AIProvider,
   filePath: string,
   content: string,
   functions: FunctionInfo[]
@@ -1102,7 +1103,7 @@ async function findAndUpdateExternalImports(
     // Check if file imports from source
     const sourceBaseName = path.basename(sourceFile).replace(/\.[^.]+$/, '');
     const importRegex = new RegExp(
-      `import\\s+.*\\s+from\\s+['"][^'"]*${escapeRegex(sourceBaseName)}['"]`,
+      `import\\s+.*\\s+from\\s+['"][^'"]*${escapeRegex(sourceBaseName)}(?:\\.[cm]?[jt]sx?)?['"]`,
       'g'
     );
 
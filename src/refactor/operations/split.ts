@@ -10,8 +10,6 @@ import {
   createGraphAnalyzer,
   type FunctionGraph,
 } from '../../graph/index.js';
-import { createGeminiClient } from '../../core/gemini.js';
-import { getGlobalApiKey } from '../../commands/config.js';
 import type { SplitPreview } from '../types.js';
 import { splitFile, parseSourceFile,                      previewSplit } from './split-getscriptkind.js';
 export { splitFile, previewSplit, parseSourceFile } from './split-getscriptkind.js';
@@ -0,0 +1,218 @@
+/**
+ * Type imports operation - Mark imports and re-exports that only carry types
+ *
+ * 1. The type checker finds import bindings used in type positions alone,
+ *    and re-exported names (`export { }`, `export *`) with no value meaning
+ * 2. Declarations where everything is type-only become `import type` /
+ *    `export type`; the others get inline `type` specifiers
+ * 3. `import type` cannot combine a default import with named bindings, so
+ *    such declarations are split in two
+ * 4. A runtime edge is eliminated when a file no longer imports a module
+ *    for anything but types
+ * 5. Writes are checked with the project build and rolled back when it fails
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as ts from 'typescript';
+import { createConfiguredAnalyzer, type TypeOnlyImport } from '../../core/index.js';
+import { findImportsInFile } from '../import-rewriter.js';
+import { applyTextEdits, getScriptKind, isInside, loadPathMappings, toProjectPath } from '../import-rewriter.helpers.js';
+import type { ImportLocation, ImportRewriterConfig, TextEdit } from '../types.js';
+import { runBuildVerification, summarizeBuildError } from './build-verification.js';
+
+export interface TypeImportsOptions {
+  /** Only convert files inside this directory (relative to the project root) */
+  dir?: string;
+}
+
+/** An import or export declaration that now carries `type` */
+export interface TypeImportConversion {
+  file: string;
+  line: number;
+  kind: 'import' | 'export';
+  /** Module specifier as written; empty for `export { }` lists without one */
+  source: string;
+  /** Names now marked type-only */
+  names: string[];
+  /** The whole declaration became `import type` / `export type` */
+  whole: boolean;
+}
+
+/** A module a file no longer loads at runtime */
+export interface EliminatedEdge {
+  from: string;
+  to: string;
+}
+
+export interface TypeImportsPlan {
+  conversions: TypeImportConversion[];
+  eliminatedEdges: EliminatedEdge[];
+  /** New contents by file */
+  changes: Map<string, { original: string; content: string }>;
+  /** Why nothing can be planned */
+  errors: string[];
+}
+
+export interface ApplyTypeImportsOptions {
+  /** Run the build after writing and roll back if it fails. Default: true */
+  verify?: boolean;
+}
+
+export interface ApplyTypeImportsResult {
+  success: boolean;
+  filesModified: string[];
+  /** Whether the build passed (unset when not verified) */
+  buildPassed?: boolean;
+  error?: string;
+}
+
+/**
+ * Plan marking every type-only import and re-export of the project
+ */
+export async function planTypeImports(options: TypeImportsOptions = {}): Promise<TypeImportsPlan> {
+  const rootDir = process.cwd();
+  const plan: TypeImportsPlan = { conversions: [], eliminatedEdges: [], changes: new Map(), errors: [] };
+
+  const scope = path.resolve(rootDir, options.dir ?? '.');
+  if (!fs.existsSync(scope) || !fs.statSync(scope).isDirectory()) {
+    plan.errors.push(`Not a directory: ${options.dir}`);
+    return plan;
+  }
+
+  const analyzer = createConfiguredAnalyzer(rootDir);
+  const analysis = await analyzer.analyze();
+  const config: ImportRewriterConfig = { rootDir, pathAliases: loadPathMappings(rootDir).aliases, includeTests: true };
+
+  const byFile = new Map<string, TypeOnlyImport[]>();
+  for (const found of analyzer.findTypeOnlyImports(analysis)) {
+    if (scope !== rootDir && !isInside(path.join(rootDir, found.filePath), scope)) continue;
+    byFile.set(found.filePath, [...(byFile.get(found.filePath) ?? []), found]);
+  }
+
+  for (const [file, found] of [...byFile].sort(([a], [b]) => a.localeCompare(b))) {
+    const absolute = path.join(rootDir, file);
+    const original = fs.readFileSync(absolute, 'utf-8');
+    const sourceFile = ts.createSourceFile(absolute, original, ts.ScriptTarget.Latest, true, getScriptKind(absolute));
+
+    const edits: TextEdit[] = [];
+    for (const entry of found) {
+      const statement = sourceFile.statements.find(candidate => candidate.getStart() === entry.start);
+      if (!statement) continue;
+      const names = new Set(entry.names);
+      edits.push(...(ts.isImportDeclaration(statement)
+        ? importEdits(sourceFile, statement, names, entry.whole)
+        : exportEdits(sourceFile, statement as ts.ExportDeclaration, names, entry.whole)));
+      plan.conversions.push({ file, line: entry.line, kind: entry.kind, source: entry.source, names: entry.names, whole: entry.whole });
+    }
+    if (edits.length === 0) continue;
+
+    const content = applyTextEdits(original, edits);
+    plan.changes.set(file, { original, content });
+
+    const after = runtimeTargets(rootDir, findImportsInFile(absolute, content, config));
+    for (const target of runtimeTargets(rootDir, findImportsInFile(absolute, original, config))) {
+      if (!after.has(target)) plan.eliminatedEdges.push({ from: file, to: target });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Write a type imports plan, then check the build and restore every file if it fails
+ */
+export function applyTypeImports(plan: TypeImportsPlan, options: ApplyTypeImportsOptions = {}): ApplyTypeImportsResult {
+  const rootDir = process.cwd();
+  const filesModified = [...plan.changes.keys()].sort();
+  if (filesModified.length === 0) return { success: true, filesModified };
+
+  for (const [file, { content }] of plan.changes) {
+    fs.writeFileSync(path.join(rootDir, file), content);
+  }
+
+  if (options.verify === false) {
+    return { success: true, filesModified };
+  }
+
+  const build = runBuildVerification();
+  if (build.success) {
+    return { success: true, filesModified, buildPassed: true };
+  }
+
+  // Roll back to the tree before the rewrite
+  for (const [file, { original }] of plan.changes) {
+    fs.writeFileSync(path.join(rootDir, file), original);
+  }
+  return {
+    success: false,
+    filesModified: [],
+    buildPassed: false,
+    error: `Build failed, changes rolled back: ${summarizeBuildError(build.error)}`,
+  };
+}
+
+/** Modules the file loads at runtime: project paths, or the specifier for packages */
+function runtimeTargets(rootDir: string, locations: ImportLocation[]): Set<string> {
+  return new Set(locations
+    .filter(location => location.kind !== 'type' && (location.symbols.length === 0 || location.symbols.some(symbol => !symbol.isTypeOnly)))
+    .map(location => location.resolvedPath ? toProjectPath(rootDir, location.resolvedPath) : location.source));
+}
+
+// ============================================================================
+// Edits
+// ============================================================================
+
+function importEdits(sourceFile: ts.SourceFile, statement: ts.ImportDeclaration, names: Set<string>, whole: boolean): TextEdit[] {
+  const clause = statement.importClause!;
+  const named = clause.namedBindings && ts.isNamedImports(clause.namedBindings) ? clause.namedBindings : undefined;
+  const namespace = clause.namedBindings && ts.isNamespaceImport(clause.namedBindings) ? clause.namedBindings : undefined;
+
+  if (!clause.name || !clause.namedBindings) {
+    return whole
+      ? [insertType(clause.getStart()), ...(named?.elements ?? []).flatMap(removeType)]
+      : named!.elements.filter(element => names.has(element.name.text)).map(element => insertType(element.getStart()));
+  }
+  if (!names.has(clause.name.text) && !namespace) {
+    return named!.elements.filter(element => names.has(element.name.text)).map(element => insertType(element.getStart()));
+  }
+
+  // `import type` cannot combine a default import with named bindings: split the declaration
+  const from = ` from ${statement.moduleSpecifier.getText(sourceFile)}${statement.getText(sourceFile).endsWith(';') ? ';' : ''}`;
+  const typeKeyword = (isType: boolean) => isType ? 'type ' : '';
+  const statements = [`import ${typeKeyword(names.has(clause.name.text))}${clause.name.text}${from}`];
+  if (namespace) {
+    statements.push(`import ${typeKeyword(names.has(namespace.name.text))}* as ${namespace.name.text}${from}`);
+  } else {
+    const elements = named!.elements;
+    const allTypes = elements.every(element => element.isTypeOnly || names.has(element.name.text));
+    const elementText = (element: ts.ImportSpecifier) => {
+      const binding = element.propertyName ? `${element.propertyName.getText(sourceFile)} as ${element.name.text}` : element.name.text;
+      return `${typeKeyword(!allTypes && (element.isTypeOnly || names.has(element.name.text)))}${binding}`;
+    };
+    statements.push(`import ${typeKeyword(allTypes)}{ ${elements.map(elementText).join(', ')} }${from}`);
+  }
+  return [{ startOffset: statement.getStart(), endOffset: statement.getEnd(), newText: statements.join('\n') }];
+}
+
+function exportEdits(sourceFile: ts.SourceFile, statement: ts.ExportDeclaration, names: Set<string>, whole: boolean): TextEdit[] {
+  const clause = statement.exportClause;
+  if (!clause || ts.isNamespaceExport(clause)) {
+    // `export *` and `export * as ns`
+    const asterisk = statement.getChildren(sourceFile).find(child => child.kind === ts.SyntaxKind.AsteriskToken);
+    return [insertType((clause ?? asterisk)!.getStart(sourceFile))];
+  }
+  return whole
+    ? [insertType(clause.getStart()), ...clause.elements.flatMap(removeType)]
+    : clause.elements.filter(element => names.has(element.name.text)).map(element => insertType(element.getStart()));
+}
+
+function insertType(offset: number): TextEdit {
+  return { startOffset: offset, endOffset: offset, newText: 'type ' };
+}
+
+/** Drop an inline `type` modifier that a `type` declaration would make redundant */
+function removeType(element: ts.ImportSpecifier | ts.ExportSpecifier): TextEdit[] {
+  if (!element.isTypeOnly) return [];
+  return [{ startOffset: element.getStart(), endOffset: (element.propertyName ?? element.name).getStart(), newText: '' }];
+}
@@ -153,6 +153,8 @@ export interface ImportRewriterConfig {
   dryRun?: boolean;
   /** TypeScript path aliases (from tsconfig) */
   pathAliases?: Map<string, string[]>;
+  /** Also look in test files and directories */
+  includeTests?: boolean;
 }
 
 // ============================================================================
@@ -361,12 +363,18 @@ export interface CleanupCommandOptions {
   unused?: boolean;
   /** Remove duplicates */
   duplicates?: boolean;
+  /** Remove unused class, enum and interface members */
+  members?: boolean;
+  /** Delete files unreachable from any entry point */
+  files?: boolean;
   /** Remove all dead code */
   all?: boolean;
   /** Preview without making changes */
   dryRun?: boolean;
   /** Skip confirmation prompt */
   yes?: boolean;
+  /** Build after deleting unreachable files and restore them on failure (default: true) */
+  verify?: boolean;
   /** Output as JSON */
   json?: boolean;
 }
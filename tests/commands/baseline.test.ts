@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  text: '',
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+// Mock console and process.exit
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('baselineCommand', () => {
+  let tempDir: string;
+  let consoleLogs: string[];
+  let exitCode: number | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+    exitCode = undefined;
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn();
+    process.exit = vi.fn((code) => {
+      exitCode = code as number;
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'index.ts'),
+      `import { usedFunc } from './utils.js';
+export function main() { return usedFunc(); }`
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'utils.ts'),
+      `export function usedFunc() { return 1; }
+export function legacyFunc() { return 2; }
+export function oldFunc() { return 3; }`
+    );
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('writes current problems to .consuela/baseline.json', async () => {
+    const { baselineCommand } = await import('../../src/commands/baseline.js');
+
+    process.chdir(tempDir);
+    await baselineCommand('create');
+
+    const baseline = JSON.parse(fs.readFileSync(path.join(tempDir, '.consuela', 'baseline.json'), 'utf-8'));
+    const symbols = baseline.entries.filter((e: any) => e.rule === 'unused-export').map((e: any) => e.symbol);
+    expect(symbols.sort()).toEqual(['legacyFunc', 'oldFunc']);
+    expect(baseline.entries.every((e: any) => e.line === undefined)).toBe(true);
+  });
+
+  it('makes --fail pass on known problems and fail on new ones', async () => {
+    const { baselineCommand } = await import('../../src/commands/baseline.js');
+    const { unusedCommand } = await import('../../src/commands/unused.js');
+
+    process.chdir(tempDir);
+    await baselineCommand('create');
+
+    // Shift lines: known problems are matched by file and symbol, not position
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'utils.ts'),
+      `// header\n` + fs.readFileSync(path.join(tempDir, 'src', 'utils.ts'), 'utf-8')
+    );
+    consoleLogs = [];
+    await unusedCommand({ fail: true });
+    expect(exitCode).toBeUndefined();
+    expect(consoleLogs.join('\n')).toContain('2 known problem(s) ignored');
+
+    fs.appendFileSync(path.join(tempDir, 'src', 'utils.ts'), '\nexport function newFunc() { return 4; }');
+    consoleLogs = [];
+    await expect(unusedCommand({ fail: true })).rejects.toThrow('process.exit(1)');
+    expect(consoleLogs.join('\n')).toContain('Unused export: newFunc');
+  });
+
+  it('reports fixed entries and prunes them', async () => {
+    const { baselineCommand } = await import('../../src/commands/baseline.js');
+    const { unusedCommand } = await import('../../src/commands/unused.js');
+
+    process.chdir(tempDir);
+    await baselineCommand('create');
+
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'utils.ts'),
+      `export function usedFunc() { return 1; }
+export function legacyFunc() { return 2; }`
+    );
+    consoleLogs = [];
+    await unusedCommand({ fail: true });
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('1 baseline entry is fixed');
+    expect(output).toContain('oldFunc');
+
+    await baselineCommand('prune');
+    const baseline = JSON.parse(fs.readFileSync(path.join(tempDir, '.consuela', 'baseline.json'), 'utf-8'));
+    const symbols = baseline.entries.filter((e: any) => e.rule === 'unused-export').map((e: any) => e.symbol);
+    expect(symbols).toEqual(['legacyFunc']);
+  });
+
+  it('refuses to prune without a baseline', async () => {
+    const { baselineCommand } = await import('../../src/commands/baseline.js');
+
+    process.chdir(tempDir);
+    await expect(baselineCommand('prune')).rejects.toThrow('process.exit(1)');
+    expect(exitCode).toBe(1);
+  });
+});
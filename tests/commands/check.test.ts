@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('checkCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+  let exitCode: number | undefined;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+    exitCode = undefined;
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn();
+    process.exit = vi.fn((code) => {
+      exitCode = code as number;
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    write('src/index.ts', `import { createUser } from './domain/user.js';
+export function main() { return createUser(); }`);
+    write('src/domain/user.ts', `import { save } from '../infra/db.js';
+export function createUser() { return save(); }`);
+    write('src/infra/db.ts', `export function save() { return 1; }`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('explains how to add rules when none are configured', async () => {
+    const { checkCommand } = await import('../../src/commands/check.js');
+    await checkCommand({});
+
+    expect(consoleLogs.join('\n')).toContain('No rules configured');
+  });
+
+  it('reports imports that break a rule', async () => {
+    write('.consuelarc', JSON.stringify({ rules: [{ name: 'domain-is-pure', from: 'src/domain/**', to: 'src/infra/**' }] }));
+
+    const { checkCommand } = await import('../../src/commands/check.js');
+    await checkCommand({});
+
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('domain-is-pure');
+    expect(output).toContain('src/domain/user.ts:1');
+    expect(output).toContain('src/infra/db.ts');
+  });
+
+  it('outputs JSON when --json flag is set', async () => {
+    write('.consuelarc', JSON.stringify({ rules: [{ from: 'src/domain/**', to: 'src/infra/**' }] }));
+
+    const { checkCommand } = await import('../../src/commands/check.js');
+    await checkCommand({ json: true });
+
+    const parsed = JSON.parse(consoleLogs.join('\n'));
+    expect(parsed.rules).toBe(1);
+    expect(parsed.violations).toEqual([
+      { rule: 'src/domain/** → src/infra/**', file: 'src/domain/user.ts', line: 1, source: '../infra/db.js', target: 'src/infra/db.ts', severity: 'critical' },
+    ]);
+  });
+
+  it('exits with code 1 when --fail flag is set and rules are broken', async () => {
+    write('.consuelarc', JSON.stringify({ rules: [{ from: 'src/domain/**', to: 'src/infra/**' }] }));
+
+    const { checkCommand } = await import('../../src/commands/check.js');
+    await expect(checkCommand({ fail: true })).rejects.toThrow('process.exit(1)');
+    expect(exitCode).toBe(1);
+  });
+
+  it('passes --fail when allowed files are imported', async () => {
+    write('.consuelarc', JSON.stringify({ rules: [{ from: 'src/domain', to: 'src/infra', allow: 'src/infra/db.ts' }] }));
+
+    const { checkCommand } = await import('../../src/commands/check.js');
+    await checkCommand({ fail: true });
+
+    expect(exitCode).toBeUndefined();
+    expect(consoleLogs.join('\n')).toContain('All imports follow the 1 rule(s)');
+  });
+});
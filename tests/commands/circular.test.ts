@@ -111,6 +111,32 @@ export const b = () => a();`
     expect(parsed.count).toBeGreaterThan(0);
   });
 
+  it('outputs Code Climate issues with --format codeclimate', async () => {
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'a.ts'),
+      `import { b } from './b.js';
+export const a = () => b();`
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'b.ts'),
+      `import { a } from './a.js';
+export const b = () => a();`
+    );
+
+    const { circularCommand } = await import('../../src/commands/circular.js');
+
+    process.chdir(tempDir);
+    await circularCommand({ format: 'codeclimate' });
+
+    const issues = JSON.parse(consoleLogs.join('\n'));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].check_name).toBe('circular-dependency');
+    expect(issues[0].severity).toBe('critical');
+    expect(issues[0].location.lines.begin).toBe(1);
+    expect(['src/a.ts', 'src/b.ts']).toContain(issues[0].location.path);
+  });
+
   it('exits with code 1 when --fail flag is set and cycles found', async () => {
     fs.mkdirSync(path.join(tempDir, 'src'));
     fs.writeFileSync(
@@ -293,4 +319,271 @@ export const b = () => a();`
     expect(output).toContain('Large cycles');
     expect(output).toContain('... and');
   });
+
+  it('labels cycles with the workspace packages they cross', async () => {
+    fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify({ private: true, workspaces: ['packages/*'] }));
+    for (const [name, other] of [['a', 'b'], ['b', 'a']]) {
+      const dir = path.join(tempDir, 'packages', name);
+      fs.mkdirSync(path.join(dir, 'src'), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: `@ws/${name}`, main: './dist/index.js' }));
+      fs.writeFileSync(
+        path.join(dir, 'src', 'index.ts'),
+        `import { ${other} } from '@ws/${other}';\nexport const ${name} = () => ${other};`
+      );
+    }
+
+    const { circularCommand } = await import('../../src/commands/circular.js');
+
+    process.chdir(tempDir);
+    await circularCommand({ json: true });
+
+    const result = JSON.parse(consoleLogs.join('\n'));
+    expect(result.count).toBe(1);
+    expect(result.cycles[0].crossPackage).toBe(true);
+    expect(result.cycles[0].packages.sort()).toEqual(['@ws/a', '@ws/b']);
+  });
+
+  it('reports tangles and filters type-only cycles with --runtime-only', async () => {
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'a.ts'), `import { b } from './b.js';\nexport const a = () => b();`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'b.ts'), `import { c } from './c.js';\nimport { a } from './a.js';\nexport const b = () => c() + a();`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'c.ts'), `import { a } from './a.js';\nexport const c = () => a();`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'user.ts'), `import type { Order } from './order.js';\nexport interface User { orders: Order[] }`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'order.ts'), `import { type User } from './user.js';\nexport interface Order { user: User }`);
+
+    const { circularCommand } = await import('../../src/commands/circular.js');
+
+    process.chdir(tempDir);
+    await circularCommand({ json: true });
+
+    const all = JSON.parse(consoleLogs.join('\n'));
+    expect(all.components.map((c: { files: string[]; typeOnly: boolean }) => [c.files, c.typeOnly])).toEqual([
+      [['src/a.ts', 'src/b.ts', 'src/c.ts'], false],
+      [['src/order.ts', 'src/user.ts'], true],
+    ]);
+    expect(all.components[0]).toMatchObject({ size: 3, cycleCount: 2 });
+    expect(all.edgeRanking[0]).toMatchObject({ from: 'src/a.ts', to: 'src/b.ts', cycles: 2 });
+
+    consoleLogs = [];
+    await circularCommand({ json: true, runtimeOnly: true });
+
+    const runtime = JSON.parse(consoleLogs.join('\n'));
+    expect(runtime.count).toBe(2);
+    expect(runtime.components).toHaveLength(1);
+    expect(runtime.cycles.flatMap((c: { files: string[] }) => c.files)).not.toContain('src/user.ts');
+
+    consoleLogs = [];
+    await circularCommand({});
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('3 files, 4 imports (4 at runtime), 2 cycles');
+    expect(output).toContain('[type-only]');
+    expect(output).toContain('src/a.ts → src/b.ts (in 2 cycles)');
+  });
+
+  it('finds runtime cycles that a type-only import would hide from a depth-first walk', async () => {
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'a.ts'), `import type { B } from './b.js';\nimport { c } from './c.js';\nexport const a = (b: B) => c() + b;`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'b.ts'), `import { a } from './a.js';\nexport type B = string;\nexport const b = () => a;`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'c.ts'), `import { b } from './b.js';\nexport const c = () => b();`);
+
+    const { circularCommand } = await import('../../src/commands/circular.js');
+
+    process.chdir(tempDir);
+    await circularCommand({ json: true, runtimeOnly: true });
+
+    const runtime = JSON.parse(consoleLogs.join('\n'));
+    expect(runtime.count).toBe(1);
+    expect(runtime.cycles[0].chain).toBe('src/a.ts → src/c.ts → src/b.ts → src/a.ts');
+    expect(runtime.components.map((c: { files: string[] }) => c.files)).toEqual([['src/a.ts', 'src/b.ts', 'src/c.ts']]);
+
+    consoleLogs = [];
+    await expect(circularCommand({ runtimeOnly: true, fail: true })).rejects.toThrow();
+    const output = consoleLogs.join('\n');
+    expect(output).not.toContain('No circular dependencies found');
+    expect(output).toContain('Total cycles:     1');
+    expect(exitCode).toBe(1);
+  });
+
+  describe('--fix', () => {
+    const writeProject = () => {
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      // Only a type crosses user → order
+      fs.writeFileSync(path.join(tempDir, 'src', 'user.ts'), `import { Order } from './order.js';
+export interface User { orders: Order[] }
+export function makeUser(): User { return { orders: [] }; }
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'order.ts'), `import { makeUser } from './user.js';
+export interface Order { id: number }
+export const owner = () => makeUser();
+`);
+      // utils needs a function api also shares with others
+      fs.writeFileSync(path.join(tempDir, 'src', 'api.ts'), `import { formatDate } from './utils.js';
+export function fetchData() { return formatDate(new Date()); }
+export function apiBase() { return '/api'; }
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'utils.ts'), `import { apiBase } from './api.js';
+export function formatDate(d: Date) { return d.toISOString(); }
+export function url() { return apiBase() + '/x'; }
+`);
+      // Only view uses LABELS, which is not a function
+      fs.writeFileSync(path.join(tempDir, 'src', 'view.ts'), `import { LABELS } from './model.js';
+export const title = () => LABELS.x;
+export const first = LABELS.x;
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'model.ts'), `import { title } from './view.js';
+export const LABELS = { x: 'X' };
+export const heading = () => title();
+`);
+    };
+
+    it('shows the plan and resulting cycle count without writing in dry-run', async () => {
+      writeProject();
+      const before = fs.readFileSync(path.join(tempDir, 'src', 'user.ts'), 'utf-8');
+
+      const { circularCommand } = await import('../../src/commands/circular.js');
+
+      process.chdir(tempDir);
+      await circularCommand({ fix: true, dryRun: true });
+
+      const output = consoleLogs.join('\n');
+      expect(output).toContain('src/user.ts → src/order.ts');
+      expect(output).toContain('import-type');
+      expect(output).toContain('split');
+      expect(output).toContain('invert');
+      expect(output).toContain('+ import type { Order } from');
+      expect(output).toMatch(/Runtime import cycles: .*3.* → .*0/);
+      expect(fs.readFileSync(path.join(tempDir, 'src', 'user.ts'), 'utf-8')).toBe(before);
+      expect(fs.existsSync(path.join(tempDir, 'src', 'api-shared.ts'))).toBe(false);
+    });
+
+    it('applies the cheapest remedy for each cut import', async () => {
+      writeProject();
+
+      const { circularCommand } = await import('../../src/commands/circular.js');
+
+      process.chdir(tempDir);
+      await circularCommand({ fix: true, verify: false, json: true });
+
+      const result = JSON.parse(consoleLogs.join('\n'));
+      expect(result.breaks.map((b: { from: string; remedy: string }) => `${b.from}:${b.remedy}`)).toEqual([
+        'src/user.ts:import-type', 'src/utils.ts:split', 'src/view.ts:invert',
+      ]);
+      expect(result.cyclesAfter).toBe(0);
+
+      const read = (file: string) => fs.readFileSync(path.join(tempDir, 'src', file), 'utf-8');
+      expect(read('user.ts')).toContain(`import type { Order } from './order.js';`);
+      expect(read('api-shared.ts')).toContain('export function apiBase()');
+      expect(read('utils.ts')).toContain(`import { apiBase } from './api-shared.js';`);
+      expect(read('view.ts')).toBe(`const LABELS = { x: 'X' };
+
+export const title = () => LABELS.x;
+export const first = LABELS.x;
+`);
+      expect(read('model.ts')).not.toContain('LABELS');
+    });
+
+    it('moves declarations after what they need and before their first use', async () => {
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      fs.writeFileSync(path.join(tempDir, 'src', 'view.ts'), `import { LABELS } from './model.js';
+import { join } from 'node:path';
+export const prefix = 'app';
+export const first = LABELS.x;
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'model.ts'), `import { prefix } from './view.js';
+export const LABELS = { x: prefix + ':x' };
+export const heading = () => prefix;
+`);
+
+      const { circularCommand } = await import('../../src/commands/circular.js');
+
+      process.chdir(tempDir);
+      await circularCommand({ fix: true, verify: false, json: true });
+
+      const result = JSON.parse(consoleLogs.join('\n'));
+      expect(result.breaks.map((b: { from: string; remedy: string }) => `${b.from}:${b.remedy}`)).toEqual(['src/view.ts:invert']);
+      expect(fs.readFileSync(path.join(tempDir, 'src', 'view.ts'), 'utf-8')).toBe(`import { join } from 'node:path';
+export const prefix = 'app';
+
+const LABELS = { x: prefix + ':x' };
+
+export const first = LABELS.x;
+`);
+    });
+
+    it('refuses to invert when a use comes before what the moved code needs', async () => {
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      fs.writeFileSync(path.join(tempDir, 'src', 'view.ts'), `import { LABELS } from './model.js';
+export const first = LABELS.x;
+export const prefix = 'app';
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'model.ts'), `import { prefix } from './view.js';
+export const LABELS = { x: prefix + ':x' };
+`);
+
+      const { circularCommand } = await import('../../src/commands/circular.js');
+
+      process.chdir(tempDir);
+      await circularCommand({ fix: true, verify: false, json: true });
+
+      const result = JSON.parse(consoleLogs.join('\n'));
+      const reasons = result.breaks.map((b: { reason?: string }) => b.reason).join('; ');
+      expect(reasons).toContain('LABELS used in src/view.ts before the code it needs');
+      expect(fs.readFileSync(path.join(tempDir, 'src', 'view.ts'), 'utf-8')).toContain(`from './model.js'`);
+    });
+
+    it('refuses to invert declarations another file reaches through a namespace import', async () => {
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      fs.writeFileSync(path.join(tempDir, 'src', 'view.ts'), `import { LABELS } from './model.js';
+export const title = () => LABELS.x;
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'model.ts'), `import { title } from './view.js';
+export const LABELS = { x: 'X' };
+export const heading = () => title();
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'index.ts'), `import * as model from './model.js';
+export const label = model.LABELS.x;
+`);
+
+      const { circularCommand } = await import('../../src/commands/circular.js');
+      process.chdir(tempDir);
+      const plan = async () => {
+        consoleLogs = [];
+        await circularCommand({ fix: true, dryRun: true, json: true });
+        const result = JSON.parse(consoleLogs.join('\n'));
+        expect(result.breaks.some((b: { remedy?: string }) => b.remedy === 'invert')).toBe(false);
+        return result.breaks.map((b: { reason?: string }) => b.reason).join('; ');
+      };
+
+      // `model.LABELS` is a usage of LABELS through the namespace
+      expect(await plan()).toContain('invert: LABELS is used elsewhere');
+
+      // Any namespace import may reach the export without naming it
+      fs.writeFileSync(path.join(tempDir, 'src', 'index.ts'), `import * as model from './model.js';
+export const names = Object.keys(model);
+`);
+      expect(await plan()).toContain('invert: src/index.ts imports src/model.ts as a namespace');
+    });
+
+    it('keeps declarations in modules that are part of the public API', async () => {
+      fs.mkdirSync(path.join(tempDir, 'src'));
+      fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify({ name: 'lib', main: 'src/model.ts' }));
+      fs.writeFileSync(path.join(tempDir, 'src', 'view.ts'), `import { LABELS } from './model.js';
+export const title = () => LABELS.x;
+`);
+      fs.writeFileSync(path.join(tempDir, 'src', 'model.ts'), `import { title } from './view.js';
+export const LABELS = { x: 'X' };
+export const heading = () => title();
+`);
+
+      const { circularCommand } = await import('../../src/commands/circular.js');
+
+      process.chdir(tempDir);
+      await circularCommand({ fix: true, verify: false, json: true });
+
+      const result = JSON.parse(consoleLogs.join('\n'));
+      const reasons = result.breaks.map((b: { reason?: string }) => b.reason).join('; ');
+      expect(reasons).toContain('invert: src/model.ts is an entry point');
+      expect(fs.readFileSync(path.join(tempDir, 'src', 'model.ts'), 'utf-8')).toContain('export const LABELS');
+    });
+  });
 });
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  stop: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('cleanupCommand --files', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+  const exists = (file: string) => fs.existsSync(path.join(tempDir, file));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    write('src/index.ts', `import { total } from './math.js';\nexport const main = () => total([1, 2]);\n`);
+    write('src/math.ts', `export const total = (values: number[]) => values.reduce((a, b) => a + b, 0);\n`);
+    write('src/legacy/report.ts', `import { format } from './format.js';\nexport const report = () => format(1);\n`);
+    write('src/legacy/format.ts', `import { total } from '../math.js';\nexport const format = (n: number) => String(total([n]));\n`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  // The build check runs the typecheck script; this one fails while src/legacy is gone
+  const typecheck = (passes: boolean) => write('package.json', JSON.stringify({
+    name: 'app',
+    scripts: { typecheck: passes ? 'node -e ""' : 'node -e "process.exit(1)"' },
+  }));
+
+  it('previews dead clusters without deleting them', async () => {
+    const { cleanupCommand } = await import('../../src/commands/cleanup.js');
+    await cleanupCommand({ files: true, dryRun: true });
+
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('Unreachable files to delete (2 in 1 cluster(s))');
+    expect(output).toContain('src/legacy/report.ts (nothing imports it)');
+    expect(exists('src/legacy/report.ts')).toBe(true);
+  });
+
+  it('deletes whole clusters once the build passes', async () => {
+    typecheck(true);
+    const { cleanupCommand } = await import('../../src/commands/cleanup.js');
+    await cleanupCommand({ files: true, yes: true });
+
+    expect(exists('src/legacy/report.ts')).toBe(false);
+    expect(exists('src/legacy/format.ts')).toBe(false);
+    expect(exists('src/math.ts')).toBe(true);
+    expect(consoleLogs.join('\n')).toContain('Deleted 2 unreachable file(s) in 1 cluster(s)');
+  });
+
+  it('restores the cluster when the build fails', async () => {
+    typecheck(false);
+    const { cleanupCommand } = await import('../../src/commands/cleanup.js');
+    await expect(cleanupCommand({ files: true, yes: true })).rejects.toThrow('process.exit(1)');
+
+    expect(exists('src/legacy/report.ts')).toBe(true);
+    expect(exists('src/legacy/format.ts')).toBe(true);
+    expect(consoleLogs.join('\n')).toContain('Build failed, dead files restored');
+  });
+});
+
+describe('cleanupCommand --members', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+
+  const read = (file: string) => fs.readFileSync(path.join(tempDir, file), 'utf-8');
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    write('src/index.ts', `import { Service, Status, Color } from './service.js';
+export const main = () => [new Service().start(), Status.Active, Status.Archived, Color.Red];
+`);
+    write('src/service.ts', `export class Service {
+  start() { return 1; }
+
+  /** Never called */
+  stop() { return 0; }
+}
+
+export enum Status {
+  Active,
+  Unused,
+  Archived,
+  Legacy,
+}
+
+export enum Color {
+  Red = 'red',
+  Green = 'green',
+}
+`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('removes unused members without renumbering auto-numbered enums', async () => {
+    const { cleanupCommand } = await import('../../src/commands/cleanup.js');
+    await cleanupCommand({ members: true, yes: true, verify: false });
+
+    // Status.Unused stays: removing it would move Archived from 2 to 1
+    expect(read('src/service.ts')).toBe(`export class Service {
+  start() { return 1; }
+}
+
+export enum Status {
+  Active,
+  Unused,
+  Archived,
+}
+
+export enum Color {
+  Red = 'red',
+}
+`);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as path from 'node:path';
 
 // Mock storage
 let mockStorage: Record<string, any> = {};
@@ -45,7 +46,9 @@ describe('configCommand', () => {
   });
 
   it('prompts for API key when none exists', async () => {
-    mockPrompt.mockResolvedValueOnce({ geminiApiKey: 'test-api-key-12345' });
+    mockPrompt
+      .mockResolvedValueOnce({ provider: 'gemini' })
+      .mockResolvedValueOnce({ geminiApiKey: 'test-api-key-12345' });
 
     const { configCommand } = await import('../../src/commands/config.js');
     await configCommand();
@@ -58,7 +61,9 @@ describe('configCommand', () => {
 
   it('shows options when API key exists', async () => {
     mockStorage.geminiApiKey = 'existing-key-12345';
-    mockPrompt.mockResolvedValueOnce({ action: 'cancel' });
+    mockPrompt
+      .mockResolvedValueOnce({ provider: 'gemini' })
+      .mockResolvedValueOnce({ action: 'cancel' });
 
     const { configCommand } = await import('../../src/commands/config.js');
     await configCommand();
@@ -71,6 +76,7 @@ describe('configCommand', () => {
   it('allows updating API key', async () => {
     mockStorage.geminiApiKey = 'existing-key-12345';
     mockPrompt
+      .mockResolvedValueOnce({ provider: 'gemini' })
       .mockResolvedValueOnce({ action: 'update' })
       .mockResolvedValueOnce({ geminiApiKey: 'new-api-key-67890' });
 
@@ -82,7 +88,9 @@ describe('configCommand', () => {
 
   it('allows removing API key', async () => {
     mockStorage.geminiApiKey = 'existing-key-12345';
-    mockPrompt.mockResolvedValueOnce({ action: 'remove' });
+    mockPrompt
+      .mockResolvedValueOnce({ provider: 'gemini' })
+      .mockResolvedValueOnce({ action: 'remove' });
 
     const { configCommand } = await import('../../src/commands/config.js');
     await configCommand();
@@ -129,6 +137,98 @@ describe('hasGlobalApiKey', () => {
   });
 });
 
+describe('configCommand providers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage = {};
+    console.log = vi.fn();
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  it('stores OpenAI-compatible endpoint settings', async () => {
+    mockPrompt
+      .mockResolvedValueOnce({ provider: 'openai' })
+      .mockResolvedValueOnce({ baseUrl: 'http://llm.internal/v1', model: 'internal-model', apiKey: 'secret-key' });
+
+    const { configCommand, getGlobalAIConfig } = await import('../../src/commands/config.js');
+    await configCommand();
+
+    expect(mockStorage.aiProvider).toBe('openai');
+    expect(getGlobalAIConfig()).toEqual({
+      provider: 'openai',
+      apiKey: 'secret-key',
+      baseUrl: 'http://llm.internal/v1',
+      model: 'internal-model',
+    });
+  });
+
+  it('skips prompts for values passed as options', async () => {
+    mockPrompt.mockResolvedValueOnce({});
+
+    const { configCommand, getGlobalAIConfig } = await import('../../src/commands/config.js');
+    await configCommand({ provider: 'ollama', baseUrl: 'http://localhost:11434', model: 'llama3.1' });
+
+    expect(getGlobalAIConfig()).toEqual({ provider: 'ollama', baseUrl: 'http://localhost:11434', model: 'llama3.1' });
+  });
+
+  it('rejects unknown providers', async () => {
+    const { configCommand } = await import('../../src/commands/config.js');
+    await configCommand({ provider: 'unknown' });
+
+    expect(mockPrompt).not.toHaveBeenCalled();
+    expect(mockStorage.aiProvider).toBeUndefined();
+  });
+
+  it('clears model settings when switching providers', async () => {
+    mockStorage.aiProvider = 'ollama';
+    mockStorage.aiModel = 'llama3.1';
+    mockStorage.geminiApiKey = 'gemini-key-12345';
+    mockPrompt.mockResolvedValueOnce({ action: 'cancel' });
+
+    const { configCommand, getGlobalAIConfig } = await import('../../src/commands/config.js');
+    await configCommand({ provider: 'gemini' });
+
+    expect(mockStorage.aiModel).toBeUndefined();
+    expect(getGlobalAIConfig()).toEqual({ provider: 'gemini', apiKey: 'gemini-key-12345', model: 'gemini-3-flash-preview' });
+  });
+
+  it('allows replay mode without credentials', async () => {
+    process.env.CONSUELA_AI_REPLAY = 'cassettes';
+    try {
+      const { getGlobalAIConfig } = await import('../../src/commands/config.js');
+      expect(getGlobalAIConfig()).toEqual({
+        provider: 'gemini',
+        cassette: { mode: 'replay', dir: path.resolve('cassettes') },
+      });
+    } finally {
+      delete process.env.CONSUELA_AI_REPLAY;
+    }
+  });
+
+  it('requires a live provider for record mode', async () => {
+    process.env.CONSUELA_AI_RECORD = 'cassettes';
+    try {
+      const { getGlobalAIConfig } = await import('../../src/commands/config.js');
+      expect(getGlobalAIConfig()).toBeUndefined();
+
+      mockStorage.geminiApiKey = 'gemini-key-12345';
+      expect(getGlobalAIConfig()?.cassette).toEqual({ mode: 'record', dir: path.resolve('cassettes') });
+    } finally {
+      delete process.env.CONSUELA_AI_RECORD;
+    }
+  });
+
+  it('reports no AI config when Gemini has no key', async () => {
+    const { getGlobalAIConfig, hasGlobalAIProvider } = await import('../../src/commands/config.js');
+
+    expect(getGlobalAIConfig()).toBeUndefined();
+    expect(hasGlobalAIProvider()).toBe(false);
+  });
+});
+
 describe('configCommand validation', () => {
   let localConsoleLogs: string[];
 
@@ -150,7 +250,7 @@ describe('configCommand validation', () => {
       if (question.validate) {
         validateFn = question.validate;
       }
-      return Promise.resolve({ geminiApiKey: 'valid-api-key-12345' });
+      return Promise.resolve({ provider: 'gemini', geminiApiKey: 'valid-api-key-12345' });
     });
 
     const { configCommand } = await import('../../src/commands/config.js');
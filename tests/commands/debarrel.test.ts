@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  stop: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('debarrelCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+
+  const read = (file: string) => fs.readFileSync(path.join(tempDir, file), 'utf-8');
+  const exists = (file: string) => fs.existsSync(path.join(tempDir, file));
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    write('package.json', JSON.stringify({ name: 'app', type: 'module' }, null, 2));
+    write('src/lib/math.ts', `export function add(a: number, b: number): number {\n  return a + b;\n}\n`);
+    write('src/lib/shapes.ts', `export interface Shape {\n  sides: number;\n}\n`);
+    write('src/lib/inner/format.ts', `export function format(n: number): string {\n  return n.toFixed(2);\n}\n`);
+    write('src/lib/inner/index.ts', `export { format as fmt } from './format.js';\n`);
+    write('src/lib/index.ts', `export * from './math.js';
+export * from './inner/index.js';
+export type { Shape } from './shapes.js';
+`);
+    write('src/ui/Button.ts', `export default function Button(label: string): string {\n  return label;\n}\n`);
+    write('src/ui/index.ts', `export { default as Button } from './Button.js';
+export const theme = 'dark';
+`);
+    write('src/main.ts', `import { add, fmt, Shape } from './lib/index.js';
+import { Button, theme } from './ui/index.js';
+
+const square: Shape = { sides: 4 };
+export const label = Button(fmt(add(square.sides, 1))) + theme;
+`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('imports each name from the module that declares it, through chains and renames', async () => {
+    const { debarrelCommand } = await import('../../src/commands/debarrel.js');
+    await debarrelCommand(undefined, { verify: false });
+
+    const main = read('src/main.ts');
+    expect(main).toContain(`import { add } from './lib/math.js';`);
+    expect(main).toContain(`import { format as fmt } from './lib/inner/format.js';`);
+    expect(main).toContain(`import { type Shape } from './lib/shapes.js';`);
+    // Names the barrel declares itself stay on it
+    expect(main).toContain(`import { theme } from './ui/index.js';\nimport Button from './ui/Button.js';`);
+    expect(main).not.toContain('./lib/index.js');
+    expect(exists('src/lib/index.ts')).toBe(true);
+  });
+
+  it('deletes barrels nothing imports any more with --delete-unused', async () => {
+    const { debarrelCommand } = await import('../../src/commands/debarrel.js');
+    await debarrelCommand(undefined, { deleteUnused: true, verify: false });
+
+    expect(exists('src/lib/index.ts')).toBe(false);
+    expect(exists('src/lib/inner/index.ts')).toBe(false);
+    expect(exists('src/ui/index.ts')).toBe(true);
+    expect(consoleLogs.join('\n')).toContain('Deleted 2 unused barrel(s)');
+  });
+
+  it('leaves entry-point barrels alone with --keep-public', async () => {
+    write('package.json', JSON.stringify({ name: 'app', type: 'module', main: 'src/lib/index.ts' }, null, 2));
+    write('src/app.ts', `import { fmt } from './lib/inner/index.js';\nexport const price = fmt(1);\n`);
+    const { debarrelCommand } = await import('../../src/commands/debarrel.js');
+    await debarrelCommand(undefined, { keepPublic: true, deleteUnused: true, verify: false });
+
+    expect(read('src/main.ts')).toContain(`import { add, fmt, Shape } from './lib/index.js';`);
+    expect(read('src/lib/index.ts')).toContain(`export * from './inner/index.js';`);
+    expect(read('src/app.ts')).toContain(`import { format as fmt } from './lib/inner/format.js';`);
+    // The public barrel still re-exports the inner one
+    expect(exists('src/lib/inner/index.ts')).toBe(true);
+  });
+
+  it('shows the plan on --dry-run without touching files', async () => {
+    const { debarrelCommand } = await import('../../src/commands/debarrel.js');
+    await debarrelCommand(undefined, { dryRun: true });
+
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('Barrels bypassed');
+    expect(output).toContain(`+ import { add } from './lib/math.js';`);
+    expect(output).toContain('Dry run');
+    expect(read('src/main.ts')).toContain(`from './lib/index.js';`);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  stop: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('depsCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    write('package.json', JSON.stringify({
+      name: 'app',
+      scripts: { start: 'serve-it dist' },
+      dependencies: { chalk: '^5.0.0', 'left-pad': '^1.3.0', lodash: '^4.17.0', 'serve-it': '^1.0.0', '@types/express': '^4.0.0' },
+      devDependencies: { zod: '^3.0.0', vitest: '^1.0.0' },
+    }, null, 2) + '\n');
+    write('src/index.ts', `import * as fs from 'node:fs';
+import path from 'path';
+import chalk from 'chalk';
+import map from 'lodash/map.js';
+import { z } from 'zod';
+import type { Request } from 'express';
+import { glob } from 'glob';
+import { helper } from './helper.js';
+
+export const handle = (req: Request) => chalk.red(map([req.url, fs, path, helper], String).join()) + z.string() + glob;
+`);
+    write('src/helper.ts', `export type Options = import('yaml').DocumentOptions;
+export const helper = 1;
+`);
+    write('tests/index.test.ts', `import { describe } from 'vitest';\ndescribe('x', () => {});\n`);
+    write('node_modules/glob/package.json', JSON.stringify({ name: 'glob', version: '11.0.1' }));
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const report = async () => {
+    const { depsCommand } = await import('../../src/commands/deps.js');
+    await depsCommand({ json: true });
+    return JSON.parse(consoleLogs.join('\n')) as { issues: Array<{ kind: string; name: string; typeOnly?: boolean; imports: unknown[] }> };
+  };
+
+  it('reports unused, missing and misplaced dependencies', async () => {
+    const { issues } = await report();
+    const byKind = (kind: string) => issues.filter(issue => issue.kind === kind).map(issue => issue.name);
+
+    // Subpath imports count for the package; scripts and @types pairs keep packages in use
+    expect(byKind('unused')).toEqual(['left-pad']);
+    expect(byKind('missing')).toEqual(['glob', 'yaml']);
+    expect(issues.find(issue => issue.name === 'yaml')?.typeOnly).toBe(true);
+    expect(issues.find(issue => issue.name === 'glob')?.typeOnly).toBeUndefined();
+    // Runtime import of a devDependency; test-only packages are fine there
+    expect(byKind('misplaced')).toEqual(['zod']);
+  });
+
+  it('exits with 1 on --fail when issues are found', async () => {
+    const { depsCommand } = await import('../../src/commands/deps.js');
+    await expect(depsCommand({ fail: true })).rejects.toThrow('process.exit(1)');
+
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('Imported but not declared');
+    expect(output).toContain('src/index.ts:7 glob');
+    expect(output).toContain('consuela fix --deps');
+  });
+
+  it('updates package.json with fixDependencies', async () => {
+    const { analyzeDependencies, createConfiguredAnalyzer } = await import('../../src/core/index.js');
+    const { fixDependencies } = await import('../../src/refactor/operations/fix-dependencies.js');
+    const analysis = await createConfiguredAnalyzer(tempDir).analyze();
+    const result = fixDependencies(analyzeDependencies(analysis, tempDir), { rootDir: tempDir });
+
+    const manifest = JSON.parse(fs.readFileSync(path.join(tempDir, 'package.json'), 'utf-8'));
+    expect(manifest.dependencies).toEqual({
+      '@types/express': '^4.0.0', chalk: '^5.0.0', glob: '^11.0.1', lodash: '^4.17.0', 'serve-it': '^1.0.0', zod: '^3.0.0',
+    });
+    expect(manifest.devDependencies).toEqual({ vitest: '^1.0.0' });
+    expect(result.skipped).toEqual([{ name: 'yaml', manifest: 'package.json', reason: 'not installed; run npm install @types/yaml' }]);
+  });
+
+  it('keeps the formatting of package.json and inserts packages where they sort', async () => {
+    write('package.json', JSON.stringify({
+      name: 'app',
+      scripts: { start: 'serve-it dist' },
+      dependencies: { lodash: '^4.17.0', chalk: '^5.0.0', '@types/express': '^4.0.0', 'serve-it': '^1.0.0' },
+    }, null, '\t').replace(/\n/g, '\r\n'));
+    write('node_modules/@types/yaml/package.json', JSON.stringify({ name: '@types/yaml', version: '1.9.7' }));
+    write('node_modules/zod/package.json', JSON.stringify({ name: 'zod', version: '3.2.0' }));
+    write('node_modules/vitest/package.json', JSON.stringify({ name: 'vitest', version: '1.0.0' }));
+
+    const { analyzeDependencies, createConfiguredAnalyzer } = await import('../../src/core/index.js');
+    const { fixDependencies } = await import('../../src/refactor/operations/fix-dependencies.js');
+    const analysis = await createConfiguredAnalyzer(tempDir).analyze();
+    fixDependencies(analyzeDependencies(analysis, tempDir), { rootDir: tempDir });
+
+    // Unsorted sections keep their order; the new section comes last
+    expect(fs.readFileSync(path.join(tempDir, 'package.json'), 'utf-8')).toBe([
+      '{',
+      '\t"name": "app",',
+      '\t"scripts": {',
+      '\t\t"start": "serve-it dist"',
+      '\t},',
+      '\t"dependencies": {',
+      '\t\t"glob": "^11.0.1",',
+      '\t\t"lodash": "^4.17.0",',
+      '\t\t"chalk": "^5.0.0",',
+      '\t\t"@types/express": "^4.0.0",',
+      '\t\t"serve-it": "^1.0.0",',
+      '\t\t"zod": "^3.2.0"',
+      '\t},',
+      '\t"devDependencies": {',
+      '\t\t"@types/yaml": "^1.9.7"',
+      '\t}',
+      '}',
+    ].join('\r\n'));
+  });
+
+  it('reports path alias imports that resolve to no file instead of dropping them', async () => {
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'] } } }));
+    write('src/alias.ts', `import { helper } from '@/helper.js';
+import { missing } from '@/helpr.js';
+export const value = helper + missing;
+`);
+
+    const { issues } = await report();
+    const unresolved = issues.filter(issue => issue.kind === 'unresolved');
+    expect(unresolved).toEqual([{
+      kind: 'unresolved', name: '@/helpr.js', manifest: 'package.json',
+      imports: [{ file: 'src/alias.ts', line: 2, source: '@/helpr.js' }],
+    }]);
+    // Neither alias import counts as a package
+    expect(issues.filter(issue => issue.kind === 'missing').map(issue => issue.name)).toEqual(['glob', 'yaml']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('graphCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+  let exitCode: number | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+    exitCode = undefined;
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn();
+    process.exit = vi.fn((code) => {
+      exitCode = code as number;
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'a.ts'), `import { b } from './b.js';
+export const a = () => b();`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'b.ts'), `import { a } from './a.js';
+export const b = (): number => (a ? 1 : 0);`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('prints the file graph as DOT with the cycle highlighted', async () => {
+    const { graphCommand } = await import('../../src/commands/graph.js');
+    await graphCommand({});
+
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('digraph consuela {');
+    expect(output).toContain('"src/a.ts" -> "src/b.ts" [color="#d62728", penwidth=2];');
+  });
+
+  it('writes Mermaid to a file with --output', async () => {
+    const { graphCommand } = await import('../../src/commands/graph.js');
+    await graphCommand({ format: 'mermaid', output: 'docs/deps.mmd', highlight: false });
+
+    const written = fs.readFileSync(path.join(tempDir, 'docs', 'deps.mmd'), 'utf-8');
+    expect(written).toBe('flowchart LR\n  n0["src/a.ts"]\n  n1["src/b.ts"]\n  n0 --> n1\n  n1 --> n0\n');
+    expect(consoleLogs).toEqual([]);
+  });
+
+  it('exits with code 1 for an unknown format', async () => {
+    const { graphCommand } = await import('../../src/commands/graph.js');
+    await expect(graphCommand({ format: 'png' })).rejects.toThrow('process.exit(1)');
+    expect(exitCode).toBe(1);
+  });
+});
@@ -19,9 +19,9 @@ vi.mock('inquirer', () => ({
   },
 }));
 
-// Mock hasGlobalApiKey
+// Mock hasGlobalAIProvider
 vi.mock('../../src/commands/config.js', () => ({
-  hasGlobalApiKey: vi.fn(() => false),
+  hasGlobalAIProvider: vi.fn(() => false),
 }));
 
 const originalConsoleLog = console.log;
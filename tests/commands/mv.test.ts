@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  stop: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('mvCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+
+  const read = (file: string) => fs.readFileSync(path.join(tempDir, file), 'utf-8');
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['src/lib/*'] } } }, null, 2));
+    write('src/lib/dates.ts', `import { pad } from '../strings.js';
+
+const MS_PER_DAY = 86_400_000;
+
+function startOfDay(d: Date): Date {
+  return new Date(Math.floor(d.getTime() / MS_PER_DAY) * MS_PER_DAY);
+}
+
+/** Days between two dates */
+export function daysBetween(a: Date, b: Date): number {
+  return Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / MS_PER_DAY);
+}
+
+export function formatDay(d: Date): string {
+  return pad(d.getDate());
+}
+
+export const week = daysBetween(new Date(0), new Date(604_800_000));
+`);
+    write('src/strings.ts', `export function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+`);
+    write('src/index.ts', `export * from './lib/dates.js';
+export { pad } from './strings.js';
+`);
+    write('src/app.ts', `import { daysBetween, formatDay } from './lib/dates.js';
+import { pad } from '@lib/../strings.js';
+import { week } from '@lib/dates.js';
+
+export const report = formatDay(new Date()) + daysBetween(new Date(), new Date()) + pad(week);
+`);
+    write('tests/dates.test.ts', `import { daysBetween } from '../src/lib/dates.js';
+
+daysBetween(new Date(), new Date());
+`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('moves a file and rewrites importers, barrels, tests and its own imports', async () => {
+    const { mvCommand } = await import('../../src/commands/mv.js');
+    await mvCommand('src/strings.ts', 'src/text/strings.ts', { verify: false });
+
+    expect(fs.existsSync(path.join(tempDir, 'src/strings.ts'))).toBe(false);
+    expect(read('src/text/strings.ts')).toContain('export function pad');
+    expect(read('src/lib/dates.ts')).toContain(`import { pad } from '../text/strings.js';`);
+    expect(read('src/index.ts')).toContain(`export { pad } from './text/strings.js';`);
+    expect(read('src/app.ts')).toContain(`import { pad } from './text/strings.js';`);
+    expect(read('src/app.ts')).toContain(`import { week } from '@lib/dates.js';`);
+  });
+
+  it('moves a directory into an existing one and follows tsconfig paths', async () => {
+    write('src/core/.keep', '');
+    const { mvCommand } = await import('../../src/commands/mv.js');
+    await mvCommand('src/lib', 'src/core', { verify: false });
+
+    expect(read('src/core/lib/dates.ts')).toContain(`import { pad } from '../../strings.js';`);
+    expect(fs.existsSync(path.join(tempDir, 'src/lib'))).toBe(false);
+    expect(JSON.parse(read('tsconfig.json')).compilerOptions.paths['@lib/*']).toEqual(['src/core/lib/*']);
+    expect(read('src/app.ts')).toContain(`import { daysBetween, formatDay } from './core/lib/dates.js';`);
+    expect(read('src/app.ts')).toContain(`import { week } from '@lib/dates.js';`);
+    expect(read('src/index.ts')).toContain(`export * from './core/lib/dates.js';`);
+    expect(read('tests/dates.test.ts')).toContain(`from '../src/core/lib/dates.js';`);
+  });
+
+  it('moves an export with its private helpers and repoints importers', async () => {
+    const { mvCommand } = await import('../../src/commands/mv.js');
+    await mvCommand('src/lib/dates.ts#daysBetween', 'src/lib/ranges.ts', { verify: false });
+
+    const ranges = read('src/lib/ranges.ts');
+    expect(ranges).toContain('/** Days between two dates */\nexport function daysBetween');
+    expect(ranges).toContain('function startOfDay(d: Date)');
+    expect(ranges).toContain('const MS_PER_DAY = 86_400_000;');
+
+    const dates = read('src/lib/dates.ts');
+    expect(dates).not.toContain('function startOfDay');
+    expect(dates).toContain(`import { daysBetween } from './ranges.js';`);
+    expect(dates).toContain(`import { pad } from '../strings.js';`);
+    expect(consoleLogs.join('\n')).not.toContain('import each other');
+
+    expect(read('src/app.ts')).toContain(`import { formatDay } from './lib/dates.js';\nimport { daysBetween } from './lib/ranges.js';`);
+    expect(read('src/index.ts')).toContain(`export * from './lib/dates.js';\nexport { daysBetween } from './lib/ranges.js';`);
+    expect(read('tests/dates.test.ts')).toContain(`import { daysBetween } from '../src/lib/ranges.js';`);
+  });
+
+  it('refuses to move a helper the rest of the file still uses', async () => {
+    write('src/lib/dates.ts', read('src/lib/dates.ts') + `export const today = startOfDay(new Date());\n`);
+    const { mvCommand } = await import('../../src/commands/mv.js');
+    await expect(mvCommand('src/lib/dates.ts#daysBetween', 'src/lib/ranges.ts', { verify: false }))
+      .rejects.toThrow('process.exit(1)');
+
+    expect(consoleLogs.join('\n')).toContain('startOfDay is also used by the rest of src/lib/dates.ts');
+    expect(fs.existsSync(path.join(tempDir, 'src/lib/ranges.ts'))).toBe(false);
+  });
+
+  it('shows a diff on --dry-run without touching files', async () => {
+    const { mvCommand } = await import('../../src/commands/mv.js');
+    await mvCommand('src/strings.ts', 'src/text/strings.ts', { dryRun: true });
+
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('src/strings.ts');
+    expect(output).toContain(`+ import { pad } from '../text/strings.js';`);
+    expect(output).toContain('Dry run');
+    expect(fs.existsSync(path.join(tempDir, 'src/strings.ts'))).toBe(true);
+  });
+});
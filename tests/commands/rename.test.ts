@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  stop: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('renameCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+
+  const read = (file: string) => fs.readFileSync(path.join(tempDir, 'src', file), 'utf-8');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'utils.ts'), `export function formatDate(d: Date): string {
+  return d.toISOString();
+}
+
+export type Formatter = typeof formatDate;
+
+function shifted(formatDate: number) {
+  return formatDate + 1;
+}
+export const formatters = { formatDate, shifted };
+`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'index.ts'), `export { formatDate } from './utils.js';
+export { formatDate as fmt } from './utils.js';
+`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'app.ts'), `import { formatDate } from './index.js';
+import { formatDate as format } from './utils.js';
+import * as utils from './utils.js';
+
+export const today = formatDate(new Date());
+export const again = format(new Date()) + utils.formatDate(new Date());
+`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('renames the declaration, importers, aliases, namespaces and barrels', async () => {
+    const { renameCommand } = await import('../../src/commands/rename.js');
+    await renameCommand('src/utils.ts#formatDate', 'toIsoDate', { verify: false });
+
+    expect(read('utils.ts')).toContain('export function toIsoDate(d: Date)');
+    expect(read('utils.ts')).toContain('export type Formatter = typeof toIsoDate;');
+    expect(read('utils.ts')).toContain('return formatDate + 1;');
+    expect(read('utils.ts')).toContain('{ formatDate: toIsoDate, shifted }');
+    expect(read('index.ts')).toBe(`export { toIsoDate } from './utils.js';
+export { toIsoDate as fmt } from './utils.js';
+`);
+    expect(read('app.ts')).toBe(`import { toIsoDate } from './index.js';
+import { toIsoDate as format } from './utils.js';
+import * as utils from './utils.js';
+
+export const today = toIsoDate(new Date());
+export const again = format(new Date()) + utils.toIsoDate(new Date());
+`);
+    expect(mockOra.succeed).toHaveBeenCalledWith('Renamed formatDate to toIsoDate in 3 file(s)');
+  });
+
+  it('shows a diff without writing in dry-run', async () => {
+    const { renameCommand } = await import('../../src/commands/rename.js');
+    await renameCommand('src/utils.ts#formatDate', 'toIsoDate', { dryRun: true });
+
+    const output = consoleLogs.join('\n');
+    expect(output).toContain('- export function formatDate(d: Date): string {');
+    expect(output).toContain('+ export function toIsoDate(d: Date): string {');
+    expect(output).toContain('+ export const today = toIsoDate(new Date());');
+    expect(read('utils.ts')).toContain('export function formatDate');
+  });
+
+  it('refuses names already taken in a touched file', async () => {
+    fs.appendFileSync(path.join(tempDir, 'src', 'app.ts'), 'const toIsoDate = 1;\n');
+
+    const { renameCommand } = await import('../../src/commands/rename.js');
+    await expect(renameCommand('src/utils.ts#formatDate', 'toIsoDate', {})).rejects.toThrow('process.exit(1)');
+
+    expect(consoleLogs.join('\n')).toContain('src/app.ts:7 toIsoDate is already used in src/app.ts');
+    await expect(renameCommand('src/utils.ts#formatDate', 'Formatter', { json: true })).rejects.toThrow('process.exit(1)');
+    expect(consoleLogs.join('\n')).toContain('src/utils.ts already exports Formatter');
+    expect(read('utils.ts')).toContain('export function formatDate');
+  });
+
+  it('rejects malformed targets and names', async () => {
+    const { renameCommand } = await import('../../src/commands/rename.js');
+    await expect(renameCommand('src/utils.ts', 'x', {})).rejects.toThrow('process.exit(1)');
+    await expect(renameCommand('src/utils.ts#formatDate', 'class', {})).rejects.toThrow('process.exit(1)');
+
+    expect(consoleLogs.join('\n')).toContain('"class" is not a valid identifier');
+  });
+
+  it('renames the symbol in test files that import it', async () => {
+    fs.writeFileSync(path.join(tempDir, 'src', 'utils.test.ts'), `import { formatDate } from './utils.js';
+
+const formatted = formatDate(new Date(0));
+`);
+    fs.mkdirSync(path.join(tempDir, 'tests'));
+    fs.writeFileSync(path.join(tempDir, 'tests', 'u.test.ts'), `import { formatDate as fmt, formatters } from '../src/utils.js';
+import { formatDate } from '../src/index.js';
+
+export const both = [fmt, formatters.formatDate, formatDate];
+`);
+
+    const { renameCommand } = await import('../../src/commands/rename.js');
+    await renameCommand('src/utils.ts#formatDate', 'toIsoDate', { verify: false });
+
+    expect(read('utils.test.ts')).toBe(`import { toIsoDate } from './utils.js';
+
+const formatted = toIsoDate(new Date(0));
+`);
+    expect(fs.readFileSync(path.join(tempDir, 'tests', 'u.test.ts'), 'utf-8')).toBe(`import { toIsoDate as fmt, formatters } from '../src/utils.js';
+import { toIsoDate } from '../src/index.js';
+
+export const both = [fmt, formatters.formatDate, toIsoDate];
+`);
+    expect(mockOra.succeed).toHaveBeenCalledWith('Renamed formatDate to toIsoDate in 5 file(s)');
+  });
+
+  it('rolls every file back when the build fails', async () => {
+    const typecheck = `node -e "console.log('src/app.ts(5,22): error TS2304: Cannot find name.'); process.exit(1)"`;
+    fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify({ name: 'app', version: '1.0.0', scripts: { typecheck } }));
+    const before = read('app.ts');
+
+    const { renameCommand } = await import('../../src/commands/rename.js');
+    await expect(renameCommand('src/utils.ts#formatDate', 'toIsoDate', {})).rejects.toThrow('process.exit(1)');
+
+    expect(mockOra.fail).toHaveBeenCalledWith('Build failed after rename');
+    // The compiler error, not the npm banner that comes first
+    expect(consoleLogs.join('\n')).toContain('Build failed, changes rolled back: src/app.ts(5,22): error TS2304: Cannot find name.');
+    expect(read('app.ts')).toBe(before);
+    expect(read('utils.ts')).toContain('export function formatDate');
+  });
+});
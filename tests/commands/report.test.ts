@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  text: '',
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('reportCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    console.log = vi.fn();
+    console.error = vi.fn();
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'a.ts'), `import { b } from './b.js';
+export const a = () => b();`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'b.ts'), `import { a } from './a.js';
+export const b = (): number => (a ? 1 : 0);
+export function unusedHelper() { return 1; }`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('writes a standalone HTML report', async () => {
+    const { reportCommand } = await import('../../src/commands/report.js');
+    await reportCommand({ html: 'artifacts/report.html' });
+
+    const html = fs.readFileSync(path.join(tempDir, 'artifacts', 'report.html'), 'utf-8');
+    expect(html).toContain('Unused export: unusedHelper');
+    expect(html).toContain('<path class="edge cycle"');
+    expect(html).toContain('<details id="file-src_b_ts" data-file="src/b.ts">');
+    expect(html).toContain('<tr class="unused">');
+    expect(mockOra.succeed).toHaveBeenCalledWith(expect.stringContaining('Wrote HTML report to artifacts/report.html'));
+  });
+
+  it('defaults to consuela-report.html', async () => {
+    const { reportCommand } = await import('../../src/commands/report.js');
+    await reportCommand({});
+
+    expect(fs.existsSync(path.join(tempDir, 'consuela-report.html'))).toBe(true);
+  });
+});
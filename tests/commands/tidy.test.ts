@@ -24,14 +24,15 @@ vi.mock('inquirer', () => ({
 let mockHasApiKey = false;
 let mockApiKey: string | undefined;
 vi.mock('../../src/commands/config.js', () => ({
-  hasGlobalApiKey: () => mockHasApiKey,
-  getGlobalApiKey: () => mockApiKey,
+  getGlobalAIConfig: () => mockHasApiKey ? { provider: 'gemini', apiKey: mockApiKey } : undefined,
 }));
 
-// Mock gemini client
+// Mock AI provider
 const mockTidyCode = vi.fn();
-vi.mock('../../src/core/gemini.js', () => ({
-  createGeminiClient: () => ({
+vi.mock('../../src/core/ai.js', () => ({
+  createAIProvider: () => ({
+    name: 'gemini',
+    model: 'test-model',
     tidyCode: mockTidyCode,
   }),
 }));
@@ -79,7 +80,7 @@ describe('tidyCommand', () => {
     fs.rmSync(tempDir, { recursive: true, force: true });
   });
 
-  it('fails when no API key configured', async () => {
+  it('fails when no AI provider configured', async () => {
     mockHasApiKey = false;
 
     const { tidyCommand } = await import('../../src/commands/tidy.js');
@@ -94,7 +95,7 @@ describe('tidyCommand', () => {
 
     expect(exitCode).toBe(1);
     const output = consoleLogs.join('\n');
-    expect(output).toContain('API key not configured');
+    expect(output).toContain('AI provider not configured');
   });
 
   it('fails when file not found', async () => {
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Mock ora
+const mockOra = {
+  start: vi.fn().mockReturnThis(),
+  succeed: vi.fn().mockReturnThis(),
+  fail: vi.fn().mockReturnThis(),
+  stop: vi.fn().mockReturnThis(),
+};
+vi.mock('ora', () => ({ default: vi.fn(() => mockOra) }));
+
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+const originalProcessExit = process.exit;
+
+describe('typeImportsCommand', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let consoleLogs: string[];
+
+  const read = (file: string) => fs.readFileSync(path.join(tempDir, file), 'utf-8');
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleLogs = [];
+
+    console.log = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    console.error = vi.fn((...args) => consoleLogs.push(args.join(' ')));
+    process.exit = vi.fn((code) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never;
+
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    write('package.json', JSON.stringify({ name: 'app', type: 'module' }, null, 2));
+    write('src/models.ts', `export interface User {
+  name: string;
+}
+export class Account {
+  id = 1;
+}
+export type Id = string;
+export const VERSION = 1;
+`);
+    write('src/types.ts', `export interface Options {\n  debug: boolean;\n}\n`);
+    write('src/logger.ts', `export default class Logger {\n  log(): void {}\n}\nexport const level = 'info';\n`);
+    write('src/service.ts', `import { User, Account, VERSION } from './models.js';
+
+export const describe = (user: User, account: Account) => user.name + account.id + VERSION;
+`);
+    write('src/view.ts', `import { Account } from './models.js';
+import Logger, { level } from './logger.js';
+
+export function render(account: Account, logger: Logger): string {
+  return level + account.id + String(logger);
+}
+`);
+    write('src/admin.ts', `import { Account } from './models.js';
+import { Id } from './models.js';
+
+export class Admin extends Account {}
+`);
+    write('src/ns.ts', `import * as models from './models.js';
+
+export type Name = models.User['name'];
+`);
+    write('src/app.ts', `import { Options } from './types.js';
+import { User } from './models.js';
+
+export { Options };
+export const make = (user: User, options: Options) => options.debug && user.name;
+`);
+    write('src/index.ts', `export { User, Account } from './models.js';
+export * from './types.js';
+`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    process.exit = originalProcessExit;
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('marks bindings only used as types and counts the runtime edges that go away', async () => {
+    const { typeImportsCommand } = await import('../../src/commands/type-imports.js');
+    await typeImportsCommand(undefined, { verify: false });
+
+    expect(read('src/service.ts')).toContain(`import { type User, type Account, VERSION } from './models.js';`);
+    expect(read('src/view.ts')).toContain(`import type { Account } from './models.js';`);
+    // A type-only default import cannot share a declaration with value bindings
+    expect(read('src/view.ts')).toContain(`import type Logger from './logger.js';\nimport { level } from './logger.js';`);
+    expect(read('src/ns.ts')).toContain(`import type * as models from './models.js';`);
+    expect(read('src/app.ts')).toContain(`import type { Options } from './types.js';\nimport type { User } from './models.js';\n\nexport type { Options };`);
+    expect(read('src/index.ts')).toBe(`export { type User, Account } from './models.js';\nexport type * from './types.js';\n`);
+
+    // Class `extends` needs the value; unused imports are left for cleanup
+    expect(read('src/admin.ts')).toContain(`import { Account } from './models.js';\nimport { Id } from './models.js';`);
+
+    expect(consoleLogs.join('\n')).toContain('Eliminated 5 runtime import edge(s)');
+  });
+
+  it('lists eliminated edges on --dry-run without touching files', async () => {
+    const { typeImportsCommand } = await import('../../src/commands/type-imports.js');
+    await typeImportsCommand('src', { dryRun: true, json: true });
+
+    const output = JSON.parse(consoleLogs.join('\n'));
+    expect(output.eliminatedEdges).toEqual([
+      { from: 'src/app.ts', to: 'src/types.ts' },
+      { from: 'src/app.ts', to: 'src/models.ts' },
+      { from: 'src/index.ts', to: 'src/types.ts' },
+      { from: 'src/ns.ts', to: 'src/models.ts' },
+      { from: 'src/view.ts', to: 'src/models.ts' },
+    ]);
+    expect(output.conversions).toContainEqual({
+      file: 'src/view.ts', line: 2, kind: 'import', source: './logger.js', names: ['Logger'], whole: false,
+    });
+    expect(read('src/view.ts')).toContain(`import { Account } from './models.js';`);
+  });
+
+  it('rolls back when the build fails', async () => {
+    write('package.json', JSON.stringify({ name: 'app', type: 'module', scripts: { typecheck: 'node -e "process.exit(1)"' } }, null, 2));
+    const original = read('src/app.ts');
+    const { typeImportsCommand } = await import('../../src/commands/type-imports.js');
+    await expect(typeImportsCommand(undefined, {})).rejects.toThrow('process.exit(1)');
+
+    expect(consoleLogs.join('\n')).toContain('Build failed, changes rolled back');
+    expect(read('src/app.ts')).toBe(original);
+  });
+});
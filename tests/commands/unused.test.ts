@@ -85,6 +85,77 @@ export function unusedFunc() { return 2; }`
     expect(Array.isArray(parsed)).toBe(true);
   });
 
+  it('outputs SARIF with --format sarif', async () => {
+    const { unusedCommand } = await import('../../src/commands/unused.js');
+
+    process.chdir(tempDir);
+    await unusedCommand({ format: 'sarif' });
+
+    const sarif = JSON.parse(consoleLogs.join('\n'));
+    expect(sarif.version).toBe('2.1.0');
+    const result = sarif.runs[0].results.find((r: any) => r.message.text.includes('unusedFunc'));
+    expect(result.ruleId).toBe('unused-export');
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe('src/utils.ts');
+    expect(result.locations[0].physicalLocation.region.startLine).toBe(2);
+  });
+
+  it('rejects unknown formats', async () => {
+    const { unusedCommand } = await import('../../src/commands/unused.js');
+
+    process.chdir(tempDir);
+    await expect(unusedCommand({ format: 'xml' })).rejects.toThrow('process.exit(1)');
+    expect(consoleErrors.join('\n')).toContain('Unknown format');
+  });
+
+  it('reports unused class members with --members', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'service.ts'),
+      `export class Service {
+  start() { return 1; }
+  stop() { return 0; }
+}`
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'main.ts'),
+      `import { Service } from './service.js';
+new Service().start();`
+    );
+    const { unusedCommand } = await import('../../src/commands/unused.js');
+
+    process.chdir(tempDir);
+    await unusedCommand({ json: true, members: true });
+
+    const parsed = JSON.parse(consoleLogs.find((log) => log.startsWith('{'))!);
+    expect(parsed.members.map((m: { container: string; name: string }) => `${m.container}.${m.name}`)).toEqual(['Service.stop']);
+    expect(Array.isArray(parsed.exports)).toBe(true);
+  });
+
+  it('reports files unreachable from entry points with --files', async () => {
+    fs.mkdirSync(path.join(tempDir, 'src', 'legacy'));
+    fs.writeFileSync(path.join(tempDir, 'src', 'legacy', 'report.ts'), `import { format } from './format.js';
+export const report = () => format(1);`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'legacy', 'format.ts'), `import { usedFunc } from '../utils.js';
+export const format = (n: number) => String(n + usedFunc());`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'scratch.ts'), `// consuela-ignore-file unused-file
+export const draft = 1;`);
+    // Reached only through a re-export
+    fs.writeFileSync(path.join(tempDir, 'src', 'index.ts'), `import { usedFunc } from './utils.js';
+import { shout } from './strings.js';
+export function main() { return shout(String(usedFunc())); }`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'strings.ts'), `export * from './shout.js';`);
+    fs.writeFileSync(path.join(tempDir, 'src', 'shout.ts'), `export const shout = (s: string) => s.toUpperCase();`);
+    const { unusedCommand } = await import('../../src/commands/unused.js');
+
+    process.chdir(tempDir);
+    await unusedCommand({ json: true, files: true });
+
+    const parsed = JSON.parse(consoleLogs.find((log) => log.startsWith('{'))!);
+    expect(parsed.files).toEqual([
+      { files: ['src/legacy/format.ts', 'src/legacy/report.ts'], roots: ['src/legacy/report.ts'], edges: 1 },
+    ]);
+    expect(parsed.members).toBeUndefined();
+  });
+
   it('exits with code 1 when --fail flag is set and unused found', async () => {
     const { unusedCommand } = await import('../../src/commands/unused.js');
 
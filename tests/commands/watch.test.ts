@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+describe('WatchSession', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(tempDir, file), content);
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    write('src/index.ts', `import { usedFunc } from './utils.js';
+export function main() { return usedFunc(); }`);
+    write('src/utils.ts', `export function usedFunc() { return 1; }`);
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports unused exports as they appear and disappear', async () => {
+    const { startWatchSession } = await import('../../src/commands/watch.js');
+    const session = await startWatchSession(tempDir);
+
+    write('src/utils.ts', `export function usedFunc() { return 1; }
+export function helper() { return 2; }`);
+    const added = await session.update(['src/utils.ts']);
+    expect(added.files).toEqual(['src/utils.ts']);
+    expect(added.introduced.map(p => p.symbol)).toEqual(['helper']);
+    expect(added.resolved).toEqual([]);
+    expect(session.graph.nodes.has('src/utils.ts:helper')).toBe(true);
+
+    write('src/index.ts', `import { usedFunc, helper } from './utils.js';
+export function main() { return usedFunc() + helper(); }`);
+    const used = await session.update(['src/index.ts']);
+    expect(used.introduced).toEqual([]);
+    expect(used.resolved.map(p => p.symbol)).toEqual(['helper']);
+  });
+
+  it('reports cycles introduced by new files', async () => {
+    const { startWatchSession } = await import('../../src/commands/watch.js');
+    const session = await startWatchSession(tempDir);
+
+    write('src/a.ts', `import { b } from './b.js';
+export const a = () => b();`);
+    write('src/b.ts', `import { a } from './a.js';
+export const b = (): number => (a ? 1 : 0);`);
+    const update = await session.update(['src/a.ts', 'src/b.ts']);
+
+    expect(update.introduced.filter(p => p.rule === 'circular-dependency')).toHaveLength(1);
+    expect(session.analysis.circularDependencies).toHaveLength(1);
+  });
+
+  it('matches a fresh analysis after an update', async () => {
+    const { startWatchSession } = await import('../../src/commands/watch.js');
+    const { createAnalyzer } = await import('../../src/core/analyzer.js');
+    const session = await startWatchSession(tempDir);
+
+    write('src/extra.ts', `export const extra = 1;
+export const unusedExtra = 2;`);
+    write('src/utils.ts', `import { extra } from './extra.js';
+export function usedFunc() { return extra; }`);
+    await session.update(['src/extra.ts', 'src/utils.ts']);
+
+    const analyzer = createAnalyzer(tempDir, undefined, { cache: false });
+    const fresh = await analyzer.analyze();
+    const summarize = (traces: typeof fresh.symbolTraces) =>
+      [...traces].map(([key, t]) => `${key}:${t.importedBy.length}:${t.usages.length}:${t.dependents.length}`).sort();
+    expect(summarize(session.analysis.symbolTraces)).toEqual(summarize(fresh.symbolTraces));
+  });
+
+  it('returns the previous analysis when nothing changed', async () => {
+    const { startWatchSession } = await import('../../src/commands/watch.js');
+    const session = await startWatchSession(tempDir);
+    const before = session.analysis;
+
+    const update = await session.update(['src/utils.ts']);
+    expect(session.analysis).toBe(before);
+    expect(update.introduced).toEqual([]);
+    expect(update.score).toBe(update.previousScore);
+  });
+});
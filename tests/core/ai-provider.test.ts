@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createAIProvider } from '../../src/core/ai.js';
+import { createOpenAIClient } from '../../src/core/openai.js';
+import { createOllamaClient } from '../../src/core/ollama.js';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const TIDY_RESPONSE = `### REFACTORED_CODE_START
+const x = 1;
+### REFACTORED_CODE_END
+
+### CHANGES
+- Simplified declaration
+
+### REASONING
+Cleaner.`;
+
+describe('AI providers against a mock HTTP server', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let nextReply: string;
+  let nextStatus: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : undefined;
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+
+        if (nextStatus !== 200) {
+          res.writeHead(nextStatus, { 'Content-Type': 'text/plain' });
+          res.end('upstream error');
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        if (req.url === '/v1/chat/completions') {
+          res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: nextReply } }] }));
+        } else if (req.url === '/api/generate') {
+          res.end(JSON.stringify({ model: body.model, response: nextReply, done: true }));
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    nextReply = '';
+    nextStatus = 200;
+  });
+
+  describe('OpenAI-compatible provider', () => {
+    it('sends chat completion requests with the configured model and key', async () => {
+      nextReply = 'hello';
+      const client = createOpenAIClient({ baseUrl: `${baseUrl}/v1/`, model: 'internal-model', apiKey: 'secret' });
+
+      const text = await client.generateText('ping');
+
+      expect(text).toBe('hello');
+      expect(requests).toHaveLength(1);
+      expect(requests[0].method).toBe('POST');
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+      expect(requests[0].body).toEqual({ model: 'internal-model', messages: [{ role: 'user', content: 'ping' }] });
+    });
+
+    it('omits the authorization header without an API key', async () => {
+      nextReply = 'ok';
+      const client = createOpenAIClient({ baseUrl: `${baseUrl}/v1` });
+
+      await client.generateText('ping');
+
+      expect(requests[0].headers.authorization).toBeUndefined();
+    });
+
+    it('parses tidyCode responses through the shared prompt layer', async () => {
+      nextReply = TIDY_RESPONSE;
+      const client = createAIProvider({ provider: 'openai', baseUrl: `${baseUrl}/v1`, model: 'm' });
+
+      const result = await client.tidyCode('test.ts', 'var x = 1;', {});
+
+      expect(result.cleanedCode).toBe('const x = 1;');
+      expect(result.changes).toEqual(['Simplified declaration']);
+      expect(requests[0].body.messages[0].content).toContain('var x = 1;');
+    });
+
+    it('rejects on HTTP errors', async () => {
+      nextStatus = 500;
+      const client = createOpenAIClient({ baseUrl: `${baseUrl}/v1` });
+
+      await expect(client.generateText('ping')).rejects.toThrow('OpenAI-compatible request failed (500)');
+    });
+
+    it('falls back gracefully when a JSON answer is malformed', async () => {
+      nextReply = 'not json at all';
+      const client = createOpenAIClient({ baseUrl: `${baseUrl}/v1` });
+
+      const result = await client.analyzeExportSafety('foo', 'a.ts', 'export const foo = 1;', []);
+
+      expect(result.safeToRemove).toBe(false);
+      expect(result.confidence).toBe(0);
+    });
+  });
+
+  describe('Ollama provider', () => {
+    it('sends non-streaming generate requests', async () => {
+      nextReply = 'date-helpers.ts';
+      const client = createAIProvider({ provider: 'ollama', baseUrl, model: 'llama3.1' });
+
+      const name = await client.suggestFileName(['formatDate'], 'src/utils.ts', ['function formatDate() {}']);
+
+      expect(name).toBe('date-helpers.ts');
+      expect(requests[0].url).toBe('/api/generate');
+      expect(requests[0].body.model).toBe('llama3.1');
+      expect(requests[0].body.stream).toBe(false);
+      expect(requests[0].body.prompt).toContain('formatDate');
+    });
+
+    it('parses JSON answers for reorganization suggestions', async () => {
+      nextReply = JSON.stringify({
+        domains: [{ name: 'auth', folder: 'src/auth', files: [{ currentPath: 'src/login.ts', newPath: 'src/auth/login.ts' }] }],
+        barrelFiles: [],
+        reasoning: 'Group auth code',
+      });
+      const client = createOllamaClient({ baseUrl });
+
+      const suggestion = await client.suggestReorganization([], [], []);
+
+      expect(suggestion.domains[0].folder).toBe('src/auth');
+      expect(suggestion.reasoning).toBe('Group auth code');
+    });
+
+    it('rejects on HTTP errors', async () => {
+      nextStatus = 503;
+      const client = createOllamaClient({ baseUrl });
+
+      await expect(client.generateText('ping')).rejects.toThrow('Ollama request failed (503)');
+    });
+  });
+
+  describe('createAIProvider', () => {
+    it('requires an API key for Gemini', () => {
+      expect(() => createAIProvider({ provider: 'gemini' })).toThrow('requires an API key');
+    });
+
+    it('exposes the provider name and default model', () => {
+      const gemini = createAIProvider({ provider: 'gemini', apiKey: 'key' });
+      const ollama = createAIProvider({ provider: 'ollama' });
+
+      expect(gemini.name).toBe('gemini');
+      expect(gemini.model).toBe('gemini-3-flash-preview');
+      expect(ollama.name).toBe('ollama');
+      expect(ollama.model).toBe('llama3.1');
+    });
+  });
+});
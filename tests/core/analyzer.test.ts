@@ -408,4 +408,360 @@ describe('ProjectAnalyzer', () => {
       expect(processValueTrace?.importedBy.length).toBeGreaterThan(0);
     });
   });
+
+  describe('python project', () => {
+    let analysis: ProjectAnalysis;
+    let analyzer: ReturnType<typeof createAnalyzer>;
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'python-project');
+      analyzer = createAnalyzer(projectDir, undefined, { cache: false });
+      analysis = await analyzer.analyze();
+    });
+
+    it('finds python source files through the parser registry', () => {
+      expect(analysis.files.has('main.py')).toBe(true);
+      expect(analysis.files.has('app/__init__.py')).toBe(true);
+      expect(analysis.files.has('app/utils.py')).toBe(true);
+    });
+
+    it('maps python exports to analyzer kinds', () => {
+      const utilsExports = analysis.files.get('app/utils.py')?.exports;
+      expect(utilsExports?.find(e => e.name === 'format_name')?.kind).toBe('function');
+      expect(utilsExports?.find(e => e.name === 'MAX_LEN')?.kind).toBe('const');
+      expect(analysis.files.get('app/models.py')?.exports.map(e => e.name)).not.toContain('_private_helper');
+    });
+
+    it('resolves relative and package imports', () => {
+      expect(analysis.importGraph.get('app/services.py')).toContain('app/utils.py');
+      expect(analysis.importGraph.get('app/services.py')).toContain('app/models.py');
+      expect(analysis.importGraph.get('main.py')).toContain('app/__init__.py');
+    });
+
+    it('traces usages including module attribute access', () => {
+      expect(analysis.symbolTraces.get('app/utils.py:format_name')?.usages.some(u => u.filePath === 'app/services.py')).toBe(true);
+      expect(analysis.symbolTraces.get('app/models.py:User')?.usages.some(u => u.filePath === 'app/services.py')).toBe(true);
+    });
+
+    it('finds unused python exports', () => {
+      const unused = analyzer.findUnusedExports(analysis).map(u => `${u.export.filePath}:${u.export.name}`);
+      expect(unused).toContain('app/utils.py:unused_helper');
+      expect(unused).toContain('app/models.py:UnusedModel');
+      expect(unused).not.toContain('app/utils.py:format_name');
+      expect(unused).not.toContain('app/models.py:User');
+      expect(unused).not.toContain('app/services.py:greet');
+    });
+
+    it('detects circular imports between modules', () => {
+      const cycle = analysis.circularDependencies.find(c => c.includes('app/cycle_a.py'));
+      expect(cycle).toBeDefined();
+      expect(cycle).toContain('app/cycle_b.py');
+    });
+
+    it('computes impact across python modules', () => {
+      const impact = analyzer.getImpact(analysis, 'app/utils.py');
+      expect(impact).toContain('app/services.py');
+      expect(impact).toContain('main.py');
+    });
+  });
+
+  describe('dynamic imports and require', () => {
+    let analysis: ProjectAnalysis;
+    let analyzer: ReturnType<typeof createAnalyzer>;
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'dynamic-imports');
+      analyzer = createAnalyzer(projectDir, undefined, { cache: false });
+      analysis = await analyzer.analyze();
+    });
+
+    it('adds dynamic import and require edges to the import graph', () => {
+      const imports = analysis.importGraph.get('src/index.ts');
+      expect(imports).toContain('src/routes/home.ts');
+      expect(imports).toContain('src/routes/settings.ts');
+      expect(imports).toContain('src/format.ts');
+      expect(imports).toContain('src/helpers.ts');
+      expect(analysis.reverseGraph.get('src/legacy.ts')).toContain('src/index.ts');
+    });
+
+    it('links destructured dynamic imports to symbol traces', () => {
+      const trace = analysis.symbolTraces.get('src/routes/home.ts:renderHome');
+      expect(trace?.importedBy.map(i => i.file)).toContain('src/index.ts');
+      expect(trace?.usageCount).toBeGreaterThan(0);
+    });
+
+    it('links require(...).member to symbol traces', () => {
+      expect(analysis.symbolTraces.get('src/format.ts:formatDate')?.usageCount).toBeGreaterThan(0);
+      expect(analysis.symbolTraces.get('src/helpers.ts:helper')?.usageCount).toBeGreaterThan(0);
+    });
+
+    it('links export = consumers to the default export', () => {
+      const trace = analysis.symbolTraces.get('src/legacy.ts:default');
+      expect(trace?.importedBy).toHaveLength(2);
+      expect(trace?.usageCount).toBeGreaterThan(0);
+    });
+
+    it('resolves template literal prefixes to every matching module', () => {
+      const imports = analysis.importGraph.get('src/index.ts');
+      expect(imports).toContain('src/plugins/alpha.ts');
+      expect(imports).toContain('src/plugins/beta/index.ts');
+    });
+
+    it('does not report lazily loaded exports as unused', () => {
+      const unused = analyzer.findUnusedExports(analysis).map(u => `${u.export.filePath}:${u.export.name}`);
+      expect(unused).not.toContain('src/routes/home.ts:renderHome');
+      expect(unused).not.toContain('src/routes/settings.ts:renderSettings');
+      expect(unused).not.toContain('src/legacy.ts:default');
+      expect(unused).not.toContain('src/plugins/alpha.ts:default');
+      expect(unused).toContain('src/routes/home.ts:unusedRouteHelper');
+      expect(unused).toContain('src/routes/settings.ts:unusedSettingsHelper');
+    });
+  });
+
+  describe('checker-based usages', () => {
+    let analysis: ProjectAnalysis;
+    let analyzer: ReturnType<typeof createAnalyzer>;
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'checker-usages');
+      analyzer = createAnalyzer(projectDir, undefined, { cache: false });
+      analysis = await analyzer.analyze();
+    });
+
+    const usageCount = (key: string) => analysis.symbolTraces.get(key)?.usageCount;
+
+    it('resolves namespace member access in value and type positions', () => {
+      expect(usageCount('src/strings.ts:shout')).toBe(1);
+      expect(usageCount('src/strings.ts:Options')).toBe(1);
+    });
+
+    it('follows re-exports through several barrels to the declaration', () => {
+      expect(usageCount('src/core/math.ts:add')).toBe(1);
+      expect(usageCount('src/core/index.ts:add')).toBe(1);
+      expect(usageCount('src/core/math.ts:subtract')).toBe(1);
+      expect(usageCount('src/core/math.ts:PI')).toBe(1);
+      expect(usageCount('src/lib.ts:CIRCLE')).toBe(1);
+    });
+
+    it('ignores locals that shadow an import', () => {
+      expect(usageCount('src/strings.ts:whisper')).toBe(0);
+    });
+
+    it('counts merged declarations as one symbol', () => {
+      // greet() in app.ts plus greet.prefix inside strings.ts
+      expect(usageCount('src/strings.ts:greet')).toBe(2);
+    });
+
+    it('reports exactly the unused exports', () => {
+      const unused = analyzer.findUnusedExports(analysis).map(u => `${u.export.filePath}:${u.export.name}`);
+      expect(unused).toContain('src/core/math.ts:unusedHelper');
+      expect(unused).toContain('src/strings.ts:whisper');
+      expect(unused).not.toContain('src/core/math.ts:add');
+      expect(unused).not.toContain('src/core/math.ts:PI');
+      expect(unused).not.toContain('src/strings.ts:shout');
+      expect(unused).not.toContain('src/strings.ts:greet');
+    });
+  });
+
+  describe('findUnusedMembers', () => {
+    let members: string[];
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'unused-members');
+      const analyzer = createAnalyzer(projectDir, undefined, { cache: false });
+      const analysis = await analyzer.analyze();
+      members = analyzer.findUnusedMembers(analysis).map(m => `${m.container}.${m.name}:${m.kind}`);
+    });
+
+    it('reports unused public methods, getters and static members', () => {
+      expect(members).toContain('Circle.scale:method');
+      expect(members).toContain('Circle.circumference:getter');
+      expect(members).toContain('Circle.UNIT:property');
+      expect(members).not.toContain('Circle.create:method');
+      expect(members).not.toContain('Circle.diameter:getter');
+    });
+
+    it('ignores private members and members implementing an interface', () => {
+      expect(members.some(m => m.startsWith('Circle.secret'))).toBe(false);
+      expect(members.some(m => m.startsWith('Circle.area'))).toBe(false);
+      expect(members.some(m => m.startsWith('Circle.label'))).toBe(false);
+    });
+
+    it('reports unused interface properties', () => {
+      expect(members).toContain('Shape.color:property');
+      expect(members).toContain('Config.legacyMode:property');
+      expect(members).not.toContain('Shape.label:property');
+      expect(members).not.toContain('Config.debug:property');
+      expect(members).not.toContain('Config.name:property');
+    });
+
+    it('reports unused enum members unless the enum is used as a whole', () => {
+      expect(members).toContain('Status.Archived:enum-member');
+      expect(members).not.toContain('Status.Active:enum-member');
+      expect(members.some(m => m.startsWith('Level.'))).toBe(false);
+    });
+  });
+
+  describe('workspaces', () => {
+    let analysis: ProjectAnalysis;
+    let analyzer: ReturnType<typeof createAnalyzer>;
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'monorepo');
+      analyzer = createAnalyzer(projectDir, undefined, { cache: false });
+      analysis = await analyzer.analyze();
+    });
+
+    it('discovers workspace packages and maps their exports to source', () => {
+      expect(analysis.packages.map(p => p.name)).toEqual(['@acme/app', '@acme/core', '@acme/ui']);
+
+      const ui = analysis.packages.find(p => p.name === '@acme/ui');
+      expect(ui?.exports).toEqual({
+        '.': 'packages/ui/src/index.ts',
+        './button': 'packages/ui/src/button.ts',
+      });
+    });
+
+    it('resolves cross-package imports to source files', () => {
+      const cliImports = analysis.importGraph.get('packages/app/src/cli.ts');
+      expect(cliImports?.has('packages/ui/src/index.ts')).toBe(true);
+      expect(analysis.importGraph.get('packages/core/src/index.ts')?.has('packages/ui/src/button.ts')).toBe(true);
+    });
+
+    it('treats package exports and bins as entry points', () => {
+      expect(analyzer.isEntryPoint('packages/ui/src/button.ts')).toBe(true);
+      expect(analyzer.isEntryPoint('packages/app/src/cli.ts')).toBe(true);
+      expect(analyzer.isEntryPoint('packages/ui/src/icons.ts')).toBe(false);
+
+      const unused = analyzer.findUnusedExports(analysis)
+        .filter(u => u.reason === 'Never imported or used')
+        .map(u => `${u.export.filePath}:${u.export.name}`);
+      expect(unused).toEqual(expect.arrayContaining(['packages/ui/src/icons.ts:unusedIcon', 'packages/app/src/util.ts:unusedUtil']));
+      expect(unused).not.toContain('packages/ui/src/icons.ts:icon');
+      expect(unused).not.toContain('packages/app/src/util.ts:greeting');
+    });
+
+    it('detects cycles across packages', () => {
+      expect(analysis.circularDependencies).toContainEqual(['packages/ui/src/button.ts', 'packages/core/src/index.ts']);
+      expect(analyzer.getPackage('packages/ui/src/button.ts')?.name).toBe('@acme/ui');
+    });
+  });
+
+  describe('package.json exports and imports', () => {
+    let analysis: ProjectAnalysis;
+    let analyzer: ReturnType<typeof createAnalyzer>;
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'package-exports');
+      analyzer = createAnalyzer(projectDir, undefined, { cache: false });
+      analysis = await analyzer.analyze();
+    });
+
+    it('treats targets of every condition as entry points', () => {
+      expect(analyzer.isEntryPoint('src/index.ts')).toBe(true);
+      expect(analyzer.isEntryPoint('src/platform/node.ts')).toBe(true);
+      expect(analyzer.isEntryPoint('src/platform/browser.ts')).toBe(true);
+      expect(analyzer.isEntryPoint('src/custom.ts')).toBe(true);
+    });
+
+    it('expands wildcard subpaths to the matching source files', () => {
+      expect(analyzer.isEntryPoint('src/features/search.ts')).toBe(true);
+      expect(analyzer.isEntryPoint('src/features/nested/sort.ts')).toBe(true);
+      expect(analyzer.isEntryPoint('src/features/internal/secret.ts')).toBe(false);
+    });
+
+    it('resolves # imports through the imports field', () => {
+      const imports = analysis.importGraph.get('src/index.ts');
+      expect(imports?.has('src/config.ts')).toBe(true);
+      expect(imports?.has('src/internal/helper.ts')).toBe(true);
+    });
+
+    it('reports unused exports outside the public surface', () => {
+      const unused = analyzer.findUnusedExports(analysis)
+        .filter(u => u.reason === 'Never imported or used')
+        .map(u => `${u.export.filePath}:${u.export.name}`);
+      expect(unused.sort()).toEqual([
+        'src/features/internal/secret.ts:secret',
+        'src/internal/helper.ts:unusedHelper',
+      ]);
+    });
+  });
+
+  describe('suppression comments', () => {
+    let analysis: ProjectAnalysis;
+    let analyzer: ReturnType<typeof createAnalyzer>;
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'suppressions');
+      analyzer = createAnalyzer(projectDir, undefined, { cache: false, excludeFromUnused: ['src/generated/**'] });
+      analysis = await analyzer.analyze();
+    });
+
+    it('hides suppressed unused exports and honors excludeFromUnused', () => {
+      const unused = analyzer.findUnusedExports(analysis)
+        .filter(u => u.reason === 'Never imported or used')
+        .map(u => `${u.export.filePath}:${u.export.name}`);
+      expect(unused).toEqual(['src/a.ts:reallyUnused']);
+    });
+
+    it('hides suppressed unused members', () => {
+      const members = analyzer.findUnusedMembers(analysis).map(m => `${m.container}.${m.name}`);
+      expect(members).toContain('Widget.unusedMethod');
+      expect(members).not.toContain('Widget.legacyRender');
+    });
+
+    it('drops cycles with a suppressed import', () => {
+      expect(analysis.circularDependencies).toHaveLength(1);
+      expect([...analysis.circularDependencies[0]].sort()).toEqual(['src/c.ts', 'src/d.ts']);
+    });
+
+    it('leaves suppressions that matched nothing unused', () => {
+      analyzer.findUnusedExports(analysis);
+      analyzer.findUnusedMembers(analysis);
+      const stale = Array.from(analysis.suppressions.values()).flat().filter(s => !s.used);
+      expect(stale.map(s => `${s.file}:${s.line}`)).toEqual(['src/b.ts:3']);
+    });
+  });
+
+  describe('architecture rules', () => {
+    let analysis: ProjectAnalysis;
+    let analyzer: ReturnType<typeof createAnalyzer>;
+
+    beforeAll(async () => {
+      const projectDir = path.join(FIXTURES_DIR, 'layers');
+      analyzer = createAnalyzer(projectDir, undefined, {
+        cache: false,
+        rules: [
+          { name: 'domain-is-pure', from: 'src/domain/**', to: 'src/infra/**', message: 'Inject infrastructure instead' },
+          { from: 'src/ui', to: 'src/api', allow: 'src/api/index.ts', severity: 'warning' },
+        ],
+      });
+      analysis = await analyzer.analyze();
+    });
+
+    it('reports each import that breaks a rule', () => {
+      const violations = analyzer.findRuleViolations(analysis);
+      expect(violations).toEqual([
+        {
+          rule: 'domain-is-pure', file: 'src/domain/user.ts', line: 1, source: '../infra/db.js', target: 'src/infra/db.ts',
+          severity: 'critical', message: 'Inject infrastructure instead',
+        },
+        { rule: 'src/ui → src/api', file: 'src/ui/app.ts', line: 2, source: '../api/client.js', target: 'src/api/client.ts', severity: 'warning' },
+      ]);
+    });
+
+    it('honors suppression comments on the import', () => {
+      analyzer.findRuleViolations(analysis);
+      const suppression = analysis.suppressions.get('src/domain/order.ts')![0];
+      expect(suppression.used).toBe(true);
+    });
+
+    it('rejects rules without from or to', () => {
+      const broken = createAnalyzer(path.join(FIXTURES_DIR, 'layers'), undefined, {
+        cache: false,
+        rules: [{ from: 'src/domain/**' } as never],
+      });
+      expect(() => broken.findRuleViolations(analysis)).toThrow('Architecture rule 1 needs "from" and "to" globs');
+    });
+  });
 });
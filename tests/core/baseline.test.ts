@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  BASELINE_FILE, compareWithBaseline, createBaseline, fingerprintProblem, loadBaseline, pruneBaseline, saveBaseline,
+} from '../../src/core/baseline.js';
+import type { Problem } from '../../src/core/reporter.js';
+
+const unused = (file: string, symbol: string, line = 1): Problem => ({
+  rule: 'unused-export',
+  severity: 'warning',
+  category: 'dead-code',
+  file,
+  line,
+  symbol,
+  message: `Unused export: ${symbol}`,
+});
+
+const cycle: Problem = {
+  rule: 'circular-dependency',
+  severity: 'critical',
+  category: 'architecture',
+  file: 'src/a.ts',
+  symbol: 'src/a.ts → src/b.ts',
+  message: 'Circular dependency: src/a.ts → src/b.ts',
+};
+
+describe('fingerprintProblem', () => {
+  it('ignores line numbers and messages', () => {
+    const moved = { ...unused('src/utils.ts', 'format', 40), message: 'reworded' };
+    expect(fingerprintProblem(moved)).toBe(fingerprintProblem(unused('src/utils.ts', 'format', 3)));
+    expect(fingerprintProblem(unused('src/utils.ts', 'parse'))).not.toBe(fingerprintProblem(unused('src/utils.ts', 'format')));
+    expect(fingerprintProblem(unused('src/other.ts', 'format'))).not.toBe(fingerprintProblem(unused('src/utils.ts', 'format')));
+  });
+});
+
+describe('compareWithBaseline', () => {
+  const baseline = createBaseline([unused('src/utils.ts', 'format'), unused('src/utils.ts', 'parse'), cycle]);
+
+  it('separates new problems from known ones and lists fixed entries', () => {
+    const { newProblems, knownProblems, fixedEntries } = compareWithBaseline(
+      [unused('src/utils.ts', 'format', 99), unused('src/api.ts', 'fetchAll'), cycle],
+      baseline
+    );
+    expect(newProblems.map(p => p.symbol)).toEqual(['fetchAll']);
+    expect(knownProblems.map(p => p.symbol)).toEqual(['format', cycle.symbol]);
+    expect(fixedEntries.map(e => e.symbol)).toEqual(['parse']);
+  });
+
+  it('only considers entries for the checked rules', () => {
+    const { fixedEntries } = compareWithBaseline([], baseline, ['circular-dependency']);
+    expect(fixedEntries.map(e => e.rule)).toEqual(['circular-dependency']);
+  });
+
+  it('matches repeated fingerprints by count', () => {
+    const twice = createBaseline([unused('src/a.ts', 'x')]);
+    const { newProblems, knownProblems } = compareWithBaseline([unused('src/a.ts', 'x'), unused('src/a.ts', 'x')], twice);
+    expect(knownProblems).toHaveLength(1);
+    expect(newProblems).toHaveLength(1);
+  });
+
+  it('prunes fixed entries', () => {
+    const { fixedEntries } = compareWithBaseline([unused('src/utils.ts', 'format'), cycle], baseline);
+    expect(pruneBaseline(baseline, fixedEntries).entries.map(e => e.symbol)).not.toContain('parse');
+    expect(pruneBaseline(baseline, fixedEntries).entries).toHaveLength(2);
+  });
+});
+
+describe('loadBaseline / saveBaseline', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('round-trips through .consuela/baseline.json', () => {
+    expect(loadBaseline(tempDir)).toBeUndefined();
+
+    const baseline = createBaseline([unused('src/utils.ts', 'format'), cycle]);
+    saveBaseline(tempDir, baseline);
+
+    expect(fs.existsSync(path.join(tempDir, BASELINE_FILE))).toBe(true);
+    expect(loadBaseline(tempDir)).toEqual(baseline);
+  });
+
+  it('rejects unreadable baselines', () => {
+    fs.mkdirSync(path.join(tempDir, '.consuela'));
+    fs.writeFileSync(path.join(tempDir, BASELINE_FILE), '{ not json');
+    expect(() => loadBaseline(tempDir)).toThrow('Failed to parse');
+
+    fs.writeFileSync(path.join(tempDir, BASELINE_FILE), JSON.stringify({ version: 99, entries: [] }));
+    expect(() => loadBaseline(tempDir)).toThrow('Unsupported baseline format');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { BaseAIProvider } from '../../src/core/ai-provider.js';
+import { createCassetteProvider, hashPrompt } from '../../src/core/cassette.js';
+import { createAIProvider } from '../../src/core/ai.js';
+
+class StubProvider extends BaseAIProvider {
+  readonly name = 'ollama' as const;
+  readonly model = 'stub-model';
+  prompts: string[] = [];
+
+  constructor(private readonly reply: string) {
+    super();
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    return this.reply;
+  }
+}
+
+describe('cassette provider', () => {
+  let cassetteDir: string;
+
+  beforeEach(() => {
+    cassetteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cassetteDir, { recursive: true, force: true });
+  });
+
+  it('records each prompt keyed by its hash', async () => {
+    const stub = new StubProvider('recorded answer');
+    const recorder = createCassetteProvider(stub, { mode: 'record', dir: cassetteDir });
+
+    const text = await recorder.generateText('hello');
+
+    expect(text).toBe('recorded answer');
+    const entryPath = path.join(cassetteDir, `${hashPrompt('hello')}.json`);
+    const entry = JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+    expect(entry).toEqual({
+      key: hashPrompt('hello'),
+      provider: 'ollama',
+      model: 'stub-model',
+      prompt: 'hello',
+      response: 'recorded answer',
+    });
+  });
+
+  it('replays recorded responses without a live provider', async () => {
+    const stub = new StubProvider('utils.ts');
+    const recorder = createCassetteProvider(stub, { mode: 'record', dir: cassetteDir });
+    await recorder.suggestFileName(['formatDate'], 'src/a.ts', ['']);
+
+    const player = createCassetteProvider(null, { mode: 'replay', dir: cassetteDir });
+    const name = await player.suggestFileName(['formatDate'], 'src/a.ts', ['']);
+
+    expect(name).toBe('utils.ts');
+    expect(stub.prompts).toHaveLength(1);
+  });
+
+  it('fails replay when a prompt was never recorded', async () => {
+    const player = createCassetteProvider(null, { mode: 'replay', dir: cassetteDir });
+
+    await expect(player.generateText('unknown prompt')).rejects.toThrow('No recorded AI response');
+  });
+
+  it('is applied by createAIProvider when the config has a cassette', async () => {
+    const entry = { key: hashPrompt('ping'), provider: 'gemini', model: 'm', prompt: 'ping', response: 'pong' };
+    fs.writeFileSync(path.join(cassetteDir, `${entry.key}.json`), JSON.stringify(entry));
+
+    const provider = createAIProvider({ provider: 'gemini', cassette: { mode: 'replay', dir: cassetteDir } });
+
+    expect(provider.name).toBe('gemini');
+    expect(await provider.generateText('ping')).toBe('pong');
+  });
+});
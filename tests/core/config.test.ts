@@ -122,6 +122,8 @@ describe('Config', () => {
       expect(result.ignore).toEqual([]);
       expect(result.entryPoints).toEqual([]);
       expect(result.cache).toBe(true);
+      expect(result.excludeFromUnused).toEqual([]);
+      expect(result.rules).toEqual([]);
     });
 
     it('uses provided ignore patterns', () => {
@@ -136,6 +138,19 @@ describe('Config', () => {
       expect(result.entryPoints).toEqual(['src/main.ts']);
     });
 
+    it('passes excludeFromUnused through', () => {
+      const result = mergeWithDefaults({ excludeFromUnused: ['src/generated/**', 'src/api.ts:handler'] });
+
+      expect(result.excludeFromUnused).toEqual(['src/generated/**', 'src/api.ts:handler']);
+    });
+
+    it('passes architecture rules through', () => {
+      const rules = [{ from: 'src/domain/**', to: 'src/infra/**' }];
+      const result = mergeWithDefaults({ rules });
+
+      expect(result.rules).toEqual(rules);
+    });
+
     it('disables cache when noCache is true', () => {
       const result = mergeWithDefaults({ noCache: true });
 
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeCycles, findCycles, findCyclicComponents } from '../../src/core/cycles.js';
+
+const graphOf = (edges: Record<string, string[]>) =>
+  new Map(Object.entries(edges).map(([from, to]) => [from, new Set(to)]));
+
+describe('findCyclicComponents', () => {
+  it('groups every file of a tangle into one component', () => {
+    const graph = graphOf({ a: ['b'], b: ['c', 'a'], c: ['a'], d: ['a'], e: ['e'] });
+    expect(findCyclicComponents(graph)).toEqual([['a', 'b', 'c'], ['e']]);
+  });
+
+  it('ignores acyclic graphs', () => {
+    expect(findCyclicComponents(graphOf({ a: ['b'], b: ['c'], c: [] }))).toEqual([]);
+  });
+});
+
+describe('findCycles', () => {
+  it('lists a chain per back edge', () => {
+    expect(findCycles(graphOf({ a: ['b'], b: ['a', 'c'], c: ['b'] }))).toEqual([['a', 'b'], ['b', 'c']]);
+  });
+});
+
+describe('analyzeCycles', () => {
+  it('reports size, internal edges and the runtime subset of each component', () => {
+    const imports = graphOf({ a: ['b'], b: ['a', 'c'], c: ['a'], d: ['e'], e: ['d'], f: ['a'] });
+    const runtime = graphOf({ a: ['b'], b: ['a'], c: ['a'], d: [], e: ['d'], f: ['a'] });
+    const { components } = analyzeCycles(imports, runtime);
+
+    expect(components.map(c => [c.files, c.size, c.edges.length, c.runtimeEdges.length, c.typeOnly])).toEqual([
+      [['a', 'b', 'c'], 3, 4, 3, false],
+      [['d', 'e'], 2, 2, 1, true],
+    ]);
+    expect(components[0].edges.find(edge => edge.from === 'b' && edge.to === 'c')!.typeOnly).toBe(true);
+  });
+
+  it('ranks edges by the number of cycles they appear in', () => {
+    const imports = graphOf({ a: ['b'], b: ['c', 'd', 'a'], c: ['a'], d: ['a'] });
+    const { components, edgeRanking } = analyzeCycles(imports, imports);
+
+    expect(components[0].cycleCount).toBe(3);
+    expect(components[0].truncated).toBe(false);
+    expect(edgeRanking.map(edge => `${edge.from}>${edge.to}:${edge.cycles}`)).toEqual([
+      'a>b:3', 'b>a:1', 'b>c:1', 'b>d:1', 'c>a:1', 'd>a:1',
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { renderHtmlReport, type HtmlReportData } from '../../src/core/html-report.js';
+import { createFileView } from '../../src/graph/export.js';
+
+const importGraph = new Map<string, Set<string>>([
+  ['src/index.ts', new Set(['src/a.ts'])],
+  ['src/a.ts', new Set(['src/b.ts'])],
+  ['src/b.ts', new Set(['src/a.ts'])],
+]);
+
+function reportData(overrides: Partial<HtmlReportData> = {}): HtmlReportData {
+  return {
+    title: 'Consuela report: demo',
+    generatedAt: '2024-01-01T00:00:00.000Z',
+    score: 72,
+    scoreBreakdown: [
+      { category: 'unused', count: 1, maxPenalty: 20, penalty: 0.5 },
+      { category: 'circular', count: 1, maxPenalty: 15, penalty: 5 },
+    ],
+    problems: [
+      { rule: 'circular-dependency', severity: 'critical', category: 'circular', file: 'src/a.ts', message: 'Circular: src/a.ts → src/b.ts → src/a.ts' },
+      { rule: 'unused-export', severity: 'warning', category: 'unused', file: 'src/b.ts', line: 3, symbol: 'helper', message: 'Unused export: helper<T>' },
+    ],
+    purity: { totalFunctions: 4, pureFunctions: 3, impureFunctions: 1, unknownFunctions: 0 },
+    graph: createFileView(importGraph, { highlightCycles: true, hubs: new Set(['src/a.ts']) }),
+    files: [{
+      path: 'src/b.ts', dependencies: 1, dependents: 1,
+      exports: [
+        { name: 'b', kind: 'function', line: 2, usageCount: 1, importedBy: ['src/a.ts'], unused: false },
+        { name: 'helper', kind: 'function', line: 3, usageCount: 0, importedBy: [], unused: true },
+      ],
+    }],
+    ...overrides,
+  };
+}
+
+describe('renderHtmlReport', () => {
+  it('renders the score breakdown, purity stats and problems', () => {
+    const html = renderHtmlReport(reportData());
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<div class="score fair">72<span>/100</span></div>');
+    expect(html).toContain('−5 / 15');
+    expect(html).toContain('4 functions, 75% free of side effects.');
+    expect(html).toContain('<h2>Problems (2)</h2>');
+    expect(html).toContain('<td data-sort="0"><span class="badge critical">critical</span></td>');
+    expect(html).toContain('<a href="#file-src_b_ts">src/b.ts:3</a>');
+  });
+
+  it('escapes project content', () => {
+    const html = renderHtmlReport(reportData());
+    expect(html).toContain('Unused export: helper&lt;T&gt;');
+    expect(html).not.toContain('helper<T>');
+  });
+
+  it('draws the import graph with cycles and hubs marked', () => {
+    const html = renderHtmlReport(reportData());
+
+    expect(html).toContain('<svg id="graph-svg"');
+    expect(html).toContain('<g class="node cycle hub" transform="translate(');
+    expect(html.match(/<path class="edge cycle"/g)).toHaveLength(2);
+    expect(html.match(/<path class="edge"/g)).toHaveLength(1);
+    expect(html).toContain('3 files, 3 imports, 2 files in cycles, 1 hubs.');
+  });
+
+  it('lists exports per file with importers and unused markers', () => {
+    const html = renderHtmlReport(reportData());
+
+    expect(html).toContain('<details id="file-src_b_ts" data-file="src/b.ts">');
+    expect(html).toContain('2 exports, 1 unused · imports 1 · imported by 1');
+    expect(html).toContain('<a href="#file-src_a_ts">src/a.ts</a>');
+    expect(html).toContain('<tr class="unused">');
+  });
+
+  it('works offline without external scripts or stylesheets', () => {
+    const html = renderHtmlReport(reportData());
+    expect(html).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+    expect(html.replace('http://www.w3.org/2000/svg', '')).not.toMatch(/https?:\/\//);
+  });
+
+  it('handles an empty project', () => {
+    const html = renderHtmlReport(reportData({
+      problems: [], files: [], graph: createFileView(new Map()),
+      purity: { totalFunctions: 0, pureFunctions: 0, impureFunctions: 0, unknownFunctions: 0 },
+    }));
+    expect(html).toContain('No files to draw.');
+    expect(html).toContain('0 functions, 0% free of side effects.');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { listPackageMap, normalizeExports, resolvePackageMap } from '../../src/core/package-exports.js';
+
+describe('normalizeExports', () => {
+  it('wraps exports sugar in a "." subpath', () => {
+    expect(normalizeExports('./index.js')).toEqual({ '.': './index.js' });
+    expect(normalizeExports({ import: './index.mjs' })).toEqual({ '.': { import: './index.mjs' } });
+    expect(normalizeExports({ './a': './a.js' })).toEqual({ './a': './a.js' });
+    expect(normalizeExports(undefined)).toBeUndefined();
+  });
+});
+
+describe('resolvePackageMap', () => {
+  const exportsMap = {
+    '.': { types: './dist/index.d.ts', import: './dist/index.mjs', require: './dist/index.cjs' },
+    './features/*': './dist/features/*.js',
+    './features/special/*': './dist/special/*.js',
+    './features/private/*': null,
+    './utils/*.js': './dist/utils/*.js',
+    './fallback': ['./dist/missing.js', './dist/fallback.js'],
+  };
+
+  it('returns the targets of every condition when none are given', () => {
+    expect(resolvePackageMap(exportsMap, '.')).toEqual(['./dist/index.d.ts', './dist/index.mjs', './dist/index.cjs']);
+  });
+
+  it('picks the first matching condition like Node', () => {
+    expect(resolvePackageMap(exportsMap, '.', new Set(['require', 'node']))).toEqual(['./dist/index.cjs']);
+    expect(resolvePackageMap({ '.': { browser: './b.js', default: './d.js' } }, '.', new Set(['node']))).toEqual(['./d.js']);
+  });
+
+  it('substitutes wildcards, including across directories', () => {
+    expect(resolvePackageMap(exportsMap, './features/search')).toEqual(['./dist/features/search.js']);
+    expect(resolvePackageMap(exportsMap, './features/a/b')).toEqual(['./dist/features/a/b.js']);
+    expect(resolvePackageMap(exportsMap, './utils/format.js')).toEqual(['./dist/utils/format.js']);
+  });
+
+  it('prefers the most specific pattern', () => {
+    expect(resolvePackageMap(exportsMap, './features/special/x')).toEqual(['./dist/special/x.js']);
+  });
+
+  it('honors null exclusions and unlisted subpaths', () => {
+    expect(resolvePackageMap(exportsMap, './features/private/x')).toEqual([]);
+    expect(resolvePackageMap(exportsMap, './internal')).toEqual([]);
+  });
+
+  it('keeps fallback arrays in order', () => {
+    expect(resolvePackageMap(exportsMap, './fallback')).toEqual(['./dist/missing.js', './dist/fallback.js']);
+  });
+
+  it('resolves # imports', () => {
+    const importsMap = { '#internal/*': './src/internal/*.ts', '#dep': 'some-dependency' };
+    expect(resolvePackageMap(importsMap, '#internal/db')).toEqual(['./src/internal/db.ts']);
+    expect(resolvePackageMap(importsMap, '#dep')).toEqual(['some-dependency']);
+  });
+});
+
+describe('listPackageMap', () => {
+  it('lists every key with all of its targets', () => {
+    expect(listPackageMap({
+      '.': { node: { import: './n.mjs', require: './n.cjs' }, default: './d.js' },
+      './x/*': null,
+    })).toEqual([
+      { key: '.', targets: ['./n.mjs', './n.cjs', './d.js'] },
+      { key: './x/*', targets: [] },
+    ]);
+  });
+});
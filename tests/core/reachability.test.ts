@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeReachability } from '../../src/core/reachability.js';
+
+const graphOf = (edges: Record<string, string[]>) =>
+  new Map(Object.entries(edges).map(([from, to]) => [from, new Set(to)]));
+
+describe('analyzeReachability', () => {
+  it('groups files no entry point reaches into clusters, largest first', () => {
+    const graph = graphOf({
+      index: ['a'], a: ['b'], b: [],
+      old: ['legacy', 'b'], legacy: ['helpers'], helpers: ['legacy'],
+      scratch: [],
+    });
+    const { reachable, clusters } = analyzeReachability(graph, ['index']);
+
+    expect([...reachable].sort()).toEqual(['a', 'b', 'index']);
+    expect(clusters).toEqual([
+      { files: ['helpers', 'legacy', 'old'], roots: ['old'], edges: 3 },
+      { files: ['scratch'], roots: ['scratch'], edges: 0 },
+    ]);
+  });
+
+  it('reports clusters that only import each other without roots', () => {
+    const { clusters } = analyzeReachability(graphOf({ index: [], a: ['b'], b: ['a'] }), ['index']);
+    expect(clusters).toEqual([{ files: ['a', 'b'], roots: [], edges: 2 }]);
+  });
+
+  it('ignores entry points and imports outside the graph', () => {
+    const { reachable, clusters } = analyzeReachability(graphOf({ a: ['external'] }), ['a', 'missing']);
+    expect([...reachable]).toEqual(['a']);
+    expect(clusters).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseReportFormat, renderReport, toCodeClimate, toSarif, type Problem } from '../../src/core/reporter.js';
+
+const problems: Problem[] = [
+  {
+    rule: 'unused-export',
+    severity: 'warning',
+    category: 'dead-code',
+    file: 'src/utils.ts',
+    line: 12,
+    message: 'Unused export: formatDate',
+    suggestion: 'Remove if not needed',
+  },
+  {
+    rule: 'circular-dependency',
+    severity: 'critical',
+    category: 'architecture',
+    file: 'src/a.ts',
+    line: 1,
+    message: 'Circular dependency: src/a.ts → src/b.ts',
+  },
+  {
+    rule: 'low-purity',
+    severity: 'warning',
+    category: 'architecture',
+    message: 'Only 10% of functions are pure',
+  },
+];
+
+describe('parseReportFormat', () => {
+  it('falls back to --json and text', () => {
+    expect(parseReportFormat(undefined)).toBe('text');
+    expect(parseReportFormat(undefined, true)).toBe('json');
+    expect(parseReportFormat('sarif', true)).toBe('sarif');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => parseReportFormat('xml')).toThrow('Unknown format "xml"');
+  });
+});
+
+describe('toSarif', () => {
+  it('produces a SARIF 2.1.0 run with rules and located results', () => {
+    const sarif = toSarif(problems);
+    expect(sarif.version).toBe('2.1.0');
+
+    const run = sarif.runs[0];
+    const ruleIds = run.tool.driver.rules.map(r => r.id);
+    expect(ruleIds).toContain('unused-export');
+    expect(ruleIds).toContain('circular-dependency');
+
+    const [unused, cycle, purity] = run.results;
+    expect(unused.ruleId).toBe('unused-export');
+    expect(ruleIds[unused.ruleIndex]).toBe('unused-export');
+    expect(unused.level).toBe('warning');
+    expect(unused.message.text).toBe('Unused export: formatDate. Remove if not needed');
+    expect(unused.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/utils.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 12 },
+    });
+    expect(cycle.level).toBe('error');
+    expect(purity.locations).toEqual([]);
+  });
+});
+
+describe('toCodeClimate', () => {
+  it('produces Code Climate issues with stable fingerprints', () => {
+    const issues = toCodeClimate(problems);
+    expect(issues[0]).toMatchObject({
+      type: 'issue',
+      check_name: 'unused-export',
+      description: 'Unused export: formatDate',
+      content: { body: 'Remove if not needed' },
+      categories: ['Clarity'],
+      severity: 'minor',
+      location: { path: 'src/utils.ts', lines: { begin: 12 } },
+    });
+    expect(issues[1].severity).toBe('critical');
+    expect(issues[2].location).toEqual({ path: '.', lines: { begin: 1 } });
+
+    const moved = toCodeClimate([{ ...problems[0], line: 40 }]);
+    expect(moved[0].fingerprint).toBe(issues[0].fingerprint);
+    expect(new Set(issues.map(i => i.fingerprint)).size).toBe(3);
+  });
+
+  it('renders as JSON text', () => {
+    expect(JSON.parse(renderReport('codeclimate', problems))).toHaveLength(3);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { createExclusionMatcher, findUnusedSuppressions, isSuppressed, parseSuppressions } from '../../src/core/suppressions.js';
+
+describe('parseSuppressions', () => {
+  it('targets the trailed line, the next line or the whole file', () => {
+    const suppressions = parseSuppressions('src/a.ts', [
+      '/* consuela-ignore-file large-file */',
+      'export const a = 1; // consuela-ignore unused',
+      '// consuela-ignore-next-line circular',
+      "import { b } from './b.js';",
+    ].join('\n'));
+
+    expect(suppressions.map(s => [s.scope, s.targetLine, s.kinds])).toEqual([
+      ['file', undefined, ['large-file']],
+      ['line', 2, ['unused']],
+      ['next-line', 4, ['circular']],
+    ]);
+  });
+
+  it('skips doc comments when the directive stands alone', () => {
+    const [suppression] = parseSuppressions('src/a.ts', [
+      '// consuela-ignore unused -- used by plugins',
+      '/**',
+      ' * Plugin hook.',
+      ' */',
+      'export function hook() {}',
+    ].join('\n'));
+
+    expect(suppression.targetLine).toBe(5);
+    expect(suppression.kinds).toEqual(['unused']);
+    expect(suppression.text).toBe('consuela-ignore unused');
+  });
+
+  it('reads # comments in Python files only', () => {
+    expect(parseSuppressions('app.py', 'def old(): pass  # consuela-ignore unused')).toHaveLength(1);
+    expect(parseSuppressions('app.ts', "const tag = '#consuela-ignore';")).toHaveLength(0);
+  });
+});
+
+describe('isSuppressed', () => {
+  const build = () => new Map([['src/a.ts', parseSuppressions('src/a.ts', [
+    'export const a = 1; // consuela-ignore unused',
+    'export const b = 2; // consuela-ignore dead-code',
+    'export const c = 3; // consuela-ignore',
+  ].join('\n'))]]);
+
+  it('matches rules by id, category or prefix', () => {
+    const suppressions = build();
+    expect(isSuppressed(suppressions, 'unused-export', 'src/a.ts', 1)).toBe(true);
+    expect(isSuppressed(suppressions, 'circular-dependency', 'src/a.ts', 1)).toBe(false);
+    expect(isSuppressed(suppressions, 'unused-member', 'src/a.ts', 2)).toBe(true);
+    expect(isSuppressed(suppressions, 'hub-file', 'src/a.ts', 3)).toBe(true);
+    expect(isSuppressed(suppressions, 'unused-export', 'src/b.ts', 1)).toBe(false);
+  });
+
+  it('only suppresses line-less findings file-wide', () => {
+    const suppressions = build();
+    expect(isSuppressed(suppressions, 'large-file', 'src/a.ts')).toBe(false);
+    expect(findUnusedSuppressions(suppressions)).toHaveLength(3);
+  });
+
+  it('marks matching suppressions as used', () => {
+    const suppressions = build();
+    isSuppressed(suppressions, 'unused-export', 'src/a.ts', 1);
+    expect(findUnusedSuppressions(suppressions).map(s => s.line)).toEqual([2, 3]);
+  });
+});
+
+describe('createExclusionMatcher', () => {
+  it('matches files by glob and exports by file:name', () => {
+    const isExcluded = createExclusionMatcher(['src/generated/**', 'src/api.ts:handler', 'lib']);
+    expect(isExcluded('src/generated/client/index.ts', 'anything')).toBe(true);
+    expect(isExcluded('src/api.ts', 'handler')).toBe(true);
+    expect(isExcluded('src/api.ts', 'other')).toBe(false);
+    expect(isExcluded('lib/util.ts', 'x')).toBe(true);
+    expect(isExcluded('src/lib/util.ts', 'x')).toBe(false);
+  });
+});
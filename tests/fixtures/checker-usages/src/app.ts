@@ -0,0 +1,15 @@
+import * as strings from './strings.js';
+import { whisper, greet } from './strings.js';
+import { add as sum, CIRCLE } from './lib.js';
+import { subtract } from './core/index.js';
+
+export function run(opts: strings.Options): string {
+  const plus = sum;
+  const total = plus(1, 2) + subtract(CIRCLE, 1);
+  return opts.loud ? strings.shout(greet(String(total))) : quiet(text => text);
+}
+
+// The parameter shadows the imported `whisper`
+function quiet(whisper: (text: string) => string): string {
+  return whisper('...');
+}
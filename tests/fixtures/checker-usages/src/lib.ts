@@ -0,0 +1,2 @@
+export * from './core/index.js';
+export { PI as CIRCLE } from './core/math.js';
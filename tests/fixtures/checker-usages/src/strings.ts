@@ -0,0 +1,23 @@
+export interface Options {
+  loud: boolean;
+}
+
+export interface Options {
+  quiet: boolean;
+}
+
+export function shout(text: string): string {
+  return text.toUpperCase();
+}
+
+export function whisper(text: string): string {
+  return text.toLowerCase();
+}
+
+export function greet(name: string): string {
+  return `${greet.prefix} ${name}`;
+}
+
+export namespace greet {
+  export const prefix = 'Hello';
+}
@@ -0,0 +1,17 @@
+import legacyRunner = require('./legacy');
+
+export async function loadRoutes() {
+  const { renderHome } = await import('./routes/home.js');
+  const settings = await import('./routes/settings.js');
+  return [renderHome(), settings.renderSettings()];
+}
+
+export function loadLegacy() {
+  const run = require('./legacy');
+  const formatDate = require('./format').formatDate;
+  return run() + legacyRunner() + formatDate(new Date()) + require('./helpers').helper();
+}
+
+export function loadPlugin(name: string) {
+  return import(`./plugins/${name}`);
+}
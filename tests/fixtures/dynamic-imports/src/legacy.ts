@@ -0,0 +1,5 @@
+function run(): string {
+  return 'legacy';
+}
+
+export = run;
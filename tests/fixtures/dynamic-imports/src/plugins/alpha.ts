@@ -0,0 +1,3 @@
+export default function alpha(): string {
+  return 'alpha';
+}
@@ -0,0 +1 @@
+export const beta = 'beta';
@@ -0,0 +1,7 @@
+export function renderHome(): string {
+  return 'home';
+}
+
+export function unusedRouteHelper(): string {
+  return 'unused';
+}
@@ -0,0 +1,7 @@
+export function renderSettings(): string {
+  return 'settings';
+}
+
+export function unusedSettingsHelper(): string {
+  return 'unused';
+}
@@ -0,0 +1,3 @@
+export function fetchUser(id: number) {
+  return { id };
+}
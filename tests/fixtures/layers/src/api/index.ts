@@ -0,0 +1,5 @@
+import { fetchUser } from './client.js';
+
+export function getUser(id: number) {
+  return fetchUser(id);
+}
@@ -0,0 +1,6 @@
+import { db } from '../infra/db.js';
+
+export function createUser(name: string) {
+  db.save(name);
+  return { name };
+}
@@ -0,0 +1,7 @@
+import { renderApp } from './ui/app.js';
+import { createUser } from './domain/user.js';
+import { createOrder } from './domain/order.js';
+
+export function main() {
+  return renderApp() + createUser('a').name + createOrder(1).id;
+}
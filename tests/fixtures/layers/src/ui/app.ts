@@ -0,0 +1,6 @@
+import { getUser } from '../api/index.js';
+import { fetchUser } from '../api/client.js';
+
+export function renderApp() {
+  return `${getUser(1).id}${fetchUser(2).id}`;
+}
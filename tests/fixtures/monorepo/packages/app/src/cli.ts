@@ -0,0 +1,4 @@
+import { Button, icon, theme } from '@acme/ui';
+import { greeting } from './util.js';
+
+console.log(Button(greeting()), theme(), icon('star'));
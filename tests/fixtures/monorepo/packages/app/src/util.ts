@@ -0,0 +1,7 @@
+export function greeting(): string {
+  return 'hello';
+}
+
+export function unusedUtil(): string {
+  return 'unused';
+}
@@ -0,0 +1,9 @@
+import { Button } from '@acme/ui/button';
+
+export function format(text: string): string {
+  return text.trim();
+}
+
+export function renderDefault(): string {
+  return Button('OK');
+}
@@ -0,0 +1,5 @@
+import { format } from '@acme/core';
+
+export function Button(label: string): string {
+  return `<button>${format(label)}</button>`;
+}
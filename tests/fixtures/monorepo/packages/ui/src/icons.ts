@@ -0,0 +1,7 @@
+export function icon(name: string): string {
+  return `<i>${name}</i>`;
+}
+
+export function unusedIcon(): string {
+  return '';
+}
@@ -0,0 +1,6 @@
+export { Button } from './button.js';
+export { icon } from './icons.js';
+
+export function theme(): string {
+  return 'light';
+}
@@ -0,0 +1,3 @@
+export function readConfig(): string {
+  return 'config';
+}
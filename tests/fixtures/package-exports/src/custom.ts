@@ -0,0 +1,3 @@
+export function customBuild(): boolean {
+  return true;
+}
@@ -0,0 +1,3 @@
+export function sort(items: string[]): string[] {
+  return [...items].sort();
+}
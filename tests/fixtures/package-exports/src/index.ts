@@ -0,0 +1,6 @@
+import { readConfig } from '#config';
+import { helper } from '#internal/helper';
+
+export function run(): string {
+  return helper(readConfig());
+}
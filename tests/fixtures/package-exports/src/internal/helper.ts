@@ -0,0 +1,5 @@
+export function helper(input: string): string {
+  return input.toUpperCase();
+}
+
+export function unusedHelper(): void {}
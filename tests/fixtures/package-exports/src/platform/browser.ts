@@ -0,0 +1,3 @@
+export function platformName(): string {
+  return 'browser';
+}
@@ -0,0 +1,3 @@
+from .models import User
+
+__all__ = ["User"]
@@ -0,0 +1,9 @@
+from . import cycle_a
+
+
+def pong():
+    return 1
+
+
+def ping_back():
+    return cycle_a.ping()
@@ -0,0 +1,11 @@
+class User:
+    def __init__(self, name):
+        self.name = name
+
+
+class UnusedModel:
+    pass
+
+
+def _private_helper():
+    return None
@@ -0,0 +1,10 @@
+from .utils import format_name, MAX_LEN
+from . import models
+
+
+def greet(user):
+    return format_name(user.name)[:MAX_LEN]
+
+
+def lookup(name):
+    return models.User(name)
@@ -0,0 +1,9 @@
+MAX_LEN = 10
+
+
+def format_name(name):
+    return name.title()
+
+
+def unused_helper():
+    return format_name("unused")
@@ -0,0 +1,5 @@
+from app import User
+from app.services import greet
+
+
+print(greet(User("ada")))
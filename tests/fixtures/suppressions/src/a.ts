@@ -0,0 +1,13 @@
+// consuela-ignore-next-line circular
+import { b } from './b.js';
+
+export const a = () => b();
+export const legacy = 1; // consuela-ignore unused
+
+// consuela-ignore unused -- loaded by name at runtime
+/**
+ * Called by plugins.
+ */
+export function pluginHook() {}
+
+export function reallyUnused() {}
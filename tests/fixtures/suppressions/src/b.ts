@@ -0,0 +1,4 @@
+import { a } from './a.js';
+
+// consuela-ignore-next-line unused
+export const b = (): number => (a ? 1 : 0);
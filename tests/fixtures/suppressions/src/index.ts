@@ -0,0 +1,7 @@
+import { a } from './a.js';
+import { c } from './c.js';
+import { Widget } from './widget.js';
+
+export function main() {
+  return [a(), c(), new Widget().render()];
+}
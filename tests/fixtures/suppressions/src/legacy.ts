@@ -0,0 +1,3 @@
+/* consuela-ignore-file */
+export const oldA = 1;
+export const oldB = 2;
@@ -0,0 +1,14 @@
+export class Widget {
+  render() {
+    return 'widget';
+  }
+
+  // consuela-ignore-next-line unused
+  legacyRender() {
+    return 'old';
+  }
+
+  unusedMethod() {
+    return 1;
+  }
+}
@@ -0,0 +1,10 @@
+export interface Config {
+  name: string;
+  debug: boolean;
+  /** @deprecated */
+  legacyMode?: boolean;
+}
+
+export function describe({ debug }: Config): string {
+  return debug ? 'debug' : 'release';
+}
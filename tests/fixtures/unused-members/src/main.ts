@@ -0,0 +1,10 @@
+import { Circle, Status, Level, type Shape } from './shapes.js';
+import { describe, type Config } from './config.js';
+
+const circle = Circle.create(2);
+const shapes: Shape[] = [circle];
+const config: Config = { name: 'app', debug: true };
+
+console.log(shapes.map(s => `${s.label}: ${s.area()}`), circle.diameter);
+console.log(Status.Active, Status.Inactive, Object.values(Level));
+console.log(config.name, describe(config));
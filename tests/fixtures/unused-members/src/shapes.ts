@@ -0,0 +1,46 @@
+export interface Shape {
+  area(): number;
+  label: string;
+  color?: string;
+}
+
+export class Circle implements Shape {
+  static readonly UNIT = 1;
+
+  static create(radius: number): Circle {
+    return new Circle(radius);
+  }
+
+  label = 'circle';
+
+  constructor(private radius: number) {}
+
+  area(): number {
+    return Math.PI * this.radius ** 2;
+  }
+
+  get diameter(): number {
+    return this.radius * 2;
+  }
+
+  get circumference(): number {
+    return Math.PI * this.diameter;
+  }
+
+  scale(factor: number): Circle {
+    return new Circle(this.radius * factor);
+  }
+
+  private secret(): void {}
+}
+
+export enum Status {
+  Active,
+  Inactive,
+  Archived,
+}
+
+export enum Level {
+  Low,
+  High,
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createFileView, createFolderView, createFunctionView, findFileHubs, renderGraph,
+} from '../../src/graph/export.js';
+import type { FunctionGraph, FunctionNode } from '../../src/graph/types.js';
+
+const importGraph = new Map<string, Set<string>>([
+  ['src/index.ts', new Set(['src/ui/app.ts', 'src/domain/user.ts'])],
+  ['src/ui/app.ts', new Set(['src/api/client.ts', 'src/api/index.ts'])],
+  ['src/api/index.ts', new Set(['src/api/client.ts'])],
+  ['src/api/client.ts', new Set(['src/domain/user.ts'])],
+  ['src/domain/user.ts', new Set(['src/ui/app.ts'])],
+]);
+
+function functionNode(id: string, className?: string): FunctionNode {
+  const [filePath, name] = id.split(':');
+  return {
+    id, name, filePath, line: 1, endLine: 2, signature: '()', isExported: true, isMethod: !!className, className,
+    isNested: false, purity: 'pure', impurityReasons: [], isAsync: false, isGenerator: false,
+  };
+}
+
+describe('graph views', () => {
+  it('builds a sorted file view with cycles marked', () => {
+    const view = createFileView(importGraph, { highlightCycles: true });
+
+    expect(view.nodes.map(n => n.id)).toEqual([
+      'src/api/client.ts', 'src/api/index.ts', 'src/domain/user.ts', 'src/index.ts', 'src/ui/app.ts',
+    ]);
+    expect(view.edges).toHaveLength(7);
+    expect(view.nodes.filter(n => !n.inCycle).map(n => n.id)).toEqual(['src/index.ts']);
+    expect(view.edges.filter(e => !e.inCycle).map(e => `${e.from}>${e.to}`)).toEqual([
+      'src/index.ts>src/domain/user.ts', 'src/index.ts>src/ui/app.ts',
+    ]);
+  });
+
+  it('collapses files into folders with weighted edges', () => {
+    const view = createFolderView(importGraph, { highlightCycles: true });
+
+    expect(view.nodes.map(n => n.label)).toEqual(['src/', 'src/api/', 'src/domain/', 'src/ui/']);
+    expect(view.edges.map(e => `${e.from}>${e.to}:${e.weight}`)).toEqual([
+      'src>src/domain:1', 'src>src/ui:1', 'src/api>src/domain:1', 'src/domain>src/ui:1', 'src/ui>src/api:2',
+    ]);
+    expect(view.edges.find(e => e.from === 'src')!.inCycle).toBe(false);
+    expect(view.edges.find(e => e.from === 'src/ui')!.inCycle).toBe(true);
+  });
+
+  it('merges repeated calls and groups functions by file', () => {
+    const graph = {
+      nodes: new Map([
+        ['src/a.ts:run', functionNode('src/a.ts:run')],
+        ['src/b.ts:save', functionNode('src/b.ts:save', 'Store')],
+      ]),
+      edges: [
+        { from: 'src/a.ts:run', to: 'src/b.ts:save', line: 2, type: 'method' },
+        { from: 'src/a.ts:run', to: 'src/b.ts:save', line: 3, type: 'method' },
+        { from: 'src/a.ts:run', to: 'external:fetch', line: 4, type: 'direct' },
+      ],
+    } as unknown as FunctionGraph;
+
+    const view = createFunctionView(graph, { hubs: new Set(['src/b.ts:save']) });
+    expect(view.nodes.map(n => [n.label, n.group, n.isHub])).toEqual([
+      ['run', 'src/a.ts', false],
+      ['Store.save', 'src/b.ts', true],
+    ]);
+    expect(view.edges).toEqual([{ from: 'src/a.ts:run', to: 'src/b.ts:save', weight: 2, inCycle: false }]);
+  });
+
+  it('filters by glob and focuses on a neighborhood', () => {
+    const filtered = createFileView(importGraph, { include: p => p.startsWith('src/api/') });
+    expect(filtered.nodes.map(n => n.id)).toEqual(['src/api/client.ts', 'src/api/index.ts']);
+    expect(filtered.edges).toHaveLength(1);
+
+    const focused = createFileView(importGraph, { focus: 'src/api/index.ts', depth: 1 });
+    expect(focused.nodes.map(n => n.id)).toEqual(['src/api/client.ts', 'src/api/index.ts', 'src/ui/app.ts']);
+
+    expect(() => createFileView(importGraph, { focus: 'src/missing.ts' })).toThrow('Nothing in the file graph matches src/missing.ts');
+  });
+
+  it('finds hubs by connections in and out', () => {
+    expect(findFileHubs(importGraph, 'file', 4)).toEqual(new Set(['src/ui/app.ts']));
+    expect(findFileHubs(importGraph, 'folder', 3)).toEqual(new Set(['src/domain', 'src/ui']));
+  });
+});
+
+describe('renderGraph', () => {
+  const view = createFolderView(importGraph, { highlightCycles: true, hubs: new Set(['src/ui']) });
+
+  it('renders Graphviz DOT', () => {
+    const dot = renderGraph(view, 'dot');
+    expect(dot).toMatch(/^digraph consuela \{/);
+    expect(dot).toContain('"src/ui" [label="src/ui/", style=filled, fillcolor="#ffd966", color="#d62728", penwidth=2];');
+    expect(dot).toContain('"src/ui" -> "src/api" [label="2", color="#d62728", penwidth=2];');
+    expect(dot).toContain('"src" -> "src/ui";');
+  });
+
+  it('renders Mermaid with numbered ids and styles', () => {
+    const mermaid = renderGraph(view, 'mermaid').split('\n');
+    expect(mermaid[0]).toBe('flowchart LR');
+    expect(mermaid).toContain('  n3["src/ui/"]');
+    expect(mermaid).toContain('  n3 -->|2| n1');
+    expect(mermaid).toContain('  class n3 hub');
+    expect(mermaid).toContain('  linkStyle 2,3,4 stroke:#d62728,stroke-width:2px');
+  });
+
+  it('renders GraphML', () => {
+    const graphml = renderGraph(createFileView(new Map([['src/a&b.ts', new Set(['src/c.ts'])]])), 'graphml');
+    expect(graphml).toContain('<graph id="file" edgedefault="directed">');
+    expect(graphml).toContain('<node id="src/a&amp;b.ts"><data key="label">src/a&amp;b.ts</data>');
+    expect(graphml).toContain('<edge id="e0" source="src/a&amp;b.ts" target="src/c.ts"><data key="weight">1</data><data key="edgeCycle">false</data></edge>');
+  });
+
+  it('renders Cytoscape JSON with compound nodes for files', () => {
+    const graph = {
+      nodes: new Map([['src/a.ts:run', functionNode('src/a.ts:run')]]),
+      edges: [{ from: 'src/a.ts:run', to: 'src/a.ts:run', line: 2, type: 'direct' }],
+    } as unknown as FunctionGraph;
+    const cytoscape = JSON.parse(renderGraph(createFunctionView(graph, { highlightCycles: true }), 'cytoscape'));
+
+    expect(cytoscape.elements.nodes).toEqual([
+      { data: { id: 'group:src/a.ts', label: 'src/a.ts', kind: 'group' } },
+      { data: { id: 'src/a.ts:run', label: 'run', path: 'src/a.ts', kind: 'function', parent: 'group:src/a.ts', hub: false, cycle: true } },
+    ]);
+    expect(cytoscape.elements.edges).toEqual([
+      { data: { id: 'e0', source: 'src/a.ts:run', target: 'src/a.ts:run', weight: 1, cycle: true } },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { JSFunctionExtractor } from '../../src/graph/extractor.js';
+import type { FunctionNode } from '../../src/graph/types.js';
+
+const files: Record<string, string> = {
+  'src/math.ts': `export function add(a: number, b: number): number;
+export function add(a: string, b: string): string;
+export function add(a: any, b: any): any {
+  return a + b;
+}
+
+export const double = <T extends number>(
+  value: T,
+  factor = 2,
+): number => value * factor;
+
+function helper() {
+  function inner() {
+    return 1;
+  }
+  return inner() + add(1, 2);
+}
+
+export { helper };
+`,
+  'src/index.ts': `export * from './math.js';
+export { Store as DataStore } from './store.js';
+`,
+  'src/store.ts': `import { double } from './index.js';
+
+export class Store {
+  #cache = new Map();
+
+  static create(): Store {
+    return new Store();
+  }
+
+  async save(value: number) {
+    return this.normalize(value);
+  }
+
+  normalize = (value: number) => double(value);
+
+  private reset() {}
+}
+
+export const api = {
+  get: (id: string) => id,
+  post(body: string) {
+    return api.get(body);
+  },
+};
+`,
+  'src/app.ts': `import * as math from './math.js';
+import { DataStore, add } from './index.js';
+
+export async function main(values: number[]) {
+  const store = new DataStore();
+  DataStore.create();
+  values.map(math.double).forEach(value => {
+    store.save(add(value, 1));
+  });
+  function inner() {
+    return 2;
+  }
+  return inner();
+}
+`,
+};
+
+function extractAll(): { functions: Map<string, FunctionNode>; edges: string[] } {
+  const extractor = new JSFunctionExtractor();
+  const functions = new Map<string, FunctionNode>();
+  for (const [file, content] of Object.entries(files)) {
+    for (const func of extractor.extractFunctions(file, content)) functions.set(func.id, func);
+  }
+  const edges = Object.entries(files)
+    .flatMap(([file, content]) => extractor.extractCalls(file, content, functions))
+    .map(edge => `${edge.from} -> ${edge.to} (${edge.type}, line ${edge.line})`);
+  return { functions, edges };
+}
+
+describe('JSFunctionExtractor', () => {
+  const { functions, edges } = extractAll();
+
+  it('finds declarations, arrow functions, methods and object members', () => {
+    expect([...functions.keys()]).toEqual([
+      'src/math.ts:add', 'src/math.ts:double', 'src/math.ts:helper', 'src/math.ts:inner',
+      'src/store.ts:Store.create', 'src/store.ts:Store.save', 'src/store.ts:Store.normalize', 'src/store.ts:Store.reset',
+      'src/store.ts:api.get', 'src/store.ts:api.post',
+      'src/app.ts:main', 'src/app.ts:inner',
+    ]);
+  });
+
+  it('reports exact ranges and signatures', () => {
+    const add = functions.get('src/math.ts:add')!;
+    expect([add.line, add.endLine, add.signature]).toEqual([3, 5, '(a: any, b: any): any']);
+
+    const double = functions.get('src/math.ts:double')!;
+    expect([double.line, double.endLine, double.signature]).toEqual([7, 10, '<T extends number>(value: T, factor = 2): number']);
+
+    expect(functions.get('src/store.ts:Store.save')).toMatchObject({ line: 10, endLine: 12, isAsync: true, isMethod: true, className: 'Store' });
+  });
+
+  it('tells nested functions and exports apart', () => {
+    expect(functions.get('src/math.ts:helper')).toMatchObject({ isExported: true, isNested: false });
+    expect(functions.get('src/math.ts:inner')).toMatchObject({ isExported: false, isNested: true });
+    expect(functions.get('src/store.ts:Store.create')).toMatchObject({ isExported: true, isNested: false });
+    expect(functions.get('src/store.ts:Store.reset')!.isExported).toBe(false);
+    expect(functions.get('src/store.ts:api.get')).toMatchObject({ isExported: true, isMethod: true, className: undefined });
+  });
+
+  it('resolves calls through imports, barrels and namespaces', () => {
+    expect(edges).toEqual([
+      'src/math.ts:helper -> src/math.ts:inner (direct, line 16)',
+      'src/math.ts:helper -> src/math.ts:add (direct, line 16)',
+      'src/store.ts:Store.save -> src/store.ts:Store.normalize (method, line 11)',
+      'src/store.ts:Store.normalize -> src/math.ts:double (direct, line 14)',
+      'src/store.ts:api.post -> src/store.ts:api.get (method, line 22)',
+      'src/app.ts:main -> src/store.ts:Store.create (method, line 6)',
+      'src/app.ts:main -> src/math.ts:double (callback, line 7)',
+      'src/app.ts:main -> src/store.ts:Store.save (method, line 8)',
+      'src/app.ts:main -> src/math.ts:add (direct, line 8)',
+      'src/app.ts:main -> src/app.ts:inner (direct, line 13)',
+    ]);
+  });
+
+  it('does not count a declaration as a call to itself', () => {
+    const extractor = new JSFunctionExtractor();
+    const content = 'export function run(): void {\n  console.log("run");\n}\n';
+    const known = new Map(extractor.extractFunctions('run.ts', content).map(f => [f.id, f]));
+    expect(extractor.extractCalls('run.ts', content, known)).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { PassThrough } from 'node:stream';
+import { pathToFileURL } from 'node:url';
+
+/** Minimal scripted client: frames messages and matches responses to requests */
+function createClient(input: PassThrough, output: PassThrough) {
+  let buffer = Buffer.alloc(0);
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (value: any) => void; reject: (error: any) => void }>();
+  const notifications: Array<{ method: string; params: any }> = [];
+  const waiters: Array<{ method: string; resolve: (params: any) => void }> = [];
+
+  output.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) return;
+      const length = Number(buffer.subarray(0, headerEnd).toString().match(/Content-Length: (\d+)/)![1]);
+      if (buffer.length < headerEnd + 4 + length) return;
+      const message = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString('utf-8'));
+      buffer = buffer.subarray(headerEnd + 4 + length);
+
+      if (message.id !== undefined) {
+        const request = pending.get(message.id)!;
+        pending.delete(message.id);
+        if (message.error) request.reject(message.error);
+        else request.resolve(message.result);
+      } else {
+        const waiter = waiters.findIndex(w => w.method === message.method);
+        if (waiter === -1) notifications.push(message);
+        else waiters.splice(waiter, 1)[0].resolve(message.params);
+      }
+    }
+  });
+
+  const send = (message: object) => {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+  };
+
+  return {
+    request(method: string, params: unknown = {}): Promise<any> {
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        send({ id, method, params });
+      });
+    },
+    notify(method: string, params: unknown = {}) {
+      send({ method, params });
+    },
+    /** Resolves with the next notification of this method, including ones already received */
+    next(method: string): Promise<any> {
+      const queued = notifications.findIndex(n => n.method === method);
+      if (queued !== -1) return Promise.resolve(notifications.splice(queued, 1)[0].params);
+      return new Promise(resolve => waiters.push({ method, resolve }));
+    },
+  };
+}
+
+describe('language server', () => {
+  let tempDir: string;
+  let client: ReturnType<typeof createClient>;
+  let exitCode: number | undefined;
+
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(tempDir, file), content);
+  const uri = (file: string) => pathToFileURL(path.join(tempDir, file)).href;
+
+  /** Diagnostics by file for the next batch of publishDiagnostics notifications */
+  async function collectDiagnostics(count: number): Promise<Map<string, any[]>> {
+    const byFile = new Map<string, any[]>();
+    for (let i = 0; i < count; i++) {
+      const { uri: fileUri, diagnostics } = await client.next('textDocument/publishDiagnostics');
+      byFile.set(path.relative(tempDir, new URL(fileUri).pathname), diagnostics);
+    }
+    return byFile;
+  }
+
+  beforeEach(async () => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'consuela-test-')));
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    write('src/index.ts', `import { usedFunc } from './utils.js';
+import { a } from './a.js';
+export function main() { return usedFunc() + a(); }`);
+    write('src/utils.ts', `export function usedFunc() { return 1; }
+export function unusedFunc() { return 2; }`);
+    write('src/a.ts', `import { b } from './b.js';
+export const a = () => b();`);
+    write('src/b.ts', `import { a } from './a.js';
+export const b = (): number => (a ? 1 : 0);`);
+
+    const { createLanguageServer } = await import('../../src/lsp/server.js');
+    const toServer = new PassThrough();
+    const fromServer = new PassThrough();
+    exitCode = undefined;
+    createLanguageServer(toServer, fromServer, { onExit: code => { exitCode = code; } }).listen();
+    client = createClient(toServer, fromServer);
+
+    const result = await client.request('initialize', { processId: null, rootUri: pathToFileURL(tempDir).href, capabilities: {} });
+    expect(result.capabilities.referencesProvider).toBe(true);
+    client.notify('initialized');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('publishes unused exports and circular imports', async () => {
+    const diagnostics = await collectDiagnostics(3);
+
+    const utils = diagnostics.get('src/utils.ts')!;
+    expect(utils).toHaveLength(1);
+    expect(utils[0]).toMatchObject({ code: 'unused-export', severity: 2, tags: [1], data: { symbol: 'unusedFunc' } });
+    expect(utils[0].range).toEqual({ start: { line: 1, character: 16 }, end: { line: 1, character: 26 } });
+
+    const cycle = diagnostics.get('src/a.ts')!;
+    expect(cycle).toHaveLength(1);
+    expect(cycle[0].code).toBe('circular-dependency');
+    expect(cycle[0].message).toBe('Circular import: src/a.ts → src/b.ts → src/a.ts');
+    expect(cycle[0].range.start).toEqual({ line: 0, character: 19 });
+    expect(diagnostics.get('src/b.ts')![0].message).toBe('Circular import: src/b.ts → src/a.ts → src/b.ts');
+  });
+
+  it('shows usage counts as code lenses', async () => {
+    await collectDiagnostics(3);
+    const lenses = await client.request('textDocument/codeLens', { textDocument: { uri: uri('src/utils.ts') } });
+
+    expect(lenses.map((l: any) => l.command.title)).toEqual(['1 usage, 1 dependent file', '0 usages']);
+    expect(lenses[0].range.start).toEqual({ line: 0, character: 16 });
+  });
+
+  it('finds references from the declaration and from imports', async () => {
+    await collectDiagnostics(3);
+    const fromDeclaration = await client.request('textDocument/references', {
+      textDocument: { uri: uri('src/utils.ts') },
+      position: { line: 0, character: 18 },
+      context: { includeDeclaration: true },
+    });
+    expect(fromDeclaration.map((l: any) => `${path.basename(l.uri)}:${l.range.start.line}`)).toEqual(['utils.ts:0', 'index.ts:0', 'index.ts:2']);
+
+    const fromImport = await client.request('textDocument/references', {
+      textDocument: { uri: uri('src/index.ts') },
+      position: { line: 2, character: 35 },
+      context: { includeDeclaration: false },
+    });
+    expect(fromImport.map((l: any) => `${path.basename(l.uri)}:${l.range.start.line}`)).toEqual(['index.ts:0', 'index.ts:2']);
+  });
+
+  it('offers removing or un-exporting unused exports', async () => {
+    const diagnostics = (await collectDiagnostics(3)).get('src/utils.ts')!;
+    const actions = await client.request('textDocument/codeAction', {
+      textDocument: { uri: uri('src/utils.ts') },
+      range: diagnostics[0].range,
+      context: { diagnostics },
+    });
+
+    expect(actions.map((a: any) => [a.title, a.isPreferred])).toEqual([
+      ['Remove unused export unusedFunc', true],
+      ['Remove export keyword from unusedFunc', false],
+    ]);
+
+    const [removal] = actions[0].edit.changes[uri('src/utils.ts')];
+    expect(removal.range.start).toEqual({ line: 0, character: 0 });
+    expect(removal.newText).not.toContain('unusedFunc');
+    expect(removal.newText).toContain('export function usedFunc');
+
+    const [unexport] = actions[1].edit.changes[uri('src/utils.ts')];
+    expect(unexport.newText).toContain('\nfunction unusedFunc()');
+  });
+
+  it('offers no fixes for unsaved documents', async () => {
+    const diagnostics = (await collectDiagnostics(3)).get('src/utils.ts')!;
+    client.notify('textDocument/didOpen', { textDocument: { uri: uri('src/utils.ts'), languageId: 'typescript', version: 1, text: '' } });
+    client.notify('textDocument/didChange', {
+      textDocument: { uri: uri('src/utils.ts'), version: 2 },
+      contentChanges: [{ text: '// editing\n' + fs.readFileSync(path.join(tempDir, 'src/utils.ts'), 'utf-8') }],
+    });
+
+    const actions = await client.request('textDocument/codeAction', {
+      textDocument: { uri: uri('src/utils.ts') },
+      range: diagnostics[0].range,
+      context: { diagnostics },
+    });
+    expect(actions).toEqual([]);
+  });
+
+  it('updates diagnostics on save and clears fixed files', async () => {
+    await collectDiagnostics(3);
+
+    write('src/b.ts', `export const b = (): number => 1;`);
+    write('src/utils.ts', `export function usedFunc() { return 1; }`);
+    client.notify('textDocument/didSave', { textDocument: { uri: uri('src/b.ts') } });
+    client.notify('textDocument/didSave', { textDocument: { uri: uri('src/utils.ts') } });
+
+    // First save clears the cycle, second the unused exports
+    const afterCycle = await collectDiagnostics(3);
+    expect(afterCycle.get('src/a.ts')).toEqual([]);
+    expect(afterCycle.get('src/b.ts')).toEqual([]);
+    const afterUtils = await collectDiagnostics(1);
+    expect(afterUtils.get('src/utils.ts')).toEqual([]);
+  });
+
+  it('exits cleanly only after shutdown', async () => {
+    await collectDiagnostics(3);
+    await expect(client.request('textDocument/unknown')).rejects.toMatchObject({ code: -32601 });
+
+    expect(await client.request('shutdown')).toBeNull();
+    client.notify('exit');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(exitCode).toBe(0);
+  });
+});
@@ -198,6 +198,25 @@ class MyClass(BaseClass):
 
       expect(usages.some(u => u.type === 'extend')).toBe(true);
     });
+
+    it('excludes names listed in __all__', () => {
+      const content = `__all__ = [
+    'my_func',
+]
+my_func()`;
+      const usages = parser.findUsages('test.py', content, 'my_func', new Map());
+
+      expect(usages).toHaveLength(1);
+      expect(usages[0].line).toBe(4);
+    });
+
+    it('finds usages on consecutive lines', () => {
+      const content = `my_func()
+my_func()`;
+      const usages = parser.findUsages('test.py', content, 'my_func', new Map());
+
+      expect(usages).toHaveLength(2);
+    });
   });
 
   describe('metadata', () => {